@@ -0,0 +1,46 @@
+-- XIV Dye Tools - Full-Text Search for Presets
+-- Migration 0005: FTS5 index over preset name, description and tags
+--
+-- Replaces the LIKE '%...%' scans in getPresets() with a ranked,
+-- prefix-capable full-text index. The index uses presets as its external
+-- content table, so text is not duplicated; triggers keep it in sync.
+--
+-- Tags are indexed from the raw JSON column. The unicode61 tokenizer treats
+-- JSON punctuation ([ ] " ,) as separators, so only the tag words are indexed.
+
+-- ============================================
+-- PRESETS_FTS VIRTUAL TABLE
+-- ============================================
+CREATE VIRTUAL TABLE IF NOT EXISTS presets_fts USING fts5(
+  name,
+  description,
+  tags,
+  content = 'presets',
+  content_rowid = 'rowid',
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'                              -- Prefix indexes for "sun"* style queries
+);
+
+-- ============================================
+-- SYNC TRIGGERS
+-- ============================================
+CREATE TRIGGER IF NOT EXISTS presets_fts_insert AFTER INSERT ON presets BEGIN
+  INSERT INTO presets_fts (rowid, name, description, tags)
+  VALUES (new.rowid, new.name, new.description, new.tags);
+END;
+
+CREATE TRIGGER IF NOT EXISTS presets_fts_delete AFTER DELETE ON presets BEGIN
+  INSERT INTO presets_fts (presets_fts, rowid, name, description, tags)
+  VALUES ('delete', old.rowid, old.name, old.description, old.tags);
+END;
+
+CREATE TRIGGER IF NOT EXISTS presets_fts_update AFTER UPDATE OF name, description, tags ON presets BEGIN
+  INSERT INTO presets_fts (presets_fts, rowid, name, description, tags)
+  VALUES ('delete', old.rowid, old.name, old.description, old.tags);
+  INSERT INTO presets_fts (rowid, name, description, tags)
+  VALUES (new.rowid, new.name, new.description, new.tags);
+END;
+
+-- Backfill the index from existing presets
+-- Safe to re-run: 'rebuild' discards and regenerates the whole index
+INSERT INTO presets_fts (presets_fts) VALUES ('rebuild');
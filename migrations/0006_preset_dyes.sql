@@ -0,0 +1,26 @@
+-- XIV Dye Tools - Normalized Preset Dyes
+-- Migration 0006: preset_dyes lookup table for "presets containing dye X" queries
+--
+-- presets.dyes remains the source of truth for API responses (ordered JSON array).
+-- preset_dyes mirrors it one row per dye so listings can filter by dye ID with
+-- an index instead of parsing JSON. It is maintained by preset-service.ts
+-- (createPreset, updatePreset, revertPreset) and the seed script.
+
+-- ============================================
+-- PRESET_DYES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS preset_dyes (
+  preset_id TEXT NOT NULL,
+  dye_id INTEGER NOT NULL,                    -- Dye item ID, e.g. 5738
+  position INTEGER NOT NULL,                  -- 0-based index in presets.dyes
+  PRIMARY KEY (preset_id, position),
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: WHERE dye_id IN (...) GROUP BY preset_id (dye search)
+CREATE INDEX IF NOT EXISTS idx_preset_dyes_dye ON preset_dyes(dye_id, preset_id);
+
+-- Backfill from existing presets
+INSERT OR IGNORE INTO preset_dyes (preset_id, dye_id, position)
+SELECT presets.id, CAST(dye.value AS INTEGER), CAST(dye.key AS INTEGER)
+FROM presets, json_each(presets.dyes) AS dye;
@@ -0,0 +1,43 @@
+-- XIV Dye Tools - Preset Revisions
+-- Migration 0007: preset_revisions table for full edit history
+--
+-- Every create, edit and revert appends a revision holding the full post-change
+-- snapshot ({name, description, dyes, tags}), the fields that changed and who
+-- made the change. Revisions are written in the same batch as the preset change
+-- by preset-service.ts (createPreset, updatePreset, revertPreset).
+--
+-- previous_values is unchanged and still drives the single-step moderation revert.
+
+-- ============================================
+-- PRESET_REVISIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS preset_revisions (
+  id TEXT PRIMARY KEY,                        -- UUID v4
+  preset_id TEXT NOT NULL,
+  revision_number INTEGER NOT NULL,           -- 1-based, per preset
+  action TEXT NOT NULL,                       -- create | edit | revert | import
+  editor_discord_id TEXT,                     -- NULL for system changes (seed, backfill)
+  editor_name TEXT,
+  changed_fields TEXT NOT NULL,               -- JSON array: ["name", "dyes"]
+  snapshot TEXT NOT NULL,                     -- JSON: {"name", "description", "dyes", "tags"}
+  created_at TEXT DEFAULT (datetime('now')),
+  UNIQUE (preset_id, revision_number),
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- Backfill a baseline revision with the current state of existing presets
+INSERT OR IGNORE INTO preset_revisions (
+  id, preset_id, revision_number, action, editor_discord_id, editor_name,
+  changed_fields, snapshot, created_at
+)
+SELECT
+  lower(hex(randomblob(16))),
+  id,
+  1,
+  'import',
+  NULL,
+  NULL,
+  '["name","description","dyes","tags"]',
+  json_object('name', name, 'description', description, 'dyes', json(dyes), 'tags', json(tags)),
+  updated_at
+FROM presets;
@@ -0,0 +1,11 @@
+-- XIV Dye Tools - Preset Forks
+-- Migration 0008: forked_from_id for fork/remix attribution
+--
+-- A fork is a new preset created from an existing one via
+-- POST /api/v1/presets/:id/fork. forked_from_id points at the parent preset
+-- and is cleared if the parent is deleted (the fork itself is kept).
+
+ALTER TABLE presets ADD COLUMN forked_from_id TEXT REFERENCES presets(id) ON DELETE SET NULL;
+
+-- For: WHERE forked_from_id = ? AND status = 'approved' ORDER BY vote_count DESC (fork listing)
+CREATE INDEX IF NOT EXISTS idx_presets_forked_from ON presets(forked_from_id, status, vote_count DESC);
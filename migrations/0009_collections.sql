@@ -0,0 +1,43 @@
+-- XIV Dye Tools - Collections
+-- Migration 0009: user-curated, optionally public lists of presets
+--
+-- A collection belongs to one user and holds an ordered list of presets.
+-- Items whose preset is deleted are removed by the cascade (and explicitly in
+-- the preset delete batch); items whose preset is hidden, rejected or pending
+-- are kept but filtered out when reading, so they reappear if it is approved.
+
+-- ============================================
+-- COLLECTIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS collections (
+  id TEXT PRIMARY KEY,                        -- UUID v4
+  owner_discord_id TEXT NOT NULL,
+  owner_name TEXT,
+  name TEXT NOT NULL,                         -- 2-50 chars
+  description TEXT,                           -- 0-200 chars
+  is_public INTEGER DEFAULT 0,                -- SQLite boolean (0 or 1)
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+-- For: WHERE owner_discord_id = ? ORDER BY updated_at DESC (user's collections)
+CREATE INDEX IF NOT EXISTS idx_collections_owner ON collections(owner_discord_id, updated_at DESC);
+
+-- For: WHERE is_public = 1 ORDER BY updated_at DESC (public browsing)
+CREATE INDEX IF NOT EXISTS idx_collections_public ON collections(is_public, updated_at DESC);
+
+-- ============================================
+-- COLLECTION_ITEMS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS collection_items (
+  collection_id TEXT NOT NULL,
+  preset_id TEXT NOT NULL,
+  position INTEGER NOT NULL,                  -- 0-based display order
+  added_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (collection_id, preset_id),
+  FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE CASCADE,
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: DELETE FROM collection_items WHERE preset_id = ? (preset deletion)
+CREATE INDEX IF NOT EXISTS idx_collection_items_preset ON collection_items(preset_id);
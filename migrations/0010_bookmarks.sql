@@ -0,0 +1,22 @@
+-- XIV Dye Tools - Bookmarks
+-- Migration 0010: private per-user bookmarks, separate from votes
+--
+-- Bookmarks let users save presets for later without voting, so they never
+-- touch presets.vote_count or popularity/featured ranking.
+
+-- ============================================
+-- BOOKMARKS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS bookmarks (
+  user_discord_id TEXT NOT NULL,
+  preset_id TEXT NOT NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (user_discord_id, preset_id),
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: WHERE user_discord_id = ? ORDER BY created_at DESC (user's bookmarks)
+CREATE INDEX IF NOT EXISTS idx_bookmarks_user_created ON bookmarks(user_discord_id, created_at DESC);
+
+-- For: DELETE FROM bookmarks WHERE preset_id = ? (preset deletion)
+CREATE INDEX IF NOT EXISTS idx_bookmarks_preset ON bookmarks(preset_id);
@@ -0,0 +1,15 @@
+-- XIV Dye Tools - Trending Sort
+-- Migration 0011: precomputed trending_score for sort=trending
+--
+-- trending_score is the sum of time-decayed weights of votes from the last
+-- 7 days. It is recomputed from the votes table by the scheduled
+-- refreshTrendingScores() job (preset-service.ts), so listings can sort by an
+-- indexed column instead of aggregating votes per request.
+
+ALTER TABLE presets ADD COLUMN trending_score REAL NOT NULL DEFAULT 0;
+
+-- For: WHERE status = 'approved' ORDER BY trending_score DESC (trending presets)
+CREATE INDEX IF NOT EXISTS idx_presets_status_trending ON presets(status, trending_score DESC, created_at DESC);
+
+-- For: WHERE created_at >= ? (trending refresh window)
+CREATE INDEX IF NOT EXISTS idx_votes_created ON votes(created_at);
@@ -0,0 +1,24 @@
+-- XIV Dye Tools - Ban Hidden Presets
+-- Migration 0012: remember which presets a ban hid, and their prior status
+--
+-- Banning a user hides all of their presets (status = 'hidden'). Unbanning
+-- restores each preset the ban hid to the status it had before, unless a
+-- moderator has changed it since. Requires banned_users (migration 0003).
+
+-- ============================================
+-- BAN_HIDDEN_PRESETS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS ban_hidden_presets (
+  ban_id TEXT NOT NULL,
+  preset_id TEXT NOT NULL,
+  previous_status TEXT NOT NULL,              -- Status restored on unban
+  PRIMARY KEY (ban_id, preset_id),
+  FOREIGN KEY (ban_id) REFERENCES banned_users(id) ON DELETE CASCADE,
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: preset deletion cascades
+CREATE INDEX IF NOT EXISTS idx_ban_hidden_presets_preset ON ban_hidden_presets(preset_id);
+
+-- For: ban history by user (WHERE discord_id = ? ORDER BY banned_at DESC)
+CREATE INDEX IF NOT EXISTS idx_banned_users_discord_history ON banned_users(discord_id, banned_at DESC);
@@ -0,0 +1,29 @@
+-- XIV Dye Tools - Preset Reports
+-- Migration 0013: user-submitted reports on presets
+--
+-- Any signed-in user can report an approved preset once. When a preset
+-- collects REPORT_FLAG_THRESHOLD open reports it is auto-flagged for review.
+-- Moderators work the queue and close reports as resolved or dismissed.
+
+-- ============================================
+-- PRESET_REPORTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS preset_reports (
+  id TEXT PRIMARY KEY,                        -- UUID v4
+  preset_id TEXT NOT NULL,
+  reporter_discord_id TEXT NOT NULL,
+  reason TEXT NOT NULL,                       -- offensive_name | spam | stolen | other
+  details TEXT,                               -- Free text from the reporter
+  status TEXT NOT NULL DEFAULT 'open',        -- open | resolved | dismissed
+  created_at TEXT DEFAULT (datetime('now')),
+  resolved_at TEXT,
+  resolved_by_discord_id TEXT,
+  UNIQUE (preset_id, reporter_discord_id),    -- One report per user per preset
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: open report counts per preset (auto-flag threshold, moderator queue)
+CREATE INDEX IF NOT EXISTS idx_preset_reports_preset_status ON preset_reports(preset_id, status);
+
+-- For: WHERE status = 'open' ORDER BY created_at (moderator queue)
+CREATE INDEX IF NOT EXISTS idx_preset_reports_status_created ON preset_reports(status, created_at);
@@ -0,0 +1,29 @@
+-- XIV Dye Tools - Notification Outbox
+-- Migration 0014: durable delivery of Discord worker notifications
+--
+-- Notifications are written in the same batch as the change that causes
+-- them, then delivered by the deliver-notifications job (and an immediate
+-- attempt after the request). Failed deliveries back off exponentially and
+-- move to 'dead' after MAX_NOTIFICATION_ATTEMPTS; moderators can replay them.
+
+-- ============================================
+-- NOTIFICATION_OUTBOX TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id TEXT PRIMARY KEY,                        -- UUID v4
+  path TEXT NOT NULL,                         -- Discord worker webhook path
+  payload TEXT NOT NULL,                      -- JSON body
+  preset_id TEXT,                             -- Preset the event is about (not a FK: outlives deletes)
+  status TEXT NOT NULL DEFAULT 'pending',     -- pending | delivered | dead
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TEXT NOT NULL,
+  last_error TEXT,
+  created_at TEXT NOT NULL,
+  delivered_at TEXT
+);
+
+-- For: WHERE status = 'pending' AND next_attempt_at <= ? (delivery job)
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_due ON notification_outbox(status, next_attempt_at);
+
+-- For: moderator listing by status, newest first
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_status_created ON notification_outbox(status, created_at);
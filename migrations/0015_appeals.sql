@@ -0,0 +1,67 @@
+-- XIV Dye Tools - Appeals
+-- Migration 0015: appeals against preset rejections and bans
+--
+-- Authors can appeal a rejected preset or their active ban. Moderators grant
+-- (approving the preset or lifting the ban) or deny each appeal, and every
+-- decision is written to moderation_log.
+--
+-- moderation_log is rebuilt so entries can be about a user rather than a
+-- preset: preset_id becomes nullable and subject_discord_id records the user.
+
+-- ============================================
+-- MODERATION_LOG: nullable preset_id, subject_discord_id
+-- ============================================
+CREATE TABLE IF NOT EXISTS moderation_log_new (
+  id TEXT PRIMARY KEY,                    -- UUID v4
+  preset_id TEXT,                         -- NULL for actions on a user (e.g. ban appeals)
+  subject_discord_id TEXT,                -- User the action concerns (appeals)
+  moderator_discord_id TEXT NOT NULL,
+  action TEXT NOT NULL,                   -- approve | reject | flag | unflag | revert | hide | unhide | appeal_granted | appeal_denied
+  reason TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+INSERT INTO moderation_log_new (id, preset_id, moderator_discord_id, action, reason, created_at)
+SELECT id, preset_id, moderator_discord_id, action, reason, created_at FROM moderation_log;
+
+DROP TABLE moderation_log;
+ALTER TABLE moderation_log_new RENAME TO moderation_log;
+
+CREATE INDEX IF NOT EXISTS idx_moderation_log_preset ON moderation_log(preset_id);
+CREATE INDEX IF NOT EXISTS idx_moderation_log_moderator ON moderation_log(moderator_discord_id);
+CREATE INDEX IF NOT EXISTS idx_moderation_log_created ON moderation_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_log_subject ON moderation_log(subject_discord_id);
+
+-- ============================================
+-- APPEALS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS appeals (
+  id TEXT PRIMARY KEY,                        -- UUID v4
+  appellant_discord_id TEXT NOT NULL,
+  preset_id TEXT,                             -- Set for appeals against a rejection
+  ban_id TEXT,                                -- Set for appeals against a ban
+  message TEXT NOT NULL,                      -- 10-1000 chars, passed content moderation
+  status TEXT NOT NULL DEFAULT 'open',        -- open | granted | denied
+  created_at TEXT NOT NULL,
+  resolved_at TEXT,
+  resolved_by_discord_id TEXT,
+  resolution_note TEXT,                       -- Moderator's note, shown to the appellant
+  CHECK ((preset_id IS NULL) != (ban_id IS NULL)),
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE,
+  FOREIGN KEY (ban_id) REFERENCES banned_users(id) ON DELETE CASCADE
+);
+
+-- Only one open appeal per preset / ban
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appeals_preset_open
+  ON appeals(preset_id)
+  WHERE preset_id IS NOT NULL AND status = 'open';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appeals_ban_open
+  ON appeals(ban_id)
+  WHERE ban_id IS NOT NULL AND status = 'open';
+
+-- For: WHERE status = ? ORDER BY created_at (moderator queue)
+CREATE INDEX IF NOT EXISTS idx_appeals_status_created ON appeals(status, created_at);
+
+-- For: an appellant's own appeals
+CREATE INDEX IF NOT EXISTS idx_appeals_appellant ON appeals(appellant_discord_id, created_at DESC);
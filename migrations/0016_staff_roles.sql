@@ -0,0 +1,21 @@
+-- XIV Dye Tools - Staff Roles
+-- Migration 0016: moderator roles stored in the database
+--
+-- Replaces the single MODERATOR_IDS privilege level with roles: owner, admin,
+-- moderator and curator. Owners grant and revoke roles through the API, and
+-- each change is logged to moderation_log (role_granted | role_revoked, with
+-- the user in subject_discord_id). OWNER_DISCORD_ID and MODERATOR_IDS remain
+-- as bootstrap owner and admins.
+
+-- ============================================
+-- STAFF_ROLES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS staff_roles (
+  discord_id TEXT PRIMARY KEY,                -- One role per user
+  role TEXT NOT NULL CHECK (role IN ('owner', 'admin', 'moderator', 'curator')),
+  granted_by_discord_id TEXT NOT NULL,
+  granted_at TEXT NOT NULL
+);
+
+-- For: staff listing grouped by role
+CREATE INDEX IF NOT EXISTS idx_staff_roles_role ON staff_roles(role);
@@ -0,0 +1,31 @@
+-- XIV Dye Tools - Moderation Queue Claims
+-- Migration 0017: claims on pending presets and SLA escalations
+--
+-- A moderator claims a pending preset before reviewing it so others can skip
+-- it in the queue. Claims expire after 30 minutes; an expired claim is ignored
+-- and can be taken over. The escalate-overdue-pending job re-pings moderators
+-- about presets pending longer than MODERATION_SLA_HOURS and records when it
+-- last did so in preset_sla_escalations.
+
+-- ============================================
+-- PRESET_CLAIMS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS preset_claims (
+  preset_id TEXT PRIMARY KEY,                 -- One claim per preset
+  moderator_discord_id TEXT NOT NULL,
+  claimed_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: cleanup of expired claims
+CREATE INDEX IF NOT EXISTS idx_preset_claims_expires ON preset_claims(expires_at);
+
+-- ============================================
+-- PRESET_SLA_ESCALATIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS preset_sla_escalations (
+  preset_id TEXT PRIMARY KEY,
+  escalated_at TEXT NOT NULL,                 -- Last re-ping for this preset
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
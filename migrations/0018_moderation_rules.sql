@@ -0,0 +1,30 @@
+-- XIV Dye Tools - Auto-Moderation Rules
+-- Migration 0018: admin-editable rules evaluated by moderateContent
+--
+-- Rules add to the built-in checks (the local word list and a 0.7 threshold on
+-- each Perspective attribute, both sending content to pending). A perspective
+-- rule replaces the default threshold for its attribute. Of the rules that
+-- fire on a submission, the highest priority wins, then the most severe action
+-- (reject > pending > approve), so a higher-priority approve rule acts as an
+-- allowlist.
+
+-- ============================================
+-- MODERATION_RULES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS moderation_rules (
+  id TEXT PRIMARY KEY,                        -- UUID v4
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('keyword', 'regex', 'perspective', 'account_age')),
+  pattern TEXT,                               -- Keywords (comma-separated), regex source or Perspective attribute
+  threshold REAL,                             -- Perspective score (0-1] or account age in days
+  fields TEXT NOT NULL DEFAULT '["name","description","tags"]', -- JSON array; keyword and regex rules only
+  action TEXT NOT NULL CHECK (action IN ('approve', 'pending', 'reject')),
+  priority INTEGER NOT NULL DEFAULT 0,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_by_discord_id TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- For: loading enabled rules on every submission
+CREATE INDEX IF NOT EXISTS idx_moderation_rules_enabled ON moderation_rules(enabled, priority DESC);
@@ -0,0 +1,15 @@
+-- XIV Dye Tools - Pending Queue Clock
+-- Migration 0019: presets.pending_since
+--
+-- When the preset last entered the pending queue. Time in queue, SLA
+-- escalation and expire-stale-pending measure from it instead of updated_at,
+-- which every vote on the preset also bumps. Set by each write that moves a
+-- preset to pending; left alone while it stays pending.
+
+ALTER TABLE presets ADD COLUMN pending_since TEXT;
+
+-- Backfill: presets already pending entered the queue at their last update at the latest
+UPDATE presets SET pending_since = updated_at WHERE status = 'pending';
+
+-- For: WHERE status = 'pending' ORDER BY pending_since (queue, escalation, expiry)
+CREATE INDEX IF NOT EXISTS idx_presets_status_pending_since ON presets(status, pending_since);
@@ -0,0 +1,8 @@
+-- XIV Dye Tools - Collections Held For Review
+-- Migration 0020: collections.held_for_review
+--
+-- A collection whose name or description a 'pending' moderation rule matched
+-- is saved but held: it stays out of public listings and is only visible to
+-- its owner and moderators until an edit passes moderation.
+
+ALTER TABLE collections ADD COLUMN held_for_review INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,66 @@
+-- XIV Dye Tools - Keep Appeal and Revision History
+-- Migration 0021: appeals.preset_id and preset_revisions.preset_id become soft references
+--
+-- Deleting a preset used to delete its appeals and revisions (explicitly and
+-- through ON DELETE CASCADE). Both tables are rebuilt without the foreign key
+-- to presets so that history survives: preset_id keeps the deleted preset's
+-- ID. Open appeals against a deleted preset are closed by the delete itself.
+
+-- ============================================
+-- APPEALS: preset_id without a foreign key
+-- ============================================
+CREATE TABLE IF NOT EXISTS appeals_new (
+  id TEXT PRIMARY KEY,                        -- UUID v4
+  appellant_discord_id TEXT NOT NULL,
+  preset_id TEXT,                             -- Set for appeals against a rejection (kept if the preset is deleted)
+  ban_id TEXT,                                -- Set for appeals against a ban
+  message TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open',        -- open | granted | denied
+  created_at TEXT NOT NULL,
+  resolved_at TEXT,
+  resolved_by_discord_id TEXT,
+  resolution_note TEXT,
+  CHECK ((preset_id IS NULL) != (ban_id IS NULL)),
+  FOREIGN KEY (ban_id) REFERENCES banned_users(id) ON DELETE CASCADE
+);
+
+INSERT INTO appeals_new SELECT
+  id, appellant_discord_id, preset_id, ban_id, message, status, created_at,
+  resolved_at, resolved_by_discord_id, resolution_note
+FROM appeals;
+
+DROP TABLE appeals;
+ALTER TABLE appeals_new RENAME TO appeals;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appeals_preset_open
+  ON appeals(preset_id)
+  WHERE preset_id IS NOT NULL AND status = 'open';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appeals_ban_open
+  ON appeals(ban_id)
+  WHERE ban_id IS NOT NULL AND status = 'open';
+CREATE INDEX IF NOT EXISTS idx_appeals_status_created ON appeals(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_appeals_appellant ON appeals(appellant_discord_id, created_at DESC);
+
+-- ============================================
+-- PRESET_REVISIONS: preset_id without a foreign key
+-- ============================================
+CREATE TABLE IF NOT EXISTS preset_revisions_new (
+  id TEXT PRIMARY KEY,                    -- UUID v4
+  preset_id TEXT NOT NULL,                -- Kept if the preset is deleted
+  revision_number INTEGER NOT NULL,       -- 1-based, per preset
+  action TEXT NOT NULL,                   -- create | edit | revert | import
+  editor_discord_id TEXT,                 -- NULL for system changes (seed, backfill)
+  editor_name TEXT,
+  changed_fields TEXT NOT NULL,           -- JSON array: ["name", "dyes"]
+  snapshot TEXT NOT NULL,                 -- JSON: {"name", "description", "dyes", "tags"}
+  created_at TEXT DEFAULT (datetime('now')),
+  UNIQUE (preset_id, revision_number)
+);
+
+INSERT INTO preset_revisions_new SELECT
+  id, preset_id, revision_number, action, editor_discord_id, editor_name,
+  changed_fields, snapshot, created_at
+FROM preset_revisions;
+
+DROP TABLE preset_revisions;
+ALTER TABLE preset_revisions_new RENAME TO preset_revisions;
@@ -84,6 +84,129 @@ CREATE UNIQUE INDEX IF NOT EXISTS idx_presets_dye_signature ON presets(dye_signa
 -- Only populated when an edit is flagged by content moderation
 ALTER TABLE presets ADD COLUMN previous_values TEXT;
 
+-- Fork lineage: parent preset for presets created via POST /presets/:id/fork
+-- Cleared if the parent is deleted. See migrations/0008_preset_forks.sql
+ALTER TABLE presets ADD COLUMN forked_from_id TEXT REFERENCES presets(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_presets_forked_from ON presets(forked_from_id, status, vote_count DESC);
+
+-- Time-decayed score from the last 7 days of votes, for sort=trending
+-- Recomputed by the scheduled trending job. See migrations/0011_trending_score.sql
+ALTER TABLE presets ADD COLUMN trending_score REAL NOT NULL DEFAULT 0;
+CREATE INDEX IF NOT EXISTS idx_presets_status_trending ON presets(status, trending_score DESC, created_at DESC);
+
+-- When the preset last entered the pending queue (time in queue, SLA, expiry)
+-- Set by each write that moves a preset to pending. See migrations/0019_pending_since.sql
+ALTER TABLE presets ADD COLUMN pending_since TEXT;
+CREATE INDEX IF NOT EXISTS idx_presets_status_pending_since ON presets(status, pending_since);
+
+-- ============================================
+-- PRESETS FULL-TEXT SEARCH (FTS5)
+-- External-content index over presets, kept in sync by triggers
+-- See migrations/0005_presets_fts.sql
+-- ============================================
+CREATE VIRTUAL TABLE IF NOT EXISTS presets_fts USING fts5(
+  name,
+  description,
+  tags,
+  content = 'presets',
+  content_rowid = 'rowid',
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+CREATE TRIGGER IF NOT EXISTS presets_fts_insert AFTER INSERT ON presets BEGIN
+  INSERT INTO presets_fts (rowid, name, description, tags)
+  VALUES (new.rowid, new.name, new.description, new.tags);
+END;
+
+CREATE TRIGGER IF NOT EXISTS presets_fts_delete AFTER DELETE ON presets BEGIN
+  INSERT INTO presets_fts (presets_fts, rowid, name, description, tags)
+  VALUES ('delete', old.rowid, old.name, old.description, old.tags);
+END;
+
+CREATE TRIGGER IF NOT EXISTS presets_fts_update AFTER UPDATE OF name, description, tags ON presets BEGIN
+  INSERT INTO presets_fts (presets_fts, rowid, name, description, tags)
+  VALUES ('delete', old.rowid, old.name, old.description, old.tags);
+  INSERT INTO presets_fts (rowid, name, description, tags)
+  VALUES (new.rowid, new.name, new.description, new.tags);
+END;
+
+-- ============================================
+-- PRESET DYES TABLE
+-- One row per dye in presets.dyes, for dye ID filtering
+-- Maintained by preset-service.ts and the seed script
+-- ============================================
+CREATE TABLE IF NOT EXISTS preset_dyes (
+  preset_id TEXT NOT NULL,
+  dye_id INTEGER NOT NULL,                -- Dye item ID, e.g. 5738
+  position INTEGER NOT NULL,              -- 0-based index in presets.dyes
+  PRIMARY KEY (preset_id, position),
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: WHERE dye_id IN (...) GROUP BY preset_id (dye search)
+CREATE INDEX IF NOT EXISTS idx_preset_dyes_dye ON preset_dyes(dye_id, preset_id);
+
+-- ============================================
+-- PRESET REVISIONS TABLE
+-- Full edit history: one row per create/edit/revert
+-- Written by preset-service.ts in the same batch as the change
+-- Kept when the preset is deleted (no foreign key)
+-- See migrations/0007_preset_revisions.sql and 0021_keep_appeal_history.sql
+-- ============================================
+CREATE TABLE IF NOT EXISTS preset_revisions (
+  id TEXT PRIMARY KEY,                    -- UUID v4
+  preset_id TEXT NOT NULL,                -- Kept if the preset is deleted
+  revision_number INTEGER NOT NULL,       -- 1-based, per preset
+  action TEXT NOT NULL,                   -- create | edit | revert | import
+  editor_discord_id TEXT,                 -- NULL for system changes (seed, backfill)
+  editor_name TEXT,
+  changed_fields TEXT NOT NULL,           -- JSON array: ["name", "dyes"]
+  snapshot TEXT NOT NULL,                 -- JSON: {"name", "description", "dyes", "tags"}
+  created_at TEXT DEFAULT (datetime('now')),
+  UNIQUE (preset_id, revision_number)
+);
+
+-- ============================================
+-- COLLECTIONS TABLES
+-- User-curated, optionally public, ordered lists of presets
+-- Items only show presets that are currently approved
+-- See migrations/0009_collections.sql
+-- ============================================
+CREATE TABLE IF NOT EXISTS collections (
+  id TEXT PRIMARY KEY,                    -- UUID v4
+  owner_discord_id TEXT NOT NULL,
+  owner_name TEXT,
+  name TEXT NOT NULL,                     -- 2-50 chars
+  description TEXT,                       -- 0-200 chars
+  is_public INTEGER DEFAULT 0,            -- SQLite boolean (0 or 1)
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+-- For: WHERE owner_discord_id = ? ORDER BY updated_at DESC (user's collections)
+CREATE INDEX IF NOT EXISTS idx_collections_owner ON collections(owner_discord_id, updated_at DESC);
+
+-- For: WHERE is_public = 1 ORDER BY updated_at DESC (public browsing)
+CREATE INDEX IF NOT EXISTS idx_collections_public ON collections(is_public, updated_at DESC);
+
+-- Text matched a 'pending' moderation rule: hidden from the public until an edit passes
+-- See migrations/0020_collection_review.sql
+ALTER TABLE collections ADD COLUMN held_for_review INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS collection_items (
+  collection_id TEXT NOT NULL,
+  preset_id TEXT NOT NULL,
+  position INTEGER NOT NULL,              -- 0-based display order
+  added_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (collection_id, preset_id),
+  FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE CASCADE,
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: DELETE FROM collection_items WHERE preset_id = ? (preset deletion)
+CREATE INDEX IF NOT EXISTS idx_collection_items_preset ON collection_items(preset_id);
+
 -- ============================================
 -- VOTES TABLE
 -- One vote per user per preset (composite PK)
@@ -99,15 +222,64 @@ CREATE TABLE IF NOT EXISTS votes (
 -- Index for finding all votes by a user
 CREATE INDEX IF NOT EXISTS idx_votes_user ON votes(user_discord_id);
 
+-- Index for the trending refresh window (WHERE created_at >= ?)
+CREATE INDEX IF NOT EXISTS idx_votes_created ON votes(created_at);
+
+-- ============================================
+-- BOOKMARKS TABLE
+-- Private "save for later" list per user (composite PK)
+-- Separate from votes: never affects vote_count or ranking
+-- See migrations/0010_bookmarks.sql
+-- ============================================
+CREATE TABLE IF NOT EXISTS bookmarks (
+  user_discord_id TEXT NOT NULL,
+  preset_id TEXT NOT NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (user_discord_id, preset_id),
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: WHERE user_discord_id = ? ORDER BY created_at DESC (user's bookmarks)
+CREATE INDEX IF NOT EXISTS idx_bookmarks_user_created ON bookmarks(user_discord_id, created_at DESC);
+
+-- For: DELETE FROM bookmarks WHERE preset_id = ? (preset deletion)
+CREATE INDEX IF NOT EXISTS idx_bookmarks_preset ON bookmarks(preset_id);
+
+-- ============================================
+-- PRESET REPORTS TABLE
+-- User-submitted reports; enough open reports auto-flag a preset
+-- See migrations/0013_preset_reports.sql
+-- ============================================
+CREATE TABLE IF NOT EXISTS preset_reports (
+  id TEXT PRIMARY KEY,                        -- UUID v4
+  preset_id TEXT NOT NULL,
+  reporter_discord_id TEXT NOT NULL,
+  reason TEXT NOT NULL,                       -- offensive_name | spam | stolen | other
+  details TEXT,
+  status TEXT NOT NULL DEFAULT 'open',        -- open | resolved | dismissed
+  created_at TEXT DEFAULT (datetime('now')),
+  resolved_at TEXT,
+  resolved_by_discord_id TEXT,
+  UNIQUE (preset_id, reporter_discord_id),
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: open report counts per preset (auto-flag threshold, moderator queue)
+CREATE INDEX IF NOT EXISTS idx_preset_reports_preset_status ON preset_reports(preset_id, status);
+
+-- For: WHERE status = 'open' ORDER BY created_at (moderator queue)
+CREATE INDEX IF NOT EXISTS idx_preset_reports_status_created ON preset_reports(status, created_at);
+
 -- ============================================
 -- MODERATION LOG TABLE
 -- Audit trail for moderation actions
 -- ============================================
 CREATE TABLE IF NOT EXISTS moderation_log (
   id TEXT PRIMARY KEY,                    -- UUID v4
-  preset_id TEXT NOT NULL,
+  preset_id TEXT,                         -- NULL for actions on a user (e.g. ban appeals)
+  subject_discord_id TEXT,                -- User the action concerns (bans, appeals, staff roles)
   moderator_discord_id TEXT NOT NULL,
-  action TEXT NOT NULL,                   -- approve | reject | flag | unflag | revert
+  action TEXT NOT NULL,                   -- approve | reject | flag | unflag | revert | hide | unhide | ban | unban | appeal_granted | appeal_denied | role_granted | role_revoked | rule_created | rule_updated | rule_deleted
   reason TEXT,
   created_at TEXT DEFAULT (datetime('now')),
   FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
@@ -117,6 +289,178 @@ CREATE TABLE IF NOT EXISTS moderation_log (
 CREATE INDEX IF NOT EXISTS idx_moderation_log_preset ON moderation_log(preset_id);
 CREATE INDEX IF NOT EXISTS idx_moderation_log_moderator ON moderation_log(moderator_discord_id);
 CREATE INDEX IF NOT EXISTS idx_moderation_log_created ON moderation_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_log_subject ON moderation_log(subject_discord_id);
+
+-- ============================================
+-- BANNED USERS TABLE
+-- Users banned from Preset Palettes (see migrations/0003_add_banned_users.sql)
+-- A row is active until unbanned_at is set; history is kept
+-- ============================================
+CREATE TABLE IF NOT EXISTS banned_users (
+  id TEXT PRIMARY KEY,                        -- UUID v4
+  discord_id TEXT,                            -- Discord snowflake (nullable)
+  xivauth_id TEXT,                            -- XIVAuth UUID (nullable)
+  username TEXT NOT NULL,                     -- Username at time of ban
+  moderator_discord_id TEXT NOT NULL,         -- Discord ID of moderator who issued ban
+  reason TEXT NOT NULL,                       -- Reason for ban (10-500 chars)
+  banned_at TEXT DEFAULT (datetime('now')),   -- Timestamp of ban
+  unbanned_at TEXT,                           -- Timestamp of unban (NULL if still banned)
+  unban_moderator_discord_id TEXT,            -- Discord ID of moderator who unbanned
+  CHECK (discord_id IS NOT NULL OR xivauth_id IS NOT NULL)
+);
+
+-- Only one active ban per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_banned_users_discord_active
+  ON banned_users(discord_id)
+  WHERE discord_id IS NOT NULL AND unbanned_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_banned_users_xivauth_active
+  ON banned_users(xivauth_id)
+  WHERE xivauth_id IS NOT NULL AND unbanned_at IS NULL;
+
+-- For: listing active bans
+CREATE INDEX IF NOT EXISTS idx_banned_users_active
+  ON banned_users(banned_at DESC)
+  WHERE unbanned_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_banned_users_moderator ON banned_users(moderator_discord_id);
+
+-- For: ban history by user
+CREATE INDEX IF NOT EXISTS idx_banned_users_discord_history ON banned_users(discord_id, banned_at DESC);
+
+-- ============================================
+-- BAN HIDDEN PRESETS TABLE
+-- Presets hidden by a ban and the status to restore on unban
+-- See migrations/0012_ban_hidden_presets.sql
+-- ============================================
+CREATE TABLE IF NOT EXISTS ban_hidden_presets (
+  ban_id TEXT NOT NULL,
+  preset_id TEXT NOT NULL,
+  previous_status TEXT NOT NULL,
+  PRIMARY KEY (ban_id, preset_id),
+  FOREIGN KEY (ban_id) REFERENCES banned_users(id) ON DELETE CASCADE,
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: preset deletion cascades
+CREATE INDEX IF NOT EXISTS idx_ban_hidden_presets_preset ON ban_hidden_presets(preset_id);
+
+-- ============================================
+-- APPEALS TABLE
+-- Appeals against preset rejections and bans
+-- Kept when the preset is deleted (no foreign key on preset_id)
+-- See migrations/0015_appeals.sql and 0021_keep_appeal_history.sql
+-- ============================================
+CREATE TABLE IF NOT EXISTS appeals (
+  id TEXT PRIMARY KEY,                        -- UUID v4
+  appellant_discord_id TEXT NOT NULL,
+  preset_id TEXT,                             -- Set for appeals against a rejection (kept if the preset is deleted)
+  ban_id TEXT,                                -- Set for appeals against a ban
+  message TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open',        -- open | granted | denied
+  created_at TEXT NOT NULL,
+  resolved_at TEXT,
+  resolved_by_discord_id TEXT,
+  resolution_note TEXT,
+  CHECK ((preset_id IS NULL) != (ban_id IS NULL)),
+  FOREIGN KEY (ban_id) REFERENCES banned_users(id) ON DELETE CASCADE
+);
+
+-- Only one open appeal per preset / ban
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appeals_preset_open
+  ON appeals(preset_id)
+  WHERE preset_id IS NOT NULL AND status = 'open';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appeals_ban_open
+  ON appeals(ban_id)
+  WHERE ban_id IS NOT NULL AND status = 'open';
+
+-- For: WHERE status = ? ORDER BY created_at (moderator queue)
+CREATE INDEX IF NOT EXISTS idx_appeals_status_created ON appeals(status, created_at);
+
+-- For: an appellant's own appeals
+CREATE INDEX IF NOT EXISTS idx_appeals_appellant ON appeals(appellant_discord_id, created_at DESC);
+
+-- ============================================
+-- NOTIFICATION OUTBOX TABLE
+-- Discord worker notifications awaiting (or past) delivery
+-- See migrations/0014_notification_outbox.sql
+-- ============================================
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id TEXT PRIMARY KEY,                        -- UUID v4
+  path TEXT NOT NULL,                         -- Discord worker webhook path
+  payload TEXT NOT NULL,                      -- JSON body
+  preset_id TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',     -- pending | delivered | dead
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TEXT NOT NULL,
+  last_error TEXT,
+  created_at TEXT NOT NULL,
+  delivered_at TEXT
+);
+
+-- For: WHERE status = 'pending' AND next_attempt_at <= ? (delivery job)
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_due ON notification_outbox(status, next_attempt_at);
+
+-- For: moderator listing by status, newest first
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_status_created ON notification_outbox(status, created_at);
+
+-- ============================================
+-- STAFF ROLES TABLE
+-- Moderator roles (see migrations/0016_staff_roles.sql)
+-- OWNER_DISCORD_ID and MODERATOR_IDS remain as bootstrap owner and admins
+-- ============================================
+CREATE TABLE IF NOT EXISTS staff_roles (
+  discord_id TEXT PRIMARY KEY,                -- One role per user
+  role TEXT NOT NULL CHECK (role IN ('owner', 'admin', 'moderator', 'curator')),
+  granted_by_discord_id TEXT NOT NULL,
+  granted_at TEXT NOT NULL
+);
+
+-- For: staff listing grouped by role
+CREATE INDEX IF NOT EXISTS idx_staff_roles_role ON staff_roles(role);
+
+-- ============================================
+-- MODERATION QUEUE TABLES
+-- Claims on pending presets and SLA escalations
+-- See migrations/0017_queue_claims.sql
+-- ============================================
+CREATE TABLE IF NOT EXISTS preset_claims (
+  preset_id TEXT PRIMARY KEY,                 -- One claim per preset
+  moderator_discord_id TEXT NOT NULL,
+  claimed_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,                   -- Expired claims are ignored
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: cleanup of expired claims
+CREATE INDEX IF NOT EXISTS idx_preset_claims_expires ON preset_claims(expires_at);
+
+CREATE TABLE IF NOT EXISTS preset_sla_escalations (
+  preset_id TEXT PRIMARY KEY,
+  escalated_at TEXT NOT NULL,                 -- Last re-ping for this preset
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- ============================================
+-- MODERATION RULES TABLE
+-- Admin-editable auto-moderation rules, evaluated by moderateContent
+-- See migrations/0018_moderation_rules.sql
+-- ============================================
+CREATE TABLE IF NOT EXISTS moderation_rules (
+  id TEXT PRIMARY KEY,                        -- UUID v4
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('keyword', 'regex', 'perspective', 'account_age')),
+  pattern TEXT,                               -- Keywords (comma-separated), regex source or Perspective attribute
+  threshold REAL,                             -- Perspective score (0-1] or account age in days
+  fields TEXT NOT NULL DEFAULT '["name","description","tags"]', -- JSON array; keyword and regex rules only
+  action TEXT NOT NULL CHECK (action IN ('approve', 'pending', 'reject')),
+  priority INTEGER NOT NULL DEFAULT 0,        -- Highest priority fired rule decides
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_by_discord_id TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- For: loading enabled rules on every submission
+CREATE INDEX IF NOT EXISTS idx_moderation_rules_enabled ON moderation_rules(enabled, priority DESC);
 
 -- ============================================
 -- RATE LIMITING TABLE (optional, for persistent rate limits)
@@ -0,0 +1,108 @@
+/**
+ * Generate src/data/dye-catalog.ts from the xivdyetools-core dye database
+ *
+ * The catalog validates preset dye IDs, so it must list every dye in the
+ * game. Re-run this after upgrading xivdyetools-core instead of editing the
+ * generated file by hand.
+ *
+ * Usage:
+ *   npm run dyes:generate
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+import type { DyeAcquisition, DyeCategory } from '../src/data/dyes.js';
+
+const require = createRequire(import.meta.url);
+
+// Dye database shipped with the xivdyetools-core package
+const DYE_DATABASE_PATH = require.resolve('xivdyetools-core/dist/data/colors_xiv.json');
+
+const OUTPUT_PATH = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../src/data/dye-catalog.ts');
+
+/**
+ * Catalog order; also the categories a dye may have
+ */
+const CATEGORIES: readonly DyeCategory[] = [
+  'Neutral',
+  'Reds',
+  'Browns',
+  'Yellows',
+  'Greens',
+  'Blues',
+  'Purples',
+  'Special',
+];
+
+interface CoreDye {
+  itemID: number | null;
+  category: string;
+  name: string;
+  hex: string;
+  acquisition: string;
+}
+
+/**
+ * Map the core database's acquisition (e.g. "Kobold Vendor") to ours
+ */
+function toAcquisition(dye: CoreDye): DyeAcquisition {
+  if (dye.acquisition === 'Crafting') return 'Crafted';
+  if (dye.acquisition.endsWith(' Vendor')) return 'Vendor';
+  if (dye.acquisition === 'Venture Coffers') return 'Venture';
+  if (dye.acquisition.startsWith('Cosmic ')) return 'Cosmic';
+  throw new Error(`Unknown acquisition for dye ${dye.itemID} (${dye.name}): ${dye.acquisition}`);
+}
+
+/**
+ * Quote a string as a single-quoted TypeScript literal
+ */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function generate(): void {
+  const database: CoreDye[] = JSON.parse(fs.readFileSync(DYE_DATABASE_PATH, 'utf-8'));
+
+  // Facewear "dyes" have no item ID and can't be used in presets
+  const dyes = database.filter((dye) => dye.itemID !== null);
+
+  for (const dye of dyes) {
+    if (!CATEGORIES.includes(dye.category as DyeCategory)) {
+      throw new Error(`Unknown category for dye ${dye.itemID} (${dye.name}): ${dye.category}`);
+    }
+  }
+
+  const lines = [
+    '/**',
+    ' * FFXIV Dye Catalog',
+    ' *',
+    ' * GENERATED by scripts/generate-dye-catalog.ts from the xivdyetools-core',
+    ' * dye database. Do not edit by hand; run `npm run dyes:generate`.',
+    ' */',
+    '',
+    "import type { DyeInfo } from './dyes.js';",
+    '',
+    'export const dyeCatalog: readonly DyeInfo[] = [',
+  ];
+
+  for (const category of CATEGORIES) {
+    const inCategory = dyes
+      .filter((dye) => dye.category === category)
+      .sort((a, b) => (a.itemID as number) - (b.itemID as number));
+    lines.push(`  // ${category}`);
+    for (const dye of inCategory) {
+      lines.push(
+        `  { id: ${dye.itemID}, name: ${quote(dye.name)}, hex: '${dye.hex.toUpperCase()}', ` +
+          `category: '${category}', acquisition: '${toAcquisition(dye)}' },`
+      );
+    }
+  }
+
+  lines.push('];', '');
+  fs.writeFileSync(OUTPUT_PATH, lines.join('\n'));
+  console.error(`Wrote ${dyes.length} dyes to src/data/dye-catalog.ts`);
+}
+
+generate();
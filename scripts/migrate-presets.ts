@@ -15,6 +15,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { findUnknownDyeIds } from '../src/data/dyes.js';
 
 // Path to the presets.json in xivdyetools-core
 const PRESETS_PATH = path.resolve(
@@ -69,6 +70,17 @@ async function migrate(): Promise<void> {
   const rawData = fs.readFileSync(PRESETS_PATH, 'utf-8');
   const data: PresetData = JSON.parse(rawData);
 
+  // Refuse to seed presets that reference dyes missing from the catalog
+  const invalidPresets = data.palettes
+    .map((preset) => ({ preset, unknown: findUnknownDyeIds(preset.dyes) }))
+    .filter(({ unknown }) => unknown.length > 0);
+  if (invalidPresets.length > 0) {
+    const details = invalidPresets
+      .map(({ preset, unknown }) => `  ${preset.id} (${preset.name}): ${unknown.join(', ')}`)
+      .join('\n');
+    throw new Error(`Unknown dye IDs in presets.json:\n${details}`);
+  }
+
   console.log('-- XIV Dye Tools: Curated Presets Migration');
   console.log('-- Generated:', new Date().toISOString());
   console.log(`-- Source: presets.json v${data.version}`);
@@ -118,6 +130,26 @@ async function migrate(): Promise<void> {
         `'${dyeSignature}'` +
         `);`
     );
+
+    // Mirror dyes into the preset_dyes lookup table
+    // SELECT from presets so nothing is inserted if the preset was ignored as a duplicate
+    preset.dyes.forEach((dyeId, position) => {
+      console.log(
+        `INSERT OR IGNORE INTO preset_dyes (preset_id, dye_id, position) ` +
+          `SELECT id, ${Number(dyeId)}, ${position} FROM presets WHERE id = '${id}';`
+      );
+    });
+
+    // Baseline revision (no editor for curated presets)
+    console.log(
+      `INSERT OR IGNORE INTO preset_revisions (` +
+        `id, preset_id, revision_number, action, editor_discord_id, editor_name, ` +
+        `changed_fields, snapshot, created_at` +
+        `) SELECT '${crypto.randomUUID()}', id, 1, 'create', NULL, NULL, ` +
+        `'["name","description","dyes","tags"]', ` +
+        `json_object('name', name, 'description', description, 'dyes', json(dyes), 'tags', json(tags)), ` +
+        `created_at FROM presets WHERE id = '${id}';`
+    );
   }
 
   console.log('');
@@ -0,0 +1,144 @@
+/**
+ * FFXIV Dye Catalog
+ *
+ * GENERATED by scripts/generate-dye-catalog.ts from the xivdyetools-core
+ * dye database. Do not edit by hand; run `npm run dyes:generate`.
+ */
+
+import type { DyeInfo } from './dyes.js';
+
+export const dyeCatalog: readonly DyeInfo[] = [
+  // Neutral
+  { id: 5729, name: 'Snow White', hex: '#E4DFD0', category: 'Neutral', acquisition: 'Vendor' },
+  { id: 5730, name: 'Ash Grey', hex: '#ACA8A2', category: 'Neutral', acquisition: 'Vendor' },
+  { id: 5731, name: 'Goobbue Grey', hex: '#898784', category: 'Neutral', acquisition: 'Vendor' },
+  { id: 5732, name: 'Slate Grey', hex: '#656565', category: 'Neutral', acquisition: 'Vendor' },
+  { id: 5733, name: 'Charcoal Grey', hex: '#484742', category: 'Neutral', acquisition: 'Vendor' },
+  { id: 5734, name: 'Soot Black', hex: '#2B2923', category: 'Neutral', acquisition: 'Vendor' },
+  // Reds
+  { id: 5735, name: 'Rose Pink', hex: '#E69F96', category: 'Reds', acquisition: 'Vendor' },
+  { id: 5736, name: 'Lilac Purple', hex: '#836969', category: 'Reds', acquisition: 'Vendor' },
+  { id: 5737, name: 'Rolanberry Red', hex: '#5B1729', category: 'Reds', acquisition: 'Vendor' },
+  { id: 5738, name: 'Dalamud Red', hex: '#781A1A', category: 'Reds', acquisition: 'Crafted' },
+  { id: 5739, name: 'Rust Red', hex: '#622207', category: 'Reds', acquisition: 'Vendor' },
+  { id: 5740, name: 'Wine Red', hex: '#451511', category: 'Reds', acquisition: 'Crafted' },
+  { id: 5741, name: 'Coral Pink', hex: '#CC6C5E', category: 'Reds', acquisition: 'Vendor' },
+  { id: 5742, name: 'Blood Red', hex: '#913B27', category: 'Reds', acquisition: 'Vendor' },
+  { id: 5743, name: 'Salmon Pink', hex: '#E4AA8A', category: 'Reds', acquisition: 'Vendor' },
+  { id: 30116, name: 'Ruby Red', hex: '#E2000E', category: 'Reds', acquisition: 'Cosmic' },
+  { id: 30117, name: 'Cherry Pink', hex: '#F43195', category: 'Reds', acquisition: 'Cosmic' },
+  { id: 48163, name: 'Neon Pink', hex: '#F61296', category: 'Reds', acquisition: 'Cosmic' },
+  { id: 48227, name: 'Carmine Red', hex: '#E50B18', category: 'Reds', acquisition: 'Cosmic' },
+  // Browns
+  { id: 5744, name: 'Sunset Orange', hex: '#B75C2D', category: 'Browns', acquisition: 'Crafted' },
+  { id: 5745, name: 'Mesa Red', hex: '#7D3906', category: 'Browns', acquisition: 'Vendor' },
+  { id: 5746, name: 'Bark Brown', hex: '#6A4B37', category: 'Browns', acquisition: 'Vendor' },
+  { id: 5747, name: 'Chocolate Brown', hex: '#6E3D24', category: 'Browns', acquisition: 'Vendor' },
+  { id: 5748, name: 'Russet Brown', hex: '#4F2D1F', category: 'Browns', acquisition: 'Vendor' },
+  { id: 5749, name: 'Kobold Brown', hex: '#30211B', category: 'Browns', acquisition: 'Crafted' },
+  { id: 5750, name: 'Cork Brown', hex: '#C99156', category: 'Browns', acquisition: 'Vendor' },
+  { id: 5751, name: 'Qiqirn Brown', hex: '#996E3F', category: 'Browns', acquisition: 'Vendor' },
+  { id: 5752, name: 'Opo-Opo Brown', hex: '#7B5C2D', category: 'Browns', acquisition: 'Vendor' },
+  { id: 5753, name: 'Aldgoat Brown', hex: '#A2875C', category: 'Browns', acquisition: 'Vendor' },
+  { id: 5754, name: 'Pumpkin Orange', hex: '#C57424', category: 'Browns', acquisition: 'Crafted' },
+  { id: 5755, name: 'Acorn Brown', hex: '#8E581B', category: 'Browns', acquisition: 'Vendor' },
+  { id: 5756, name: 'Orchard Brown', hex: '#644216', category: 'Browns', acquisition: 'Vendor' },
+  { id: 5757, name: 'Chestnut Brown', hex: '#3D290D', category: 'Browns', acquisition: 'Vendor' },
+  { id: 5758, name: 'Gobbiebag Brown', hex: '#B9A489', category: 'Browns', acquisition: 'Vendor' },
+  { id: 5759, name: 'Shale Brown', hex: '#92816C', category: 'Browns', acquisition: 'Vendor' },
+  { id: 5760, name: 'Mole Brown', hex: '#615245', category: 'Browns', acquisition: 'Vendor' },
+  { id: 5761, name: 'Loam Brown', hex: '#3F3329', category: 'Browns', acquisition: 'Crafted' },
+  { id: 48164, name: 'Bright Orange', hex: '#F95513', category: 'Browns', acquisition: 'Cosmic' },
+  // Yellows
+  { id: 5762, name: 'Bone White', hex: '#EBD3A0', category: 'Yellows', acquisition: 'Vendor' },
+  { id: 5763, name: 'Ul Brown', hex: '#B7A370', category: 'Yellows', acquisition: 'Vendor' },
+  { id: 5764, name: 'Desert Yellow', hex: '#DBB457', category: 'Yellows', acquisition: 'Vendor' },
+  { id: 5765, name: 'Honey Yellow', hex: '#FAC62B', category: 'Yellows', acquisition: 'Crafted' },
+  { id: 5766, name: 'Millioncorn Yellow', hex: '#E49E34', category: 'Yellows', acquisition: 'Crafted' },
+  { id: 5767, name: 'Coeurl Yellow', hex: '#BC8804', category: 'Yellows', acquisition: 'Vendor' },
+  { id: 5768, name: 'Cream Yellow', hex: '#F2D770', category: 'Yellows', acquisition: 'Vendor' },
+  { id: 5769, name: 'Halatali Yellow', hex: '#A58430', category: 'Yellows', acquisition: 'Vendor' },
+  { id: 5770, name: 'Raisin Brown', hex: '#403311', category: 'Yellows', acquisition: 'Vendor' },
+  { id: 30118, name: 'Canary Yellow', hex: '#FEF75D', category: 'Yellows', acquisition: 'Cosmic' },
+  { id: 30119, name: 'Vanilla Yellow', hex: '#FBF0AF', category: 'Yellows', acquisition: 'Cosmic' },
+  { id: 48166, name: 'Neon Yellow', hex: '#E0E90B', category: 'Yellows', acquisition: 'Cosmic' },
+  // Greens
+  { id: 5771, name: 'Mud Green', hex: '#585230', category: 'Greens', acquisition: 'Vendor' },
+  { id: 5772, name: 'Sylph Green', hex: '#BBBB8A', category: 'Greens', acquisition: 'Vendor' },
+  { id: 5773, name: 'Lime Green', hex: '#ABB054', category: 'Greens', acquisition: 'Vendor' },
+  { id: 5774, name: 'Moss Green', hex: '#707326', category: 'Greens', acquisition: 'Vendor' },
+  { id: 5775, name: 'Meadow Green', hex: '#8B9C63', category: 'Greens', acquisition: 'Vendor' },
+  { id: 5776, name: 'Olive Green', hex: '#4B5232', category: 'Greens', acquisition: 'Vendor' },
+  { id: 5777, name: 'Marsh Green', hex: '#323621', category: 'Greens', acquisition: 'Vendor' },
+  { id: 5778, name: 'Apple Green', hex: '#9BB363', category: 'Greens', acquisition: 'Vendor' },
+  { id: 5779, name: 'Cactuar Green', hex: '#658241', category: 'Greens', acquisition: 'Vendor' },
+  { id: 5780, name: 'Hunter Green', hex: '#284B2C', category: 'Greens', acquisition: 'Vendor' },
+  { id: 5781, name: 'Ochu Green', hex: '#406339', category: 'Greens', acquisition: 'Crafted' },
+  { id: 5782, name: 'Adamantoise Green', hex: '#5F7558', category: 'Greens', acquisition: 'Vendor' },
+  { id: 5783, name: 'Nophica Green', hex: '#3B4D3C', category: 'Greens', acquisition: 'Vendor' },
+  { id: 5784, name: 'Deepwood Green', hex: '#1E2A21', category: 'Greens', acquisition: 'Crafted' },
+  { id: 5785, name: 'Celeste Green', hex: '#96BDB9', category: 'Greens', acquisition: 'Crafted' },
+  { id: 5786, name: 'Turquoise Green', hex: '#437272', category: 'Greens', acquisition: 'Vendor' },
+  { id: 5787, name: 'Morbol Green', hex: '#1F4646', category: 'Greens', acquisition: 'Vendor' },
+  { id: 48165, name: 'Neon Green', hex: '#BAF913', category: 'Greens', acquisition: 'Cosmic' },
+  // Blues
+  { id: 5788, name: 'Ice Blue', hex: '#B2C4CE', category: 'Blues', acquisition: 'Vendor' },
+  { id: 5789, name: 'Sky Blue', hex: '#83B0D2', category: 'Blues', acquisition: 'Vendor' },
+  { id: 5790, name: 'Seafog Blue', hex: '#6481A0', category: 'Blues', acquisition: 'Vendor' },
+  { id: 5791, name: 'Peacock Blue', hex: '#3B6886', category: 'Blues', acquisition: 'Vendor' },
+  { id: 5792, name: 'Rhotano Blue', hex: '#1C3D54', category: 'Blues', acquisition: 'Vendor' },
+  { id: 5793, name: 'Corpse Blue', hex: '#8E9BAC', category: 'Blues', acquisition: 'Vendor' },
+  { id: 5794, name: 'Ceruleum Blue', hex: '#4F5766', category: 'Blues', acquisition: 'Vendor' },
+  { id: 5795, name: 'Woad Blue', hex: '#2F3851', category: 'Blues', acquisition: 'Crafted' },
+  { id: 5796, name: 'Ink Blue', hex: '#1A1F27', category: 'Blues', acquisition: 'Vendor' },
+  { id: 5797, name: 'Raptor Blue', hex: '#5B7FC0', category: 'Blues', acquisition: 'Vendor' },
+  { id: 5798, name: 'Othard Blue', hex: '#2F5889', category: 'Blues', acquisition: 'Crafted' },
+  { id: 5799, name: 'Storm Blue', hex: '#234172', category: 'Blues', acquisition: 'Crafted' },
+  { id: 5800, name: 'Void Blue', hex: '#112944', category: 'Blues', acquisition: 'Crafted' },
+  { id: 5801, name: 'Royal Blue', hex: '#273067', category: 'Blues', acquisition: 'Vendor' },
+  { id: 5802, name: 'Midnight Blue', hex: '#181937', category: 'Blues', acquisition: 'Vendor' },
+  { id: 5803, name: 'Shadow Blue', hex: '#373747', category: 'Blues', acquisition: 'Vendor' },
+  { id: 5804, name: 'Abyssal Blue', hex: '#312D57', category: 'Blues', acquisition: 'Crafted' },
+  { id: 30120, name: 'Dragoon Blue', hex: '#000B9D', category: 'Blues', acquisition: 'Cosmic' },
+  { id: 30121, name: 'Turquoise Blue', hex: '#03AACA', category: 'Blues', acquisition: 'Cosmic' },
+  { id: 48168, name: 'Azure Blue', hex: '#4056A4', category: 'Blues', acquisition: 'Cosmic' },
+  // Purples
+  { id: 5805, name: 'Lavender Purple', hex: '#877FAE', category: 'Purples', acquisition: 'Vendor' },
+  { id: 5806, name: 'Gloom Purple', hex: '#514560', category: 'Purples', acquisition: 'Vendor' },
+  { id: 5807, name: 'Currant Purple', hex: '#322C3B', category: 'Purples', acquisition: 'Vendor' },
+  { id: 5808, name: 'Iris Purple', hex: '#B79EBC', category: 'Purples', acquisition: 'Vendor' },
+  { id: 5809, name: 'Grape Purple', hex: '#3B2A3D', category: 'Purples', acquisition: 'Vendor' },
+  { id: 5810, name: 'Lotus Pink', hex: '#FECEF5', category: 'Purples', acquisition: 'Crafted' },
+  { id: 5811, name: 'Colibri Pink', hex: '#DC9BCA', category: 'Purples', acquisition: 'Crafted' },
+  { id: 5812, name: 'Plum Purple', hex: '#79526C', category: 'Purples', acquisition: 'Crafted' },
+  { id: 5813, name: 'Regal Purple', hex: '#66304E', category: 'Purples', acquisition: 'Crafted' },
+  { id: 48167, name: 'Violet Purple', hex: '#6F5AA2', category: 'Purples', acquisition: 'Cosmic' },
+  // Special
+  { id: 13114, name: 'Pure White', hex: '#F9F8F4', category: 'Special', acquisition: 'Venture' },
+  { id: 13115, name: 'Jet Black', hex: '#1E1E1E', category: 'Special', acquisition: 'Venture' },
+  { id: 13116, name: 'Metallic Silver', hex: '#A7A7A7', category: 'Special', acquisition: 'Venture' },
+  { id: 13117, name: 'Metallic Gold', hex: '#EDE63D', category: 'Special', acquisition: 'Venture' },
+  { id: 13708, name: 'Pastel Pink', hex: '#FDC8C6', category: 'Special', acquisition: 'Venture' },
+  { id: 13709, name: 'Dark Red', hex: '#321919', category: 'Special', acquisition: 'Venture' },
+  { id: 13710, name: 'Dark Brown', hex: '#28211C', category: 'Special', acquisition: 'Venture' },
+  { id: 13711, name: 'Pastel Green', hex: '#BACFAA', category: 'Special', acquisition: 'Venture' },
+  { id: 13712, name: 'Dark Green', hex: '#152C2C', category: 'Special', acquisition: 'Venture' },
+  { id: 13713, name: 'Pastel Blue', hex: '#96A4D9', category: 'Special', acquisition: 'Venture' },
+  { id: 13714, name: 'Dark Blue', hex: '#121F2D', category: 'Special', acquisition: 'Venture' },
+  { id: 13715, name: 'Pastel Purple', hex: '#BBB5DA', category: 'Special', acquisition: 'Venture' },
+  { id: 13716, name: 'Dark Purple', hex: '#232026', category: 'Special', acquisition: 'Venture' },
+  { id: 13717, name: 'Metallic Red', hex: '#B61D4B', category: 'Special', acquisition: 'Venture' },
+  { id: 13718, name: 'Metallic Orange', hex: '#E48C2F', category: 'Special', acquisition: 'Venture' },
+  { id: 13719, name: 'Metallic Yellow', hex: '#F4DA46', category: 'Special', acquisition: 'Venture' },
+  { id: 13720, name: 'Metallic Green', hex: '#22A757', category: 'Special', acquisition: 'Venture' },
+  { id: 13721, name: 'Metallic Sky Blue', hex: '#49F8FD', category: 'Special', acquisition: 'Venture' },
+  { id: 13722, name: 'Metallic Blue', hex: '#5052D9', category: 'Special', acquisition: 'Venture' },
+  { id: 13723, name: 'Metallic Purple', hex: '#D361FF', category: 'Special', acquisition: 'Venture' },
+  { id: 30122, name: 'Gunmetal Black', hex: '#181820', category: 'Special', acquisition: 'Cosmic' },
+  { id: 30123, name: 'Pearl White', hex: '#BFB4A3', category: 'Special', acquisition: 'Cosmic' },
+  { id: 30124, name: 'Metallic Brass', hex: '#E9C06F', category: 'Special', acquisition: 'Cosmic' },
+  { id: 48169, name: 'Metallic Pink', hex: '#FFA1C2', category: 'Special', acquisition: 'Cosmic' },
+  { id: 48170, name: 'Metallic Ruby Red', hex: '#470103', category: 'Special', acquisition: 'Cosmic' },
+  { id: 48171, name: 'Metallic Cobalt Green', hex: '#28847F', category: 'Special', acquisition: 'Cosmic' },
+  { id: 48172, name: 'Metallic Dark Blue', hex: '#120445', category: 'Special', acquisition: 'Cosmic' },
+];
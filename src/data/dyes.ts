@@ -0,0 +1,65 @@
+/**
+ * FFXIV Dye Catalog
+ *
+ * Bundled list of dyes that presets may reference, keyed by in-game item ID
+ * (the values stored in presets.dyes). Hex colors match the dye swatches
+ * shown by XIV Dye Tools.
+ *
+ * Used to validate preset dye IDs and for color similarity scoring.
+ * The catalog itself (dye-catalog.ts) is generated from the xivdyetools-core
+ * dye database; run `npm run dyes:generate` after upgrading xivdyetools-core.
+ */
+
+import { dyeCatalog } from './dye-catalog.js';
+
+export type DyeCategory =
+  | 'Neutral'
+  | 'Reds'
+  | 'Browns'
+  | 'Yellows'
+  | 'Greens'
+  | 'Blues'
+  | 'Purples'
+  | 'Special';
+
+/**
+ * Primary way to obtain a dye
+ * - Vendor: sold by dye or beast tribe vendors
+ * - Crafted: made by Alchemists or bought on the market board
+ * - Venture: found in retainer venture coffers
+ * - Cosmic: Cosmic Exploration rewards
+ */
+export type DyeAcquisition = 'Vendor' | 'Crafted' | 'Venture' | 'Cosmic';
+
+export interface DyeInfo {
+  /** In-game item ID */
+  id: number;
+  /** English display name (without the "Dye" suffix) */
+  name: string;
+  /** sRGB swatch color, e.g. '#E4DFD0' */
+  hex: string;
+  category: DyeCategory;
+  acquisition: DyeAcquisition;
+}
+
+export { dyeCatalog };
+
+/**
+ * Lookup map by item ID (built once at module load)
+ */
+const dyesById = new Map<number, DyeInfo>(dyeCatalog.map((dye) => [dye.id, dye]));
+
+/**
+ * Get a dye by its item ID
+ * Returns undefined for IDs not in the catalog
+ */
+export function getDyeById(id: number): DyeInfo | undefined {
+  return dyesById.get(id);
+}
+
+/**
+ * Get the dye IDs that are not in the catalog (de-duplicated, in input order)
+ */
+export function findUnknownDyeIds(ids: number[]): number[] {
+  return [...new Set(ids.filter((id) => !dyesById.has(id)))];
+}
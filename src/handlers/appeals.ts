@@ -0,0 +1,142 @@
+/**
+ * Appeals Handler
+ * Routes for authors appealing a preset rejection or a ban
+ *
+ * Moderator routes for the appeal queue live in moderation.ts.
+ */
+
+import { Hono } from 'hono';
+import type { Env, AuthContext, AppealSubmission } from '../types.js';
+import { requireAuth, requireUserContext } from '../middleware/auth.js';
+import {
+  duplicateResponse,
+  forbiddenResponse,
+  invalidJsonResponse,
+  notFoundResponse,
+  validationErrorResponse,
+} from '../utils/api-response.js';
+import { getPresetById } from '../services/preset-service.js';
+import { getActiveBan, getBanById } from '../services/ban-service.js';
+import { moderateContent } from '../services/moderation-service.js';
+import {
+  APPEAL_MESSAGE_MIN_LENGTH,
+  APPEAL_MESSAGE_MAX_LENGTH,
+  getUserAppeals,
+  submitAppeal,
+} from '../services/appeal-service.js';
+
+type Variables = {
+  auth: AuthContext;
+};
+
+export const appealsRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// ============================================
+// ROUTES
+// ============================================
+
+/**
+ * GET /api/v1/appeals
+ * The user's own appeals, and their active ban (so it can be appealed)
+ */
+appealsRouter.get('/', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+
+  const [appeals, activeBan] = await Promise.all([
+    getUserAppeals(c.env.DB, auth.userDiscordId!),
+    getActiveBan(c.env.DB, auth.userDiscordId!),
+  ]);
+
+  return c.json({
+    appeals,
+    active_ban: activeBan
+      ? { id: activeBan.id, reason: activeBan.reason, banned_at: activeBan.banned_at }
+      : null,
+  });
+});
+
+/**
+ * POST /api/v1/appeals
+ * Appeal a rejected preset (preset_id) or your active ban (ban_id)
+ *
+ * Not behind the ban check: banned users must be able to appeal.
+ */
+appealsRouter.post('/', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+
+  let body: AppealSubmission;
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const hasPreset = typeof body.preset_id === 'string' && body.preset_id.length > 0;
+  const hasBan = typeof body.ban_id === 'string' && body.ban_id.length > 0;
+  if (hasPreset === hasBan) {
+    return validationErrorResponse(c, 'Provide exactly one of preset_id or ban_id');
+  }
+
+  const message = typeof body.message === 'string' ? body.message.trim() : '';
+  if (message.length < APPEAL_MESSAGE_MIN_LENGTH || message.length > APPEAL_MESSAGE_MAX_LENGTH) {
+    return validationErrorResponse(
+      c,
+      `Message must be ${APPEAL_MESSAGE_MIN_LENGTH}-${APPEAL_MESSAGE_MAX_LENGTH} characters`
+    );
+  }
+
+  const moderationResult = await moderateContent({ description: message }, c.env);
+  if (!moderationResult.passed) {
+    return validationErrorResponse(c, 'Appeal message contains content that is not allowed', {
+      field: 'message',
+    });
+  }
+
+  let target: { preset_id: string } | { ban_id: string };
+  if (hasPreset) {
+    const preset = await getPresetById(c.env.DB, body.preset_id!);
+    if (!preset) {
+      return notFoundResponse(c, 'Preset');
+    }
+    if (preset.author_discord_id !== auth.userDiscordId) {
+      return forbiddenResponse(c, 'You can only appeal your own presets');
+    }
+    if (preset.status !== 'rejected') {
+      return validationErrorResponse(c, 'Only rejected presets can be appealed');
+    }
+    target = { preset_id: preset.id };
+  } else {
+    const ban = await getBanById(c.env.DB, body.ban_id!);
+    // Don't reveal other users' bans
+    if (!ban || ban.discord_id !== auth.userDiscordId) {
+      return notFoundResponse(c, 'Ban');
+    }
+    if (!ban.is_active) {
+      return validationErrorResponse(c, 'This ban has already been lifted');
+    }
+    target = { ban_id: ban.id };
+  }
+
+  const appeal = await submitAppeal(c.env.DB, auth.userDiscordId!, target, message);
+  if (!appeal) {
+    return duplicateResponse(c, `An appeal is already open for this ${hasPreset ? 'preset' : 'ban'}`);
+  }
+
+  return c.json({ success: true, appeal }, 201);
+});
@@ -0,0 +1,157 @@
+/**
+ * Bans Handler
+ * Moderator routes for banning and unbanning users
+ */
+
+import { Hono } from 'hono';
+import type { Env, AuthContext, BanSubmission } from '../types.js';
+import { requirePermission, getBootstrapRole } from '../middleware/auth.js';
+import {
+  duplicateResponse,
+  forbiddenResponse,
+  invalidJsonResponse,
+  notFoundResponse,
+  validationErrorResponse,
+} from '../utils/api-response.js';
+import {
+  BAN_REASON_MIN_LENGTH,
+  BAN_REASON_MAX_LENGTH,
+  getActiveBan,
+  getActiveBans,
+  getBanHistory,
+  banUser,
+  unbanUser,
+} from '../services/ban-service.js';
+import { getStaffRole } from '../services/staff-service.js';
+
+type Variables = {
+  auth: AuthContext;
+};
+
+export const bansRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+/**
+ * Discord snowflakes are 17-19 digit numbers
+ */
+const DISCORD_ID_PATTERN = /^\d{17,19}$/;
+
+const MAX_USERNAME_LENGTH = 100;
+
+// ============================================
+// ROUTES
+// ============================================
+
+/**
+ * GET /api/v1/moderation/bans
+ * List active bans, most recent first
+ */
+bansRouter.get('/', async (c) => {
+  // Require staff privileges (curator and above)
+  const modError = await requirePermission(c, 'review');
+  if (modError) return modError;
+
+  const { page, limit } = c.req.query();
+
+  const response = await getActiveBans(c.env.DB, {
+    page: page ? parseInt(page, 10) : undefined,
+    limit: limit ? Math.min(parseInt(limit, 10), 100) : undefined, // Cap at 100 for performance
+  });
+
+  return c.json(response);
+});
+
+/**
+ * POST /api/v1/moderation/bans
+ * Ban a user and hide all of their presets
+ */
+bansRouter.post('/', async (c) => {
+  // Require moderator privileges
+  const modError = await requirePermission(c, 'moderate');
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+
+  let body: BanSubmission;
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  if (typeof body.discord_id !== 'string' || !DISCORD_ID_PATTERN.test(body.discord_id)) {
+    return validationErrorResponse(c, 'discord_id must be a Discord user ID');
+  }
+
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+  if (reason.length < BAN_REASON_MIN_LENGTH || reason.length > BAN_REASON_MAX_LENGTH) {
+    return validationErrorResponse(
+      c,
+      `Reason must be ${BAN_REASON_MIN_LENGTH}-${BAN_REASON_MAX_LENGTH} characters`
+    );
+  }
+
+  let username: string | undefined;
+  if (body.username !== undefined) {
+    username = typeof body.username === 'string' ? body.username.trim() : '';
+    if (username.length < 1 || username.length > MAX_USERNAME_LENGTH) {
+      return validationErrorResponse(c, `Username must be 1-${MAX_USERNAME_LENGTH} characters`);
+    }
+  }
+
+  // Staff must have their role revoked first
+  if (getBootstrapRole(body.discord_id, c.env) || (await getStaffRole(c.env.DB, body.discord_id))) {
+    return forbiddenResponse(c, 'Staff members cannot be banned');
+  }
+
+  if (await getActiveBan(c.env.DB, body.discord_id)) {
+    return duplicateResponse(c, 'User is already banned');
+  }
+
+  try {
+    const result = await banUser(c.env.DB, { discord_id: body.discord_id, username, reason }, auth.userDiscordId!);
+    return c.json({ success: true, ...result }, 201);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (errorMessage.includes('UNIQUE constraint failed')) {
+      // Race condition: another moderator banned this user first
+      return duplicateResponse(c, 'User is already banned');
+    }
+    throw error;
+  }
+});
+
+/**
+ * GET /api/v1/moderation/bans/:discordId
+ * Ban history for a user (active and lifted), most recent first
+ */
+bansRouter.get('/:discordId', async (c) => {
+  // Require staff privileges (curator and above)
+  const modError = await requirePermission(c, 'review');
+  if (modError) return modError;
+
+  const bans = await getBanHistory(c.env.DB, c.req.param('discordId'));
+
+  return c.json({
+    bans,
+    is_banned: bans.some((ban) => ban.is_active),
+  });
+});
+
+/**
+ * DELETE /api/v1/moderation/bans/:discordId
+ * Lift a user's active ban and restore the presets it hid
+ */
+bansRouter.delete('/:discordId', async (c) => {
+  // Require moderator privileges
+  const modError = await requirePermission(c, 'moderate');
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+
+  const result = await unbanUser(c.env.DB, c.req.param('discordId'), auth.userDiscordId!);
+  if (!result) {
+    return notFoundResponse(c, 'Active ban');
+  }
+
+  return c.json({ success: true, ...result });
+});
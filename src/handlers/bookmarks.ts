@@ -0,0 +1,139 @@
+/**
+ * Bookmarks Handler
+ * Routes for private preset bookmarks (separate from votes)
+ */
+
+import { Hono } from 'hono';
+import type { Env, AuthContext } from '../types.js';
+import { requireAuth, requireUserContext } from '../middleware/auth.js';
+import {
+  duplicateResponse,
+  notFoundResponse,
+  validationErrorResponse,
+} from '../utils/api-response.js';
+import {
+  MAX_BOOKMARK_LOOKUP_IDS,
+  addBookmark,
+  removeBookmark,
+  getBookmarkedPresets,
+  getBookmarkStatuses,
+} from '../services/bookmark-service.js';
+
+type Variables = {
+  auth: AuthContext;
+};
+
+export const bookmarksRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// ============================================
+// ROUTES
+// ============================================
+
+/**
+ * GET /api/v1/bookmarks
+ * List the current user's bookmarked presets, most recently saved first
+ */
+bookmarksRouter.get('/', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+  const { page, limit } = c.req.query();
+
+  const response = await getBookmarkedPresets(c.env.DB, auth.userDiscordId!, {
+    page: page ? parseInt(page, 10) : undefined,
+    limit: limit ? Math.min(parseInt(limit, 10), 50) : undefined, // Cap at 50 for performance
+  });
+
+  return c.json(response);
+});
+
+/**
+ * GET /api/v1/bookmarks/check?ids=id1,id2
+ * Batch lookup of bookmark state for a page of presets
+ * Returns { is_bookmarked: { [presetId]: boolean } }
+ */
+bookmarksRouter.get('/check', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+  const ids = (c.req.query('ids') || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+
+  if (ids.length === 0 || ids.length > MAX_BOOKMARK_LOOKUP_IDS) {
+    return validationErrorResponse(c, `ids must list 1-${MAX_BOOKMARK_LOOKUP_IDS} preset IDs`);
+  }
+
+  const statuses = await getBookmarkStatuses(c.env.DB, auth.userDiscordId!, [...new Set(ids)]);
+
+  return c.json({ is_bookmarked: statuses });
+});
+
+/**
+ * POST /api/v1/bookmarks/:presetId
+ * Bookmark an approved preset (does not vote)
+ */
+bookmarksRouter.post('/:presetId', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+  const presetId = c.req.param('presetId');
+
+  // Check preset exists and is publicly visible
+  const preset = await c.env.DB.prepare("SELECT id FROM presets WHERE id = ? AND status = 'approved'")
+    .bind(presetId)
+    .first();
+
+  if (!preset) {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  const added = await addBookmark(c.env.DB, auth.userDiscordId!, presetId);
+  if (!added) {
+    return duplicateResponse(c, 'Preset is already bookmarked');
+  }
+
+  return c.json({ success: true, is_bookmarked: true }, 201);
+});
+
+/**
+ * DELETE /api/v1/bookmarks/:presetId
+ * Remove a bookmark
+ */
+bookmarksRouter.delete('/:presetId', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+
+  const removed = await removeBookmark(c.env.DB, auth.userDiscordId!, c.req.param('presetId'));
+  if (!removed) {
+    return notFoundResponse(c, 'Bookmark');
+  }
+
+  return c.json({ success: true, is_bookmarked: false });
+});
@@ -0,0 +1,472 @@
+/**
+ * Collections Handler
+ * Routes for user-curated lists of presets
+ */
+
+import { Hono, type Context } from 'hono';
+import type {
+  Env,
+  AuthContext,
+  Collection,
+  CollectionEditRequest,
+  CollectionSubmission,
+} from '../types.js';
+import { hasPermission, requireAuth, requireUserContext } from '../middleware/auth.js';
+import { requireNotBannedCheck } from '../middleware/ban-check.js';
+import {
+  duplicateResponse,
+  forbiddenResponse,
+  invalidJsonResponse,
+  notFoundResponse,
+  validationErrorResponse,
+  internalErrorResponse,
+} from '../utils/api-response.js';
+import {
+  MAX_COLLECTIONS_PER_USER,
+  MAX_COLLECTION_ITEMS,
+  getCollectionById,
+  getCollectionsByOwner,
+  getPublicCollections,
+  countCollectionsByOwner,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  getCollectionPresets,
+  getCollectionItemIds,
+  addCollectionItem,
+  removeCollectionItem,
+  reorderCollectionItems,
+} from '../services/collection-service.js';
+import { getPresetById } from '../services/preset-service.js';
+import { moderateContent } from '../services/moderation-service.js';
+
+type Variables = {
+  auth: AuthContext;
+};
+
+export const collectionsRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+type CollectionsContext = Context<{ Bindings: Env; Variables: Variables }>;
+
+// ============================================
+// PUBLIC ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/v1/collections
+ * List public collections, most recently updated first
+ * Optional ?owner=<discord_id> restricts to one user's public collections
+ */
+collectionsRouter.get('/', async (c) => {
+  const { owner, page, limit } = c.req.query();
+
+  const response = await getPublicCollections(c.env.DB, {
+    owner: owner || undefined,
+    page: page ? parseInt(page, 10) : undefined,
+    limit: limit ? Math.min(parseInt(limit, 10), 50) : undefined, // Cap at 50 for performance
+  });
+
+  return c.json(response);
+});
+
+/**
+ * GET /api/v1/collections/mine
+ * Get the current user's collections (public and private)
+ */
+collectionsRouter.get('/mine', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+
+  const collections = await getCollectionsByOwner(c.env.DB, auth.userDiscordId!);
+
+  return c.json({
+    collections,
+    total: collections.length,
+  });
+});
+
+/**
+ * POST /api/v1/collections
+ * Create a collection
+ */
+collectionsRouter.post('/', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  // Check if user is banned
+  const banError = await requireNotBannedCheck(c);
+  if (banError) return banError;
+
+  const auth = c.get('auth');
+
+  // Parse request body
+  let body: CollectionSubmission;
+  try {
+    body = await c.req.json<CollectionSubmission>();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  if (!body.name) {
+    return validationErrorResponse(c, 'Name is required');
+  }
+  const validationError = validateCollectionFields(body);
+  if (validationError) {
+    return validationErrorResponse(c, validationError);
+  }
+
+  const owned = await countCollectionsByOwner(c.env.DB, auth.userDiscordId!);
+  if (owned >= MAX_COLLECTIONS_PER_USER) {
+    return validationErrorResponse(
+      c,
+      `You can have at most ${MAX_COLLECTIONS_PER_USER} collections`
+    );
+  }
+
+  const moderation = await moderateCollectionText(c, body.name, body.description || '');
+  if (moderation instanceof Response) return moderation;
+
+  const collection = await createCollection(
+    c.env.DB,
+    body,
+    auth.userDiscordId!,
+    auth.userName || 'Unknown User',
+    moderation.heldForReview
+  );
+
+  return c.json({ success: true, collection }, 201);
+});
+
+// ============================================
+// DYNAMIC ID ROUTES (must be after specific routes)
+// ============================================
+
+/**
+ * GET /api/v1/collections/:id
+ * Get a collection with its presets in order
+ * Private collections are only visible to their owner and moderators
+ */
+collectionsRouter.get('/:id', async (c) => {
+  const collection = await getCollectionById(c.env.DB, c.req.param('id'));
+  if (!collection || !(await canView(c, collection))) {
+    return notFoundResponse(c, 'Collection');
+  }
+
+  const presets = await getCollectionPresets(c.env.DB, collection.id);
+
+  return c.json({ ...collection, presets });
+});
+
+/**
+ * PATCH /api/v1/collections/:id
+ * Edit a collection's name, description or visibility (owner only)
+ */
+collectionsRouter.patch('/:id', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  // Check if user is banned
+  const banError = await requireNotBannedCheck(c);
+  if (banError) return banError;
+
+  const ownership = await getOwnedCollection(c);
+  if (ownership instanceof Response) return ownership;
+  const collection = ownership;
+
+  // Parse request body
+  let body: CollectionEditRequest;
+  try {
+    body = await c.req.json<CollectionEditRequest>();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  if (body.name === undefined && body.description === undefined && body.is_public === undefined) {
+    return validationErrorResponse(c, 'No updates provided');
+  }
+  const validationError = validateCollectionFields(body);
+  if (validationError) {
+    return validationErrorResponse(c, validationError);
+  }
+
+  // Re-moderate when the text changes; the result replaces any earlier hold
+  let heldForReview: boolean | undefined;
+  if (body.name !== undefined || body.description !== undefined) {
+    const moderation = await moderateCollectionText(
+      c,
+      body.name ?? collection.name,
+      (body.description !== undefined ? body.description : collection.description) || ''
+    );
+    if (moderation instanceof Response) return moderation;
+    heldForReview = moderation.heldForReview;
+  }
+
+  const updated = await updateCollection(c.env.DB, collection.id, body, heldForReview);
+  if (!updated) {
+    return internalErrorResponse(c, 'Failed to update collection');
+  }
+
+  return c.json({ success: true, collection: updated });
+});
+
+/**
+ * DELETE /api/v1/collections/:id
+ * Delete a collection (owner or moderator only)
+ */
+collectionsRouter.delete('/:id', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+
+  const collection = await getCollectionById(c.env.DB, c.req.param('id'));
+  if (!collection || !(await canView(c, collection))) {
+    return notFoundResponse(c, 'Collection');
+  }
+
+  // Only owner or moderator can delete
+  if (collection.owner_discord_id !== auth.userDiscordId && !(await hasPermission(c, 'moderate'))) {
+    return forbiddenResponse(c, "Cannot delete another user's collection");
+  }
+
+  await deleteCollection(c.env.DB, collection.id);
+
+  return c.json({ success: true, message: 'Collection deleted' });
+});
+
+/**
+ * POST /api/v1/collections/:id/items
+ * Add an approved preset to the end of a collection (owner only)
+ * Body: { preset_id: string }
+ */
+collectionsRouter.post('/:id/items', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  // Check if user is banned
+  const banError = await requireNotBannedCheck(c);
+  if (banError) return banError;
+
+  const ownership = await getOwnedCollection(c);
+  if (ownership instanceof Response) return ownership;
+  const collection = ownership;
+
+  // Parse request body
+  let body: { preset_id?: unknown };
+  try {
+    body = await c.req.json<{ preset_id?: unknown }>();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  if (typeof body.preset_id !== 'string' || body.preset_id.length === 0) {
+    return validationErrorResponse(c, 'preset_id is required');
+  }
+
+  // Only approved presets can be added; others may not be visible to the owner
+  const preset = await getPresetById(c.env.DB, body.preset_id);
+  if (!preset || preset.status !== 'approved') {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  const itemIds = await getCollectionItemIds(c.env.DB, collection.id);
+  if (itemIds.includes(preset.id)) {
+    return duplicateResponse(c, 'Preset is already in this collection');
+  }
+  if (itemIds.length >= MAX_COLLECTION_ITEMS) {
+    return validationErrorResponse(
+      c,
+      `A collection can hold at most ${MAX_COLLECTION_ITEMS} presets`
+    );
+  }
+
+  await addCollectionItem(c.env.DB, collection.id, preset.id);
+
+  return c.json({ success: true, collection_id: collection.id, preset_id: preset.id }, 201);
+});
+
+/**
+ * PUT /api/v1/collections/:id/items/order
+ * Reorder a collection (owner only)
+ * Body: { preset_ids: string[] } - listed presets move to the front in the given
+ * order; any unlisted items (e.g. currently hidden presets) keep their relative order after them
+ */
+collectionsRouter.put('/:id/items/order', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  // Check if user is banned
+  const banError = await requireNotBannedCheck(c);
+  if (banError) return banError;
+
+  const ownership = await getOwnedCollection(c);
+  if (ownership instanceof Response) return ownership;
+  const collection = ownership;
+
+  // Parse request body
+  let body: { preset_ids?: unknown };
+  try {
+    body = await c.req.json<{ preset_ids?: unknown }>();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const presetIds = body.preset_ids;
+  if (!Array.isArray(presetIds) || !presetIds.every((id) => typeof id === 'string')) {
+    return validationErrorResponse(c, 'preset_ids must be an array of preset IDs');
+  }
+  if (new Set(presetIds).size !== presetIds.length) {
+    return validationErrorResponse(c, 'preset_ids must not contain duplicates');
+  }
+
+  const itemIds = await getCollectionItemIds(c.env.DB, collection.id);
+  const unknownIds = presetIds.filter((id) => !itemIds.includes(id));
+  if (unknownIds.length > 0) {
+    return validationErrorResponse(c, 'Some presets are not in this collection', {
+      field: 'preset_ids',
+      invalid_values: unknownIds,
+    });
+  }
+
+  const listed = new Set(presetIds);
+  const order = [...presetIds, ...itemIds.filter((id) => !listed.has(id))];
+  await reorderCollectionItems(c.env.DB, collection.id, order);
+
+  const presets = await getCollectionPresets(c.env.DB, collection.id);
+
+  return c.json({ success: true, presets });
+});
+
+/**
+ * DELETE /api/v1/collections/:id/items/:presetId
+ * Remove a preset from a collection (owner only)
+ */
+collectionsRouter.delete('/:id/items/:presetId', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const ownership = await getOwnedCollection(c);
+  if (ownership instanceof Response) return ownership;
+  const collection = ownership;
+
+  const removed = await removeCollectionItem(c.env.DB, collection.id, c.req.param('presetId'));
+  if (!removed) {
+    return notFoundResponse(c, 'Collection item');
+  }
+
+  return c.json({ success: true, message: 'Preset removed from collection' });
+});
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Public collections are visible to everyone; private or held ones to the owner and moderators
+ */
+async function canView(c: CollectionsContext, collection: Collection): Promise<boolean> {
+  if (collection.is_public && !collection.held_for_review) return true;
+  const auth = c.get('auth');
+  if (!auth?.isAuthenticated) return false;
+  return collection.owner_discord_id === auth.userDiscordId || (await hasPermission(c, 'moderate'));
+}
+
+/**
+ * Load the :id collection and check the caller owns it
+ * Returns the collection, or an error response (404 if the caller can't see it, 403 if not the owner)
+ */
+async function getOwnedCollection(c: CollectionsContext): Promise<Collection | Response> {
+  const auth = c.get('auth');
+  const collection = await getCollectionById(c.env.DB, c.req.param('id')!);
+  if (!collection || !(await canView(c, collection))) {
+    return notFoundResponse(c, 'Collection');
+  }
+  if (collection.owner_discord_id !== auth.userDiscordId) {
+    return forbiddenResponse(c, 'You can only modify your own collections');
+  }
+  return collection;
+}
+
+/**
+ * Validate collection fields (shared between create and edit; all optional here)
+ */
+function validateCollectionFields(body: CollectionEditRequest): string | null {
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.length < 2 || body.name.length > 50) {
+      return 'Name must be 2-50 characters';
+    }
+  }
+
+  if (body.description !== undefined && body.description !== null) {
+    if (typeof body.description !== 'string' || body.description.length > 200) {
+      return 'Description must be at most 200 characters';
+    }
+  }
+
+  if (body.is_public !== undefined && typeof body.is_public !== 'boolean') {
+    return 'is_public must be a boolean';
+  }
+
+  return null;
+}
+
+/**
+ * Run collection text through content moderation
+ * Collections have no review queue: rejected text is refused, and text a
+ * 'pending' rule matched is saved but held out of public view
+ */
+async function moderateCollectionText(
+  c: CollectionsContext,
+  name: string,
+  description: string
+): Promise<Response | { heldForReview: boolean }> {
+  const auth = c.get('auth');
+  const moderationResult = await moderateContent({ name, description }, c.env, {
+    authorDiscordId: auth.userDiscordId,
+  });
+  if (moderationResult.action !== 'reject') {
+    return { heldForReview: moderationResult.action === 'pending' };
+  }
+  return validationErrorResponse(
+    c,
+    'Collection name or description contains content that is not allowed',
+    moderationResult.flaggedField ? { field: moderationResult.flaggedField } : undefined
+  );
+}
@@ -0,0 +1,178 @@
+/**
+ * Moderation Rules Handler
+ * Admin routes for editing auto-moderation rules, and a dry run for tuning them
+ */
+
+import { Hono } from 'hono';
+import type { Env, AuthContext, ModerationDryRunRequest, ModerationRuleInput } from '../types.js';
+import { requirePermission } from '../middleware/auth.js';
+import {
+  invalidJsonResponse,
+  notFoundResponse,
+  validationErrorResponse,
+} from '../utils/api-response.js';
+import {
+  buildModerationRuleDraft,
+  createModerationRule,
+  deleteModerationRule,
+  getModerationRule,
+  getModerationRules,
+  updateModerationRule,
+  validateModerationRule,
+} from '../services/moderation-rule-service.js';
+import { dryRunModeration } from '../services/moderation-service.js';
+
+type Variables = {
+  auth: AuthContext;
+};
+
+export const moderationRulesRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// ============================================
+// ROUTES
+// ============================================
+
+/**
+ * GET /api/v1/moderation/rules
+ * All rules, enabled or not, highest priority first
+ */
+moderationRulesRouter.get('/', async (c) => {
+  // Require moderator privileges
+  const permissionError = await requirePermission(c, 'moderate');
+  if (permissionError) return permissionError;
+
+  const rules = await getModerationRules(c.env.DB);
+
+  return c.json({ rules, total: rules.length });
+});
+
+/**
+ * POST /api/v1/moderation/rules/dry-run
+ * Show which rules would fire for the given content, without submitting anything
+ */
+moderationRulesRouter.post('/dry-run', async (c) => {
+  // Require moderator privileges
+  const permissionError = await requirePermission(c, 'moderate');
+  if (permissionError) return permissionError;
+
+  let body: ModerationDryRunRequest;
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  for (const field of ['name', 'description', 'author_discord_id'] as const) {
+    if (body[field] !== undefined && typeof body[field] !== 'string') {
+      return validationErrorResponse(c, `${field} must be a string`, { field });
+    }
+  }
+  if (body.tags !== undefined && (!Array.isArray(body.tags) || !body.tags.every((tag) => typeof tag === 'string'))) {
+    return validationErrorResponse(c, 'tags must be an array of strings', { field: 'tags' });
+  }
+  if (!body.name && !body.description && !body.tags?.length && !body.author_discord_id) {
+    return validationErrorResponse(c, 'Provide name, description, tags or author_discord_id to test');
+  }
+
+  const result = await dryRunModeration(
+    { name: body.name, description: body.description, tags: body.tags },
+    c.env,
+    { authorDiscordId: body.author_discord_id }
+  );
+
+  return c.json({
+    action: result.action,
+    passed: result.passed,
+    flagged_field: result.flaggedField ?? null,
+    flagged_fields: result.flaggedFields,
+    flagged_reason: result.flaggedReason ?? null,
+    fired_rules: result.fired_rules,
+    scores: result.scores ?? null,
+  });
+});
+
+/**
+ * POST /api/v1/moderation/rules
+ * Create a rule
+ */
+moderationRulesRouter.post('/', async (c) => {
+  // Require admin privileges
+  const permissionError = await requirePermission(c, 'operate');
+  if (permissionError) return permissionError;
+
+  const auth = c.get('auth');
+
+  let body: ModerationRuleInput;
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const draft = buildModerationRuleDraft(body);
+  const error = validateModerationRule(draft);
+  if (error) {
+    return validationErrorResponse(c, error.message, { field: error.field });
+  }
+
+  const rule = await createModerationRule(c.env.DB, draft, auth.userDiscordId!);
+
+  return c.json({ success: true, rule }, 201);
+});
+
+/**
+ * PATCH /api/v1/moderation/rules/:id
+ * Update any of a rule's fields; the result is validated as a whole
+ */
+moderationRulesRouter.patch('/:id', async (c) => {
+  // Require admin privileges
+  const permissionError = await requirePermission(c, 'operate');
+  if (permissionError) return permissionError;
+
+  const auth = c.get('auth');
+  const id = c.req.param('id');
+
+  let body: ModerationRuleInput;
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const existing = await getModerationRule(c.env.DB, id);
+  if (!existing) {
+    return notFoundResponse(c, 'Rule');
+  }
+
+  const draft = buildModerationRuleDraft(body, existing);
+  const error = validateModerationRule(draft);
+  if (error) {
+    return validationErrorResponse(c, error.message, { field: error.field });
+  }
+
+  const rule = await updateModerationRule(c.env.DB, existing, draft, auth.userDiscordId!);
+  if (!rule) {
+    return notFoundResponse(c, 'Rule');
+  }
+
+  return c.json({ success: true, rule });
+});
+
+/**
+ * DELETE /api/v1/moderation/rules/:id
+ * Delete a rule (set enabled: false to keep it around instead)
+ */
+moderationRulesRouter.delete('/:id', async (c) => {
+  // Require admin privileges
+  const permissionError = await requirePermission(c, 'operate');
+  if (permissionError) return permissionError;
+
+  const auth = c.get('auth');
+
+  const deleted = await deleteModerationRule(c.env.DB, c.req.param('id'), auth.userDiscordId!);
+  if (!deleted) {
+    return notFoundResponse(c, 'Rule');
+  }
+
+  return c.json({ success: true });
+});
@@ -4,13 +4,90 @@
  */
 
 import { Hono } from 'hono';
-import type { Env, AuthContext, PresetStatus } from '../types.js';
-import { requireModerator } from '../middleware/auth.js';
-import { getPresetById, getPendingPresets, updatePresetStatus, revertPreset } from '../services/preset-service.js';
+import type {
+  Env,
+  AuthContext,
+  AppealStatus,
+  BulkModerationItemResult,
+  BulkModerationOutcome,
+  BulkModerationRequest,
+  CommunityPreset,
+  ModerationLogAction,
+  ModerationLogCursor,
+  OutboxStatus,
+  PresetSnapshot,
+  PresetStatus,
+} from '../types.js';
+import { requirePermission, hasPermission } from '../middleware/auth.js';
 import {
+  MAX_BULK_PRESETS,
+  getPresetById,
+  getPresetsByIds,
+  updatePresetStatus,
+  bulkUpdatePresetStatus,
+  revertPreset,
+  getPresetRevision,
+  findDuplicatePresetExcluding,
+  isUniqueViolation,
+} from '../services/preset-service.js';
+import { findUnknownDyeIds } from '../data/dyes.js';
+import {
+  MAINTENANCE_JOBS,
+  getMaintenanceJob,
+  runMaintenanceJob,
+} from '../services/maintenance-service.js';
+import {
+  DEFAULT_INTEGRITY_REPORT_LIMIT,
+  MAX_INTEGRITY_REPORT_LIMIT,
+  getVoteIntegrityReport,
+} from '../services/vote-integrity-service.js';
+import {
+  getAuthorNotificationEvent,
+  buildAuthorNotification,
+  authorNotificationMessage,
+  scheduleOutboxDelivery,
+  OUTBOX_STATUSES,
+  getOutboxNotifications,
+  getOutboxNotification,
+  replayNotification,
+  type NotificationMessage,
+} from '../services/notification-service.js';
+import { getReportQueue, getPresetReports, resolveReports } from '../services/report-service.js';
+import {
+  APPEAL_STATUSES,
+  MAX_RESOLUTION_NOTE_LENGTH,
+  getAppealQueue,
+  getAppealById,
+  resolveAppeal,
+} from '../services/appeal-service.js';
+import { getBanById } from '../services/ban-service.js';
+import {
+  getPendingPresets,
+  getQueueMetrics,
+  resolveModerationSlaHours,
+  getActiveClaim,
+  claimPreset,
+  releaseClaim,
+} from '../services/queue-service.js';
+import {
+  MODERATION_LOG_ACTIONS,
+  DEFAULT_LOG_PAGE_SIZE,
+  MAX_LOG_PAGE_SIZE,
+  DEFAULT_LOG_EXPORT_SIZE,
+  MAX_LOG_EXPORT_SIZE,
+  getModerationLog,
+  decodeLogCursor,
+  moderationLogToCsv,
+} from '../services/moderation-log-service.js';
+import { getLogger, createWorkerLogger } from '../middleware/logger.js';
+import {
+  ErrorCode,
+  errorResponse,
   invalidJsonResponse,
   validationErrorResponse,
   notFoundResponse,
+  forbiddenResponse,
+  duplicateResponse,
   internalErrorResponse,
 } from '../utils/api-response.js';
 
@@ -20,17 +97,505 @@ type Variables = {
 
 export const moderationRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
 
+/**
+ * Statuses a moderator can set
+ */
+const MODERATION_STATUSES: PresetStatus[] = ['approved', 'rejected', 'flagged', 'pending'];
+
 /**
  * GET /api/v1/moderation/pending
- * List presets pending moderation
+ * List presets pending moderation, with claims and time-in-queue metrics
  */
 moderationRouter.get('/pending', async (c) => {
-  // Require moderator privileges
-  const modError = requireModerator(c);
+  // Require staff privileges (curator and above)
+  const modError = await requirePermission(c, 'review');
   if (modError) return modError;
 
   const presets = await getPendingPresets(c.env.DB);
-  return c.json({ presets, total: presets.length });
+  const metrics = getQueueMetrics(presets, resolveModerationSlaHours(c.env.MODERATION_SLA_HOURS));
+  return c.json({ presets, total: presets.length, metrics });
+});
+
+/**
+ * GET /api/v1/moderation/jobs
+ * List registered maintenance jobs and their cron schedules
+ */
+moderationRouter.get('/jobs', async (c) => {
+  // Require admin privileges
+  const modError = await requirePermission(c, 'operate');
+  if (modError) return modError;
+
+  const jobs = MAINTENANCE_JOBS.map(({ name, description, schedule }) => ({
+    name,
+    description,
+    schedule,
+  }));
+  return c.json({ jobs });
+});
+
+/**
+ * POST /api/v1/moderation/jobs/:name/run
+ * Run a maintenance job now (jobs are idempotent, so this is safe alongside the cron)
+ */
+moderationRouter.post('/jobs/:name/run', async (c) => {
+  // Require admin privileges
+  const modError = await requirePermission(c, 'operate');
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+  const job = getMaintenanceJob(c.req.param('name'));
+  if (!job) {
+    return notFoundResponse(c, 'Job');
+  }
+
+  const logger = getLogger(c) ?? createWorkerLogger(c.env, crypto.randomUUID());
+  logger.info('Maintenance job triggered manually', {
+    job: job.name,
+    moderator: auth.userDiscordId,
+  });
+
+  const run = await runMaintenanceJob(job, c.env, logger);
+  if (!run.success) {
+    return c.json(
+      {
+        success: false,
+        error: ErrorCode.INTERNAL_ERROR,
+        message: `Job ${job.name} failed`,
+        run,
+      },
+      500
+    );
+  }
+
+  return c.json({ success: true, run });
+});
+
+/**
+ * GET /api/v1/moderation/votes/integrity
+ * Report presets whose vote_count disagrees with the votes table (read-only)
+ * Fix them with POST /api/v1/moderation/jobs/reconcile-vote-counts/run
+ */
+moderationRouter.get('/votes/integrity', async (c) => {
+  // Require staff privileges (curator and above)
+  const modError = await requirePermission(c, 'review');
+  if (modError) return modError;
+
+  const limitParam = c.req.query('limit');
+  const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_INTEGRITY_REPORT_LIMIT;
+  if (isNaN(limit) || limit < 1 || limit > MAX_INTEGRITY_REPORT_LIMIT) {
+    return validationErrorResponse(c, `limit must be between 1 and ${MAX_INTEGRITY_REPORT_LIMIT}`);
+  }
+
+  const report = await getVoteIntegrityReport(c.env.DB, limit);
+  return c.json({ success: true, report });
+});
+
+/**
+ * GET /api/v1/moderation/reports
+ * Report queue: presets with open user reports, most reported first
+ */
+moderationRouter.get('/reports', async (c) => {
+  // Require staff privileges (curator and above)
+  const modError = await requirePermission(c, 'review');
+  if (modError) return modError;
+
+  const { page, limit } = c.req.query();
+
+  const response = await getReportQueue(c.env.DB, {
+    page: page ? parseInt(page, 10) : undefined,
+    limit: limit ? Math.min(parseInt(limit, 10), 100) : undefined, // Cap at 100 for performance
+  });
+
+  return c.json(response);
+});
+
+/**
+ * GET /api/v1/moderation/reports/:presetId
+ * All reports on a preset, including their free-text details
+ */
+moderationRouter.get('/reports/:presetId', async (c) => {
+  // Require staff privileges (curator and above)
+  const modError = await requirePermission(c, 'review');
+  if (modError) return modError;
+
+  const reports = await getPresetReports(c.env.DB, c.req.param('presetId'));
+  return c.json({ reports });
+});
+
+/**
+ * PATCH /api/v1/moderation/reports/:presetId
+ * Close a preset's open reports as resolved (action taken) or dismissed (no action)
+ * Closed reports no longer count toward auto-flagging
+ */
+moderationRouter.patch('/reports/:presetId', async (c) => {
+  // Require moderator privileges
+  const modError = await requirePermission(c, 'moderate');
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+  const presetId = c.req.param('presetId');
+
+  let body: { status: 'resolved' | 'dismissed' };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  if (body.status !== 'resolved' && body.status !== 'dismissed') {
+    return validationErrorResponse(c, 'Status must be one of: resolved, dismissed');
+  }
+
+  const closed = await resolveReports(c.env.DB, presetId, body.status, auth.userDiscordId!);
+  if (closed === 0) {
+    return notFoundResponse(c, 'Open reports');
+  }
+
+  return c.json({ success: true, closed });
+});
+
+/**
+ * GET /api/v1/moderation/appeals
+ * Appeal queue: open appeals oldest first (?status=granted|denied for closed ones)
+ */
+moderationRouter.get('/appeals', async (c) => {
+  // Require staff privileges (curator and above)
+  const modError = await requirePermission(c, 'review');
+  if (modError) return modError;
+
+  const { status, page, limit } = c.req.query();
+  if (status !== undefined && !APPEAL_STATUSES.includes(status as AppealStatus)) {
+    return validationErrorResponse(c, `Status must be one of: ${APPEAL_STATUSES.join(', ')}`);
+  }
+
+  const response = await getAppealQueue(c.env.DB, {
+    status: status as AppealStatus | undefined,
+    page: page ? parseInt(page, 10) : undefined,
+    limit: limit ? Math.min(parseInt(limit, 10), 100) : undefined, // Cap at 100 for performance
+  });
+
+  return c.json(response);
+});
+
+/**
+ * GET /api/v1/moderation/appeals/:id
+ * An appeal with the preset or ban it is against
+ */
+moderationRouter.get('/appeals/:id', async (c) => {
+  // Require staff privileges (curator and above)
+  const modError = await requirePermission(c, 'review');
+  if (modError) return modError;
+
+  const appeal = await getAppealById(c.env.DB, c.req.param('id'));
+  if (!appeal) {
+    return notFoundResponse(c, 'Appeal');
+  }
+
+  const [preset, ban] = await Promise.all([
+    appeal.preset_id ? getPresetById(c.env.DB, appeal.preset_id) : null,
+    appeal.ban_id ? getBanById(c.env.DB, appeal.ban_id) : null,
+  ]);
+
+  return c.json({ appeal, preset, ban });
+});
+
+/**
+ * PATCH /api/v1/moderation/appeals/:id
+ * Grant or deny an open appeal: { "status": "granted" | "denied", "note": "..." }
+ * Granting approves the rejected preset or lifts the ban; a note is required to deny
+ */
+moderationRouter.patch('/appeals/:id', async (c) => {
+  // Require moderator privileges
+  const modError = await requirePermission(c, 'moderate');
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+
+  let body: { status: 'granted' | 'denied'; note?: string };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  if (body.status !== 'granted' && body.status !== 'denied') {
+    return validationErrorResponse(c, 'Status must be one of: granted, denied');
+  }
+
+  const note = typeof body.note === 'string' ? body.note.trim() : '';
+  if (note.length > MAX_RESOLUTION_NOTE_LENGTH) {
+    return validationErrorResponse(c, `Note must be ${MAX_RESOLUTION_NOTE_LENGTH} characters or less`);
+  }
+  if (body.status === 'denied' && note.length === 0) {
+    return validationErrorResponse(c, 'A note is required to deny an appeal');
+  }
+
+  const appeal = await getAppealById(c.env.DB, c.req.param('id'));
+  if (!appeal || appeal.status !== 'open') {
+    return notFoundResponse(c, 'Open appeal');
+  }
+
+  // A granted preset appeal queues the usual author notification with the approval
+  const preset = body.status === 'granted' && appeal.preset_id ? await getPresetById(c.env.DB, appeal.preset_id) : null;
+  const payload = preset ? buildAuthorNotification({ ...preset, status: 'approved' }, 'approved', note || null) : null;
+
+  const result = await resolveAppeal(
+    c.env.DB,
+    appeal,
+    body.status,
+    auth.userDiscordId!,
+    note || null,
+    payload ? authorNotificationMessage(payload) : null
+  );
+  if (!result) {
+    return notFoundResponse(c, 'Open appeal');
+  }
+
+  if (payload && result.affected_presets > 0) {
+    scheduleOutboxDelivery(c.env, c.executionCtx);
+  }
+
+  return c.json({ success: true, ...result });
+});
+
+/**
+ * GET /api/v1/moderation/notifications
+ * Discord worker notifications in the outbox, newest first
+ * Use ?status=dead to see notifications that ran out of delivery attempts
+ */
+moderationRouter.get('/notifications', async (c) => {
+  // Require admin privileges
+  const modError = await requirePermission(c, 'operate');
+  if (modError) return modError;
+
+  const { status, page, limit } = c.req.query();
+  if (status !== undefined && !OUTBOX_STATUSES.includes(status as OutboxStatus)) {
+    return validationErrorResponse(c, `Status must be one of: ${OUTBOX_STATUSES.join(', ')}`);
+  }
+
+  const response = await getOutboxNotifications(c.env.DB, {
+    status: status as OutboxStatus | undefined,
+    page: page ? parseInt(page, 10) : undefined,
+    limit: limit ? Math.min(parseInt(limit, 10), 100) : undefined, // Cap at 100 for performance
+  });
+
+  return c.json(response);
+});
+
+/**
+ * POST /api/v1/moderation/notifications/:id/replay
+ * Requeue a dead notification with a fresh set of delivery attempts
+ */
+moderationRouter.post('/notifications/:id/replay', async (c) => {
+  // Require admin privileges
+  const modError = await requirePermission(c, 'operate');
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+  const id = c.req.param('id');
+
+  const existing = await getOutboxNotification(c.env.DB, id);
+  if (!existing) {
+    return notFoundResponse(c, 'Notification');
+  }
+  if (existing.status !== 'dead') {
+    return errorResponse(c, ErrorCode.CONFLICT, `Notification is ${existing.status}, only dead notifications can be replayed`, 409);
+  }
+
+  // Another moderator may have replayed it since the lookup
+  const notification = await replayNotification(c.env.DB, id);
+  if (!notification) {
+    return errorResponse(c, ErrorCode.CONFLICT, 'Notification was already replayed', 409);
+  }
+
+  const logger = getLogger(c) ?? createWorkerLogger(c.env, crypto.randomUUID());
+  logger.info('Notification replayed', { notification: id, moderator: auth.userDiscordId });
+
+  scheduleOutboxDelivery(c.env, c.executionCtx);
+
+  return c.json({ success: true, notification });
+});
+
+/**
+ * GET /api/v1/moderation/log
+ * Moderation log across all presets and users, newest first
+ *
+ * Filters: ?moderator=&action=approve,reject&preset_id=&subject=&from=&to=
+ * (from inclusive, to exclusive; ISO 8601 dates or timestamps)
+ * Pagination: ?cursor=<next_cursor>&limit=N
+ * Export: ?format=csv returns up to 5000 rows as a CSV download, with the
+ * next page's cursor in X-Next-Cursor
+ */
+moderationRouter.get('/log', async (c) => {
+  // Require staff privileges (curator and above)
+  const modError = await requirePermission(c, 'review');
+  if (modError) return modError;
+
+  const { moderator, action, preset_id, subject, from, to, cursor, limit, format } = c.req.query();
+
+  if (format !== undefined && format !== 'json' && format !== 'csv') {
+    return validationErrorResponse(c, 'format must be one of: json, csv');
+  }
+  const isCsv = format === 'csv';
+
+  let actions: ModerationLogAction[] | undefined;
+  if (action !== undefined) {
+    actions = action.split(',').map((a) => a.trim()) as ModerationLogAction[];
+    const invalid = actions.filter((a) => !MODERATION_LOG_ACTIONS.includes(a));
+    if (invalid.length > 0) {
+      return validationErrorResponse(
+        c,
+        `action must be a comma-separated list of: ${MODERATION_LOG_ACTIONS.join(', ')}`,
+        { field: 'action', invalid_values: invalid }
+      );
+    }
+  }
+
+  // Normalize date bounds to the ISO timestamps stored in created_at
+  const bounds: { from?: string; to?: string } = {};
+  for (const [key, value] of [['from', from], ['to', to]] as const) {
+    if (value === undefined) continue;
+    const time = Date.parse(value);
+    if (isNaN(time)) {
+      return validationErrorResponse(c, `${key} must be an ISO 8601 date or timestamp`, { field: key });
+    }
+    bounds[key] = new Date(time).toISOString();
+  }
+  if (bounds.from && bounds.to && bounds.from >= bounds.to) {
+    return validationErrorResponse(c, 'from must be before to');
+  }
+
+  const maxLimit = isCsv ? MAX_LOG_EXPORT_SIZE : MAX_LOG_PAGE_SIZE;
+  let pageSize = isCsv ? DEFAULT_LOG_EXPORT_SIZE : DEFAULT_LOG_PAGE_SIZE;
+  if (limit !== undefined) {
+    pageSize = Number(limit);
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > maxLimit) {
+      return validationErrorResponse(c, `limit must be between 1 and ${maxLimit}`);
+    }
+  }
+
+  let decoded: ModerationLogCursor | undefined;
+  if (cursor !== undefined) {
+    decoded = decodeLogCursor(cursor) ?? undefined;
+    if (!decoded) {
+      return validationErrorResponse(c, 'Invalid cursor');
+    }
+  }
+
+  const page = await getModerationLog(
+    c.env.DB,
+    { moderator, actions, preset_id, subject, ...bounds, limit: pageSize },
+    decoded
+  );
+
+  if (isCsv) {
+    const headers: Record<string, string> = {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="moderation-log.csv"',
+    };
+    if (page.next_cursor) {
+      headers['X-Next-Cursor'] = page.next_cursor;
+    }
+    return c.body(moderationLogToCsv(page.entries), 200, headers);
+  }
+
+  return c.json(page);
+});
+
+/**
+ * POST /api/v1/moderation/bulk
+ * Set the status of several presets at once: { "preset_ids": [...], "status": "rejected", "reason": "..." }
+ *
+ * Every change is logged and applied in one atomic batch. Results are per preset,
+ * in request order: presets that don't exist or already have the status are skipped,
+ * and a preset whose status changed while the batch ran is reported as a conflict.
+ */
+moderationRouter.post('/bulk', async (c) => {
+  // Require moderator privileges
+  const modError = await requirePermission(c, 'moderate');
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+
+  let body: BulkModerationRequest;
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  if (
+    !Array.isArray(body.preset_ids) ||
+    !body.preset_ids.every((id) => typeof id === 'string' && id.length > 0)
+  ) {
+    return validationErrorResponse(c, 'preset_ids must be an array of preset IDs', { field: 'preset_ids' });
+  }
+
+  const presetIds = [...new Set(body.preset_ids)];
+  if (presetIds.length === 0 || presetIds.length > MAX_BULK_PRESETS) {
+    return validationErrorResponse(c, `preset_ids must contain between 1 and ${MAX_BULK_PRESETS} presets`, {
+      field: 'preset_ids',
+    });
+  }
+
+  if (!body.status || !MODERATION_STATUSES.includes(body.status)) {
+    return validationErrorResponse(c, `Status must be one of: ${MODERATION_STATUSES.join(', ')}`);
+  }
+
+  if (body.reason !== undefined && typeof body.reason !== 'string') {
+    return validationErrorResponse(c, 'reason must be a string', { field: 'reason' });
+  }
+
+  const presets = new Map(
+    (await getPresetsByIds(c.env.DB, presetIds)).map((preset) => [preset.id, preset])
+  );
+  const changes = presetIds.flatMap((id) => {
+    const preset = presets.get(id);
+    return preset && preset.status !== body.status
+      ? [
+          {
+            preset,
+            action: getActionFromStatusChange(preset.status, body.status),
+            notification: statusChangeNotification(preset, body.status, body.reason),
+          },
+        ]
+      : [];
+  });
+
+  const updated = await bulkUpdatePresetStatus(
+    c.env.DB,
+    changes,
+    body.status,
+    auth.userDiscordId!,
+    body.reason || null
+  );
+
+  const results: BulkModerationItemResult[] = presetIds.map((id) => {
+    const preset = presets.get(id);
+    if (!preset) return { preset_id: id, outcome: 'not_found' };
+
+    let outcome: BulkModerationOutcome = 'conflict';
+    if (preset.status === body.status) outcome = 'already_in_status';
+    else if (updated.has(id)) outcome = 'succeeded';
+    return { preset_id: id, outcome, previous_status: preset.status };
+  });
+
+  // Approvals and rejections were queued for their authors in the same batch
+  if (changes.some(({ preset, notification }) => notification && updated.has(preset.id))) {
+    scheduleOutboxDelivery(c.env, c.executionCtx);
+  }
+
+  const summary: Record<BulkModerationOutcome, number> = {
+    succeeded: 0,
+    not_found: 0,
+    already_in_status: 0,
+    conflict: 0,
+  };
+  for (const result of results) {
+    summary[result.outcome]++;
+  }
+
+  return c.json({ success: true, status: body.status, results, summary });
 });
 
 /**
@@ -39,7 +604,7 @@ moderationRouter.get('/pending', async (c) => {
  */
 moderationRouter.patch('/:presetId/status', async (c) => {
   // Require moderator privileges
-  const modError = requireModerator(c);
+  const modError = await requirePermission(c, 'moderate');
   if (modError) return modError;
 
   const auth = c.get('auth');
@@ -54,9 +619,8 @@ moderationRouter.patch('/:presetId/status', async (c) => {
   }
 
   // Validate status
-  const validStatuses: PresetStatus[] = ['approved', 'rejected', 'flagged', 'pending'];
-  if (!body.status || !validStatuses.includes(body.status)) {
-    return validationErrorResponse(c, `Status must be one of: ${validStatuses.join(', ')}`);
+  if (!body.status || !MODERATION_STATUSES.includes(body.status)) {
+    return validationErrorResponse(c, `Status must be one of: ${MODERATION_STATUSES.join(', ')}`);
   }
 
   // Get current preset
@@ -65,20 +629,25 @@ moderationRouter.patch('/:presetId/status', async (c) => {
     return notFoundResponse(c, 'Preset');
   }
 
-  // Log moderation action
-  const logId = crypto.randomUUID();
-  const now = new Date().toISOString();
-  const action = getActionFromStatusChange(preset.status, body.status);
-
-  await c.env.DB.prepare(
-    `INSERT INTO moderation_log (id, preset_id, moderator_discord_id, action, reason, created_at)
-     VALUES (?, ?, ?, ?, ?, ?)`
-  )
-    .bind(logId, presetId, auth.userDiscordId!, action, body.reason || null, now)
-    .run();
+  // Log, update and notify the author in one batch, guarded on the status seen here
+  const updatedPreset = await updatePresetStatus(
+    c.env.DB,
+    {
+      preset,
+      action: getActionFromStatusChange(preset.status, body.status),
+      notification: statusChangeNotification(preset, body.status, body.reason),
+    },
+    body.status,
+    auth.userDiscordId!,
+    body.reason || null
+  );
+  if (!updatedPreset) {
+    return errorResponse(c, ErrorCode.CONFLICT, 'Preset status changed while this request ran, try again', 409);
+  }
 
-  // Update preset status
-  const updatedPreset = await updatePresetStatus(c.env.DB, presetId, body.status);
+  if (getAuthorNotificationEvent(preset.status, body.status)) {
+    scheduleOutboxDelivery(c.env, c.executionCtx);
+  }
 
   return c.json({
     success: true,
@@ -88,18 +657,19 @@ moderationRouter.patch('/:presetId/status', async (c) => {
 
 /**
  * PATCH /api/v1/moderation/:presetId/revert
- * Revert a preset to its previous values (when edit was flagged)
+ * Revert a preset to its previous values (when edit was flagged),
+ * or restore any revision by passing { revision: N }
  */
 moderationRouter.patch('/:presetId/revert', async (c) => {
   // Require moderator privileges
-  const modError = requireModerator(c);
+  const modError = await requirePermission(c, 'moderate');
   if (modError) return modError;
 
   const auth = c.get('auth');
   const presetId = c.req.param('presetId');
 
-  // Parse request body for reason
-  let body: { reason: string };
+  // Parse request body for reason (and optional revision to restore)
+  let body: { reason: string; revision?: number };
   try {
     body = await c.req.json();
   } catch {
@@ -117,42 +687,159 @@ moderationRouter.patch('/:presetId/revert', async (c) => {
     return notFoundResponse(c, 'Preset');
   }
 
-  // Check if there are previous values to revert to
-  if (!preset.previous_values) {
+  let target: PresetSnapshot;
+  if (body.revision !== undefined) {
+    // Restore a specific revision
+    if (!Number.isInteger(body.revision) || body.revision < 1) {
+      return validationErrorResponse(c, 'Revision must be a positive integer');
+    }
+    const revision = await getPresetRevision(c.env.DB, presetId, body.revision);
+    if (!revision) {
+      return notFoundResponse(c, 'Revision');
+    }
+    target = revision.snapshot;
+  } else if (preset.previous_values) {
+    target = preset.previous_values;
+  } else {
+    // Check if there are previous values to revert to
     return validationErrorResponse(c, 'This preset has no previous values to revert to');
   }
 
-  // Perform the revert
-  const revertedPreset = await revertPreset(c.env.DB, presetId);
+  // The restored dyes must still be in the catalog and not used by another preset
+  const unknownDyes = findUnknownDyeIds(target.dyes);
+  if (unknownDyes.length > 0) {
+    return validationErrorResponse(c, `Unknown dye IDs: ${unknownDyes.join(', ')}`, {
+      field: 'dyes',
+      invalid_values: unknownDyes,
+    });
+  }
+
+  const duplicate = await findDuplicatePresetExcluding(c.env.DB, target.dyes, presetId);
+  if (duplicate) {
+    return c.json(
+      {
+        success: false,
+        error: ErrorCode.DUPLICATE_RESOURCE,
+        message: 'This dye combination already exists',
+        duplicate: {
+          id: duplicate.id,
+          name: duplicate.name,
+          author_name: duplicate.author_name,
+        },
+      },
+      409
+    );
+  }
+
+  // Revert, log it and tell the author in one batch
+  let revertedPreset: CommunityPreset | null;
+  try {
+    revertedPreset = await revertPreset(c.env.DB, presetId, {
+      revision: body.revision,
+      editor: { discordId: auth.userDiscordId!, name: auth.userName || null },
+      log: { moderatorDiscordId: auth.userDiscordId!, reason: body.reason },
+      notification: (reverted) => {
+        const payload = buildAuthorNotification(reverted, 'reverted', body.reason);
+        return payload ? authorNotificationMessage(payload) : null;
+      },
+    });
+  } catch (error) {
+    // Another preset took the dye combination after the check above
+    if (isUniqueViolation(error, 'presets.dye_signature')) {
+      return duplicateResponse(c, 'This dye combination already exists');
+    }
+    throw error;
+  }
   if (!revertedPreset) {
     return internalErrorResponse(c, 'Failed to revert preset');
   }
 
-  // Log moderation action
-  const logId = crypto.randomUUID();
-  const now = new Date().toISOString();
-
-  await c.env.DB.prepare(
-    `INSERT INTO moderation_log (id, preset_id, moderator_discord_id, action, reason, created_at)
-     VALUES (?, ?, ?, ?, ?, ?)`
-  )
-    .bind(logId, presetId, auth.userDiscordId!, 'revert', body.reason, now)
-    .run();
+  if (revertedPreset.author_discord_id) {
+    scheduleOutboxDelivery(c.env, c.executionCtx);
+  }
 
   return c.json({
     success: true,
     preset: revertedPreset,
-    message: 'Preset reverted to previous values',
+    message:
+      body.revision !== undefined
+        ? `Preset restored to revision ${body.revision}`
+        : 'Preset reverted to previous values',
   });
 });
 
+/**
+ * POST /api/v1/moderation/:presetId/claim
+ * Claim a pending preset for review, or renew your claim
+ */
+moderationRouter.post('/:presetId/claim', async (c) => {
+  // Require moderator privileges
+  const modError = await requirePermission(c, 'moderate');
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+  const presetId = c.req.param('presetId');
+
+  const preset = await getPresetById(c.env.DB, presetId);
+  if (!preset) {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  const claim =
+    preset.status === 'pending' ? await claimPreset(c.env.DB, presetId, auth.userDiscordId!) : null;
+  if (!claim) {
+    // Either claimed by someone else, or no longer pending
+    const existing = await getActiveClaim(c.env.DB, presetId);
+    return errorResponse(
+      c,
+      ErrorCode.CONFLICT,
+      existing
+        ? `Preset is claimed by ${existing.moderator_discord_id} until ${existing.expires_at}`
+        : 'Only pending presets can be claimed',
+      409
+    );
+  }
+
+  return c.json({ success: true, claim });
+});
+
+/**
+ * DELETE /api/v1/moderation/:presetId/claim
+ * Release a claim (your own; admins can release anyone's)
+ */
+moderationRouter.delete('/:presetId/claim', async (c) => {
+  // Require moderator privileges
+  const modError = await requirePermission(c, 'moderate');
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+  const presetId = c.req.param('presetId');
+
+  const claim = await getActiveClaim(c.env.DB, presetId);
+  if (!claim) {
+    return notFoundResponse(c, 'Claim');
+  }
+
+  if (claim.moderator_discord_id !== auth.userDiscordId && !(await hasPermission(c, 'operate'))) {
+    return forbiddenResponse(c, 'You can only release your own claim');
+  }
+
+  // Released by holder, so a claim taken over in the meantime is left alone
+  const released = await releaseClaim(c.env.DB, presetId, claim.moderator_discord_id);
+  if (!released) {
+    return notFoundResponse(c, 'Claim');
+  }
+
+  return c.json({ success: true });
+});
+
 /**
  * GET /api/v1/moderation/:presetId/history
  * Get moderation history for a preset
  */
 moderationRouter.get('/:presetId/history', async (c) => {
-  // Require moderator privileges
-  const modError = requireModerator(c);
+  // Require staff privileges (curator and above)
+  const modError = await requirePermission(c, 'review');
   if (modError) return modError;
 
   const presetId = c.req.param('presetId');
@@ -173,8 +860,8 @@ moderationRouter.get('/:presetId/history', async (c) => {
  * Get moderation statistics
  */
 moderationRouter.get('/stats', async (c) => {
-  // Require moderator privileges
-  const modError = requireModerator(c);
+  // Require staff privileges (curator and above)
+  const modError = await requirePermission(c, 'review');
   if (modError) return modError;
 
   const query = `
@@ -194,6 +881,20 @@ moderationRouter.get('/stats', async (c) => {
 // HELPER FUNCTIONS
 // ============================================
 
+/**
+ * Outbox message telling the author about an approval or rejection
+ * Null for other status changes and for presets without a Discord author
+ */
+function statusChangeNotification(
+  preset: CommunityPreset,
+  status: PresetStatus,
+  reason: string | undefined
+): NotificationMessage | null {
+  const event = getAuthorNotificationEvent(preset.status, status);
+  const payload = event ? buildAuthorNotification({ ...preset, status }, event, reason) : null;
+  return payload ? authorNotificationMessage(payload) : null;
+}
+
 function getActionFromStatusChange(
   oldStatus: PresetStatus,
   newStatus: PresetStatus
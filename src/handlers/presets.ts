@@ -3,9 +3,20 @@
  * Routes for preset listing, retrieval, and submission
  */
 
-import { Hono } from 'hono';
-import type { Env, AuthContext, PresetFilters, PresetSubmission, PresetEditRequest, PresetPreviousValues } from '../types.js';
-import { requireAuth, requireUserContext } from '../middleware/auth.js';
+import { Hono, type Context } from 'hono';
+import type {
+  Env,
+  AuthContext,
+  CommunityPreset,
+  ContentModerationResult,
+  PresetListFilters,
+  PresetSubmission,
+  PresetEditRequest,
+  PresetPreviousValues,
+  ReportSubmission,
+  SimilarPreset,
+} from '../types.js';
+import { hasPermission, requireAuth, requireUserContext } from '../middleware/auth.js';
 import { requireNotBannedCheck } from '../middleware/ban-check.js';
 import {
   ErrorCode,
@@ -14,10 +25,14 @@ import {
   validationErrorResponse,
   forbiddenResponse,
   notFoundResponse,
+  duplicateResponse,
   internalErrorResponse,
 } from '../utils/api-response.js';
 import {
   getPresets,
+  getPresetsByCursor,
+  decodePresetCursor,
+  resolvePresetSort,
   getFeaturedPresets,
   getPresetById,
   getPresetsByUser,
@@ -25,8 +40,31 @@ import {
   findDuplicatePresetExcluding,
   createPreset,
   updatePreset,
+  findSimilarPresets,
+  findNearDuplicatePresets,
+  getDyeLabColors,
+  resolveNearDuplicateThreshold,
+  getPresetRevisions,
+  getPresetRevision,
+  getPresetForks,
+  generateDyeSignature,
+  isUniqueViolation,
+  buildSearchQuery,
 } from '../services/preset-service.js';
+import { hexToLab, normalizeHexColor } from '../utils/color.js';
+import { findUnknownDyeIds } from '../data/dyes.js';
 import { moderateContent } from '../services/moderation-service.js';
+import {
+  REPORT_REASONS,
+  MAX_REPORT_DETAILS_LENGTH,
+  resolveReportFlagThreshold,
+  submitReport,
+} from '../services/report-service.js';
+import {
+  PRESET_SUBMISSION_WEBHOOK,
+  scheduleOutboxDelivery,
+  type NotificationMessage,
+} from '../services/notification-service.js';
 import { addVote } from './votes.js';
 import { checkSubmissionRateLimit, getRemainingSubmissions } from '../services/rate-limit-service.js';
 
@@ -36,6 +74,24 @@ type Variables = {
 
 export const presetsRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
 
+/**
+ * Maximum number of dye IDs accepted by the ?dyes= list filter
+ */
+const MAX_DYE_FILTER_IDS = 10;
+
+/**
+ * Maximum number of colors accepted by the ?colors= similarity query
+ */
+const MAX_SIMILARITY_COLORS = 5;
+
+/**
+ * Parse the ?limit= parameter for similarity and fork listings (default 10, max 50)
+ */
+function parseResultLimit(limit: string | undefined): number {
+  const parsed = limit ? parseInt(limit, 10) : NaN;
+  return Number.isInteger(parsed) && parsed > 0 ? Math.min(parsed, 50) : 10;
+}
+
 // ============================================
 // PUBLIC ENDPOINTS
 // ============================================
@@ -43,20 +99,59 @@ export const presetsRouter = new Hono<{ Bindings: Env; Variables: Variables }>()
 /**
  * GET /api/v1/presets
  * List presets with filtering and pagination
+ * Search results are relevance-ranked and include highlighted snippets
+ *
+ * Dye filter: ?dyes=5738,13115&match=all|any (default all)
+ *
+ * Pagination modes:
+ * - Offset: ?page=N&limit=M (default, includes total)
+ * - Cursor: ?cursor=<next_cursor>&limit=M (stable for infinite scroll)
  */
 presetsRouter.get('/', async (c) => {
-  const { category, search, status, sort, page, limit, is_curated } = c.req.query();
+  const { category, search, status, sort, page, limit, is_curated, cursor, dyes, match } =
+    c.req.query();
+
+  // Dye filter: ?dyes=5738,13115&match=all|any
+  let dyeIds: number[] | undefined;
+  if (dyes !== undefined) {
+    dyeIds = dyes.split(',').map((id) => Number(id.trim()));
+    if (dyeIds.length === 0 || dyeIds.length > MAX_DYE_FILTER_IDS) {
+      return validationErrorResponse(c, `dyes must list 1-${MAX_DYE_FILTER_IDS} dye IDs`);
+    }
+    if (!dyeIds.every((id) => Number.isInteger(id) && id > 0)) {
+      return validationErrorResponse(c, 'dyes must be a comma-separated list of dye IDs');
+    }
+  }
+  if (match !== undefined && match !== 'all' && match !== 'any') {
+    return validationErrorResponse(c, 'match must be one of: all, any');
+  }
+  // Otherwise the search filter would be dropped and every preset listed
+  if (search?.trim() && !buildSearchQuery(search)) {
+    return validationErrorResponse(c, 'search must contain at least one letter or number');
+  }
 
-  const filters: PresetFilters = {
-    category: category as PresetFilters['category'],
+  const filters: PresetListFilters = {
+    category: category as PresetListFilters['category'],
     search,
-    status: status as PresetFilters['status'],
-    sort: sort as PresetFilters['sort'],
+    status: status as PresetListFilters['status'],
+    sort: sort as PresetListFilters['sort'],
     page: page ? parseInt(page, 10) : undefined,
     limit: limit ? Math.min(parseInt(limit, 10), 50) : undefined, // Cap at 50 for performance
     is_curated: is_curated === 'true' ? true : is_curated === 'false' ? false : undefined,
+    dyes: dyeIds,
+    dye_match: match as PresetListFilters['dye_match'],
   };
 
+  if (cursor !== undefined) {
+    // Cursors encode the sort key, so they're only valid for the sort they were issued for
+    const decoded = decodePresetCursor(cursor);
+    if (!decoded || decoded.sort !== resolvePresetSort(filters)) {
+      return validationErrorResponse(c, 'Invalid cursor for this sort order');
+    }
+    const response = await getPresetsByCursor(c.env.DB, filters, decoded);
+    return c.json(response);
+  }
+
   const response = await getPresets(c.env.DB, filters);
   return c.json(response);
 });
@@ -64,9 +159,43 @@ presetsRouter.get('/', async (c) => {
 /**
  * GET /api/v1/presets/featured
  * Get top-voted presets for homepage display
+ * ?sort=trending ranks by recent (time-decayed) votes instead of all-time votes
  */
 presetsRouter.get('/featured', async (c) => {
-  const presets = await getFeaturedPresets(c.env.DB);
+  const sort = c.req.query('sort');
+  if (sort !== undefined && sort !== 'popular' && sort !== 'trending') {
+    return validationErrorResponse(c, 'sort must be one of: popular, trending');
+  }
+
+  const presets = await getFeaturedPresets(c.env.DB, sort);
+  return c.json({ presets });
+});
+
+/**
+ * GET /api/v1/presets/similar?colors=1A1A1A,D9AE4E
+ * Find approved presets whose palettes are perceptually closest to the given colors
+ * The '#' prefix is optional (and must be URL-encoded as %23 if sent)
+ */
+presetsRouter.get('/similar', async (c) => {
+  const { colors, limit } = c.req.query();
+
+  if (!colors) {
+    return validationErrorResponse(c, 'colors is required');
+  }
+
+  const hexColors = colors.split(',').map((color) => normalizeHexColor(color));
+  if (hexColors.length > MAX_SIMILARITY_COLORS) {
+    return validationErrorResponse(c, `colors must list 1-${MAX_SIMILARITY_COLORS} hex colors`);
+  }
+  if (hexColors.some((color) => color === null)) {
+    return validationErrorResponse(c, 'colors must be a comma-separated list of hex colors');
+  }
+
+  const presets = await findSimilarPresets(
+    c.env.DB,
+    hexColors.map((color) => hexToLab(color!)),
+    { limit: parseResultLimit(limit) }
+  );
   return c.json({ presets });
 });
 
@@ -184,16 +313,30 @@ presetsRouter.delete('/:id', async (c) => {
   }
 
   // Only owner or moderator can delete
-  if (preset.author_discord_id !== auth.userDiscordId && !auth.isModerator) {
+  if (preset.author_discord_id !== auth.userDiscordId && !(await hasPermission(c, 'moderate'))) {
     return forbiddenResponse(c, "Cannot delete another user's preset");
   }
 
-  // Delete votes and preset in transaction
+  // Delete votes, dye lookup rows, collection items, bookmarks, ban records, reports, queue claims and preset in transaction
+  // Revisions and appeals are history and are kept; an open appeal is closed
   // PRESETS-PERF-001: Using batch() for atomicity guarantee, not performance.
-  // D1 batch() ensures both deletes succeed or both fail.
-  // For 2 queries, overhead is negligible vs. transaction safety benefit.
+  // D1 batch() ensures all deletes succeed or all fail.
+  // For a few queries, overhead is negligible vs. transaction safety benefit.
   await c.env.DB.batch([
     c.env.DB.prepare('DELETE FROM votes WHERE preset_id = ?').bind(id),
+    c.env.DB.prepare('DELETE FROM preset_dyes WHERE preset_id = ?').bind(id),
+    c.env.DB.prepare('DELETE FROM collection_items WHERE preset_id = ?').bind(id),
+    c.env.DB.prepare('DELETE FROM bookmarks WHERE preset_id = ?').bind(id),
+    c.env.DB.prepare('DELETE FROM ban_hidden_presets WHERE preset_id = ?').bind(id),
+    c.env.DB.prepare('DELETE FROM preset_reports WHERE preset_id = ?').bind(id),
+    c.env.DB.prepare(
+      `UPDATE appeals SET status = 'denied', resolved_at = ?, resolved_by_discord_id = ?, resolution_note = ?
+       WHERE preset_id = ? AND status = 'open'`
+    ).bind(new Date().toISOString(), auth.userDiscordId!, 'Preset was deleted', id),
+    c.env.DB.prepare('DELETE FROM preset_claims WHERE preset_id = ?').bind(id),
+    c.env.DB.prepare('DELETE FROM preset_sla_escalations WHERE preset_id = ?').bind(id),
+    // Forks are kept; they just lose their parent link
+    c.env.DB.prepare('UPDATE presets SET forked_from_id = NULL WHERE forked_from_id = ?').bind(id),
     c.env.DB.prepare('DELETE FROM presets WHERE id = ?').bind(id),
   ]);
 
@@ -250,6 +393,11 @@ presetsRouter.patch('/:id', async (c) => {
     return validationErrorResponse(c, validationError);
   }
 
+  if (body.dyes !== undefined) {
+    const dyeCatalogError = requireKnownDyes(c, body.dyes);
+    if (dyeCatalogError) return dyeCatalogError;
+  }
+
   // If dyes are being changed, check for duplicates (excluding this preset)
   if (body.dyes) {
     const duplicate = await findDuplicatePresetExcluding(c.env.DB, body.dyes, id);
@@ -270,23 +418,28 @@ presetsRouter.patch('/:id', async (c) => {
     }
   }
 
-  // Determine if content moderation is needed (name or description changed)
+  // Determine if content moderation is needed (name, description or tags changed)
   // PRESETS-BUG-003: Vote counts are preserved during edits - this is intentional
   // as users voted on the dye combination, not just the name/description.
   let moderationStatus: 'approved' | 'pending' = 'approved';
   let previousValues: PresetPreviousValues | null | undefined;
+  let flaggedFields: string[] = [];
 
-  if (body.name || body.description) {
+  if (body.name || body.description || body.tags) {
     // Run content moderation on new values
-    const nameToCheck = body.name || preset.name;
-    const descriptionToCheck = body.description || preset.description;
-
     const moderationResult = await moderateContent(
-      nameToCheck,
-      descriptionToCheck,
-      c.env
+      {
+        name: body.name || preset.name,
+        description: body.description || preset.description,
+        tags: body.tags ?? preset.tags,
+      },
+      c.env,
+      { authorDiscordId: auth.userDiscordId }
     );
 
+    const rejectedError = requireNotRejected(c, moderationResult);
+    if (rejectedError) return rejectedError;
+
     if (!moderationResult.passed) {
       // Store previous values for potential revert
       previousValues = {
@@ -296,6 +449,7 @@ presetsRouter.patch('/:id', async (c) => {
         dyes: preset.dyes,
       };
       moderationStatus = 'pending';
+      flaggedFields = moderationResult.flaggedFields;
     }
     // PRESETS-CRITICAL-004: Do NOT clear previous_values when moderation passes
     // Keep the audit trail of previously-flagged content for compliance and pattern detection
@@ -304,6 +458,25 @@ presetsRouter.patch('/:id', async (c) => {
     // preserving any existing audit history
   }
 
+  // If flagged, notify Discord for moderation
+  // Written to the outbox in the same batch as the update, so it can't be lost
+  const notification =
+    moderationStatus === 'pending'
+      ? submissionNotification({
+          type: 'submission',
+          preset: {
+            ...preset,
+            ...body,
+            author_name: preset.author_name || 'Unknown User',
+            author_discord_id: preset.author_discord_id,
+            status: 'pending',
+            moderation_status: 'flagged',
+            source: auth.authSource,
+            flagged_fields: flaggedFields,
+          },
+        })
+      : undefined;
+
   // Update the preset
   // PRESETS-BUG-002: Always pass moderation status so that presets
   // previously flagged can be un-flagged when the user fixes the content
@@ -312,33 +485,18 @@ presetsRouter.patch('/:id', async (c) => {
     id,
     body,
     previousValues,
-    moderationStatus
+    moderationStatus,
+    { discordId: auth.userDiscordId!, name: auth.userName || null },
+    notification
   );
 
   if (!updatedPreset) {
     return internalErrorResponse(c, 'Failed to update preset');
   }
 
-  // If flagged, notify Discord for moderation
-  // PRESETS-REF-002: Fire-and-forget notification - errors don't fail the request
-  // but are logged with preset context for debugging
-  if (moderationStatus === 'pending') {
-    c.executionCtx.waitUntil(
-      notifyDiscordBot(c.env, {
-        type: 'submission',
-        preset: {
-          ...updatedPreset,
-          author_name: preset.author_name || 'Unknown User',
-          author_discord_id: preset.author_discord_id,
-          status: 'pending',
-          moderation_status: 'flagged',
-          source: auth.authSource,
-        },
-      }).catch((err) => {
-        // Log with context for easier debugging
-        console.error(`[PRESETS-REF-002] Discord notification failed for preset edit: id=${updatedPreset.id}, name="${updatedPreset.name}"`, err);
-      })
-    );
+  // PRESETS-REF-002: Immediate delivery attempt - errors don't fail the request
+  if (notification) {
+    scheduleOutboxDelivery(c.env, c.executionCtx);
   }
 
   return c.json({
@@ -348,6 +506,82 @@ presetsRouter.patch('/:id', async (c) => {
   });
 });
 
+/**
+ * GET /api/v1/presets/:id/revisions
+ * Edit history for a preset, newest first (owner or staff only)
+ */
+presetsRouter.get('/:id/revisions', async (c) => {
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  const auth = c.get('auth');
+  const id = c.req.param('id');
+
+  const preset = await getPresetById(c.env.DB, id);
+  if (!preset) {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  if (preset.author_discord_id !== auth.userDiscordId && !(await hasPermission(c, 'review'))) {
+    return forbiddenResponse(c, "Cannot view another user's preset history");
+  }
+
+  const revisions = await getPresetRevisions(c.env.DB, id);
+  return c.json({ revisions, total: revisions.length });
+});
+
+/**
+ * GET /api/v1/presets/:id/revisions/:revision
+ * A single revision with its diff against the previous one (owner or staff only)
+ */
+presetsRouter.get('/:id/revisions/:revision', async (c) => {
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  const auth = c.get('auth');
+  const id = c.req.param('id');
+  const revisionNumber = Number(c.req.param('revision'));
+
+  if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+    return validationErrorResponse(c, 'Revision must be a positive integer');
+  }
+
+  const preset = await getPresetById(c.env.DB, id);
+  if (!preset) {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  if (preset.author_discord_id !== auth.userDiscordId && !(await hasPermission(c, 'review'))) {
+    return forbiddenResponse(c, "Cannot view another user's preset history");
+  }
+
+  const revision = await getPresetRevision(c.env.DB, id, revisionNumber);
+  if (!revision) {
+    return notFoundResponse(c, 'Revision');
+  }
+
+  return c.json(revision);
+});
+
+/**
+ * GET /api/v1/presets/:id/similar
+ * Find approved presets with palettes closest to this preset's dyes
+ */
+presetsRouter.get('/:id/similar', async (c) => {
+  const id = c.req.param('id');
+  const preset = await getPresetById(c.env.DB, id);
+
+  if (!preset) {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  const presets = await findSimilarPresets(c.env.DB, getDyeLabColors(preset.dyes), {
+    limit: parseResultLimit(c.req.query('limit')),
+    excludeId: preset.id,
+  });
+  return c.json({ presets });
+});
+
 /**
  * GET /api/v1/presets/:id
  * Get a single preset by ID
@@ -366,6 +600,7 @@ presetsRouter.get('/:id', async (c) => {
 /**
  * POST /api/v1/presets
  * Submit a new preset
+ * Near-duplicate palettes (see NEAR_DUPLICATE_THRESHOLD) are held as pending for review
  */
 presetsRouter.post('/', async (c) => {
   // Require authentication
@@ -380,22 +615,9 @@ presetsRouter.post('/', async (c) => {
   const banError = await requireNotBannedCheck(c);
   if (banError) return banError;
 
-  const auth = c.get('auth');
-
   // Check rate limit (10 submissions per day)
-  const rateLimitResult = await checkSubmissionRateLimit(c.env.DB, auth.userDiscordId!);
-  if (!rateLimitResult.allowed) {
-    return c.json(
-      {
-        success: false,
-        error: ErrorCode.RATE_LIMITED,
-        message: `You've reached your daily submission limit (10 per day). Try again tomorrow.`,
-        remaining: 0,
-        reset_at: rateLimitResult.resetAt.toISOString(),
-      },
-      429
-    );
-  }
+  const rateLimitError = await requireSubmissionAllowance(c);
+  if (rateLimitError) return rateLimitError;
 
   // Parse request body
   let body: PresetSubmission;
@@ -405,103 +627,147 @@ presetsRouter.post('/', async (c) => {
     return invalidJsonResponse(c);
   }
 
-  // Validate submission (PRESETS-CRITICAL-002: now queries categories from database)
-  const validationError = await validateSubmission(body, c.env.DB);
-  if (validationError) {
-    return validationErrorResponse(c, validationError);
+  // Existing dye combinations get the submitter's vote instead of a new preset
+  return submitPreset(c, body, { onDuplicate: 'vote' });
+});
+
+/**
+ * POST /api/v1/presets/:id/fork
+ * Create a new preset owned by the caller, pre-filled from an approved source preset
+ * Body fields (all optional) override the source values; the dyes must differ from the source
+ */
+presetsRouter.post('/:id/fork', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  // Check if user is banned
+  const banError = await requireNotBannedCheck(c);
+  if (banError) return banError;
+
+  const sourceId = c.req.param('id');
+
+  // Only approved presets can be forked
+  const source = await getPresetById(c.env.DB, sourceId);
+  if (!source || source.status !== 'approved') {
+    return notFoundResponse(c, 'Preset');
   }
 
-  // Check for duplicate dye combinations
-  const duplicate = await findDuplicatePreset(c.env.DB, body.dyes);
-  if (duplicate) {
-    // Add vote to existing preset
-    const voteResult = await addVote(c.env.DB, duplicate.id, auth.userDiscordId!);
+  // Forks count toward the daily submission limit
+  const rateLimitError = await requireSubmissionAllowance(c);
+  if (rateLimitError) return rateLimitError;
 
-    return c.json({
-      success: true,
-      duplicate,
-      vote_added: voteResult.success && !voteResult.already_voted,
-    });
+  // Parse request body (may be empty; a fork still has to change the dyes)
+  let overrides: Partial<PresetSubmission>;
+  try {
+    const text = await c.req.text();
+    overrides = text.trim() ? JSON.parse(text) : {};
+  } catch {
+    return invalidJsonResponse(c);
+  }
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+    return invalidJsonResponse(c);
   }
 
-  // Moderate content
-  const moderationResult = await moderateContent(
-    body.name,
-    body.description,
-    c.env
-  );
+  const submission: PresetSubmission = {
+    name: overrides.name ?? source.name,
+    description: overrides.description ?? source.description,
+    category_id: overrides.category_id ?? source.category_id,
+    dyes: overrides.dyes ?? source.dyes,
+    tags: overrides.tags ?? source.tags,
+  };
 
-  // Determine status based on moderation
-  const status = moderationResult.passed ? 'approved' : 'pending';
+  // Same rules as a new submission, but an existing dye combination is a conflict
+  return submitPreset(c, submission, { onDuplicate: 'reject', forkedFrom: source });
+});
 
-  // PRESETS-CRITICAL-001: Handle race condition in duplicate detection
-  // Wrap createPreset in try-catch to handle UNIQUE constraint violations
-  // If another request created the same preset while we were checking, we'll catch
-  // the constraint violation and vote on that preset instead
-  let preset;
+/**
+ * GET /api/v1/presets/:id/forks
+ * List approved forks of a preset, most voted first
+ */
+presetsRouter.get('/:id/forks', async (c) => {
+  const id = c.req.param('id');
+  const preset = await getPresetById(c.env.DB, id);
+
+  if (!preset) {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  const presets = await getPresetForks(c.env.DB, id, parseResultLimit(c.req.query('limit')));
+  return c.json({ presets });
+});
+
+/**
+ * POST /api/v1/presets/:id/reports
+ * Report an approved preset (one report per user per preset)
+ * Enough open reports (REPORT_FLAG_THRESHOLD) auto-flag the preset for review
+ */
+presetsRouter.post('/:id/reports', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  // Check if user is banned
+  const banError = await requireNotBannedCheck(c);
+  if (banError) return banError;
+
+  const auth = c.get('auth');
+  const id = c.req.param('id');
+
+  let body: ReportSubmission;
   try {
-    preset = await createPreset(
-      c.env.DB,
-      body,
-      auth.userDiscordId!,
-      auth.userName || 'Unknown User',
-      status
-    );
-  } catch (error) {
-    // Check if this is a UNIQUE constraint violation on dye_signature
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    if (errorMessage.includes('UNIQUE constraint failed') && errorMessage.includes('dye_signature')) {
-      // Race condition occurred - another request created this preset first
-      // Try to find and vote on the existing preset
-      const existingPreset = await findDuplicatePreset(c.env.DB, body.dyes);
-      if (existingPreset) {
-        const voteResult = await addVote(c.env.DB, existingPreset.id, auth.userDiscordId!);
-        return c.json({
-          success: true,
-          duplicate: existingPreset,
-          vote_added: voteResult.success && !voteResult.already_voted,
-        });
-      }
-    }
-    // Re-throw if it's not a duplicate constraint error
-    throw error;
-  }
-
-  // Auto-vote for own preset
-  await addVote(c.env.DB, preset.id, auth.userDiscordId!);
-
-  // Send notification to Discord worker (non-blocking)
-  // PRESETS-REF-002: Fire-and-forget notification - errors don't fail the request
-  // Use waitUntil to keep the worker alive while notification completes
-  c.executionCtx.waitUntil(
-    notifyDiscordBot(c.env, {
-      type: 'submission',
-      preset: {
-        ...preset,
-        author_name: auth.userName?.trim() || 'Unknown User', // PRESETS-HIGH-002
-        author_discord_id: auth.userDiscordId!,
-        status,
-        moderation_status: moderationResult.passed ? 'clean' : 'flagged',
-        source: auth.authSource,
-      },
-    }).catch((err) => {
-      // Log with context for easier debugging
-      console.error(`[PRESETS-REF-002] Discord notification failed for new preset: id=${preset.id}, name="${preset.name}"`, err);
-    })
-  );
+    body = await c.req.json<ReportSubmission>();
+  } catch {
+    return invalidJsonResponse(c);
+  }
 
-  // Get updated rate limit info
-  const { remaining } = await getRemainingSubmissions(c.env.DB, auth.userDiscordId!);
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return validationErrorResponse(c, 'Request body must be a JSON object');
+  }
 
-  return c.json(
-    {
-      success: true,
-      preset,
-      moderation_status: status,
-      remaining_submissions: remaining,
-    },
-    201
+  if (!REPORT_REASONS.includes(body.reason)) {
+    return validationErrorResponse(c, `Reason must be one of: ${REPORT_REASONS.join(', ')}`);
+  }
+
+  const details = typeof body.details === 'string' ? body.details.trim() : '';
+  if (details.length > MAX_REPORT_DETAILS_LENGTH) {
+    return validationErrorResponse(c, `Details must be ${MAX_REPORT_DETAILS_LENGTH} characters or less`);
+  }
+  if (body.reason === 'other' && details.length === 0) {
+    return validationErrorResponse(c, "Details are required when reason is 'other'");
+  }
+
+  // Only publicly visible presets can be reported
+  const preset = await getPresetById(c.env.DB, id);
+  if (!preset || preset.status !== 'approved') {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  if (preset.author_discord_id === auth.userDiscordId) {
+    return forbiddenResponse(c, 'You cannot report your own preset');
+  }
+
+  const result = await submitReport(
+    c.env.DB,
+    id,
+    auth.userDiscordId!,
+    { reason: body.reason, details: details || undefined },
+    resolveReportFlagThreshold(c.env.REPORT_FLAG_THRESHOLD)
   );
+
+  if (!result.report) {
+    return duplicateResponse(c, 'You have already reported this preset');
+  }
+
+  return c.json({ success: true, report: result.report, auto_flagged: result.auto_flagged }, 201);
 });
 
 // ============================================
@@ -608,6 +874,45 @@ async function validateSubmission(body: PresetSubmission, db: D1Database): Promi
   return null;
 }
 
+/**
+ * Reject dye IDs missing from the bundled dye catalog
+ * Returns a field-level validation error listing the unknown IDs, or null if all are known
+ */
+function requireKnownDyes(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  dyes: number[]
+): Response | null {
+  const unknownDyes = findUnknownDyeIds(dyes);
+  if (unknownDyes.length === 0) {
+    return null;
+  }
+  return validationErrorResponse(c, `Unknown dye IDs: ${unknownDyes.join(', ')}`, {
+    field: 'dyes',
+    invalid_values: unknownDyes,
+  });
+}
+
+/**
+ * Refuse content a moderation rule rejects outright
+ * Returns a 422 CONTENT_FLAGGED error, or null unless the outcome is reject
+ */
+function requireNotRejected(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  moderationResult: ContentModerationResult
+): Response | null {
+  if (moderationResult.action !== 'reject') {
+    return null;
+  }
+  const field = moderationResult.flaggedField;
+  return errorResponse(
+    c,
+    ErrorCode.CONTENT_FLAGGED,
+    'This content is not allowed',
+    422,
+    field && field !== 'content' ? { field } : undefined
+  );
+}
+
 function validateEditRequest(body: PresetEditRequest): string | null {
   // All fields optional for edit, but validate if provided
   if (body.name !== undefined) {
@@ -633,6 +938,203 @@ function validateEditRequest(body: PresetEditRequest): string | null {
   return null;
 }
 
+/**
+ * Summaries of near-duplicate matches for submission responses
+ * Only approved matches are listed; pending ones haven't passed moderation yet
+ */
+function toNearDuplicateSummaries(nearDuplicates: SimilarPreset[]) {
+  return nearDuplicates
+    .filter((match) => match.status === 'approved')
+    .map(({ id, name, dyes, distance }) => ({ id, name, dyes, distance }));
+}
+
+// ============================================
+// SUBMISSION PIPELINE
+// ============================================
+
+interface SubmitPresetOptions {
+  /**
+   * What to do when the dyes match an existing preset:
+   * 'vote' votes for it and returns it, 'reject' returns 409 DUPLICATE_RESOURCE
+   */
+  onDuplicate: 'vote' | 'reject';
+  /** Source preset when the submission is a fork */
+  forkedFrom?: CommunityPreset;
+}
+
+/**
+ * Validate, moderate and create a submitted preset (POST / and POST /:id/fork)
+ * Near-duplicate palettes (see NEAR_DUPLICATE_THRESHOLD) are held as pending for review
+ */
+async function submitPreset(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  submission: PresetSubmission,
+  options: SubmitPresetOptions
+): Promise<Response> {
+  const auth = c.get('auth');
+  const { forkedFrom } = options;
+
+  // Validate submission (PRESETS-CRITICAL-002: now queries categories from database)
+  const validationError = await validateSubmission(submission, c.env.DB);
+  if (validationError) {
+    return validationErrorResponse(c, validationError);
+  }
+
+  // Reject dye IDs that don't exist in the game
+  const dyeCatalogError = requireKnownDyes(c, submission.dyes);
+  if (dyeCatalogError) return dyeCatalogError;
+
+  if (forkedFrom && generateDyeSignature(submission.dyes) === generateDyeSignature(forkedFrom.dyes)) {
+    return validationErrorResponse(c, 'A fork must change at least one dye from the original');
+  }
+
+  // Check for duplicate dye combinations
+  const duplicate = await findDuplicatePreset(c.env.DB, submission.dyes);
+  if (duplicate) {
+    return duplicateSubmissionResponse(c, duplicate, options.onDuplicate);
+  }
+
+  // Check for near-duplicate palettes (different dyes, near-identical colors)
+  // Near-duplicates of a fork's source are expected for a remix, so only other presets count
+  const nearDuplicates = await findNearDuplicatePresets(
+    c.env.DB,
+    submission.dyes,
+    resolveNearDuplicateThreshold(c.env.NEAR_DUPLICATE_THRESHOLD),
+    forkedFrom ? { excludeId: forkedFrom.id } : undefined
+  );
+
+  // Moderate content
+  const moderationResult = await moderateContent(
+    { name: submission.name, description: submission.description, tags: submission.tags },
+    c.env,
+    { authorDiscordId: auth.userDiscordId }
+  );
+  const rejectedError = requireNotRejected(c, moderationResult);
+  if (rejectedError) return rejectedError;
+
+  // Determine status based on moderation; near-duplicates also go to review
+  const status = moderationResult.passed && nearDuplicates.length === 0 ? 'approved' : 'pending';
+
+  // PRESETS-CRITICAL-001: Handle race condition in duplicate detection
+  // If another request created the same dye combination while we were checking,
+  // the UNIQUE constraint on dye_signature fails and we treat it as a duplicate
+  let preset;
+  try {
+    preset = await createPreset(
+      c.env.DB,
+      submission,
+      auth.userDiscordId!,
+      auth.userName || 'Unknown User',
+      status,
+      forkedFrom?.id ?? null,
+      (created) =>
+        submissionNotification({
+          type: 'submission',
+          preset: {
+            ...created,
+            author_name: auth.userName?.trim() || 'Unknown User', // PRESETS-HIGH-002
+            author_discord_id: auth.userDiscordId!,
+            status,
+            moderation_status: moderationResult.passed ? 'clean' : 'flagged',
+            source: auth.authSource,
+            near_duplicate_ids: nearDuplicates.map((match) => match.id),
+            flagged_fields: moderationResult.flaggedFields,
+          },
+        })
+    );
+  } catch (error) {
+    if (!isUniqueViolation(error, 'presets.dye_signature')) {
+      throw error;
+    }
+    const existingPreset = await findDuplicatePreset(c.env.DB, submission.dyes);
+    if (!existingPreset) {
+      return duplicateResponse(c, 'This dye combination already exists');
+    }
+    return duplicateSubmissionResponse(c, existingPreset, options.onDuplicate);
+  }
+
+  // Deliver the submission notification written with the preset (non-blocking)
+  // PRESETS-REF-002: Errors don't fail the request; the outbox retries them
+  scheduleOutboxDelivery(c.env, c.executionCtx);
+
+  // Get updated rate limit info
+  const { remaining } = await getRemainingSubmissions(c.env.DB, auth.userDiscordId!);
+
+  return c.json(
+    {
+      success: true,
+      preset,
+      ...(forkedFrom && {
+        forked_from: {
+          id: forkedFrom.id,
+          name: forkedFrom.name,
+          author_name: forkedFrom.author_name,
+        },
+      }),
+      moderation_status: status,
+      remaining_submissions: remaining,
+      near_duplicates: toNearDuplicateSummaries(nearDuplicates),
+    },
+    201
+  );
+}
+
+/**
+ * Enforce the daily submission limit (10 per day, forks included)
+ * Returns a 429 with the reset time, or null if the user may submit
+ */
+async function requireSubmissionAllowance(
+  c: Context<{ Bindings: Env; Variables: Variables }>
+): Promise<Response | null> {
+  const rateLimitResult = await checkSubmissionRateLimit(c.env.DB, c.get('auth').userDiscordId!);
+  if (rateLimitResult.allowed) {
+    return null;
+  }
+  return c.json(
+    {
+      success: false,
+      error: ErrorCode.RATE_LIMITED,
+      message: `You've reached your daily submission limit (10 per day). Try again tomorrow.`,
+      remaining: 0,
+      reset_at: rateLimitResult.resetAt.toISOString(),
+    },
+    429
+  );
+}
+
+/**
+ * Response for a submission whose dyes match an existing preset
+ * 'vote' adds the submitter's vote to it; 'reject' is a 409 naming the existing preset
+ */
+async function duplicateSubmissionResponse(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  duplicate: CommunityPreset,
+  onDuplicate: SubmitPresetOptions['onDuplicate']
+): Promise<Response> {
+  if (onDuplicate === 'reject') {
+    return c.json(
+      {
+        success: false,
+        error: ErrorCode.DUPLICATE_RESOURCE,
+        message: 'This dye combination already exists',
+        duplicate: {
+          id: duplicate.id,
+          name: duplicate.name,
+          author_name: duplicate.author_name,
+        },
+      },
+      409
+    );
+  }
+
+  const voteResult = await addVote(c.env.DB, duplicate.id, c.get('auth').userDiscordId!);
+  return c.json({
+    success: true,
+    duplicate,
+    vote_added: voteResult.success && !voteResult.already_voted,
+  });
+}
+
 // ============================================
 // DISCORD BOT NOTIFICATION
 // ============================================
@@ -652,99 +1154,17 @@ interface PresetNotificationPayload {
     moderation_status: 'clean' | 'flagged' | 'auto_approved';
     source: 'bot' | 'web' | 'none';
     created_at: string;
+    near_duplicate_ids?: string[];
+    /** Fields content moderation flagged, so reviewers know where to look */
+    flagged_fields?: string[];
+    forked_from_id?: string | null;
   };
 }
 
 /**
- * PRESETS-CRITICAL-003: Retry configuration for Discord notifications
- */
-const NOTIFICATION_RETRY_CONFIG = {
-  maxRetries: 3,
-  baseDelayMs: 1000, // 1 second
-  maxDelayMs: 10000, // 10 seconds
-};
-
-/**
- * Sleep for a specified duration
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
-/**
- * Calculate exponential backoff delay with jitter
+ * Outbox message that notifies the Discord worker about a submission
+ * (new preset, fork, or an edit sent back to review)
  */
-function getBackoffDelay(attempt: number): number {
-  const delay = Math.min(
-    NOTIFICATION_RETRY_CONFIG.baseDelayMs * Math.pow(2, attempt),
-    NOTIFICATION_RETRY_CONFIG.maxDelayMs
-  );
-  // Add jitter (±25%) to prevent thundering herd
-  return delay * (0.75 + Math.random() * 0.5);
-}
-
-/**
- * Notify the Discord worker about a new preset submission
- * Uses Cloudflare Service Binding for Worker-to-Worker communication (avoids error 1042)
- *
- * PRESETS-CRITICAL-003: Now includes retry with exponential backoff
- * Retries up to 3 times on transient failures
- */
-async function notifyDiscordBot(env: Env, payload: PresetNotificationPayload): Promise<void> {
-  // Check if service binding is configured
-  if (!env.DISCORD_WORKER || !env.INTERNAL_WEBHOOK_SECRET) {
-    console.log('Discord worker binding not configured, skipping notification');
-    return;
-  }
-
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt <= NOTIFICATION_RETRY_CONFIG.maxRetries; attempt++) {
-    try {
-      // Use service binding for direct Worker-to-Worker communication
-      // The hostname is ignored - only the path matters
-      const response = await env.DISCORD_WORKER.fetch(
-        new Request('https://internal/webhooks/preset-submission', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${env.INTERNAL_WEBHOOK_SECRET}`,
-          },
-          body: JSON.stringify(payload),
-        })
-      );
-
-      if (response.ok) {
-        if (attempt > 0) {
-          console.log(`Discord notification succeeded on retry ${attempt}`);
-        }
-        return; // Success!
-      }
-
-      // Non-retryable errors (4xx client errors)
-      if (response.status >= 400 && response.status < 500) {
-        throw new Error(`Discord worker returned ${response.status}: ${await response.text()}`);
-      }
-
-      // Server error - will retry
-      lastError = new Error(`Discord worker returned ${response.status}`);
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      // Don't retry on non-network errors
-      if (lastError.message.includes('returned 4')) {
-        throw lastError;
-      }
-    }
-
-    // If we have more retries, wait before trying again
-    if (attempt < NOTIFICATION_RETRY_CONFIG.maxRetries) {
-      const delay = getBackoffDelay(attempt);
-      console.log(`Discord notification failed, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${NOTIFICATION_RETRY_CONFIG.maxRetries})`);
-      await sleep(delay);
-    }
-  }
-
-  // All retries exhausted
-  throw lastError || new Error('Discord notification failed after all retries');
+function submissionNotification(payload: PresetNotificationPayload): NotificationMessage {
+  return { path: PRESET_SUBMISSION_WEBHOOK, payload, preset_id: payload.preset.id };
 }
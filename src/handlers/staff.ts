@@ -0,0 +1,143 @@
+/**
+ * Staff Handler
+ * Owner routes for granting and revoking staff roles
+ */
+
+import { Hono, type Context } from 'hono';
+import type { Env, AuthContext, StaffRole, StaffRoleGrant } from '../types.js';
+import { requirePermission, getBootstrapRole } from '../middleware/auth.js';
+import {
+  ErrorCode,
+  duplicateResponse,
+  errorResponse,
+  invalidJsonResponse,
+  notFoundResponse,
+  validationErrorResponse,
+} from '../utils/api-response.js';
+import {
+  STAFF_ROLES,
+  getStaffMembers,
+  getStaffRole,
+  grantStaffRole,
+  revokeStaffRole,
+} from '../services/staff-service.js';
+
+type Variables = {
+  auth: AuthContext;
+};
+
+type StaffContext = Context<{ Bindings: Env; Variables: Variables }>;
+
+export const staffRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+/**
+ * Discord snowflakes are 17-19 digit numbers
+ */
+const DISCORD_ID_PATTERN = /^\d{17,19}$/;
+
+// ============================================
+// ROUTES
+// ============================================
+
+/**
+ * GET /api/v1/moderation/staff
+ * Staff with a role in staff_roles (bootstrap staff from the environment are not listed)
+ */
+staffRouter.get('/', async (c) => {
+  // Require owner privileges
+  const permissionError = await requirePermission(c, 'manage_roles');
+  if (permissionError) return permissionError;
+
+  const staff = await getStaffMembers(c.env.DB);
+
+  return c.json({ staff, total: staff.length });
+});
+
+/**
+ * PUT /api/v1/moderation/staff/:discordId
+ * Grant a role, replacing the user's current one: { "role": "moderator" }
+ */
+staffRouter.put('/:discordId', async (c) => {
+  // Require owner privileges
+  const permissionError = await requirePermission(c, 'manage_roles');
+  if (permissionError) return permissionError;
+
+  const auth = c.get('auth');
+  const discordId = c.req.param('discordId');
+
+  let body: StaffRoleGrant;
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  if (!STAFF_ROLES.includes(body.role as StaffRole)) {
+    return validationErrorResponse(c, `Role must be one of: ${STAFF_ROLES.join(', ')}`);
+  }
+
+  const targetError = validateStaffTarget(c, discordId);
+  if (targetError) return targetError;
+
+  const previousRole = await getStaffRole(c.env.DB, discordId);
+  if (previousRole === body.role) {
+    return duplicateResponse(c, `User is already ${body.role}`);
+  }
+
+  const staff = await grantStaffRole(c.env.DB, discordId, body.role, auth.userDiscordId!, previousRole);
+
+  return c.json({ success: true, staff, previous_role: previousRole });
+});
+
+/**
+ * DELETE /api/v1/moderation/staff/:discordId
+ * Revoke a user's role
+ */
+staffRouter.delete('/:discordId', async (c) => {
+  // Require owner privileges
+  const permissionError = await requirePermission(c, 'manage_roles');
+  if (permissionError) return permissionError;
+
+  const auth = c.get('auth');
+  const discordId = c.req.param('discordId');
+
+  const targetError = validateStaffTarget(c, discordId);
+  if (targetError) return targetError;
+
+  const revoked = await revokeStaffRole(c.env.DB, discordId, auth.userDiscordId!);
+  if (!revoked) {
+    return notFoundResponse(c, 'Staff role');
+  }
+
+  return c.json({ success: true });
+});
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Check a role change target: a Discord ID, not the caller, and not bootstrap staff
+ * Returns an error response, or null if the role can be changed
+ */
+function validateStaffTarget(c: StaffContext, discordId: string): Response | null {
+  if (!DISCORD_ID_PATTERN.test(discordId)) {
+    return validationErrorResponse(c, 'discordId must be a Discord user ID');
+  }
+
+  // Owners can't lock themselves out
+  if (discordId === c.get('auth').userDiscordId) {
+    return validationErrorResponse(c, 'You cannot change your own role');
+  }
+
+  if (getBootstrapRole(discordId, c.env)) {
+    return errorResponse(
+      c,
+      ErrorCode.CONFLICT,
+      "This user's role comes from OWNER_DISCORD_ID or MODERATOR_IDS and can't be changed here",
+      409
+    );
+  }
+
+  return null;
+}
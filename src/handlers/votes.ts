@@ -8,6 +8,7 @@ import type { Env, AuthContext, VoteResponse } from '../types.js';
 import { requireAuth, requireUserContext } from '../middleware/auth.js';
 import { requireNotBannedCheck } from '../middleware/ban-check.js';
 import { notFoundResponse } from '../utils/api-response.js';
+import { buildVoteCountSyncStatement, getStoredVoteCount } from '../services/vote-integrity-service.js';
 
 type Variables = {
   auth: AuthContext;
@@ -22,6 +23,10 @@ export const votesRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
  * Uses INSERT ... ON CONFLICT DO NOTHING to atomically handle duplicates,
  * eliminating the TOCTOU race condition where two concurrent requests
  * could both pass the "already voted" check.
+ *
+ * The insert and the vote_count update run in one batch (a single
+ * transaction), and the count is recomputed from the votes table rather
+ * than incremented, so it can't drift if either statement fails.
  */
 export async function addVote(
   db: D1Database,
@@ -31,47 +36,34 @@ export async function addVote(
   const now = new Date().toISOString();
 
   try {
-    // Atomically attempt to insert vote - ON CONFLICT prevents duplicates
     // The PRIMARY KEY (preset_id, user_discord_id) ensures uniqueness
-    const insertResult = await db
-      .prepare(
-        'INSERT INTO votes (preset_id, user_discord_id, created_at) VALUES (?, ?, ?) ON CONFLICT DO NOTHING'
-      )
-      .bind(presetId, userDiscordId, now)
-      .run();
+    const [insertResult, updateResult] = await db.batch<{ vote_count: number }>([
+      db
+        .prepare(
+          'INSERT INTO votes (preset_id, user_discord_id, created_at) VALUES (?, ?, ?) ON CONFLICT DO NOTHING'
+        )
+        .bind(presetId, userDiscordId, now),
+      buildVoteCountSyncStatement(db, presetId, now),
+    ]);
 
     // Check if insert actually added a row (changes = 0 means duplicate)
     if (insertResult.meta.changes === 0) {
-      // Already voted - get current count
-      const preset = await db
-        .prepare('SELECT vote_count FROM presets WHERE id = ?')
-        .bind(presetId)
-        .first<{ vote_count: number }>();
-
       return {
         success: false,
         already_voted: true,
-        new_vote_count: preset?.vote_count || 0,
+        new_vote_count: await getStoredVoteCount(db, presetId),
       };
     }
 
-    // Vote was inserted - increment count and get new total
-    const updateResult = await db
-      .prepare(
-        'UPDATE presets SET vote_count = vote_count + 1, updated_at = ? WHERE id = ? RETURNING vote_count'
-      )
-      .bind(now, presetId)
-      .first<{ vote_count: number }>();
-
     return {
       success: true,
-      new_vote_count: updateResult?.vote_count || 1,
+      new_vote_count: await resolveSyncedVoteCount(db, presetId, updateResult),
     };
   } catch (error) {
     console.error('Failed to add vote:', error);
     return {
       success: false,
-      new_vote_count: 0,
+      new_vote_count: await getStoredVoteCountOrThrow(db, presetId, error),
       error: 'Failed to add vote',
     };
   }
@@ -81,6 +73,7 @@ export async function addVote(
  * Remove a vote from a preset
  *
  * Uses DELETE with changes check to avoid race conditions and reduce queries.
+ * Like addVote, the delete and the vote_count update run as one batch.
  */
 export async function removeVote(
   db: D1Database,
@@ -90,49 +83,65 @@ export async function removeVote(
   const now = new Date().toISOString();
 
   try {
-    // Atomically attempt to delete the vote
-    const deleteResult = await db
-      .prepare('DELETE FROM votes WHERE preset_id = ? AND user_discord_id = ?')
-      .bind(presetId, userDiscordId)
-      .run();
+    const [deleteResult, updateResult] = await db.batch<{ vote_count: number }>([
+      db
+        .prepare('DELETE FROM votes WHERE preset_id = ? AND user_discord_id = ?')
+        .bind(presetId, userDiscordId),
+      buildVoteCountSyncStatement(db, presetId, now),
+    ]);
 
     // Check if delete actually removed a row (changes = 0 means no vote existed)
     if (deleteResult.meta.changes === 0) {
-      // No vote to remove - get current count
-      const preset = await db
-        .prepare('SELECT vote_count FROM presets WHERE id = ?')
-        .bind(presetId)
-        .first<{ vote_count: number }>();
-
       return {
         success: false,
         already_voted: false,
-        new_vote_count: preset?.vote_count || 0,
+        new_vote_count: await getStoredVoteCount(db, presetId),
       };
     }
 
-    // Vote was deleted - decrement count and get new total
-    const updateResult = await db
-      .prepare(
-        'UPDATE presets SET vote_count = MAX(0, vote_count - 1), updated_at = ? WHERE id = ? RETURNING vote_count'
-      )
-      .bind(now, presetId)
-      .first<{ vote_count: number }>();
-
     return {
       success: true,
-      new_vote_count: updateResult?.vote_count || 0,
+      new_vote_count: await resolveSyncedVoteCount(db, presetId, updateResult),
     };
   } catch (error) {
     console.error('Failed to remove vote:', error);
     return {
       success: false,
-      new_vote_count: 0,
+      new_vote_count: await getStoredVoteCountOrThrow(db, presetId, error),
       error: 'Failed to remove vote',
     };
   }
 }
 
+/**
+ * Count returned by the sync statement, or the stored count if the sync
+ * didn't need to write (RETURNING yields no row when nothing changed)
+ */
+async function resolveSyncedVoteCount(
+  db: D1Database,
+  presetId: string,
+  updateResult: D1Result<{ vote_count: number }> | undefined
+): Promise<number> {
+  const synced = updateResult?.results?.[0]?.vote_count;
+  return synced ?? getStoredVoteCount(db, presetId);
+}
+
+/**
+ * After a failed vote change, report the real stored count; if even that
+ * can't be read, rethrow the original error rather than invent a count
+ */
+async function getStoredVoteCountOrThrow(
+  db: D1Database,
+  presetId: string,
+  originalError: unknown
+): Promise<number> {
+  try {
+    return await getStoredVoteCount(db, presetId);
+  } catch {
+    throw originalError;
+  }
+}
+
 // ============================================
 // ROUTES
 // ============================================
@@ -168,6 +177,10 @@ votesRouter.post('/:presetId', async (c) => {
 
   const result = await addVote(c.env.DB, presetId, auth.userDiscordId!);
 
+  if (result.error) {
+    return c.json(result, 500);
+  }
+
   if (result.already_voted) {
     return c.json(result, 409); // Conflict
   }
@@ -201,6 +214,11 @@ votesRouter.delete('/:presetId', async (c) => {
   }
 
   const result = await removeVote(c.env.DB, presetId, auth.userDiscordId!);
+
+  if (result.error) {
+    return c.json(result, 500);
+  }
+
   return c.json(result);
 });
 
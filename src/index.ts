@@ -13,14 +13,21 @@ import { presetsRouter } from './handlers/presets.js';
 import { votesRouter } from './handlers/votes.js';
 import { categoriesRouter } from './handlers/categories.js';
 import { moderationRouter } from './handlers/moderation.js';
+import { bansRouter } from './handlers/bans.js';
+import { staffRouter } from './handlers/staff.js';
+import { moderationRulesRouter } from './handlers/moderation-rules.js';
+import { appealsRouter } from './handlers/appeals.js';
+import { collectionsRouter } from './handlers/collections.js';
+import { bookmarksRouter } from './handlers/bookmarks.js';
 
 // Import middleware
 import { authMiddleware } from './middleware/auth.js';
 import { publicRateLimitMiddleware } from './middleware/rate-limit.js';
 import { requestIdMiddleware, getRequestId } from './middleware/request-id.js';
-import { loggerMiddleware, getLogger } from './middleware/logger.js';
+import { loggerMiddleware, getLogger, createWorkerLogger } from './middleware/logger.js';
 import { validateEnv, logValidationErrors } from './utils/env-validation.js';
 import { ErrorCode } from './utils/api-response.js';
+import { getJobsForSchedule, runMaintenanceJobs } from './services/maintenance-service.js';
 
 // Extend Hono context with our custom variables
 type Variables = {
@@ -116,9 +123,15 @@ app.use(
 
       return null;
     },
-    allowMethods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowHeaders: ['Content-Type', 'Authorization', 'X-User-Discord-ID', 'X-User-Discord-Name'],
-    exposeHeaders: ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset', 'Retry-After'],
+    exposeHeaders: [
+      'X-RateLimit-Limit',
+      'X-RateLimit-Remaining',
+      'X-RateLimit-Reset',
+      'Retry-After',
+      'X-Next-Cursor', // Moderation log CSV export
+    ],
     maxAge: 86400,
     credentials: true,
   })
@@ -187,7 +200,14 @@ app.get('/__force-error', (c) => {
 app.route('/api/v1/presets', presetsRouter);
 app.route('/api/v1/votes', votesRouter);
 app.route('/api/v1/categories', categoriesRouter);
+// Mounted before /moderation so its /:presetId routes never shadow /bans or /staff
+app.route('/api/v1/moderation/bans', bansRouter);
+app.route('/api/v1/moderation/staff', staffRouter);
+app.route('/api/v1/moderation/rules', moderationRulesRouter);
 app.route('/api/v1/moderation', moderationRouter);
+app.route('/api/v1/collections', collectionsRouter);
+app.route('/api/v1/bookmarks', bookmarksRouter);
+app.route('/api/v1/appeals', appealsRouter);
 
 // ============================================
 // ERROR HANDLING
@@ -233,5 +253,33 @@ app.onError((err, c) => {
   );
 });
 
+// ============================================
+// SCHEDULED (CRON) HANDLER
+// ============================================
+
+/**
+ * Cron trigger handler (schedules in wrangler.toml [triggers])
+ * Runs the maintenance jobs registered for the firing cron expression
+ */
+async function scheduled(
+  controller: ScheduledController,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<void> {
+  const logger = createWorkerLogger(env, `cron-${crypto.randomUUID()}`);
+  const jobs = getJobsForSchedule(controller.cron);
+
+  if (jobs.length === 0) {
+    logger.warn('No maintenance jobs registered for cron', { cron: controller.cron });
+    return;
+  }
+
+  ctx.waitUntil(runMaintenanceJobs(jobs, env, logger, new Date(controller.scheduledTime)));
+}
+
 // Export for Cloudflare Workers
-export default app;
+export { app };
+export default {
+  fetch: app.fetch,
+  scheduled,
+};
@@ -1,10 +1,12 @@
 /**
  * Authentication Middleware
- * Handles bot authentication (BOT_API_SECRET) and web authentication (JWT)
+ * Handles bot authentication (BOT_API_SECRET) and web authentication (JWT),
+ * and staff role checks
  */
 
 import type { Context, Next } from 'hono';
-import type { Env, AuthContext } from '../types.js';
+import type { Env, AuthContext, StaffPermission, StaffRole } from '../types.js';
+import { getStaffRole, roleHasPermission } from '../services/staff-service.js';
 
 type Variables = {
   auth: AuthContext;
@@ -202,7 +204,7 @@ async function verifyJWT(token: string, secret: string): Promise<JWTPayload | nu
  * Check if a user ID is in the moderator list
  * Handles various formats: comma-separated, space-separated, newline-separated
  */
-function checkModerator(userDiscordId: string | undefined, moderatorIds: string): boolean {
+export function checkModerator(userDiscordId: string | undefined, moderatorIds: string): boolean {
   if (!userDiscordId || !moderatorIds) return false;
   // Split on any combination of whitespace and/or commas for maximum flexibility
   // This handles: "123,456", "123, 456", "123 456", "123\n456", etc.
@@ -212,6 +214,31 @@ function checkModerator(userDiscordId: string | undefined, moderatorIds: string)
   return ids.includes(userDiscordId);
 }
 
+/**
+ * Bootstrap role from the environment: OWNER_DISCORD_ID is an owner, MODERATOR_IDS are moderators
+ * These take precedence over staff_roles, so the first owner can grant roles; admin is only
+ * ever granted explicitly
+ */
+export function getBootstrapRole(userDiscordId: string | undefined, env: Env): StaffRole | null {
+  if (!userDiscordId) return null;
+  if (env.OWNER_DISCORD_ID && userDiscordId === env.OWNER_DISCORD_ID) return 'owner';
+  if (checkModerator(userDiscordId, env.MODERATOR_IDS)) return 'moderator';
+  return null;
+}
+
+/**
+ * Staff fields for a new auth context
+ * Other users' roles are read from staff_roles on the first permission check (see resolveStaffRole),
+ * so requests that never check a permission don't pay for the lookup
+ */
+function bootstrapStaff(
+  userDiscordId: string | undefined,
+  env: Env
+): Pick<AuthContext, 'isModerator' | 'role'> {
+  const role = getBootstrapRole(userDiscordId, env);
+  return role ? { isModerator: true, role } : { isModerator: false };
+}
+
 // ============================================
 // MIDDLEWARE
 // ============================================
@@ -254,7 +281,7 @@ export async function authMiddleware(
           // In production, BOT_SIGNING_SECRET must be configured
           auth = {
             isAuthenticated: true,
-            isModerator: checkModerator(userDiscordId, c.env.MODERATOR_IDS),
+            ...bootstrapStaff(userDiscordId, c.env),
             userDiscordId: userDiscordId || undefined,
             userName: userName || undefined,
             authSource: 'bot',
@@ -288,7 +315,7 @@ export async function authMiddleware(
         } else {
           auth = {
             isAuthenticated: true,
-            isModerator: checkModerator(userDiscordId, c.env.MODERATOR_IDS),
+            ...bootstrapStaff(userDiscordId, c.env),
             userDiscordId: userDiscordId || undefined,
             userName: userName || undefined,
             authSource: 'bot',
@@ -306,7 +333,7 @@ export async function authMiddleware(
 
         auth = {
           isAuthenticated: true,
-          isModerator: checkModerator(jwtPayload.sub, c.env.MODERATOR_IDS),
+          ...bootstrapStaff(jwtPayload.sub, c.env),
           userDiscordId: jwtPayload.sub,
           userName: displayName,
           authSource: 'web',
@@ -344,12 +371,66 @@ export function requireAuth(
 }
 
 /**
- * Require moderator privileges
- * Use as middleware on moderation routes
+ * 403 messages per permission
  */
-export function requireModerator(
+const PERMISSION_MESSAGES: Record<StaffPermission, string> = {
+  manage_roles: 'Owner privileges required',
+  operate: 'Admin privileges required',
+  moderate: 'Moderator privileges required',
+  review: 'Staff privileges required',
+};
+
+/**
+ * Resolve the caller's staff role, reading staff_roles once per request
+ * Updates the auth context (role, isModerator) for later checks
+ */
+export async function resolveStaffRole(
   c: Context<{ Bindings: Env; Variables: Variables }>
-): Response | null {
+): Promise<StaffRole | null> {
+  const auth = c.get('auth');
+
+  if (auth.role !== undefined) {
+    return auth.role;
+  }
+
+  if (!auth.isAuthenticated || !auth.userDiscordId) {
+    return null;
+  }
+
+  let role: StaffRole | null = null;
+  try {
+    role = await getStaffRole(c.env.DB, auth.userDiscordId);
+  } catch (error) {
+    // Fail closed: without the table, only bootstrap staff have privileges
+    console.error('Staff role lookup failed:', error);
+  }
+
+  c.set('auth', { ...auth, role, isModerator: roleHasPermission(role, 'moderate') });
+  return role;
+}
+
+/**
+ * Check whether the caller's role grants a permission
+ * For owner-or-staff checks inside handlers
+ */
+export async function hasPermission(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  permission: StaffPermission
+): Promise<boolean> {
+  if (!c.get('auth').isAuthenticated) {
+    return false;
+  }
+  return roleHasPermission(await resolveStaffRole(c), permission);
+}
+
+/**
+ * Require a staff permission
+ * Use as a guard on moderation and staff routes
+ */
+export async function requirePermission(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  permission: StaffPermission
+): Promise<Response | null> {
   const auth = c.get('auth');
 
   if (!auth.isAuthenticated) {
@@ -362,11 +443,11 @@ export function requireModerator(
     );
   }
 
-  if (!auth.isModerator) {
+  if (!(await hasPermission(c, permission))) {
     return c.json(
       {
         error: 'Forbidden',
-        message: 'Moderator privileges required',
+        message: PERMISSION_MESSAGES[permission],
       },
       403
     );
@@ -8,6 +8,7 @@
  * - POST /api/v1/presets (submit)
  * - PATCH /api/v1/presets/:id (edit)
  * - POST /api/v1/votes/:presetId (vote)
+ * - POST/PATCH /api/v1/collections and collection item changes
  */
 
 import type { Context, Next } from 'hono';
@@ -45,14 +45,7 @@ export async function loggerMiddleware(
   next: Next
 ): Promise<void | Response> {
   const requestId = c.get('requestId');
-  const logger = createRequestLogger(
-    {
-      ENVIRONMENT: c.env.ENVIRONMENT,
-      API_VERSION: c.env.API_VERSION,
-      SERVICE_NAME: 'xivdyetools-presets-api',
-    },
-    requestId
-  );
+  const logger = createWorkerLogger(c.env, requestId);
 
   // Store logger in context
   c.set('logger', logger);
@@ -81,6 +74,21 @@ export async function loggerMiddleware(
   });
 }
 
+/**
+ * Create a structured logger outside the request middleware
+ * (e.g. scheduled jobs), tagged with the given correlation ID.
+ */
+export function createWorkerLogger(env: Env, correlationId: string): ExtendedLogger {
+  return createRequestLogger(
+    {
+      ENVIRONMENT: env.ENVIRONMENT,
+      API_VERSION: env.API_VERSION,
+      SERVICE_NAME: 'xivdyetools-presets-api',
+    },
+    correlationId
+  );
+}
+
 /**
  * Helper to get logger from context with fallback.
  * Useful in error handlers where the middleware may not have run.
@@ -0,0 +1,270 @@
+/**
+ * Appeal Service
+ * Appeals against preset rejections and bans
+ *
+ * An author can appeal a rejected preset, and a banned user their active ban,
+ * with one open appeal per preset or ban at a time. Granting an appeal
+ * approves the preset or lifts the ban (restoring hidden presets, see
+ * ban-service). The decision, its moderation_log entries and its effects run
+ * in one batch.
+ */
+
+import type {
+  Appeal,
+  AppealResolutionResult,
+  AppealRow,
+  AppealStatus,
+} from '../types.js';
+import { buildUnbanStatements } from './ban-service.js';
+import { buildOutboxInsertStatement, type NotificationMessage } from './notification-service.js';
+
+/**
+ * Appeal message length limits
+ */
+export const APPEAL_MESSAGE_MIN_LENGTH = 10;
+export const APPEAL_MESSAGE_MAX_LENGTH = 1000;
+
+/**
+ * Maximum length of a moderator's resolution note
+ */
+export const MAX_RESOLUTION_NOTE_LENGTH = 500;
+
+/**
+ * Accepted appeal statuses (for queue filters)
+ */
+export const APPEAL_STATUSES: readonly AppealStatus[] = ['open', 'granted', 'denied'];
+
+/**
+ * Convert an appeals row to the API shape
+ */
+export function rowToAppeal(row: AppealRow): Appeal {
+  return {
+    id: row.id,
+    appellant_discord_id: row.appellant_discord_id,
+    target_type: row.preset_id !== null ? 'preset' : 'ban',
+    preset_id: row.preset_id,
+    ban_id: row.ban_id,
+    message: row.message,
+    status: row.status as AppealStatus,
+    created_at: row.created_at,
+    resolved_at: row.resolved_at,
+    resolved_by_discord_id: row.resolved_by_discord_id,
+    resolution_note: row.resolution_note,
+  };
+}
+
+/**
+ * Get an appeal by ID
+ */
+export async function getAppealById(db: D1Database, id: string): Promise<Appeal | null> {
+  const row = await db.prepare('SELECT * FROM appeals WHERE id = ?').bind(id).first<AppealRow>();
+  return row ? rowToAppeal(row) : null;
+}
+
+/**
+ * A user's own appeals, most recent first
+ */
+export async function getUserAppeals(db: D1Database, discordId: string): Promise<Appeal[]> {
+  const result = await db
+    .prepare('SELECT * FROM appeals WHERE appellant_discord_id = ? ORDER BY created_at DESC')
+    .bind(discordId)
+    .all<AppealRow>();
+  return (result.results || []).map(rowToAppeal);
+}
+
+/**
+ * Moderator queue: appeals with a status (default open)
+ * Open appeals are listed oldest first so none wait indefinitely; closed ones newest first
+ */
+export async function getAppealQueue(
+  db: D1Database,
+  options: { status?: AppealStatus; page?: number; limit?: number } = {}
+): Promise<{ appeals: Appeal[]; total: number; page: number; limit: number; has_more: boolean }> {
+  const status = options.status ?? 'open';
+  const page = options.page && options.page > 0 ? options.page : 1;
+  const limit = options.limit && options.limit > 0 ? options.limit : 20;
+  const offset = (page - 1) * limit;
+  const order = status === 'open' ? 'ASC' : 'DESC';
+
+  // PERFORMANCE: COUNT(*) OVER() returns the total alongside the page (uses idx_appeals_status_created)
+  const result = await db
+    .prepare(
+      `SELECT *, COUNT(*) OVER() as _total
+       FROM appeals
+       WHERE status = ?
+       ORDER BY created_at ${order}, id ASC
+       LIMIT ? OFFSET ?`
+    )
+    .bind(status, limit, offset)
+    .all<AppealRow & { _total: number }>();
+
+  const rows = result.results || [];
+  const total = rows.length > 0 ? rows[0]._total : 0;
+
+  return {
+    appeals: rows.map(rowToAppeal),
+    total,
+    page,
+    limit,
+    has_more: offset + rows.length < total,
+  };
+}
+
+/**
+ * File an appeal against a rejected preset or a ban
+ * The caller checks that the target exists, belongs to the appellant and is appealable
+ *
+ * @returns The new appeal, or null if one is already open for the target
+ */
+export async function submitAppeal(
+  db: D1Database,
+  appellantDiscordId: string,
+  target: { preset_id: string } | { ban_id: string },
+  message: string
+): Promise<Appeal | null> {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const presetId = 'preset_id' in target ? target.preset_id : null;
+  const banId = 'ban_id' in target ? target.ban_id : null;
+
+  // idx_appeals_preset_open / idx_appeals_ban_open allow one open appeal per target
+  const result = await db
+    .prepare(
+      `INSERT INTO appeals (id, appellant_discord_id, preset_id, ban_id, message, status, created_at)
+       VALUES (?, ?, ?, ?, ?, 'open', ?)
+       ON CONFLICT DO NOTHING`
+    )
+    .bind(id, appellantDiscordId, presetId, banId, message, now)
+    .run();
+
+  if (!result.meta.changes) {
+    return null;
+  }
+
+  return {
+    id,
+    appellant_discord_id: appellantDiscordId,
+    target_type: presetId !== null ? 'preset' : 'ban',
+    preset_id: presetId,
+    ban_id: banId,
+    message,
+    status: 'open',
+    created_at: now,
+    resolved_at: null,
+    resolved_by_discord_id: null,
+    resolution_note: null,
+  };
+}
+
+/**
+ * Grant or deny an open appeal
+ *
+ * Logs the decision to moderation_log as appeal_granted / appeal_denied. A
+ * granted preset appeal approves the preset if it is still rejected (logged
+ * as 'approve') and queues `notification` for the author if it did; a
+ * granted ban appeal lifts the ban if it is still active. Every step after
+ * the first only runs if this call closed the appeal.
+ *
+ * @returns null if the appeal was no longer open
+ */
+export async function resolveAppeal(
+  db: D1Database,
+  appeal: Appeal,
+  decision: Exclude<AppealStatus, 'open'>,
+  moderatorDiscordId: string,
+  note: string | null,
+  notification?: NotificationMessage | null
+): Promise<AppealResolutionResult | null> {
+  const now = new Date().toISOString();
+
+  const resolvedHere = `EXISTS (
+    SELECT 1 FROM appeals
+    WHERE id = ? AND status = ? AND resolved_at = ? AND resolved_by_discord_id = ?
+  )`;
+  const resolvedHereBindings = [appeal.id, decision, now, moderatorDiscordId];
+
+  const statements = [
+    db
+      .prepare(
+        `UPDATE appeals SET status = ?, resolved_at = ?, resolved_by_discord_id = ?, resolution_note = ?
+         WHERE id = ? AND status = 'open'`
+      )
+      .bind(decision, now, moderatorDiscordId, note, appeal.id),
+    db
+      .prepare(
+        `INSERT INTO moderation_log (id, preset_id, subject_discord_id, moderator_discord_id, action, reason, created_at)
+         SELECT lower(hex(randomblob(16))), preset_id, appellant_discord_id, ?, ?, ?, ?
+         FROM appeals WHERE ${resolvedHere}`
+      )
+      .bind(
+        moderatorDiscordId,
+        decision === 'granted' ? 'appeal_granted' : 'appeal_denied',
+        note,
+        now,
+        ...resolvedHereBindings
+      ),
+  ];
+
+  if (decision === 'granted' && appeal.preset_id) {
+    const stillRejected = `id = ? AND status = 'rejected' AND ${resolvedHere}`;
+    const approveLogId = crypto.randomUUID();
+    statements.push(
+      // Log first, then update: both select the same rows
+      db
+        .prepare(
+          `INSERT INTO moderation_log (id, preset_id, subject_discord_id, moderator_discord_id, action, reason, created_at)
+           SELECT ?, id, author_discord_id, ?, 'approve', ?, ?
+           FROM presets WHERE ${stillRejected}`
+        )
+        .bind(
+          approveLogId,
+          moderatorDiscordId,
+          note ? `Appeal granted: ${note}` : 'Appeal granted',
+          now,
+          appeal.preset_id,
+          ...resolvedHereBindings
+        ),
+      db
+        .prepare(`UPDATE presets SET status = 'approved', updated_at = ? WHERE ${stillRejected}`)
+        .bind(now, appeal.preset_id, ...resolvedHereBindings)
+    );
+    if (notification) {
+      // Only announce an approval this resolution made
+      statements.push(
+        buildOutboxInsertStatement(db, notification, now, {
+          sql: 'EXISTS (SELECT 1 FROM moderation_log WHERE id = ?)',
+          bindings: [approveLogId],
+        })
+      );
+    }
+  } else if (decision === 'granted' && appeal.ban_id) {
+    statements.push(
+      ...buildUnbanStatements(db, appeal.ban_id, moderatorDiscordId, now, {
+        sql: resolvedHere,
+        bindings: resolvedHereBindings,
+      })
+    );
+  }
+
+  const results = await db.batch(statements);
+
+  if (!results[0]?.meta?.changes) {
+    // Resolved concurrently by another moderator
+    return null;
+  }
+
+  // Preset appeals: the status update; ban appeals: the preset restore
+  const affectedIndex = decision === 'granted' && appeal.preset_id ? 3 : results.length - 1;
+  const affected = decision === 'granted' ? results[affectedIndex]?.meta?.changes ?? 0 : 0;
+
+  return {
+    appeal: {
+      ...appeal,
+      status: decision,
+      resolved_at: now,
+      resolved_by_discord_id: moderatorDiscordId,
+      resolution_note: note,
+    },
+    affected_presets: affected,
+  };
+}
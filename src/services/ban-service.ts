@@ -0,0 +1,263 @@
+/**
+ * Ban Service
+ * Bans and unbans users from Preset Palettes
+ *
+ * A ban hides every preset the user authored (status = 'hidden') and records
+ * each preset's previous status in ban_hidden_presets. Unbanning restores
+ * those presets, skipping any a moderator has changed since. The ban or unban
+ * itself and each preset hidden or restored get a moderation_log entry, in
+ * the same batch as the ban change.
+ */
+
+import type { BanActionResult, BannedUserRow, BanSubmission, UserBan } from '../types.js';
+
+/**
+ * Ban reason length limits (matches the banned_users.reason column comment)
+ */
+export const BAN_REASON_MIN_LENGTH = 10;
+export const BAN_REASON_MAX_LENGTH = 500;
+
+/**
+ * Convert a banned_users row to the API shape
+ */
+export function rowToBan(row: BannedUserRow): UserBan {
+  return {
+    id: row.id,
+    discord_id: row.discord_id,
+    xivauth_id: row.xivauth_id,
+    username: row.username,
+    moderator_discord_id: row.moderator_discord_id,
+    reason: row.reason,
+    banned_at: row.banned_at,
+    unbanned_at: row.unbanned_at,
+    unban_moderator_discord_id: row.unban_moderator_discord_id,
+    is_active: row.unbanned_at === null,
+  };
+}
+
+/**
+ * Get a ban by ID
+ */
+export async function getBanById(db: D1Database, id: string): Promise<UserBan | null> {
+  const row = await db.prepare('SELECT * FROM banned_users WHERE id = ?').bind(id).first<BannedUserRow>();
+  return row ? rowToBan(row) : null;
+}
+
+/**
+ * Get a user's active ban, if any
+ */
+export async function getActiveBan(db: D1Database, discordId: string): Promise<UserBan | null> {
+  const row = await db
+    .prepare('SELECT * FROM banned_users WHERE discord_id = ? AND unbanned_at IS NULL LIMIT 1')
+    .bind(discordId)
+    .first<BannedUserRow>();
+  return row ? rowToBan(row) : null;
+}
+
+/**
+ * List active bans, most recent first
+ */
+export async function getActiveBans(
+  db: D1Database,
+  options: { page?: number; limit?: number } = {}
+): Promise<{ bans: UserBan[]; total: number; page: number; limit: number; has_more: boolean }> {
+  const page = options.page && options.page > 0 ? options.page : 1;
+  const limit = options.limit && options.limit > 0 ? options.limit : 20;
+  const offset = (page - 1) * limit;
+
+  // PERFORMANCE: COUNT(*) OVER() returns the total alongside the page (uses idx_banned_users_active)
+  const result = await db
+    .prepare(
+      `SELECT *, COUNT(*) OVER() as _total
+       FROM banned_users
+       WHERE unbanned_at IS NULL
+       ORDER BY banned_at DESC
+       LIMIT ? OFFSET ?`
+    )
+    .bind(limit, offset)
+    .all<BannedUserRow & { _total: number }>();
+
+  const rows = result.results || [];
+  const total = rows.length > 0 ? rows[0]._total : 0;
+
+  return {
+    bans: rows.map(rowToBan),
+    total,
+    page,
+    limit,
+    has_more: offset + rows.length < total,
+  };
+}
+
+/**
+ * Get every ban (active and lifted) for a user, most recent first
+ */
+export async function getBanHistory(db: D1Database, discordId: string): Promise<UserBan[]> {
+  const result = await db
+    .prepare('SELECT * FROM banned_users WHERE discord_id = ? ORDER BY banned_at DESC')
+    .bind(discordId)
+    .all<BannedUserRow>();
+  return (result.results || []).map(rowToBan);
+}
+
+/**
+ * Ban a user and hide all of their presets
+ *
+ * Throws a UNIQUE constraint error if the user already has an active ban
+ * (idx_banned_users_discord_active); the whole batch is rolled back then.
+ */
+export async function banUser(
+  db: D1Database,
+  submission: BanSubmission,
+  moderatorDiscordId: string
+): Promise<BanActionResult> {
+  const banId = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const logReason = `User banned: ${submission.reason}`;
+
+  const [, , , , hideResult] = await db.batch([
+    db
+      .prepare(
+        `INSERT INTO banned_users (id, discord_id, username, moderator_discord_id, reason, banned_at)
+         VALUES (?, ?, COALESCE(?, (
+           SELECT author_name FROM presets
+           WHERE author_discord_id = ? AND author_name IS NOT NULL
+           ORDER BY created_at DESC LIMIT 1
+         ), ?), ?, ?, ?)`
+      )
+      .bind(
+        banId,
+        submission.discord_id,
+        submission.username ?? null,
+        submission.discord_id,
+        submission.discord_id,
+        moderatorDiscordId,
+        submission.reason,
+        now
+      ),
+    db
+      .prepare(
+        `INSERT INTO moderation_log (id, preset_id, subject_discord_id, moderator_discord_id, action, reason, created_at)
+         VALUES (?, NULL, ?, ?, 'ban', ?, ?)`
+      )
+      .bind(crypto.randomUUID(), submission.discord_id, moderatorDiscordId, submission.reason, now),
+    // Remember what each preset was, so unbanning can restore it
+    db
+      .prepare(
+        `INSERT INTO ban_hidden_presets (ban_id, preset_id, previous_status)
+         SELECT ?, id, status FROM presets
+         WHERE author_discord_id = ? AND status != 'hidden'`
+      )
+      .bind(banId, submission.discord_id),
+    db
+      .prepare(
+        `INSERT INTO moderation_log (id, preset_id, moderator_discord_id, action, reason, created_at)
+         SELECT lower(hex(randomblob(16))), preset_id, ?, 'hide', ?, ?
+         FROM ban_hidden_presets WHERE ban_id = ?`
+      )
+      .bind(moderatorDiscordId, logReason, now, banId),
+    db
+      .prepare(
+        `UPDATE presets SET status = 'hidden', updated_at = ?
+         WHERE id IN (SELECT preset_id FROM ban_hidden_presets WHERE ban_id = ?)`
+      )
+      .bind(now, banId),
+  ]);
+
+  const ban = await getBanById(db, banId);
+  return {
+    ban: ban!,
+    affected_presets: hideResult?.meta?.changes ?? 0,
+  };
+}
+
+/**
+ * Statements that lift a ban and restore the presets it hid
+ *
+ * Restore steps only run if this batch's lift was the one applied (guards
+ * against a concurrent unban + re-ban restoring the new ban's presets).
+ * Presets whose status a moderator changed during the ban are left alone.
+ * A preset restored to pending re-enters the queue, so its pending_since restarts.
+ *
+ * @param condition - Extra SQL condition the lift requires (e.g. an appeal
+ *                    granted in the same batch), with its bindings
+ * @returns [lift, unban log, unhide log, restore] statements for db.batch()
+ */
+export function buildUnbanStatements(
+  db: D1Database,
+  banId: string,
+  moderatorDiscordId: string,
+  now: string,
+  condition?: { sql: string; bindings: unknown[] }
+): D1PreparedStatement[] {
+  const appliedHere = 'EXISTS (SELECT 1 FROM banned_users WHERE id = ? AND unbanned_at = ?)';
+  const stillHidden = `presets.status = 'hidden'
+    AND presets.id IN (SELECT preset_id FROM ban_hidden_presets WHERE ban_id = ?)`;
+  const previousStatus = `SELECT previous_status FROM ban_hidden_presets
+    WHERE ban_id = ? AND preset_id = presets.id`;
+
+  return [
+    db
+      .prepare(
+        `UPDATE banned_users SET unbanned_at = ?, unban_moderator_discord_id = ?
+         WHERE id = ? AND unbanned_at IS NULL${condition ? ` AND ${condition.sql}` : ''}`
+      )
+      .bind(now, moderatorDiscordId, banId, ...(condition?.bindings ?? [])),
+    db
+      .prepare(
+        `INSERT INTO moderation_log (id, preset_id, subject_discord_id, moderator_discord_id, action, reason, created_at)
+         SELECT lower(hex(randomblob(16))), NULL, discord_id, ?, 'unban', 'User unbanned', ?
+         FROM banned_users WHERE id = ? AND unbanned_at = ?`
+      )
+      .bind(moderatorDiscordId, now, banId, now),
+    db
+      .prepare(
+        `INSERT INTO moderation_log (id, preset_id, moderator_discord_id, action, reason, created_at)
+         SELECT lower(hex(randomblob(16))), presets.id, ?, 'unhide', 'User unbanned', ?
+         FROM presets WHERE ${stillHidden} AND ${appliedHere}`
+      )
+      .bind(moderatorDiscordId, now, banId, banId, now),
+    db
+      .prepare(
+        `UPDATE presets
+         SET status = (${previousStatus}),
+             pending_since = CASE WHEN (${previousStatus}) = 'pending' THEN ? ELSE pending_since END,
+             updated_at = ?
+         WHERE ${stillHidden} AND ${appliedHere}`
+      )
+      .bind(banId, banId, now, now, banId, banId, now),
+  ];
+}
+
+/**
+ * Lift a user's active ban and restore the presets it hid
+ *
+ * Presets whose status a moderator changed during the ban are left alone.
+ * @returns null if the user has no active ban
+ */
+export async function unbanUser(
+  db: D1Database,
+  discordId: string,
+  moderatorDiscordId: string
+): Promise<BanActionResult | null> {
+  const activeBan = await getActiveBan(db, discordId);
+  if (!activeBan) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const [liftResult, , , restoreResult] = await db.batch(
+    buildUnbanStatements(db, activeBan.id, moderatorDiscordId, now)
+  );
+
+  if (!liftResult?.meta?.changes) {
+    // Lifted concurrently by another request
+    return null;
+  }
+
+  const ban = await getBanById(db, activeBan.id);
+  return {
+    ban: ban!,
+    affected_presets: restoreResult?.meta?.changes ?? 0,
+  };
+}
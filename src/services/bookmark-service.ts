@@ -0,0 +1,120 @@
+/**
+ * Bookmark Service
+ * Private "save for later" lists, stored separately from votes
+ *
+ * Bookmarks never touch presets.vote_count, so they have no effect on the
+ * popular sort or getFeaturedPresets().
+ */
+
+import type { BookmarkedPreset, PresetRow } from '../types.js';
+import { rowToPreset } from './preset-service.js';
+
+/**
+ * Maximum preset IDs accepted by a single batch lookup
+ */
+export const MAX_BOOKMARK_LOOKUP_IDS = 50;
+
+/**
+ * Bookmark a preset
+ * @returns True if added, false if it was already bookmarked
+ */
+export async function addBookmark(
+  db: D1Database,
+  userDiscordId: string,
+  presetId: string
+): Promise<boolean> {
+  // ON CONFLICT DO NOTHING: the PRIMARY KEY makes concurrent adds safe
+  const result = await db
+    .prepare(
+      'INSERT INTO bookmarks (user_discord_id, preset_id, created_at) VALUES (?, ?, ?) ON CONFLICT DO NOTHING'
+    )
+    .bind(userDiscordId, presetId, new Date().toISOString())
+    .run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Remove a bookmark
+ * @returns True if removed, false if the preset was not bookmarked
+ */
+export async function removeBookmark(
+  db: D1Database,
+  userDiscordId: string,
+  presetId: string
+): Promise<boolean> {
+  const result = await db
+    .prepare('DELETE FROM bookmarks WHERE user_discord_id = ? AND preset_id = ?')
+    .bind(userDiscordId, presetId)
+    .run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Get a user's bookmarked presets, most recently saved first
+ * Only approved presets are returned; bookmarks on hidden presets are kept but not listed
+ */
+export async function getBookmarkedPresets(
+  db: D1Database,
+  userDiscordId: string,
+  options: { page?: number; limit?: number } = {}
+): Promise<{ presets: BookmarkedPreset[]; total: number; page: number; limit: number; has_more: boolean }> {
+  const page = options.page && options.page > 0 ? options.page : 1;
+  const limit = options.limit && options.limit > 0 ? options.limit : 20;
+  const offset = (page - 1) * limit;
+
+  // PERFORMANCE: COUNT(*) OVER() returns the total alongside the page in one query
+  const query = `
+    SELECT p.*, b.created_at as bookmarked_at, COUNT(*) OVER() as _total
+    FROM bookmarks b
+    JOIN presets p ON p.id = b.preset_id
+    WHERE b.user_discord_id = ? AND p.status = 'approved'
+    ORDER BY b.created_at DESC
+    LIMIT ? OFFSET ?
+  `;
+  const result = await db
+    .prepare(query)
+    .bind(userDiscordId, limit, offset)
+    .all<PresetRow & { bookmarked_at: string; _total: number }>();
+
+  const rows = result.results || [];
+  const total = rows.length > 0 ? rows[0]._total : 0;
+
+  return {
+    presets: rows.map((row) => ({ ...rowToPreset(row), bookmarked_at: row.bookmarked_at })),
+    total,
+    page,
+    limit,
+    has_more: offset + rows.length < total,
+  };
+}
+
+/**
+ * Batch lookup: which of the given presets has the user bookmarked
+ * @returns Map of every requested preset ID to its bookmark state
+ */
+export async function getBookmarkStatuses(
+  db: D1Database,
+  userDiscordId: string,
+  presetIds: string[]
+): Promise<Record<string, boolean>> {
+  const statuses: Record<string, boolean> = {};
+  for (const id of presetIds) {
+    statuses[id] = false;
+  }
+  if (presetIds.length === 0) {
+    return statuses;
+  }
+
+  const placeholders = presetIds.map(() => '?').join(', ');
+  const result = await db
+    .prepare(
+      `SELECT preset_id FROM bookmarks WHERE user_discord_id = ? AND preset_id IN (${placeholders})`
+    )
+    .bind(userDiscordId, ...presetIds)
+    .all<{ preset_id: string }>();
+
+  for (const row of result.results || []) {
+    statuses[row.preset_id] = true;
+  }
+  return statuses;
+}
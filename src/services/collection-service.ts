@@ -0,0 +1,364 @@
+/**
+ * Collection Service
+ * Handles user collections (ordered, optionally public lists of presets)
+ *
+ * Items are stored for any preset, but reads only return presets that are
+ * currently approved. Hidden, rejected or pending presets therefore drop out of
+ * every collection without touching collection_items, and come back if they
+ * are approved again. Deleted presets are removed by the preset delete batch
+ * (and the ON DELETE CASCADE on collection_items).
+ */
+
+import type {
+  Collection,
+  CollectionEditRequest,
+  CollectionRow,
+  CollectionSubmission,
+  CommunityPreset,
+  PresetRow,
+} from '../types.js';
+import { rowToPreset } from './preset-service.js';
+
+/**
+ * Maximum collections a single user can own
+ */
+export const MAX_COLLECTIONS_PER_USER = 50;
+
+/**
+ * Maximum presets in a single collection
+ */
+export const MAX_COLLECTION_ITEMS = 100;
+
+/**
+ * Item count subquery for `collections c`, counting only approved presets
+ */
+const VISIBLE_ITEM_COUNT = `
+  (SELECT COUNT(*) FROM collection_items ci
+   JOIN presets p ON p.id = ci.preset_id
+   WHERE ci.collection_id = c.id AND p.status = 'approved') as item_count
+`;
+
+/**
+ * Convert database row to Collection
+ */
+export function rowToCollection(row: CollectionRow): Collection {
+  return {
+    id: row.id,
+    owner_discord_id: row.owner_discord_id,
+    owner_name: row.owner_name,
+    name: row.name,
+    description: row.description,
+    is_public: row.is_public === 1,
+    held_for_review: row.held_for_review === 1,
+    item_count: row.item_count || 0,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+// ============================================
+// COLLECTION QUERIES
+// ============================================
+
+/**
+ * Get a single collection by ID (any visibility; callers enforce access)
+ */
+export async function getCollectionById(
+  db: D1Database,
+  id: string
+): Promise<Collection | null> {
+  const query = `SELECT c.*, ${VISIBLE_ITEM_COUNT} FROM collections c WHERE c.id = ?`;
+  const row = await db.prepare(query).bind(id).first<CollectionRow>();
+  return row ? rowToCollection(row) : null;
+}
+
+/**
+ * Get all collections owned by a user (public and private), most recently updated first
+ */
+export async function getCollectionsByOwner(
+  db: D1Database,
+  ownerDiscordId: string
+): Promise<Collection[]> {
+  const query = `
+    SELECT c.*, ${VISIBLE_ITEM_COUNT}
+    FROM collections c
+    WHERE c.owner_discord_id = ?
+    ORDER BY c.updated_at DESC
+  `;
+  const result = await db.prepare(query).bind(ownerDiscordId).all<CollectionRow>();
+  return (result.results || []).map(rowToCollection);
+}
+
+/**
+ * Get public collections with pagination, optionally for a single owner
+ * Collections held for review are left out
+ */
+export async function getPublicCollections(
+  db: D1Database,
+  options: { owner?: string; page?: number; limit?: number } = {}
+): Promise<{ collections: Collection[]; total: number; page: number; limit: number; has_more: boolean }> {
+  const page = options.page && options.page > 0 ? options.page : 1;
+  const limit = options.limit && options.limit > 0 ? options.limit : 20;
+  const offset = (page - 1) * limit;
+
+  const conditions = ['c.is_public = 1', 'c.held_for_review = 0'];
+  const params: (string | number)[] = [];
+  if (options.owner) {
+    conditions.push('c.owner_discord_id = ?');
+    params.push(options.owner);
+  }
+
+  // PERFORMANCE: COUNT(*) OVER() returns the total alongside the page in one query
+  const query = `
+    SELECT c.*, ${VISIBLE_ITEM_COUNT}, COUNT(*) OVER() as _total
+    FROM collections c
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY c.updated_at DESC
+    LIMIT ? OFFSET ?
+  `;
+  const result = await db
+    .prepare(query)
+    .bind(...params, limit, offset)
+    .all<CollectionRow & { _total: number }>();
+
+  const rows = result.results || [];
+  const total = rows.length > 0 ? rows[0]._total : 0;
+
+  return {
+    collections: rows.map(rowToCollection),
+    total,
+    page,
+    limit,
+    has_more: offset + rows.length < total,
+  };
+}
+
+/**
+ * Count collections owned by a user (for MAX_COLLECTIONS_PER_USER)
+ */
+export async function countCollectionsByOwner(
+  db: D1Database,
+  ownerDiscordId: string
+): Promise<number> {
+  const row = await db
+    .prepare('SELECT COUNT(*) as count FROM collections WHERE owner_discord_id = ?')
+    .bind(ownerDiscordId)
+    .first<{ count: number }>();
+  return row?.count || 0;
+}
+
+// ============================================
+// COLLECTION MUTATIONS
+// ============================================
+
+/**
+ * Create a new collection
+ */
+export async function createCollection(
+  db: D1Database,
+  submission: CollectionSubmission,
+  ownerDiscordId: string,
+  ownerName: string,
+  heldForReview: boolean = false
+): Promise<Collection> {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const description = submission.description || null;
+  const isPublic = submission.is_public === true;
+
+  const query = `
+    INSERT INTO collections (
+      id, owner_discord_id, owner_name, name, description, is_public, held_for_review, created_at, updated_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  await db
+    .prepare(query)
+    .bind(
+      id,
+      ownerDiscordId,
+      ownerName,
+      submission.name,
+      description,
+      isPublic ? 1 : 0,
+      heldForReview ? 1 : 0,
+      now,
+      now
+    )
+    .run();
+
+  return {
+    id,
+    owner_discord_id: ownerDiscordId,
+    owner_name: ownerName,
+    name: submission.name,
+    description,
+    is_public: isPublic,
+    held_for_review: heldForReview,
+    item_count: 0,
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+/**
+ * Update a collection's name, description and/or visibility
+ * `heldForReview` is given when the text was re-moderated
+ */
+export async function updateCollection(
+  db: D1Database,
+  id: string,
+  updates: CollectionEditRequest,
+  heldForReview?: boolean
+): Promise<Collection | null> {
+  const now = new Date().toISOString();
+  const setClauses: string[] = ['updated_at = ?'];
+  const params: (string | number | null)[] = [now];
+
+  if (updates.name !== undefined) {
+    setClauses.push('name = ?');
+    params.push(updates.name);
+  }
+  if (updates.description !== undefined) {
+    setClauses.push('description = ?');
+    params.push(updates.description || null);
+  }
+  if (updates.is_public !== undefined) {
+    setClauses.push('is_public = ?');
+    params.push(updates.is_public ? 1 : 0);
+  }
+  if (heldForReview !== undefined) {
+    setClauses.push('held_for_review = ?');
+    params.push(heldForReview ? 1 : 0);
+  }
+
+  params.push(id);
+
+  await db
+    .prepare(`UPDATE collections SET ${setClauses.join(', ')} WHERE id = ?`)
+    .bind(...params)
+    .run();
+
+  return getCollectionById(db, id);
+}
+
+/**
+ * Delete a collection and its items
+ */
+export async function deleteCollection(db: D1Database, id: string): Promise<void> {
+  // PRESETS-PERF-001: batch() for atomicity, not performance
+  await db.batch([
+    db.prepare('DELETE FROM collection_items WHERE collection_id = ?').bind(id),
+    db.prepare('DELETE FROM collections WHERE id = ?').bind(id),
+  ]);
+}
+
+// ============================================
+// COLLECTION ITEMS
+// ============================================
+
+/**
+ * Get the approved presets in a collection, in display order
+ */
+export async function getCollectionPresets(
+  db: D1Database,
+  collectionId: string
+): Promise<CommunityPreset[]> {
+  const query = `
+    SELECT p.*
+    FROM collection_items ci
+    JOIN presets p ON p.id = ci.preset_id
+    WHERE ci.collection_id = ? AND p.status = 'approved'
+    ORDER BY ci.position ASC, ci.added_at ASC
+  `;
+  const result = await db.prepare(query).bind(collectionId).all<PresetRow>();
+  return (result.results || []).map(rowToPreset);
+}
+
+/**
+ * Get the preset IDs of every item in a collection, in display order
+ * Includes items whose preset is not currently approved
+ */
+export async function getCollectionItemIds(
+  db: D1Database,
+  collectionId: string
+): Promise<string[]> {
+  const query = `
+    SELECT preset_id FROM collection_items
+    WHERE collection_id = ?
+    ORDER BY position ASC, added_at ASC
+  `;
+  const result = await db.prepare(query).bind(collectionId).all<{ preset_id: string }>();
+  return (result.results || []).map((row) => row.preset_id);
+}
+
+/**
+ * Append a preset to the end of a collection
+ * A preset that is already in the collection is left where it is
+ */
+export async function addCollectionItem(
+  db: D1Database,
+  collectionId: string,
+  presetId: string
+): Promise<void> {
+  const now = new Date().toISOString();
+  await db.batch([
+    db
+      .prepare(
+        `INSERT OR IGNORE INTO collection_items (collection_id, preset_id, position, added_at)
+         SELECT ?, ?, COALESCE(MAX(position), -1) + 1, ?
+         FROM collection_items WHERE collection_id = ?`
+      )
+      .bind(collectionId, presetId, now, collectionId),
+    db.prepare('UPDATE collections SET updated_at = ? WHERE id = ?').bind(now, collectionId),
+  ]);
+}
+
+/**
+ * Remove a preset from a collection
+ * @returns True if the preset was in the collection
+ */
+export async function removeCollectionItem(
+  db: D1Database,
+  collectionId: string,
+  presetId: string
+): Promise<boolean> {
+  const result = await db
+    .prepare('DELETE FROM collection_items WHERE collection_id = ? AND preset_id = ?')
+    .bind(collectionId, presetId)
+    .run();
+
+  if (result.meta.changes === 0) {
+    return false;
+  }
+
+  await db
+    .prepare('UPDATE collections SET updated_at = ? WHERE id = ?')
+    .bind(new Date().toISOString(), collectionId)
+    .run();
+  return true;
+}
+
+/**
+ * Rewrite item positions to match the given order
+ * presetIds should list every item in the collection (see getCollectionItemIds)
+ */
+export async function reorderCollectionItems(
+  db: D1Database,
+  collectionId: string,
+  presetIds: string[]
+): Promise<void> {
+  const statements = presetIds.map((presetId, position) =>
+    db
+      .prepare('UPDATE collection_items SET position = ? WHERE collection_id = ? AND preset_id = ?')
+      .bind(position, collectionId, presetId)
+  );
+  statements.push(
+    db
+      .prepare('UPDATE collections SET updated_at = ? WHERE id = ?')
+      .bind(new Date().toISOString(), collectionId)
+  );
+
+  await db.batch(statements);
+}
@@ -0,0 +1,297 @@
+/**
+ * Maintenance Service
+ * Registry of maintenance jobs run by the cron trigger (scheduled handler in
+ * src/index.ts) and on demand via POST /api/v1/moderation/jobs/:name/run
+ *
+ * Every job must be idempotent: running it twice in a row, or concurrently
+ * with a scheduled run, leaves the database in the same state.
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import type { Env, MaintenanceJobResult, MaintenanceJobRun } from '../types.js';
+import { refreshTrendingScores } from './preset-service.js';
+import { reconcileVoteCounts } from './vote-integrity-service.js';
+import { DELIVERED_RETENTION_DAYS, drainNotificationOutbox } from './notification-service.js';
+import { escalateOverduePresets, resolveModerationSlaHours } from './queue-service.js';
+
+/**
+ * Cron expressions configured in wrangler.toml [triggers]
+ */
+export const CRON_EVERY_5_MINUTES = '*/5 * * * *';
+export const CRON_EVERY_15_MINUTES = '*/15 * * * *';
+export const CRON_DAILY = '0 4 * * *';
+
+/**
+ * Pending presets untouched for this many days are rejected by expire-stale-pending
+ */
+export const PENDING_EXPIRY_DAYS = 30;
+
+/**
+ * Moderator ID recorded in moderation_log for automated actions
+ */
+export const SYSTEM_MODERATOR_ID = 'system';
+
+export interface MaintenanceJobContext {
+  db: D1Database;
+  env: Env;
+  logger: ExtendedLogger;
+  now: Date;
+}
+
+export interface MaintenanceJob {
+  name: string;
+  description: string;
+  /** Cron expression that runs this job (must match a wrangler.toml trigger) */
+  schedule: string;
+  run(context: MaintenanceJobContext): Promise<MaintenanceJobResult>;
+}
+
+// ============================================
+// JOBS
+// ============================================
+
+/**
+ * Recompute presets.trending_score from recent votes
+ */
+const refreshTrendingJob: MaintenanceJob = {
+  name: 'refresh-trending-scores',
+  description: 'Recompute presets.trending_score from the last 7 days of votes',
+  schedule: CRON_EVERY_15_MINUTES,
+  async run({ db, now }) {
+    const trending = await refreshTrendingScores(db, now);
+    return { affected: trending, details: { trending_presets: trending } };
+  },
+};
+
+/**
+ * Delete expired rows from rate_limits
+ */
+const cleanupRateLimitsJob: MaintenanceJob = {
+  name: 'cleanup-rate-limits',
+  description: 'Delete expired rate_limits rows',
+  schedule: CRON_DAILY,
+  async run({ db, now }) {
+    // datetime() normalizes to the table's 'YYYY-MM-DD HH:MM:SS' format (uses idx_rate_limits_expires)
+    const result = await db
+      .prepare('DELETE FROM rate_limits WHERE expires_at < datetime(?)')
+      .bind(now.toISOString())
+      .run();
+    return { affected: result.meta.changes };
+  },
+};
+
+/**
+ * Reset presets.vote_count to the number of rows in votes
+ */
+const reconcileVoteCountsJob: MaintenanceJob = {
+  name: 'reconcile-vote-counts',
+  description: 'Reset presets.vote_count to the actual number of votes',
+  schedule: CRON_DAILY,
+  async run({ db }) {
+    const { report, fixed } = await reconcileVoteCounts(db);
+    return {
+      affected: fixed,
+      details: { mismatches: report.mismatch_count, orphaned_votes: report.orphaned_votes },
+    };
+  },
+};
+
+/**
+ * Reject presets that have waited in the pending queue too long
+ * Logged to moderation_log as 'reject' by the system moderator
+ */
+const expireStalePendingJob: MaintenanceJob = {
+  name: 'expire-stale-pending',
+  description: `Reject presets pending review for more than ${PENDING_EXPIRY_DAYS} days`,
+  schedule: CRON_DAILY,
+  async run({ db, now }) {
+    const nowIso = now.toISOString();
+    const cutoff = new Date(now.getTime() - PENDING_EXPIRY_DAYS * 24 * 3600 * 1000).toISOString();
+    const stale = "status = 'pending' AND julianday(pending_since) < julianday(?)";
+
+    // Log first, then update: both statements select the same rows, and the
+    // batch makes them atomic so a preset is never rejected without a log entry
+    const [, update] = await db.batch([
+      db
+        .prepare(
+          `INSERT INTO moderation_log (id, preset_id, moderator_discord_id, action, reason, created_at)
+           SELECT lower(hex(randomblob(16))), id, ?, 'reject', ?, ?
+           FROM presets WHERE ${stale}`
+        )
+        .bind(
+          SYSTEM_MODERATOR_ID,
+          `Expired after ${PENDING_EXPIRY_DAYS} days pending review`,
+          nowIso,
+          cutoff
+        ),
+      db
+        .prepare(`UPDATE presets SET status = 'rejected', updated_at = ? WHERE ${stale}`)
+        .bind(nowIso, cutoff),
+    ]);
+    return { affected: update?.meta?.changes ?? 0 };
+  },
+};
+
+/**
+ * Deliver due notifications from notification_outbox to the Discord worker
+ */
+const deliverNotificationsJob: MaintenanceJob = {
+  name: 'deliver-notifications',
+  description: 'Deliver due notification_outbox rows to the Discord worker',
+  schedule: CRON_EVERY_5_MINUTES,
+  async run({ env, now }) {
+    const { delivered, failed, dead } = await drainNotificationOutbox(env, now);
+    return { affected: delivered + failed + dead, details: { delivered, failed, dead } };
+  },
+};
+
+/**
+ * Delete delivered notifications past the retention window
+ * Dead notifications are kept until a moderator replays them
+ */
+const purgeDeliveredNotificationsJob: MaintenanceJob = {
+  name: 'purge-delivered-notifications',
+  description: `Delete notifications delivered more than ${DELIVERED_RETENTION_DAYS} days ago`,
+  schedule: CRON_DAILY,
+  async run({ db, now }) {
+    const cutoff = new Date(now.getTime() - DELIVERED_RETENTION_DAYS * 24 * 3600 * 1000).toISOString();
+    const result = await db
+      .prepare("DELETE FROM notification_outbox WHERE status = 'delivered' AND delivered_at < ?")
+      .bind(cutoff)
+      .run();
+    return { affected: result.meta.changes };
+  },
+};
+
+/**
+ * Re-ping moderators about presets pending longer than MODERATION_SLA_HOURS
+ * Each overdue preset is re-pinged at most once per SLA period
+ */
+const escalateOverduePendingJob: MaintenanceJob = {
+  name: 'escalate-overdue-pending',
+  description: 'Re-ping moderators about presets pending longer than MODERATION_SLA_HOURS',
+  schedule: CRON_EVERY_15_MINUTES,
+  async run({ env, now }) {
+    const slaHours = resolveModerationSlaHours(env.MODERATION_SLA_HOURS);
+    if (slaHours === 0) {
+      return { affected: 0, details: { sla_hours: 0 } };
+    }
+    const escalated = await escalateOverduePresets(env, now, slaHours);
+    return { affected: escalated, details: { sla_hours: slaHours } };
+  },
+};
+
+/**
+ * Delete expired claims, and escalation records of presets that left the queue
+ */
+const cleanupQueueClaimsJob: MaintenanceJob = {
+  name: 'cleanup-queue-claims',
+  description: 'Delete expired preset_claims and stale preset_sla_escalations rows',
+  schedule: CRON_DAILY,
+  async run({ db, now }) {
+    const [claims, escalations] = await db.batch([
+      db.prepare('DELETE FROM preset_claims WHERE expires_at <= ?').bind(now.toISOString()),
+      db.prepare(
+        `DELETE FROM preset_sla_escalations
+         WHERE preset_id NOT IN (SELECT id FROM presets WHERE status = 'pending')`
+      ),
+    ]);
+    const expiredClaims = claims?.meta?.changes ?? 0;
+    const staleEscalations = escalations?.meta?.changes ?? 0;
+    return {
+      affected: expiredClaims + staleEscalations,
+      details: { expired_claims: expiredClaims, stale_escalations: staleEscalations },
+    };
+  },
+};
+
+/**
+ * All maintenance jobs, in the order they run when sharing a schedule
+ */
+export const MAINTENANCE_JOBS: readonly MaintenanceJob[] = [
+  refreshTrendingJob,
+  cleanupRateLimitsJob,
+  reconcileVoteCountsJob,
+  expireStalePendingJob,
+  deliverNotificationsJob,
+  purgeDeliveredNotificationsJob,
+  escalateOverduePendingJob,
+  cleanupQueueClaimsJob,
+];
+
+// ============================================
+// RUNNER
+// ============================================
+
+/**
+ * Look up a job by name
+ */
+export function getMaintenanceJob(name: string): MaintenanceJob | undefined {
+  return MAINTENANCE_JOBS.find((job) => job.name === name);
+}
+
+/**
+ * Jobs triggered by a cron expression
+ */
+export function getJobsForSchedule(cron: string): MaintenanceJob[] {
+  return MAINTENANCE_JOBS.filter((job) => job.schedule === cron);
+}
+
+/**
+ * Run a single job, logging the outcome
+ * Never throws: failures are logged and returned as `success: false`
+ */
+export async function runMaintenanceJob(
+  job: MaintenanceJob,
+  env: Env,
+  logger: ExtendedLogger,
+  now: Date = new Date()
+): Promise<MaintenanceJobRun> {
+  const jobLogger = logger.child({ job: job.name });
+  const startTime = performance.now();
+  const startedAt = now.toISOString();
+
+  jobLogger.info('Maintenance job started');
+
+  try {
+    const result = await job.run({ db: env.DB, env, logger: jobLogger, now });
+    const durationMs = Math.round(performance.now() - startTime);
+    jobLogger.info('Maintenance job completed', { affected: result.affected, durationMs, ...result.details });
+    return {
+      job: job.name,
+      success: true,
+      affected: result.affected,
+      ...(result.details && { details: result.details }),
+      started_at: startedAt,
+      duration_ms: durationMs,
+    };
+  } catch (error) {
+    const durationMs = Math.round(performance.now() - startTime);
+    jobLogger.error('Maintenance job failed', error, { durationMs });
+    return {
+      job: job.name,
+      success: false,
+      affected: 0,
+      error: error instanceof Error ? error.message : String(error),
+      started_at: startedAt,
+      duration_ms: durationMs,
+    };
+  }
+}
+
+/**
+ * Run jobs one after another
+ * A failing job does not stop the rest
+ */
+export async function runMaintenanceJobs(
+  jobs: MaintenanceJob[],
+  env: Env,
+  logger: ExtendedLogger,
+  now: Date = new Date()
+): Promise<MaintenanceJobRun[]> {
+  const runs: MaintenanceJobRun[] = [];
+  for (const job of jobs) {
+    runs.push(await runMaintenanceJob(job, env, logger, now));
+  }
+  return runs;
+}
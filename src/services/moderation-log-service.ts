@@ -0,0 +1,207 @@
+/**
+ * Moderation Log Service
+ * Filtered, cursor-paginated reads of moderation_log and CSV export
+ *
+ * Entries are listed newest first, keyed on (created_at, id) so pages stay
+ * stable while new actions are logged. Every writer stores created_at as an
+ * ISO 8601 timestamp, so date bounds compare as strings.
+ */
+
+import type {
+  ModerationLogAction,
+  ModerationLogCursor,
+  ModerationLogFilters,
+  ModerationLogPage,
+  ModerationLogRecord,
+  ModerationLogRow,
+} from '../types.js';
+
+/**
+ * Every action written to moderation_log (see the column comment in schema.sql)
+ */
+export const MODERATION_LOG_ACTIONS: readonly ModerationLogAction[] = [
+  'approve',
+  'reject',
+  'flag',
+  'unflag',
+  'revert',
+  'hide',
+  'unhide',
+  'ban',
+  'unban',
+  'appeal_granted',
+  'appeal_denied',
+  'role_granted',
+  'role_revoked',
+  'rule_created',
+  'rule_updated',
+  'rule_deleted',
+];
+
+/**
+ * Page size limits: JSON pages and CSV exports
+ */
+export const DEFAULT_LOG_PAGE_SIZE = 50;
+export const MAX_LOG_PAGE_SIZE = 100;
+export const DEFAULT_LOG_EXPORT_SIZE = 1000;
+export const MAX_LOG_EXPORT_SIZE = 5000;
+
+/**
+ * CSV column order
+ */
+const CSV_COLUMNS: readonly (keyof ModerationLogRecord)[] = [
+  'created_at',
+  'moderator_discord_id',
+  'action',
+  'preset_id',
+  'preset_name',
+  'subject_discord_id',
+  'reason',
+  'id',
+];
+
+/**
+ * Encode a log cursor as an opaque base64url string
+ */
+export function encodeLogCursor(cursor: ModerationLogCursor): string {
+  const bytes = new TextEncoder().encode(JSON.stringify([cursor.created_at, cursor.id]));
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode an opaque log cursor
+ * Returns null if the cursor is malformed
+ */
+export function decodeLogCursor(value: string): ModerationLogCursor | null {
+  try {
+    let base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const padding = base64.length % 4;
+    if (padding) {
+      base64 += '='.repeat(4 - padding);
+    }
+    const bytes = Uint8Array.from(atob(base64), (ch) => ch.charCodeAt(0));
+    const parsed: unknown = JSON.parse(new TextDecoder().decode(bytes));
+
+    if (!Array.isArray(parsed) || parsed.length !== 2) return null;
+    const [createdAt, id] = parsed;
+    if (typeof createdAt !== 'string' || typeof id !== 'string') return null;
+
+    return { created_at: createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert a moderation_log row to the API shape
+ */
+export function rowToLogRecord(row: ModerationLogRow): ModerationLogRecord {
+  return {
+    id: row.id,
+    preset_id: row.preset_id,
+    preset_name: row.preset_name,
+    subject_discord_id: row.subject_discord_id,
+    moderator_discord_id: row.moderator_discord_id,
+    action: row.action as ModerationLogAction,
+    reason: row.reason,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * A page of the moderation log, newest first
+ *
+ * PERFORMANCE: A moderator filter uses idx_moderation_log_moderator, otherwise
+ * the (created_at DESC) order walks idx_moderation_log_created.
+ */
+export async function getModerationLog(
+  db: D1Database,
+  filters: ModerationLogFilters,
+  cursor?: ModerationLogCursor
+): Promise<ModerationLogPage> {
+  const limit = filters.limit && filters.limit > 0 ? filters.limit : DEFAULT_LOG_PAGE_SIZE;
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filters.moderator) {
+    conditions.push('l.moderator_discord_id = ?');
+    params.push(filters.moderator);
+  }
+  if (filters.actions && filters.actions.length > 0) {
+    conditions.push(`l.action IN (${filters.actions.map(() => '?').join(', ')})`);
+    params.push(...filters.actions);
+  }
+  if (filters.preset_id) {
+    conditions.push('l.preset_id = ?');
+    params.push(filters.preset_id);
+  }
+  if (filters.subject) {
+    conditions.push('l.subject_discord_id = ?');
+    params.push(filters.subject);
+  }
+  if (filters.from) {
+    conditions.push('l.created_at >= ?');
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    conditions.push('l.created_at < ?');
+    params.push(filters.to);
+  }
+  if (cursor) {
+    conditions.push('(l.created_at, l.id) < (?, ?)');
+    params.push(cursor.created_at, cursor.id);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  // Fetch one extra row to know whether there is a next page
+  const result = await db
+    .prepare(
+      `SELECT l.id, l.preset_id, p.name as preset_name, l.subject_discord_id,
+              l.moderator_discord_id, l.action, l.reason, l.created_at
+       FROM moderation_log l
+       LEFT JOIN presets p ON p.id = l.preset_id
+       ${where}
+       ORDER BY l.created_at DESC, l.id DESC
+       LIMIT ?`
+    )
+    .bind(...params, limit + 1)
+    .all<ModerationLogRow>();
+
+  const rows = result.results || [];
+  const hasMore = rows.length > limit;
+  const entries = rows.slice(0, limit).map(rowToLogRecord);
+  const last = entries[entries.length - 1];
+
+  return {
+    entries,
+    next_cursor: hasMore && last ? encodeLogCursor({ created_at: last.created_at, id: last.id }) : null,
+    has_more: hasMore,
+  };
+}
+
+/**
+ * Quote a CSV field (RFC 4180)
+ * SECURITY: Cells starting with a formula character are prefixed with ' so
+ * spreadsheets don't evaluate moderator-entered reasons as formulas
+ */
+function csvField(value: string | null): string {
+  if (value === null) return '';
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Render log entries as CSV with a header row
+ */
+export function moderationLogToCsv(entries: ModerationLogRecord[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const entry of entries) {
+    lines.push(CSV_COLUMNS.map((column) => csvField(entry[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
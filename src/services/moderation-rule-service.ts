@@ -0,0 +1,454 @@
+/**
+ * Moderation Rule Service
+ * Storage and validation of admin-editable auto-moderation rules
+ *
+ * Rules are evaluated by moderateContent (see moderation-service). Every
+ * create, update and delete is logged to moderation_log in the same batch as
+ * the change, with the rule name as the reason.
+ */
+
+import type {
+  ModerationField,
+  ModerationRule,
+  ModerationRuleAction,
+  ModerationRuleDraft,
+  ModerationRuleInput,
+  ModerationRuleRow,
+  ModerationRuleType,
+  PerspectiveAttribute,
+} from '../types.js';
+
+export const MODERATION_RULE_TYPES: readonly ModerationRuleType[] = ['keyword', 'regex', 'perspective', 'account_age'];
+
+export const MODERATION_RULE_ACTIONS: readonly ModerationRuleAction[] = ['approve', 'pending', 'reject'];
+
+export const MODERATION_RULE_FIELDS: readonly ModerationField[] = ['name', 'description', 'tags'];
+
+export const PERSPECTIVE_ATTRIBUTES: readonly PerspectiveAttribute[] = [
+  'toxicity',
+  'severeToxicity',
+  'identityAttack',
+  'insult',
+  'profanity',
+];
+
+/**
+ * Validation limits
+ */
+export const MAX_RULE_NAME_LENGTH = 100;
+export const MAX_RULE_PATTERN_LENGTH = 200;
+export const MAX_RULE_PRIORITY = 1000;
+export const MAX_ACCOUNT_AGE_DAYS = 3650;
+
+/**
+ * Lookaround group openers: (?= (?! (?<= (?<!
+ */
+const LOOKAROUND_PREFIXES = ['(?=', '(?!', '(?<=', '(?<!'];
+
+/**
+ * What a regex group contains, for findUnsafeRegexConstruct
+ */
+interface RegexGroupScan {
+  hasQuantifier: boolean;
+  hasAlternation: boolean;
+}
+
+/**
+ * Find a construct that makes a regex prone to catastrophic backtracking
+ *
+ * SECURITY: Admin regexes run on every submission, so patterns with the
+ * well-known exponential shapes are refused outright:
+ * - a repeated group containing a quantifier: (a+)+, (\w*)*, ((a)+)+
+ * - a repeated group containing alternation: (a|aa)+, (a|a)*b
+ * - backreferences (\1, \k<name>) and lookarounds
+ *
+ * This is a heuristic, not a proof that a pattern runs in linear time: it
+ * doesn't catch overlapping adjacent quantifiers such as \w*\w*\w*x, whose
+ * polynomial cost is bounded by the short name, description and tag limits.
+ *
+ * @returns Description of the refused construct, or null if none was found
+ */
+function findUnsafeRegexConstruct(pattern: string): string | null {
+  const groups: RegexGroupScan[] = [{ hasQuantifier: false, hasAlternation: false }];
+  // The group that ends right before the current character, if any
+  let closedGroup: RegexGroupScan | null = null;
+
+  let i = 0;
+  while (i < pattern.length) {
+    const ch = pattern[i];
+    const current = groups[groups.length - 1];
+    const previousGroup = closedGroup;
+    closedGroup = null;
+
+    if (ch === '\\') {
+      const next = pattern[i + 1] ?? '';
+      if (/[1-9]/.test(next) || (next === 'k' && pattern[i + 2] === '<')) {
+        return 'backreferences';
+      }
+      i += 2;
+    } else if (ch === '[') {
+      // Skip the character class; quantifiers and | inside it are literals
+      i++;
+      while (i < pattern.length && pattern[i] !== ']') {
+        i += pattern[i] === '\\' ? 2 : 1;
+      }
+      i++;
+    } else if (ch === '(') {
+      if (LOOKAROUND_PREFIXES.some((prefix) => pattern.startsWith(prefix, i))) {
+        return 'lookarounds';
+      }
+      groups.push({ hasQuantifier: false, hasAlternation: false });
+      // Skip the (?: or (?<name> prefix so its ? isn't read as a quantifier
+      if (pattern.startsWith('(?:', i)) {
+        i += 3;
+      } else if (pattern.startsWith('(?<', i)) {
+        i = pattern.indexOf('>', i) + 1 || pattern.length;
+      } else {
+        i++;
+      }
+    } else if (ch === ')' && groups.length > 1) {
+      const closed = groups.pop() as RegexGroupScan;
+      const parent = groups[groups.length - 1];
+      parent.hasQuantifier ||= closed.hasQuantifier;
+      parent.hasAlternation ||= closed.hasAlternation;
+      closedGroup = closed;
+      i++;
+    } else if (ch === '|') {
+      current.hasAlternation = true;
+      i++;
+    } else if (ch === '*' || ch === '+' || ch === '{' || ch === '?') {
+      // A group may repeat at most once (?) without risk
+      if (previousGroup && ch !== '?') {
+        if (previousGroup.hasQuantifier) return 'nested quantifiers';
+        if (previousGroup.hasAlternation) return 'repeated alternation';
+      }
+      current.hasQuantifier = true;
+      i = ch === '{' ? pattern.indexOf('}', i) + 1 || pattern.length : i + 1;
+    } else {
+      i++;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse the stored fields column, falling back to every field if it is malformed
+ */
+function parseRuleFields(value: string | null | undefined): ModerationField[] {
+  try {
+    const parsed: unknown = JSON.parse(value ?? '');
+    if (Array.isArray(parsed)) {
+      const fields = parsed.filter((f): f is ModerationField => MODERATION_RULE_FIELDS.includes(f));
+      if (fields.length > 0) return fields;
+    }
+  } catch {
+    // Fall through to the default
+  }
+  return [...MODERATION_RULE_FIELDS];
+}
+
+/**
+ * Convert a moderation_rules row to the API shape
+ */
+export function rowToModerationRule(row: ModerationRuleRow): ModerationRule {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type as ModerationRuleType,
+    pattern: row.pattern,
+    threshold: row.threshold,
+    fields: parseRuleFields(row.fields),
+    action: row.action as ModerationRuleAction,
+    priority: row.priority,
+    enabled: row.enabled === 1,
+    created_by_discord_id: row.created_by_discord_id,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Split a keyword rule's pattern into lowercase keywords
+ */
+export function parseKeywords(pattern: string | null): string[] {
+  return (pattern ?? '')
+    .split(',')
+    .map((keyword) => keyword.trim().toLowerCase())
+    .filter((keyword) => keyword.length > 0);
+}
+
+/**
+ * Compile a regex rule's pattern (case-insensitive, Unicode-aware)
+ * @throws SyntaxError if the pattern is invalid
+ */
+export function compileRuleRegex(pattern: string): RegExp {
+  return new RegExp(pattern, 'iu');
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Build a rule from a request body, on top of the existing rule for updates
+ * Applies defaults and clears the pattern or threshold where the type has none.
+ * The result still needs validateModerationRule: the body is untrusted JSON.
+ */
+export function buildModerationRuleDraft(input: ModerationRuleInput, existing?: ModerationRule): ModerationRuleDraft {
+  const draft: ModerationRuleDraft = {
+    name: typeof input.name === 'string' ? input.name.trim() : (input.name ?? existing?.name ?? ''),
+    type: input.type ?? existing?.type ?? ('' as ModerationRuleType),
+    pattern: input.pattern !== undefined ? input.pattern : (existing?.pattern ?? null),
+    threshold: input.threshold !== undefined ? input.threshold : (existing?.threshold ?? null),
+    fields: input.fields ?? existing?.fields ?? [...MODERATION_RULE_FIELDS],
+    action: input.action ?? existing?.action ?? ('' as ModerationRuleAction),
+    priority: input.priority ?? existing?.priority ?? 0,
+    enabled: input.enabled ?? existing?.enabled ?? true,
+  };
+
+  if (typeof draft.pattern === 'string') {
+    draft.pattern = draft.pattern.trim();
+  }
+  if (draft.type === 'account_age') {
+    draft.pattern = null;
+  }
+  if (draft.type === 'keyword' || draft.type === 'regex') {
+    draft.threshold = null;
+  }
+
+  return draft;
+}
+
+/**
+ * Validate a rule draft
+ * Returns the offending field and a message, or null if the rule is valid
+ */
+export function validateModerationRule(draft: ModerationRuleDraft): { field: string; message: string } | null {
+  if (typeof draft.name !== 'string' || draft.name.length === 0 || draft.name.length > MAX_RULE_NAME_LENGTH) {
+    return { field: 'name', message: `Name is required (1-${MAX_RULE_NAME_LENGTH} characters)` };
+  }
+  if (!MODERATION_RULE_TYPES.includes(draft.type)) {
+    return { field: 'type', message: `Type must be one of: ${MODERATION_RULE_TYPES.join(', ')}` };
+  }
+  if (!MODERATION_RULE_ACTIONS.includes(draft.action)) {
+    return { field: 'action', message: `Action must be one of: ${MODERATION_RULE_ACTIONS.join(', ')}` };
+  }
+  if (
+    !Array.isArray(draft.fields) ||
+    draft.fields.length === 0 ||
+    !draft.fields.every((field) => MODERATION_RULE_FIELDS.includes(field))
+  ) {
+    return { field: 'fields', message: `Fields must be a non-empty list of: ${MODERATION_RULE_FIELDS.join(', ')}` };
+  }
+  if (!Number.isInteger(draft.priority) || Math.abs(draft.priority) > MAX_RULE_PRIORITY) {
+    return {
+      field: 'priority',
+      message: `Priority must be an integer between -${MAX_RULE_PRIORITY} and ${MAX_RULE_PRIORITY}`,
+    };
+  }
+  if (typeof draft.enabled !== 'boolean') {
+    return { field: 'enabled', message: 'Enabled must be a boolean' };
+  }
+
+  const pattern = draft.pattern;
+  const threshold = draft.threshold;
+
+  switch (draft.type) {
+    case 'keyword':
+      if (typeof pattern !== 'string' || pattern.length > MAX_RULE_PATTERN_LENGTH || parseKeywords(pattern).length === 0) {
+        return {
+          field: 'pattern',
+          message: `Keyword rules need a comma-separated list of keywords (max ${MAX_RULE_PATTERN_LENGTH} characters)`,
+        };
+      }
+      break;
+
+    case 'regex':
+      if (typeof pattern !== 'string' || pattern.length === 0 || pattern.length > MAX_RULE_PATTERN_LENGTH) {
+        return { field: 'pattern', message: `Regex rules need a pattern (max ${MAX_RULE_PATTERN_LENGTH} characters)` };
+      }
+      const unsafeConstruct = findUnsafeRegexConstruct(pattern);
+      if (unsafeConstruct) {
+        return { field: 'pattern', message: `Regex patterns with ${unsafeConstruct} are not allowed` };
+      }
+      try {
+        compileRuleRegex(pattern);
+      } catch (error) {
+        return { field: 'pattern', message: `Invalid regular expression: ${(error as Error).message}` };
+      }
+      break;
+
+    case 'perspective':
+      if (!PERSPECTIVE_ATTRIBUTES.includes(pattern as PerspectiveAttribute)) {
+        return {
+          field: 'pattern',
+          message: `Perspective rules need an attribute: ${PERSPECTIVE_ATTRIBUTES.join(', ')}`,
+        };
+      }
+      if (typeof threshold !== 'number' || !(threshold > 0 && threshold <= 1)) {
+        return { field: 'threshold', message: 'Perspective rules need a threshold score above 0 and at most 1' };
+      }
+      break;
+
+    case 'account_age':
+      if (!Number.isInteger(threshold) || (threshold as number) < 1 || (threshold as number) > MAX_ACCOUNT_AGE_DAYS) {
+        return {
+          field: 'threshold',
+          message: `Account age rules need a threshold in whole days (1-${MAX_ACCOUNT_AGE_DAYS})`,
+        };
+      }
+      break;
+  }
+
+  return null;
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+/**
+ * List all rules, highest priority first
+ */
+export async function getModerationRules(db: D1Database): Promise<ModerationRule[]> {
+  const result = await db
+    .prepare('SELECT * FROM moderation_rules ORDER BY priority DESC, created_at ASC')
+    .all<ModerationRuleRow>();
+  return (result.results || []).map(rowToModerationRule);
+}
+
+/**
+ * List enabled rules, highest priority first
+ */
+export async function getEnabledModerationRules(db: D1Database): Promise<ModerationRule[]> {
+  const result = await db
+    .prepare('SELECT * FROM moderation_rules WHERE enabled = 1 ORDER BY priority DESC, created_at ASC')
+    .all<ModerationRuleRow>();
+  return (result.results || []).map(rowToModerationRule);
+}
+
+/**
+ * Get a rule by ID
+ */
+export async function getModerationRule(db: D1Database, id: string): Promise<ModerationRule | null> {
+  const row = await db.prepare('SELECT * FROM moderation_rules WHERE id = ?').bind(id).first<ModerationRuleRow>();
+  return row ? rowToModerationRule(row) : null;
+}
+
+/**
+ * Create a rule from a validated draft
+ */
+export async function createModerationRule(
+  db: D1Database,
+  draft: ModerationRuleDraft,
+  createdByDiscordId: string
+): Promise<ModerationRule> {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO moderation_rules
+           (id, name, type, pattern, threshold, fields, action, priority, enabled, created_by_discord_id, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        id,
+        draft.name,
+        draft.type,
+        draft.pattern,
+        draft.threshold,
+        JSON.stringify(draft.fields),
+        draft.action,
+        draft.priority,
+        draft.enabled ? 1 : 0,
+        createdByDiscordId,
+        now,
+        now
+      ),
+    db
+      .prepare(
+        `INSERT INTO moderation_log (id, preset_id, subject_discord_id, moderator_discord_id, action, reason, created_at)
+         VALUES (?, NULL, NULL, ?, 'rule_created', ?, ?)`
+      )
+      .bind(crypto.randomUUID(), createdByDiscordId, draft.name, now),
+  ]);
+
+  return { id, ...draft, created_by_discord_id: createdByDiscordId, created_at: now, updated_at: now };
+}
+
+/**
+ * Replace a rule's editable fields with a validated draft
+ * @returns null if the rule no longer exists
+ */
+export async function updateModerationRule(
+  db: D1Database,
+  existing: ModerationRule,
+  draft: ModerationRuleDraft,
+  updatedByDiscordId: string
+): Promise<ModerationRule | null> {
+  const now = new Date().toISOString();
+
+  const results = await db.batch([
+    // Log first, then update: nothing is logged if the rule has been deleted
+    db
+      .prepare(
+        `INSERT INTO moderation_log (id, preset_id, subject_discord_id, moderator_discord_id, action, reason, created_at)
+         SELECT lower(hex(randomblob(16))), NULL, NULL, ?, 'rule_updated', ?, ?
+         FROM moderation_rules WHERE id = ?`
+      )
+      .bind(updatedByDiscordId, draft.name, now, existing.id),
+    db
+      .prepare(
+        `UPDATE moderation_rules
+         SET name = ?, type = ?, pattern = ?, threshold = ?, fields = ?, action = ?, priority = ?, enabled = ?, updated_at = ?
+         WHERE id = ?`
+      )
+      .bind(
+        draft.name,
+        draft.type,
+        draft.pattern,
+        draft.threshold,
+        JSON.stringify(draft.fields),
+        draft.action,
+        draft.priority,
+        draft.enabled ? 1 : 0,
+        now,
+        existing.id
+      ),
+  ]);
+
+  if ((results[1]?.meta?.changes ?? 0) === 0) {
+    return null;
+  }
+
+  return { ...existing, ...draft, updated_at: now };
+}
+
+/**
+ * Delete a rule
+ * @returns false if the rule did not exist
+ */
+export async function deleteModerationRule(
+  db: D1Database,
+  id: string,
+  deletedByDiscordId: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const results = await db.batch([
+    // Log first, then delete: the log reads the rule name
+    db
+      .prepare(
+        `INSERT INTO moderation_log (id, preset_id, subject_discord_id, moderator_discord_id, action, reason, created_at)
+         SELECT lower(hex(randomblob(16))), NULL, NULL, ?, 'rule_deleted', name, ?
+         FROM moderation_rules WHERE id = ?`
+      )
+      .bind(deletedByDiscordId, now, id),
+    db.prepare('DELETE FROM moderation_rules WHERE id = ?').bind(id),
+  ]);
+
+  return (results[1]?.meta?.changes ?? 0) > 0;
+}
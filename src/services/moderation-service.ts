@@ -1,13 +1,33 @@
 /**
  * Moderation Service
- * Multi-language profanity filtering with local lists + Perspective API
+ * Multi-language profanity filtering with local lists + Perspective API,
+ * plus admin-editable rules (see moderation-rule-service)
  *
  * ARCHITECTURE: Uses lazy initialization with dependency injection for testability.
  * Production code uses the default profanity lists, while tests can inject custom patterns.
  */
 
-import type { Env, ModerationResult } from '../types.js';
+import type {
+  ContentModerationResult,
+  Env,
+  FiredModerationRule,
+  ModerationContent,
+  ModerationContext,
+  ModerationField,
+  ModerationResult,
+  ModerationRule,
+  ModerationRuleAction,
+  PerspectiveAttribute,
+} from '../types.js';
 import { profanityLists } from '../data/profanity/index.js';
+import {
+  MODERATION_RULE_FIELDS,
+  PERSPECTIVE_ATTRIBUTES,
+  compileRuleRegex,
+  getEnabledModerationRules,
+  parseKeywords,
+} from './moderation-rule-service.js';
+import { normalizeForMatching, stripSeparators } from '../utils/text-normalization.js';
 
 // ============================================
 // LOCAL PROFANITY FILTER
@@ -49,17 +69,40 @@ export function truncateUnicodeSafe(str: string, maxLength: number, suffix = '
  * Uses a single combined regex for efficiency and ReDoS protection
  */
 interface CompiledProfanity {
-  // Set for O(1) substring lookup (fast path)
+  // Normalized words, separators removed
   wordSet: Set<string>;
-  // Combined regex with all words for word boundary matching
+  // Combined regex with all words, matched against normalized text
   // Using a single regex with alternation is safer than many individual patterns
   combinedPattern: RegExp | null;
 }
 
+/**
+ * Scripts written without spaces between words (Chinese, Japanese), plus
+ * Hangul, where particles attach directly to the word. Words containing them
+ * are matched as substrings since a word boundary never occurs mid-sentence.
+ */
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * Separators tolerated between the letters of a word, so "s h i t" and
+ * "s.h.i.t" still match. Capped to keep backtracking bounded.
+ */
+const LETTER_GAP = '[^\\p{L}\\p{N}\\p{M}]{0,3}';
+
+/**
+ * Regex source for one normalized word: its letters with optional separators between them
+ */
+function spacedWordSource(word: string): string {
+  return Array.from(word, escapeRegex).join(LETTER_GAP);
+}
+
 /**
  * Compile profanity word lists into optimized data structures
  * SECURITY: Uses a single combined regex to avoid ReDoS risks from many patterns
- * PERFORMANCE: Includes a Set for fast substring pre-filtering
+ *
+ * Words are normalized like the text they are matched against (see
+ * normalizeForMatching). Latin-script words must stand alone; CJK words match
+ * anywhere in the text.
  */
 export function compileProfanityPatterns(
   wordLists: Record<string, readonly string[]>
@@ -68,21 +111,32 @@ export function compileProfanityPatterns(
 
   for (const [_locale, words] of Object.entries(wordLists)) {
     for (const word of words) {
-      allWords.push(word.toLowerCase());
+      const compact = stripSeparators(normalizeForMatching(word));
+      if (compact) {
+        allWords.push(compact);
+      }
     }
   }
 
-  // Create word set for fast substring lookup
+  // Create word set for fast lookup
   const wordSet = new Set(allWords);
 
   // Create combined regex with all words using alternation
   // This is safer than individual patterns as it's a single, predictable regex
   let combinedPattern: RegExp | null = null;
-  if (allWords.length > 0) {
-    const escapedWords = allWords.map(escapeRegex);
-    // Limit pattern complexity - split into chunks if too many words
-    // This prevents catastrophic backtracking in alternation groups
-    combinedPattern = new RegExp(`\\b(${escapedWords.join('|')})\\b`, 'i');
+  if (wordSet.size > 0) {
+    const words = [...wordSet];
+    const bounded = words.filter((word) => !CJK_PATTERN.test(word)).map(spacedWordSource);
+    const unbounded = words.filter((word) => CJK_PATTERN.test(word)).map(spacedWordSource);
+
+    const alternatives: string[] = [];
+    if (bounded.length > 0) {
+      alternatives.push(`(?<![\\p{L}\\p{N}])(?:${bounded.join('|')})(?![\\p{L}\\p{N}])`);
+    }
+    if (unbounded.length > 0) {
+      alternatives.push(`(?:${unbounded.join('|')})`);
+    }
+    combinedPattern = new RegExp(alternatives.join('|'), 'iu');
   }
 
   return { wordSet, combinedPattern };
@@ -127,72 +181,156 @@ export function _setTestPatterns(patterns: RegExp[]): void {
       words.push(...match[1].split('|'));
     }
   }
-  _compiledProfanity = {
-    wordSet: new Set(words),
-    combinedPattern: patterns.length > 0
-      ? new RegExp(`\\b(${words.map(escapeRegex).join('|')})\\b`, 'i')
-      : null,
-  };
+  _compiledProfanity = compileProfanityPatterns({ test: words });
+}
+
+/**
+ * The texts of a piece of content, field by field
+ * Each tag is a separate text, so anchored patterns apply per tag
+ */
+function contentTexts(
+  content: ModerationContent,
+  fields: readonly ModerationField[] = MODERATION_RULE_FIELDS
+): Array<{ field: ModerationField; text: string }> {
+  const texts: Array<{ field: ModerationField; text: string }> = [];
+  if (fields.includes('name') && content.name) texts.push({ field: 'name', text: content.name });
+  if (fields.includes('description') && content.description) {
+    texts.push({ field: 'description', text: content.description });
+  }
+  if (fields.includes('tags')) {
+    for (const tag of content.tags ?? []) {
+      if (tag) texts.push({ field: 'tags', text: tag });
+    }
+  }
+  return texts;
 }
 
 /**
- * Check text against local profanity word lists
- * Uses a single combined regex pattern for efficiency and ReDoS protection
+ * Fields containing a word from the local profanity word lists, in field order
+ * Each text is normalized first, so leetspeak, spacing, zero-width characters,
+ * full-width letters and lookalike letters don't get past the list
  *
  * SECURITY: The combined regex approach prevents ReDoS by:
  * 1. Using a single predictable pattern instead of many small patterns
  * 2. All words are escaped to prevent special character injection
- * 3. Word boundary matching (\b) is simple and doesn't cause backtracking
- *
- * @param name - The preset name to check
- * @param description - The preset description to check
- * @returns ModerationResult if flagged, null if clean
- */
-export function checkLocalFilter(
-  name: string,
-  description: string
-): ModerationResult | null {
-  const profanity = getCompiledProfanity();
-  const textToCheck = `${name} ${description}`.toLowerCase();
-  const nameLower = name.toLowerCase();
-
-  // Fast path: check if the combined pattern exists and matches
-  if (profanity.combinedPattern && profanity.combinedPattern.test(textToCheck)) {
-    // Determine which field was flagged by testing name specifically
-    const flaggedField = profanity.combinedPattern.test(nameLower) ? 'name' : 'description';
-    return {
-      passed: false,
-      flaggedField,
-      flaggedReason: 'Contains prohibited content',
-      method: 'local',
-    };
+ * 3. Separators between letters are capped at LETTER_GAP and never overlap
+ *    with letters, so backtracking stays bounded
+ */
+function findWordListFields(content: ModerationContent): ModerationField[] {
+  const { combinedPattern } = getCompiledProfanity();
+  if (!combinedPattern) {
+    return [];
   }
 
-  return null;
+  const fields: ModerationField[] = [];
+  for (const { field, text } of contentTexts(content)) {
+    if (!fields.includes(field) && combinedPattern.test(normalizeForMatching(text))) {
+      fields.push(field);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Check content against local profanity word lists
+ *
+ * @param content - The name, description and tags to check
+ * @returns ModerationResult flagging the first matching field, null if clean
+ */
+export function checkLocalFilter(content: ModerationContent): ModerationResult | null {
+  const [flaggedField] = findWordListFields(content);
+  if (!flaggedField) {
+    return null;
+  }
+  return {
+    passed: false,
+    flaggedField,
+    flaggedReason: 'Contains prohibited content',
+    method: 'local',
+  };
 }
 
 // ============================================
 // PERSPECTIVE API INTEGRATION
 // ============================================
 
+interface PerspectiveAttributeScore {
+  summaryScore: { value: number };
+  /** Per-sentence scores, returned because the request sets spanAnnotations */
+  spanScores?: Array<{ begin: number; end: number; score: { value: number } }>;
+}
+
 interface PerspectiveResponse {
   attributeScores: {
-    TOXICITY?: { summaryScore: { value: number } };
-    SEVERE_TOXICITY?: { summaryScore: { value: number } };
-    IDENTITY_ATTACK?: { summaryScore: { value: number } };
-    INSULT?: { summaryScore: { value: number } };
-    PROFANITY?: { summaryScore: { value: number } };
+    TOXICITY?: PerspectiveAttributeScore;
+    SEVERE_TOXICITY?: PerspectiveAttributeScore;
+    IDENTITY_ATTACK?: PerspectiveAttributeScore;
+    INSULT?: PerspectiveAttributeScore;
+    PROFANITY?: PerspectiveAttributeScore;
   };
 }
 
 /**
- * Check text using Google Perspective API
+ * Perspective attribute names, keyed as in ModerationResult.scores
+ */
+const PERSPECTIVE_API_ATTRIBUTES: Record<PerspectiveAttribute, keyof PerspectiveResponse['attributeScores']> = {
+  toxicity: 'TOXICITY',
+  severeToxicity: 'SEVERE_TOXICITY',
+  identityAttack: 'IDENTITY_ATTACK',
+  insult: 'INSULT',
+  profanity: 'PROFANITY',
+};
+
+/**
+ * Content as one text for Perspective, with where each field sits in it
+ */
+interface PerspectiveText {
+  text: string;
+  segments: Array<{ field: ModerationField; begin: number; end: number }>;
+}
+
+/**
+ * Perspective scores for a text
+ * `spans` holds each attribute's per-sentence scores, when the API returns them
+ */
+interface PerspectiveScores {
+  scores: Record<PerspectiveAttribute, number>;
+  spans: Partial<Record<PerspectiveAttribute, Array<{ begin: number; end: number; value: number }>>>;
+}
+
+/**
+ * Join the content's fields into one text, one paragraph per field
+ * Perspective scores one request per submission, and the segments map its
+ * span scores back to fields
+ */
+function buildPerspectiveText(content: ModerationContent): PerspectiveText {
+  const parts: Array<{ field: ModerationField; text: string }> = [];
+  if (content.name) parts.push({ field: 'name', text: content.name });
+  if (content.description) parts.push({ field: 'description', text: content.description });
+  const tags = (content.tags ?? []).filter((tag) => tag);
+  if (tags.length > 0) parts.push({ field: 'tags', text: tags.join(', ') });
+
+  let text = '';
+  const segments: PerspectiveText['segments'] = [];
+  for (const part of parts) {
+    if (text) text += '\n\n';
+    segments.push({ field: part.field, begin: text.length, end: text.length + part.text.length });
+    text += part.text;
+  }
+  return { text, segments };
+}
+
+/**
+ * Default threshold for each Perspective attribute (0.7 = 70% confidence)
+ * A perspective rule for an attribute replaces it
+ */
+export const DEFAULT_PERSPECTIVE_THRESHOLD = 0.7;
+
+/**
+ * Score text with the Google Perspective API
  * Returns null if API is not configured or fails
  */
-async function checkWithPerspective(
-  text: string,
-  env: Env
-): Promise<ModerationResult | null> {
+async function getPerspectiveScores(text: string, env: Env): Promise<PerspectiveScores | null> {
   if (!env.PERSPECTIVE_API_KEY) {
     return null; // Skip if not configured
   }
@@ -214,6 +352,7 @@ async function checkWithPerspective(
             INSULT: {},
             PROFANITY: {},
           },
+          spanAnnotations: true,
         }),
         signal: AbortSignal.timeout(5000), // 5 second timeout
       }
@@ -226,36 +365,21 @@ async function checkWithPerspective(
 
     const result: PerspectiveResponse = await response.json();
 
-    const scores: Record<string, number> = {
-      toxicity: result.attributeScores.TOXICITY?.summaryScore?.value || 0,
-      severeToxicity: result.attributeScores.SEVERE_TOXICITY?.summaryScore?.value || 0,
-      identityAttack: result.attributeScores.IDENTITY_ATTACK?.summaryScore?.value || 0,
-      insult: result.attributeScores.INSULT?.summaryScore?.value || 0,
-      profanity: result.attributeScores.PROFANITY?.summaryScore?.value || 0,
-    };
-
-    // Threshold for flagging (0.7 = 70% confidence)
-    const threshold = 0.7;
-
-    // Check each score against threshold
-    for (const [key, value] of Object.entries(scores)) {
-      if (value >= threshold) {
-        return {
-          passed: false,
-          flaggedField: 'content',
-          flaggedReason: `High ${key} score detected (${Math.round(value * 100)}%)`,
-          method: 'perspective',
-          scores,
-        };
+    const scores = {} as Record<PerspectiveAttribute, number>;
+    const spans: PerspectiveScores['spans'] = {};
+    for (const attribute of PERSPECTIVE_ATTRIBUTES) {
+      const attributeScore = result.attributeScores[PERSPECTIVE_API_ATTRIBUTES[attribute]];
+      scores[attribute] = attributeScore?.summaryScore?.value || 0;
+      if (attributeScore?.spanScores) {
+        spans[attribute] = attributeScore.spanScores.map((span) => ({
+          begin: span.begin,
+          end: span.end,
+          value: span.score?.value || 0,
+        }));
       }
     }
 
-    // All scores below threshold
-    return {
-      passed: true,
-      method: 'perspective',
-      scores,
-    };
+    return { scores, spans };
   } catch (error) {
     console.error('Perspective API error:', error);
     return null; // Don't block on API failure
@@ -263,41 +387,326 @@ async function checkWithPerspective(
 }
 
 // ============================================
-// MAIN MODERATION FUNCTION
+// MODERATION RULES
 // ============================================
 
 /**
- * Moderate content using local filter and optional Perspective API
+ * Action severity, for breaking ties between rules of the same priority
  */
-export async function moderateContent(
-  name: string,
-  description: string,
-  env: Env
-): Promise<ModerationResult> {
-  // 1. Local word filter (fast, always runs)
-  const localResult = checkLocalFilter(name, description);
-  if (localResult && !localResult.passed) {
-    return localResult;
+const ACTION_SEVERITY: Record<ModerationRuleAction, number> = { approve: 0, pending: 1, reject: 2 };
+
+/**
+ * Discord epoch (2015-01-01T00:00:00Z), the base of snowflake timestamps
+ */
+const DISCORD_EPOCH_MS = 1420070400000n;
+
+/**
+ * When a Discord account was created, from its snowflake ID
+ * Returns null if the ID is not a snowflake
+ */
+export function getDiscordAccountCreatedAt(discordId: string): Date | null {
+  if (!/^\d{17,20}$/.test(discordId)) {
+    return null;
   }
+  return new Date(Number((BigInt(discordId) >> 22n) + DISCORD_EPOCH_MS));
+}
+
+/**
+ * Match a keyword as a whole word (Unicode-aware, unlike \b)
+ */
+function keywordPattern(keyword: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegex(keyword)}(?![\\p{L}\\p{N}])`, 'iu');
+}
 
-  // 2. Perspective API (optional, catches evasion/context)
-  const perspectiveResult = await checkWithPerspective(
-    `${name} ${description}`,
-    env
-  );
+/**
+ * Record a rule that fired
+ */
+function firedRule(
+  rule: ModerationRule,
+  field: FiredModerationRule['field'],
+  reason: string
+): FiredModerationRule {
+  return {
+    rule_id: rule.id,
+    name: rule.name,
+    type: rule.type,
+    action: rule.action,
+    priority: rule.priority,
+    ...(field && { field }),
+    reason,
+  };
+}
 
-  if (perspectiveResult && !perspectiveResult.passed) {
-    return perspectiveResult;
+/**
+ * Check a keyword, regex or account age rule
+ * Returns the fired rule, or null if it doesn't match
+ */
+function matchRule(
+  rule: ModerationRule,
+  content: ModerationContent,
+  context: ModerationContext,
+  now: Date
+): FiredModerationRule | null {
+  switch (rule.type) {
+    case 'keyword': {
+      const keywords = parseKeywords(rule.pattern);
+      for (const { field, text } of contentTexts(content, rule.fields)) {
+        const keyword = keywords.find((k) => keywordPattern(k).test(text));
+        if (keyword) {
+          return firedRule(rule, field, `Contains "${keyword}"`);
+        }
+      }
+      return null;
+    }
+
+    case 'regex': {
+      let pattern: RegExp;
+      try {
+        pattern = compileRuleRegex(rule.pattern ?? '');
+      } catch {
+        return null; // Patterns are validated on save; skip anything that slipped through
+      }
+      for (const { field, text } of contentTexts(content, rule.fields)) {
+        if (pattern.test(text)) {
+          return firedRule(rule, field, `Matches /${rule.pattern}/`);
+        }
+      }
+      return null;
+    }
+
+    case 'account_age': {
+      const createdAt = context.authorDiscordId ? getDiscordAccountCreatedAt(context.authorDiscordId) : null;
+      if (!createdAt || rule.threshold === null) {
+        return null;
+      }
+      const ageDays = Math.floor((now.getTime() - createdAt.getTime()) / (24 * 60 * 60 * 1000));
+      return ageDays < rule.threshold
+        ? firedRule(rule, undefined, `Discord account is under ${rule.threshold} days old`)
+        : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Checks that don't call out: the built-in word list, then keyword, regex and
+ * account age rules
+ */
+function evaluateLocalRules(
+  content: ModerationContent,
+  context: ModerationContext,
+  rules: ModerationRule[],
+  now: Date
+): FiredModerationRule[] {
+  const fired: FiredModerationRule[] = findWordListFields(content).map((field) => ({
+    rule_id: null,
+    name: 'Built-in word list',
+    type: 'keyword',
+    action: 'pending',
+    priority: 0,
+    field,
+    reason: 'Contains prohibited content',
+  }));
+
+  for (const rule of rules) {
+    const hit = matchRule(rule, content, context, now);
+    if (hit) fired.push(hit);
+  }
+
+  return fired;
+}
+
+/**
+ * Fields holding a sentence that scored at least the threshold
+ * Returns ['content'] when the API gave no span scores or none reach the
+ * threshold (only the text as a whole does)
+ */
+function perspectiveFields(
+  perspective: PerspectiveScores,
+  segments: PerspectiveText['segments'],
+  attribute: PerspectiveAttribute,
+  threshold: number
+): Array<ModerationField | 'content'> {
+  const fields: ModerationField[] = [];
+  for (const span of perspective.spans[attribute] ?? []) {
+    if (span.value < threshold) continue;
+    for (const segment of segments) {
+      if (span.begin < segment.end && span.end > segment.begin && !fields.includes(segment.field)) {
+        fields.push(segment.field);
+      }
+    }
+  }
+  return fields.length > 0 ? fields : ['content'];
+}
+
+/**
+ * Perspective thresholds: an attribute's rules if it has any, otherwise the
+ * default threshold (sending content to pending)
+ * A threshold that fires is reported once per field that reached it.
+ */
+function evaluatePerspectiveRules(
+  perspective: PerspectiveScores,
+  segments: PerspectiveText['segments'],
+  rules: ModerationRule[]
+): FiredModerationRule[] {
+  const fired: FiredModerationRule[] = [];
+
+  for (const attribute of PERSPECTIVE_ATTRIBUTES) {
+    const score = perspective.scores[attribute];
+    const reason = `High ${attribute} score detected (${Math.round(score * 100)}%)`;
+    const attributeRules = rules.filter((rule) => rule.type === 'perspective' && rule.pattern === attribute);
+
+    if (attributeRules.length === 0) {
+      if (score >= DEFAULT_PERSPECTIVE_THRESHOLD) {
+        for (const field of perspectiveFields(perspective, segments, attribute, DEFAULT_PERSPECTIVE_THRESHOLD)) {
+          fired.push({
+            rule_id: null,
+            name: `Default ${attribute} threshold`,
+            type: 'perspective',
+            action: 'pending',
+            priority: 0,
+            field,
+            reason,
+          });
+        }
+      }
+      continue;
+    }
+
+    for (const rule of attributeRules) {
+      if (rule.threshold !== null && score >= rule.threshold) {
+        for (const field of perspectiveFields(perspective, segments, attribute, rule.threshold)) {
+          fired.push(firedRule(rule, field, reason));
+        }
+      }
+    }
+  }
+
+  return fired;
+}
+
+/**
+ * The fired rule that decides the outcome: highest priority, then most severe
+ * action, then the first to fire
+ */
+function decidingRule(fired: FiredModerationRule[]): FiredModerationRule | null {
+  let decision: FiredModerationRule | null = null;
+  for (const rule of fired) {
+    if (
+      !decision ||
+      rule.priority > decision.priority ||
+      (rule.priority === decision.priority && ACTION_SEVERITY[rule.action] > ACTION_SEVERITY[decision.action])
+    ) {
+      decision = rule;
+    }
+  }
+  return decision;
+}
+
+/**
+ * Load enabled rules
+ * Fails open to the built-in checks, so a database problem doesn't block submissions
+ */
+async function loadModerationRules(env: Env): Promise<ModerationRule[]> {
+  try {
+    return await getEnabledModerationRules(env.DB);
+  } catch (error) {
+    console.error('Failed to load moderation rules:', error);
+    return [];
+  }
+}
+
+/**
+ * Run the built-in checks and moderation rules
+ *
+ * @param evaluateAll - Call Perspective even when a local rule already decided
+ *   the outcome, so every rule that would fire is reported
+ */
+async function evaluateContent(
+  content: ModerationContent,
+  env: Env,
+  context: ModerationContext,
+  evaluateAll: boolean
+): Promise<ContentModerationResult> {
+  const rules = await loadModerationRules(env);
+
+  // 1. Local checks (fast, always run)
+  const fired = evaluateLocalRules(content, context, rules, new Date());
+  const localDecision = decidingRule(fired);
+
+  // 2. Perspective API (optional, catches evasion/context), skipped once content is held
+  let perspective: PerspectiveScores | null = null;
+  const perspectiveText = buildPerspectiveText(content);
+  if (perspectiveText.text && (evaluateAll || !localDecision || localDecision.action === 'approve')) {
+    perspective = await getPerspectiveScores(perspectiveText.text, env);
+    if (perspective) {
+      fired.push(...evaluatePerspectiveRules(perspective, perspectiveText.segments, rules));
+    }
+  }
+
+  const scores = perspective?.scores;
+  const decision = decidingRule(fired);
+  if (!decision || decision.action === 'approve') {
+    return {
+      passed: true,
+      method: perspective ? 'all' : 'local',
+      scores,
+      action: 'approve',
+      flaggedFields: [],
+      fired_rules: fired,
+    };
+  }
+
+  const flaggedFields: Array<ModerationField | 'content'> = [];
+  for (const rule of fired) {
+    if (rule.action !== 'approve' && rule.field && !flaggedFields.includes(rule.field)) {
+      flaggedFields.push(rule.field);
+    }
   }
 
-  // All checks passed
   return {
-    passed: true,
-    method: perspectiveResult ? 'all' : 'local',
-    scores: perspectiveResult?.scores,
+    passed: false,
+    flaggedField: decision.field,
+    flaggedReason: decision.reason,
+    method: decision.type === 'perspective' ? 'perspective' : 'local',
+    scores,
+    action: decision.action,
+    flaggedFields,
+    fired_rules: fired,
   };
 }
 
+// ============================================
+// MAIN MODERATION FUNCTION
+// ============================================
+
+/**
+ * Moderate content using the local filter, moderation rules and optional Perspective API
+ * Checks every field given: name, description and each tag.
+ * `action` says what to do with the content; `passed` is true only for 'approve'
+ */
+export async function moderateContent(
+  content: ModerationContent,
+  env: Env,
+  context: ModerationContext = {}
+): Promise<ContentModerationResult> {
+  return evaluateContent(content, env, context, false);
+}
+
+/**
+ * Evaluate content like moderateContent, but report every rule that would
+ * fire instead of stopping at the first local decision
+ */
+export async function dryRunModeration(
+  content: ModerationContent,
+  env: Env,
+  context: ModerationContext = {}
+): Promise<ContentModerationResult> {
+  return evaluateContent(content, env, context, true);
+}
+
 // ============================================
 // NOTIFICATION SERVICE (for flagged content)
 // ============================================
@@ -0,0 +1,403 @@
+/**
+ * Notification Service
+ * Delivers events to the Discord worker over the DISCORD_WORKER service binding
+ *
+ * Uses Cloudflare Service Binding for Worker-to-Worker communication (avoids
+ * error 1042). The Discord worker owns the actual messages: this API only
+ * sends structured events (new submissions, moderation decisions for authors).
+ *
+ * Events go through the notification_outbox table: they are written alongside
+ * the change they announce and delivered (and retried) from there.
+ */
+
+import type {
+  Env,
+  NotificationOutboxRow,
+  OutboxDeliveryResult,
+  OutboxNotification,
+  OutboxStatus,
+  PresetStatus,
+} from '../types.js';
+
+/**
+ * Notifications are delivered through notification_outbox: give up (move
+ * to 'dead') after this many failed delivery attempts
+ */
+export const MAX_NOTIFICATION_ATTEMPTS = 8;
+
+/**
+ * Outbox statuses moderators can filter by
+ */
+export const OUTBOX_STATUSES: readonly OutboxStatus[] = ['pending', 'delivered', 'dead'];
+
+/**
+ * Maximum outbox rows delivered per drain
+ */
+export const DEFAULT_OUTBOX_BATCH_SIZE = 25;
+
+/**
+ * Delivered outbox rows are purged after this many days
+ */
+export const DELIVERED_RETENTION_DAYS = 7;
+
+/**
+ * PRESETS-CRITICAL-003: Backoff between delivery attempts
+ * Retries happen on later drains (see drainNotificationOutbox), not by
+ * sleeping inside the request, so a Discord worker outage loses nothing
+ */
+const OUTBOX_BACKOFF_CONFIG = {
+  baseDelayMs: 2 * 60 * 1000, // 2 minutes
+  maxDelayMs: 2 * 60 * 60 * 1000, // 2 hours
+};
+
+/**
+ * Webhook paths on the Discord worker
+ */
+export const PRESET_SUBMISSION_WEBHOOK = '/webhooks/preset-submission';
+export const PRESET_MODERATION_WEBHOOK = '/webhooks/preset-moderation';
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts
+ * Exponential backoff with jitter (±25%) to prevent thundering herd
+ */
+export function getOutboxBackoffDelay(attempts: number): number {
+  const delay = Math.min(
+    OUTBOX_BACKOFF_CONFIG.baseDelayMs * Math.pow(2, Math.max(attempts - 1, 0)),
+    OUTBOX_BACKOFF_CONFIG.maxDelayMs
+  );
+  return delay * (0.75 + Math.random() * 0.5);
+}
+
+/**
+ * Whether the Discord worker service binding and its shared secret are configured
+ */
+export function isDiscordWorkerConfigured(env: Env): boolean {
+  return !!env.DISCORD_WORKER && !!env.INTERNAL_WEBHOOK_SECRET;
+}
+
+/**
+ * POST a JSON payload to a Discord worker webhook path
+ *
+ * Makes a single attempt and throws on failure; retries are the outbox's job
+ *
+ * @param path - Webhook path on the Discord worker (e.g. /webhooks/preset-submission)
+ */
+export async function sendToDiscordWorker(env: Env, path: string, payload: unknown): Promise<void> {
+  // Check if service binding is configured
+  if (!env.DISCORD_WORKER || !env.INTERNAL_WEBHOOK_SECRET) {
+    console.log('Discord worker binding not configured, skipping notification');
+    return;
+  }
+
+  // Use service binding for direct Worker-to-Worker communication
+  // The hostname is ignored - only the path matters
+  const response = await env.DISCORD_WORKER.fetch(
+    new Request(`https://internal${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${env.INTERNAL_WEBHOOK_SECRET}`,
+      },
+      body: JSON.stringify(payload),
+    })
+  );
+
+  if (!response.ok) {
+    throw new Error(`Discord worker returned ${response.status}: ${await response.text()}`);
+  }
+}
+
+// ============================================
+// OUTBOX
+// ============================================
+
+/**
+ * A notification to write to the outbox
+ */
+export interface NotificationMessage {
+  path: string;
+  payload: unknown;
+  /** Preset the event is about, for moderators browsing the outbox */
+  preset_id?: string | null;
+}
+
+/**
+ * Convert a notification_outbox row to the API shape
+ */
+export function rowToOutboxNotification(row: NotificationOutboxRow): OutboxNotification {
+  return {
+    id: row.id,
+    path: row.path,
+    payload: JSON.parse(row.payload),
+    preset_id: row.preset_id,
+    status: row.status as OutboxStatus,
+    attempts: row.attempts,
+    next_attempt_at: row.next_attempt_at,
+    last_error: row.last_error,
+    created_at: row.created_at,
+    delivered_at: row.delivered_at,
+  };
+}
+
+/**
+ * Outbox insert, for inclusion in the batch that makes the change being announced
+ * The notification is due immediately. With a `condition`, the row is only
+ * written if it holds when the statement runs (e.g. the change was applied
+ * earlier in the same batch).
+ */
+export function buildOutboxInsertStatement(
+  db: D1Database,
+  message: NotificationMessage,
+  now: string = new Date().toISOString(),
+  condition?: { sql: string; bindings: unknown[] }
+): D1PreparedStatement {
+  const values = [crypto.randomUUID(), message.path, JSON.stringify(message.payload), message.preset_id ?? null, now, now];
+  const columns = 'id, path, payload, preset_id, status, attempts, next_attempt_at, created_at';
+  if (!condition) {
+    return db
+      .prepare(`INSERT INTO notification_outbox (${columns}) VALUES (?, ?, ?, ?, 'pending', 0, ?, ?)`)
+      .bind(...values);
+  }
+  return db
+    .prepare(
+      `INSERT INTO notification_outbox (${columns})
+       SELECT ?, ?, ?, ?, 'pending', 0, ?, ? WHERE ${condition.sql}`
+    )
+    .bind(...values, ...condition.bindings);
+}
+
+/**
+ * Deliver due outbox notifications, one attempt each
+ *
+ * Each row is claimed by bumping attempts and pushing next_attempt_at out to
+ * the retry time, so a concurrent drain (cron vs. post-request) skips it.
+ * A failed row keeps that retry time, or moves to 'dead' once it has used
+ * MAX_NOTIFICATION_ATTEMPTS. Nothing is attempted while the Discord worker
+ * is not configured; rows stay pending until it is.
+ */
+export async function drainNotificationOutbox(
+  env: Env,
+  now: Date = new Date(),
+  limit: number = DEFAULT_OUTBOX_BATCH_SIZE
+): Promise<OutboxDeliveryResult> {
+  const result: OutboxDeliveryResult = { delivered: 0, failed: 0, dead: 0 };
+  if (!isDiscordWorkerConfigured(env)) {
+    return result;
+  }
+
+  const nowIso = now.toISOString();
+  const due = await env.DB.prepare(
+    `SELECT * FROM notification_outbox
+     WHERE status = 'pending' AND next_attempt_at <= ?
+     ORDER BY next_attempt_at ASC
+     LIMIT ?`
+  )
+    .bind(nowIso, limit)
+    .all<NotificationOutboxRow>();
+
+  for (const row of due.results || []) {
+    const attempts = row.attempts + 1;
+    const retryAt = new Date(now.getTime() + getOutboxBackoffDelay(attempts)).toISOString();
+
+    const claim = await env.DB.prepare(
+      `UPDATE notification_outbox SET attempts = ?, next_attempt_at = ?
+       WHERE id = ? AND status = 'pending' AND attempts = ?`
+    )
+      .bind(attempts, retryAt, row.id, row.attempts)
+      .run();
+    if (!claim.meta.changes) {
+      continue;
+    }
+
+    try {
+      await sendToDiscordWorker(env, row.path, JSON.parse(row.payload));
+      await env.DB.prepare(
+        `UPDATE notification_outbox SET status = 'delivered', delivered_at = ?, last_error = NULL WHERE id = ?`
+      )
+        .bind(new Date().toISOString(), row.id)
+        .run();
+      result.delivered++;
+    } catch (error) {
+      const dead = attempts >= MAX_NOTIFICATION_ATTEMPTS;
+      await env.DB.prepare('UPDATE notification_outbox SET status = ?, last_error = ? WHERE id = ?')
+        .bind(dead ? 'dead' : 'pending', error instanceof Error ? error.message : String(error), row.id)
+        .run();
+      if (dead) {
+        result.dead++;
+      } else {
+        result.failed++;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Drain the outbox after the response, via waitUntil
+ * Gives newly written notifications an immediate attempt; the
+ * deliver-notifications job retries whatever fails
+ */
+export function scheduleOutboxDelivery(env: Env, executionCtx: Pick<ExecutionContext, 'waitUntil'>): void {
+  if (!isDiscordWorkerConfigured(env)) {
+    return;
+  }
+
+  executionCtx.waitUntil(
+    drainNotificationOutbox(env).catch((err) => {
+      console.error('Notification outbox delivery failed', err);
+    })
+  );
+}
+
+/**
+ * Outbox notifications for moderators, newest first
+ */
+export async function getOutboxNotifications(
+  db: D1Database,
+  options: { status?: OutboxStatus; page?: number; limit?: number } = {}
+): Promise<{
+  notifications: OutboxNotification[];
+  total: number;
+  page: number;
+  limit: number;
+  has_more: boolean;
+}> {
+  const page = options.page && options.page > 0 ? options.page : 1;
+  const limit = options.limit && options.limit > 0 ? options.limit : 20;
+  const offset = (page - 1) * limit;
+
+  const where = options.status ? 'WHERE status = ?' : '';
+  const params: (string | number)[] = options.status ? [options.status] : [];
+
+  // PERFORMANCE: COUNT(*) OVER() returns the total alongside the page in one query
+  const result = await db
+    .prepare(
+      `SELECT *, COUNT(*) OVER() as _total FROM notification_outbox
+       ${where}
+       ORDER BY created_at DESC, id ASC
+       LIMIT ? OFFSET ?`
+    )
+    .bind(...params, limit, offset)
+    .all<NotificationOutboxRow & { _total: number }>();
+  const rows = result.results || [];
+  const total = rows.length > 0 ? rows[0]._total : 0;
+
+  return {
+    notifications: rows.map(rowToOutboxNotification),
+    total,
+    page,
+    limit,
+    has_more: offset + rows.length < total,
+  };
+}
+
+/**
+ * Get a single outbox notification
+ */
+export async function getOutboxNotification(db: D1Database, id: string): Promise<OutboxNotification | null> {
+  const row = await db
+    .prepare('SELECT * FROM notification_outbox WHERE id = ?')
+    .bind(id)
+    .first<NotificationOutboxRow>();
+  return row ? rowToOutboxNotification(row) : null;
+}
+
+/**
+ * Return a dead notification to the queue with a fresh set of attempts
+ * @returns The requeued notification, or null if it isn't dead (or doesn't exist)
+ */
+export async function replayNotification(db: D1Database, id: string): Promise<OutboxNotification | null> {
+  const row = await db
+    .prepare(
+      `UPDATE notification_outbox SET status = 'pending', attempts = 0, next_attempt_at = ?
+       WHERE id = ? AND status = 'dead'
+       RETURNING *`
+    )
+    .bind(new Date().toISOString(), id)
+    .first<NotificationOutboxRow>();
+  return row ? rowToOutboxNotification(row) : null;
+}
+
+// ============================================
+// AUTHOR NOTIFICATIONS
+// ============================================
+
+/**
+ * Moderation decisions the author of a preset is told about
+ */
+export type AuthorNotificationEvent = 'approved' | 'rejected' | 'reverted';
+
+/**
+ * Event sent to the Discord worker, which DMs the author
+ * The moderator's identity is deliberately not included
+ */
+export interface AuthorNotificationPayload {
+  type: 'moderation_decision';
+  event: AuthorNotificationEvent;
+  preset: {
+    id: string;
+    name: string;
+    status: PresetStatus;
+    author_discord_id: string;
+    author_name: string | null;
+  };
+  /** The moderator's reason, shown to the author */
+  reason: string | null;
+  decided_at: string;
+}
+
+/**
+ * Map a moderator status change to the author event, if any
+ * Flagging is not announced; unchanged statuses send nothing
+ */
+export function getAuthorNotificationEvent(
+  oldStatus: PresetStatus,
+  newStatus: PresetStatus
+): AuthorNotificationEvent | null {
+  if (oldStatus === newStatus) return null;
+  if (newStatus === 'approved') return 'approved';
+  if (newStatus === 'rejected') return 'rejected';
+  return null;
+}
+
+/**
+ * Build the author notification for a moderation decision
+ * @returns null for presets without a Discord author (e.g. curated presets)
+ */
+export function buildAuthorNotification(
+  preset: {
+    id: string;
+    name: string;
+    status: PresetStatus;
+    author_discord_id: string | null;
+    author_name: string | null;
+  },
+  event: AuthorNotificationEvent,
+  reason: string | null | undefined
+): AuthorNotificationPayload | null {
+  if (!preset.author_discord_id) {
+    return null;
+  }
+
+  return {
+    type: 'moderation_decision',
+    event,
+    preset: {
+      id: preset.id,
+      name: preset.name,
+      status: preset.status,
+      author_discord_id: preset.author_discord_id,
+      author_name: preset.author_name,
+    },
+    reason: reason || null,
+    decided_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Outbox message that delivers a moderation decision to the author
+ */
+export function authorNotificationMessage(payload: AuthorNotificationPayload): NotificationMessage {
+  return { path: PRESET_MODERATION_WEBHOOK, payload, preset_id: payload.preset.id };
+}
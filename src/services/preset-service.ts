@@ -6,20 +6,126 @@
 import type {
   Env,
   CommunityPreset,
+  ModerationLogAction,
   PresetRow,
-  PresetFilters,
-  PresetListResponse,
+  PresetListFilters,
+  PresetListResult,
+  PresetCursorListResult,
+  PresetCursor,
+  PresetSortOption,
+  FeaturedPresetSort,
+  PresetSearchHighlight,
   PresetSubmission,
   PresetPreviousValues,
   PresetEditRequest,
+  PresetStatus,
+  SimilarPreset,
+  PresetRevision,
+  PresetRevisionAction,
+  PresetRevisionDiff,
+  PresetRevisionEditor,
+  PresetRevisionField,
+  PresetRevisionRow,
+  PresetSnapshot,
 } from '../types.js';
+import { dyeCatalog, getDyeById } from '../data/dyes.js';
+import { ciede2000, hexToLab, paletteDistance, type LabColor } from '../utils/color.js';
+import { buildOutboxInsertStatement, type NotificationMessage } from './notification-service.js';
 
 /**
- * Escape special LIKE pattern characters in user input
- * Prevents SQL injection via wildcard characters (%, _, \)
+ * Preset row as returned by getPresets()
+ * Includes the window-function total and, for search queries, FTS5 rank and snippets
  */
-function escapeLikePattern(str: string): string {
-  return str.replace(/[%_\\]/g, '\\$&');
+type PresetSearchRow = PresetRow & {
+  _total: number;
+  _rank?: number;
+  _name_snippet?: string | null;
+  _description_snippet?: string | null;
+};
+
+// ============================================
+// FULL-TEXT SEARCH
+// ============================================
+
+/**
+ * Maximum number of search terms passed to FTS5
+ * Keeps MATCH expressions small for long or pasted search input
+ */
+const MAX_SEARCH_TERMS = 8;
+
+/**
+ * Chinese, Japanese and Korean characters
+ * The unicode61 tokenizer only splits on spaces and punctuation, so a CJK
+ * sentence is indexed as one long token that a word inside it never matches.
+ */
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * Search input split by how each term is matched
+ */
+export interface SearchQuery {
+  /** FTS5 MATCH expression, or null if every term is CJK */
+  match: string | null;
+  /** CJK terms, matched as substrings of name, description and tags */
+  substrings: string[];
+}
+
+/**
+ * Snippet markers used inside SQLite's snippet() function
+ * Control characters cannot be typed into the search box, so they survive
+ * HTML-escaping and are swapped for <mark> tags afterwards
+ */
+const SNIPPET_MATCH_START = '\u0001';
+const SNIPPET_MATCH_END = '\u0002';
+
+/**
+ * Build the search query from raw user search input
+ *
+ * SECURITY: Only letter/number runs are kept and each term is wrapped in
+ * double quotes, so FTS5 query syntax (AND, OR, NEAR, column filters, ^, -)
+ * in user input is never interpreted. The same runs contain no LIKE
+ * wildcards (% _), so substring terms need no escaping.
+ *
+ * Each FTS term is a prefix query ("sun"* matches "sunset"). Terms containing
+ * CJK characters are matched as substrings instead (see CJK_PATTERN). All
+ * terms are AND-ed together.
+ *
+ * @returns Search query, or null if the input contains no searchable terms
+ */
+export function buildSearchQuery(search: string): SearchQuery | null {
+  const terms = search.normalize('NFKC').toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!terms) {
+    return null;
+  }
+  const limited = terms.slice(0, MAX_SEARCH_TERMS);
+  const ftsTerms = limited.filter((term) => !CJK_PATTERN.test(term));
+  return {
+    match: ftsTerms.length > 0 ? ftsTerms.map((term) => `"${term}"*`).join(' ') : null,
+    substrings: limited.filter((term) => CJK_PATTERN.test(term)),
+  };
+}
+
+/**
+ * Escape HTML special characters
+ */
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Convert a raw FTS5 snippet into HTML-safe text with <mark> highlights
+ */
+export function formatSnippet(snippet: string): string {
+  return escapeHtml(snippet)
+    .split(SNIPPET_MATCH_START)
+    .join('<mark>')
+    .split(SNIPPET_MATCH_END)
+    .join('</mark>');
 }
 
 /**
@@ -31,6 +137,108 @@ export function generateDyeSignature(dyes: number[]): string {
   return JSON.stringify(sorted);
 }
 
+/**
+ * Build statements that replace a preset's rows in the preset_dyes lookup table
+ * Run these in the same batch as the presets write so both stay in sync
+ */
+export function buildPresetDyeStatements(
+  db: D1Database,
+  presetId: string,
+  dyes: number[]
+): D1PreparedStatement[] {
+  return [
+    db.prepare('DELETE FROM preset_dyes WHERE preset_id = ?').bind(presetId),
+    ...dyes.map((dyeId, position) =>
+      db
+        .prepare('INSERT INTO preset_dyes (preset_id, dye_id, position) VALUES (?, ?, ?)')
+        .bind(presetId, dyeId, position)
+    ),
+  ];
+}
+
+/**
+ * Build a statement that appends a revision with the preset's current state
+ * Must run after the presets write in the same batch: the snapshot and next
+ * revision number are read from the database inside the INSERT
+ */
+export function buildPresetRevisionStatement(
+  db: D1Database,
+  presetId: string,
+  action: PresetRevisionAction,
+  changedFields: PresetRevisionField[],
+  editor: PresetRevisionEditor
+): D1PreparedStatement {
+  return db
+    .prepare(
+      `INSERT INTO preset_revisions (
+        id, preset_id, revision_number, action, editor_discord_id, editor_name,
+        changed_fields, snapshot, created_at
+      )
+      SELECT
+        ?, id,
+        (SELECT COALESCE(MAX(revision_number), 0) + 1 FROM preset_revisions WHERE preset_id = presets.id),
+        ?, ?, ?, ?,
+        json_object('name', name, 'description', description, 'dyes', json(dyes), 'tags', json(tags)),
+        updated_at
+      FROM presets
+      WHERE id = ?`
+    )
+    .bind(
+      crypto.randomUUID(),
+      action,
+      editor.discordId,
+      editor.name,
+      JSON.stringify(changedFields),
+      presetId
+    );
+}
+
+/**
+ * SET assignment that starts the pending-queue clock when a preset moves to pending
+ * SQLite evaluates it against the row before the update, so a preset that
+ * stays pending keeps its pending_since. Bind the new status, then the timestamp.
+ */
+export const PENDING_SINCE_ASSIGNMENT =
+  "pending_since = CASE WHEN ? = 'pending' AND status != 'pending' THEN ? ELSE pending_since END";
+
+/**
+ * Whether a D1 error is a UNIQUE constraint violation on the given table or column
+ * e.g. isUniqueViolation(error, 'presets.dye_signature')
+ */
+export function isUniqueViolation(error: unknown, target: string): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes('UNIQUE constraint failed') && message.includes(target);
+}
+
+/**
+ * Attempts for a batch that appends a revision before giving up
+ */
+const MAX_REVISION_ATTEMPTS = 3;
+
+/**
+ * Run a batch that appends a revision, retrying if a concurrent write took
+ * the same revision number
+ *
+ * The next revision number is MAX + 1, so two edits at once can both pick it
+ * and the second fails UNIQUE(preset_id, revision_number). The batch is
+ * atomic, so rebuilding and re-running it is safe.
+ */
+async function batchWithRevisionRetry(
+  db: D1Database,
+  buildStatements: () => D1PreparedStatement[]
+): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await db.batch(buildStatements());
+      return;
+    } catch (error) {
+      if (attempt >= MAX_REVISION_ATTEMPTS || !isUniqueViolation(error, 'preset_revisions.')) {
+        throw error;
+      }
+    }
+  }
+}
+
 /**
  * Convert database row to CommunityPreset
  */
@@ -51,29 +259,122 @@ export function rowToPreset(row: PresetRow): CommunityPreset {
     updated_at: row.updated_at,
     dye_signature: row.dye_signature || undefined,
     previous_values: row.previous_values ? JSON.parse(row.previous_values) : null,
+    forked_from_id: row.forked_from_id ?? null,
+    trending_score: row.trending_score ?? 0,
   };
 }
 
+// ============================================
+// PRESET LISTING
+// ============================================
+
+/**
+ * Keyset (sort key) for each sort option
+ * Every keyset ends with `id` so that rows with equal sort values still have
+ * a stable, total order - required for cursor pagination.
+ */
+interface SortKeyset {
+  columns: string[];
+  direction: 'ASC' | 'DESC';
+}
+
+const SORT_KEYSETS: Record<PresetSortOption, SortKeyset> = {
+  popular: { columns: ['vote_count', 'created_at', 'id'], direction: 'DESC' },
+  recent: { columns: ['created_at', 'id'], direction: 'DESC' },
+  name: { columns: ['name', 'id'], direction: 'ASC' },
+  // Precomputed by refreshTrendingScores()
+  trending: { columns: ['trending_score', 'created_at', 'id'], direction: 'DESC' },
+  // bm25() returns lower (more negative) values for better matches
+  relevance: { columns: ['_rank', 'id'], direction: 'ASC' },
+};
+
+/**
+ * Resolve the effective sort for a listing request
+ * Searches default to relevance; without a search term there is no rank,
+ * so relevance falls back to popular. Unknown sort values use the default.
+ */
+export function resolvePresetSort(filters: PresetListFilters): PresetSortOption {
+  const isSearch = !!(filters.search && buildSearchQuery(filters.search));
+  const requested =
+    filters.sort && Object.hasOwn(SORT_KEYSETS, filters.sort) ? filters.sort : undefined;
+  const sort = requested ?? (isSearch ? 'relevance' : 'popular');
+  return sort === 'relevance' && !isSearch ? 'popular' : sort;
+}
+
+/**
+ * Encode a listing cursor as an opaque base64url string
+ */
+export function encodePresetCursor(cursor: PresetCursor): string {
+  const bytes = new TextEncoder().encode(JSON.stringify([cursor.sort, ...cursor.values]));
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode an opaque listing cursor
+ * Returns null if the cursor is malformed or doesn't match a known sort keyset
+ */
+export function decodePresetCursor(value: string): PresetCursor | null {
+  try {
+    let base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const padding = base64.length % 4;
+    if (padding) {
+      base64 += '='.repeat(4 - padding);
+    }
+    const bytes = Uint8Array.from(atob(base64), (ch) => ch.charCodeAt(0));
+    const parsed: unknown = JSON.parse(new TextDecoder().decode(bytes));
+
+    if (!Array.isArray(parsed) || parsed.length === 0) return null;
+    const [sort, ...values] = parsed;
+    if (typeof sort !== 'string' || !Object.hasOwn(SORT_KEYSETS, sort)) return null;
+
+    const keyset = SORT_KEYSETS[sort as PresetSortOption];
+    if (values.length !== keyset.columns.length) return null;
+    if (!values.every((v) => typeof v === 'string' || typeof v === 'number')) return null;
+
+    return { sort: sort as PresetSortOption, values };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the cursor pointing just after a row in the given sort order
+ */
+function cursorForRow(row: PresetSearchRow, sort: PresetSortOption): string {
+  const values = SORT_KEYSETS[sort].columns.map(
+    (column) => row[column as keyof PresetSearchRow] as string | number
+  );
+  return encodePresetCursor({ sort, values });
+}
+
 /**
- * Get presets with filtering and pagination
+ * Shared FROM/WHERE/ORDER BY parts for offset and cursor listings
+ */
+interface PresetListQuery {
+  source: string;
+  sourceParams: string[];
+  conditions: string[];
+  params: (string | number)[];
+  sort: PresetSortOption;
+  isSearch: boolean;
+}
+
+/**
+ * Build the listing query parts from filters
  *
  * SECURITY NOTE: Hidden presets are always excluded from public listings,
  * regardless of the status filter. This prevents bypassing the ban system
  * by passing ?status=hidden to the API.
  */
-export async function getPresets(
-  db: D1Database,
-  filters: PresetFilters
-): Promise<PresetListResponse> {
-  const {
-    category,
-    search,
-    status = 'approved',
-    sort = 'popular',
-    page = 1,
-    limit = 20,
-    is_curated,
-  } = filters;
+function buildPresetListQuery(filters: PresetListFilters): PresetListQuery {
+  const { category, search, status = 'approved', is_curated, dyes, dye_match = 'all' } = filters;
+
+  const searchQuery = search ? buildSearchQuery(search) : null;
+  const sort = resolvePresetSort(filters);
 
   // Prevent querying hidden presets - they're only visible to owners via /mine
   const safeStatus = status === 'hidden' ? 'approved' : status;
@@ -88,83 +389,490 @@ export async function getPresets(
     params.push(category);
   }
 
-  if (search) {
-    // Escape SQL LIKE wildcards to prevent pattern injection
-    conditions.push("(name LIKE ? ESCAPE '\\' OR description LIKE ? ESCAPE '\\' OR tags LIKE ? ESCAPE '\\')");
-    const searchPattern = `%${escapeLikePattern(search)}%`;
-    params.push(searchPattern, searchPattern, searchPattern);
-  }
-
   if (is_curated !== undefined) {
     conditions.push('is_curated = ?');
     params.push(is_curated ? 1 : 0);
   }
 
-  const whereClause = conditions.join(' AND ');
+  if (dyes && dyes.length > 0) {
+    // Dye filter uses the preset_dyes lookup table (idx_preset_dyes_dye)
+    // 'all': preset contains every requested dye; 'any': at least one
+    const uniqueDyes = [...new Set(dyes)];
+    const placeholders = uniqueDyes.map(() => '?').join(', ');
+    if (dye_match === 'any') {
+      conditions.push(`id IN (SELECT preset_id FROM preset_dyes WHERE dye_id IN (${placeholders}))`);
+      params.push(...uniqueDyes);
+    } else {
+      conditions.push(
+        `id IN (SELECT preset_id FROM preset_dyes WHERE dye_id IN (${placeholders}) ` +
+          'GROUP BY preset_id HAVING COUNT(DISTINCT dye_id) = ?)'
+      );
+      params.push(...uniqueDyes, uniqueDyes.length);
+    }
+  }
+
+  // CJK terms are substring matches on the presets columns
+  const substrings = searchQuery?.substrings.map((term) => `%${term}%`) ?? [];
+  for (const pattern of substrings) {
+    conditions.push('(name LIKE ? OR description LIKE ? OR tags LIKE ?)');
+    params.push(pattern, pattern, pattern);
+  }
 
-  // Build ORDER BY clause
-  let orderBy: string;
-  switch (sort) {
-    case 'recent':
-      orderBy = 'created_at DESC';
-      break;
-    case 'name':
-      orderBy = 'name ASC';
-      break;
-    case 'popular':
-    default:
-      orderBy = 'vote_count DESC, created_at DESC';
-      break;
+  // Search reads from the FTS index joined back to presets
+  // FTS5 auxiliary functions (bm25, snippet) can't share a SELECT with the
+  // COUNT(*) OVER() window function, so they're computed in a subquery.
+  // Column weights for bm25(): name 10, description 5, tags 2
+  let source = 'presets';
+  const sourceParams: string[] = [];
+  if (searchQuery?.match) {
+    source = `(
+      SELECT presets.*,
+        bm25(presets_fts, 10.0, 5.0, 2.0) as _rank,
+        snippet(presets_fts, 0, ?, ?, '…', 12) as _name_snippet,
+        snippet(presets_fts, 1, ?, ?, '…', 24) as _description_snippet
+      FROM presets_fts
+      JOIN presets ON presets.rowid = presets_fts.rowid
+      WHERE presets_fts MATCH ?
+    )`;
+    sourceParams.push(
+      SNIPPET_MATCH_START,
+      SNIPPET_MATCH_END,
+      SNIPPET_MATCH_START,
+      SNIPPET_MATCH_END,
+      searchQuery.match
+    );
+  } else if (searchQuery) {
+    // Only CJK terms: rank by which columns contain them, with the bm25()
+    // weights (negated, since lower ranks first)
+    const rank = substrings
+      .map(() => '10.0 * (name LIKE ?) + 5.0 * (description LIKE ?) + 2.0 * (tags LIKE ?)')
+      .join(' + ');
+    source = `(
+      SELECT presets.*,
+        -(${rank}) as _rank,
+        NULL as _name_snippet,
+        NULL as _description_snippet
+      FROM presets
+    )`;
+    sourceParams.push(...substrings.flatMap((pattern) => [pattern, pattern, pattern]));
   }
 
+  return { source, sourceParams, conditions, params, sort, isSearch: searchQuery !== null };
+}
+
+/**
+ * Build ORDER BY clause for a sort keyset
+ */
+function buildOrderBy(sort: PresetSortOption): string {
+  const keyset = SORT_KEYSETS[sort];
+  return keyset.columns.map((column) => `${column} ${keyset.direction}`).join(', ');
+}
+
+/**
+ * Build search highlights keyed by preset ID
+ */
+function buildHighlights(rows: PresetSearchRow[]): Record<string, PresetSearchHighlight> {
+  const highlights: Record<string, PresetSearchHighlight> = {};
+  for (const row of rows) {
+    highlights[row.id] = {
+      name: formatSnippet(row._name_snippet ?? row.name),
+      description: formatSnippet(row._description_snippet ?? row.description),
+    };
+  }
+  return highlights;
+}
+
+/**
+ * Get presets with filtering and offset pagination
+ *
+ * Search uses the presets_fts FTS5 index (see migrations/0005_presets_fts.sql);
+ * CJK terms are substring matches instead (see buildSearchQuery). When
+ * searching, results default to relevance order (BM25) and the response
+ * includes highlighted snippets keyed by preset ID.
+ *
+ * The response also carries `next_cursor`, so clients can switch to
+ * getPresetsByCursor() after the first page.
+ */
+export async function getPresets(
+  db: D1Database,
+  filters: PresetListFilters
+): Promise<PresetListResult> {
+  const { page = 1, limit = 20 } = filters;
+  const { source, sourceParams, conditions, params, sort, isSearch } =
+    buildPresetListQuery(filters);
+
   // PERFORMANCE: Use window function to get total count in same query
   // This reduces database round-trips from 2 to 1 for paginated requests
   // SQLite 3.25+ (supported by D1) supports COUNT(*) OVER()
   const offset = (page - 1) * limit;
   const query = `
     SELECT *, COUNT(*) OVER() as _total
-    FROM presets
-    WHERE ${whereClause}
-    ORDER BY ${orderBy}
+    FROM ${source}
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY ${buildOrderBy(sort)}
     LIMIT ? OFFSET ?
   `;
 
   const result = await db
     .prepare(query)
-    .bind(...params, limit, offset)
-    .all<PresetRow & { _total: number }>();
+    .bind(...sourceParams, ...params, limit, offset)
+    .all<PresetSearchRow>();
 
   const rows = result.results || [];
   // Extract total from first row (all rows have same total via window function)
   const total = rows.length > 0 ? rows[0]._total : 0;
   const presets = rows.map(rowToPreset);
+  const hasMore = offset + presets.length < total;
 
-  return {
+  const response: PresetListResult = {
     presets,
     total,
     page,
     limit,
-    has_more: offset + presets.length < total,
+    has_more: hasMore,
+    next_cursor: hasMore && rows.length > 0 ? cursorForRow(rows[rows.length - 1], sort) : null,
   };
+
+  if (isSearch) {
+    response.highlights = buildHighlights(rows);
+  }
+
+  return response;
 }
 
 /**
- * Get featured presets (top 10 by votes)
+ * Get presets with filtering and cursor (keyset) pagination
+ *
+ * Instead of OFFSET, rows are selected strictly after the cursor's sort key
+ * using a row-value comparison, e.g. (vote_count, created_at, id) < (?, ?, ?).
+ * Pages stay stable when votes change mid-browse and deep pages cost the same
+ * as the first. No total is computed; one extra row is fetched to set has_more.
+ *
+ * The cursor must have been issued for the same sort (see resolvePresetSort).
+ */
+export async function getPresetsByCursor(
+  db: D1Database,
+  filters: PresetListFilters,
+  cursor: PresetCursor
+): Promise<PresetCursorListResult> {
+  const { limit = 20 } = filters;
+  const { source, sourceParams, conditions, params, sort, isSearch } =
+    buildPresetListQuery(filters);
+
+  const keyset = SORT_KEYSETS[cursor.sort];
+  const comparison = keyset.direction === 'DESC' ? '<' : '>';
+  conditions.push(
+    `(${keyset.columns.join(', ')}) ${comparison} (${keyset.columns.map(() => '?').join(', ')})`
+  );
+  params.push(...cursor.values);
+
+  const query = `
+    SELECT *
+    FROM ${source}
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY ${buildOrderBy(cursor.sort)}
+    LIMIT ?
+  `;
+
+  const result = await db
+    .prepare(query)
+    .bind(...sourceParams, ...params, limit + 1)
+    .all<PresetSearchRow>();
+
+  const fetched = result.results || [];
+  const hasMore = fetched.length > limit;
+  const rows = hasMore ? fetched.slice(0, limit) : fetched;
+
+  const response: PresetCursorListResult = {
+    presets: rows.map(rowToPreset),
+    limit,
+    has_more: hasMore,
+    next_cursor: hasMore ? cursorForRow(rows[rows.length - 1], sort) : null,
+  };
+
+  if (isSearch) {
+    response.highlights = buildHighlights(rows);
+  }
+
+  return response;
+}
+
+/**
+ * Get featured presets (top 10 by votes, or by trending score)
  *
  * SECURITY NOTE: Explicitly excludes hidden presets for defense-in-depth,
  * even though we already filter for 'approved' status.
  */
-export async function getFeaturedPresets(db: D1Database): Promise<CommunityPreset[]> {
+export async function getFeaturedPresets(
+  db: D1Database,
+  sort: FeaturedPresetSort = 'popular'
+): Promise<CommunityPreset[]> {
+  const orderBy =
+    sort === 'trending'
+      ? 'trending_score DESC, vote_count DESC, created_at DESC'
+      : 'vote_count DESC, created_at DESC';
   const query = `
     SELECT * FROM presets
     WHERE status = 'approved' AND status != 'hidden'
-    ORDER BY vote_count DESC, created_at DESC
+    ORDER BY ${orderBy}
     LIMIT 10
   `;
   const result = await db.prepare(query).all<PresetRow>();
   return (result.results || []).map(rowToPreset);
 }
 
+// ============================================
+// TRENDING
+// ============================================
+
+/**
+ * Only votes from the last TRENDING_WINDOW_DAYS count toward trending
+ */
+export const TRENDING_WINDOW_DAYS = 7;
+
+/**
+ * How quickly a vote's weight decays with age (higher = favors newer votes)
+ * Each vote contributes 1 / (age_hours + 2) ^ TRENDING_GRAVITY
+ */
+export const TRENDING_GRAVITY = 1.5;
+
+/**
+ * Trending score for vote counts bucketed by age in whole hours
+ */
+export function calculateTrendingScore(buckets: Array<{ age_hours: number; votes: number }>): number {
+  let score = 0;
+  for (const bucket of buckets) {
+    score += bucket.votes / Math.pow(Math.max(0, bucket.age_hours) + 2, TRENDING_GRAVITY);
+  }
+  return Math.round(score * 1e6) / 1e6;
+}
+
+/**
+ * Recompute presets.trending_score from the votes table
+ *
+ * Votes inside the window are grouped per preset and hour of age, so the work
+ * scales with active presets rather than raw votes. All scores are written in
+ * a single UPDATE: presets with recent votes get their new score and every
+ * other non-zero score is reset, so the job is idempotent.
+ *
+ * @returns Number of presets that currently have a trending score
+ */
+export async function refreshTrendingScores(
+  db: D1Database,
+  now: Date = new Date()
+): Promise<number> {
+  const windowHours = TRENDING_WINDOW_DAYS * 24;
+  // votes.created_at holds both ISO ('...T...Z', from the API) and SQLite
+  // ('YYYY-MM-DD HH:MM:SS', from defaults) timestamps. Comparing against the
+  // SQLite format lets idx_votes_created narrow the scan to a superset of the
+  // window; exact ages come from julianday() and are filtered below.
+  const windowStart = new Date(now.getTime() - windowHours * 3600 * 1000)
+    .toISOString()
+    .slice(0, 19)
+    .replace('T', ' ');
+  const query = `
+    SELECT
+      preset_id,
+      CAST((julianday(?) - julianday(created_at)) * 24 AS INTEGER) as age_hours,
+      COUNT(*) as votes
+    FROM votes
+    WHERE created_at >= ?
+    GROUP BY preset_id, age_hours
+  `;
+  const result = await db
+    .prepare(query)
+    .bind(now.toISOString(), windowStart)
+    .all<{ preset_id: string; age_hours: number; votes: number }>();
+
+  const buckets = new Map<string, Array<{ age_hours: number; votes: number }>>();
+  for (const row of result.results || []) {
+    if (row.age_hours >= windowHours) continue;
+    const list = buckets.get(row.preset_id) ?? [];
+    list.push({ age_hours: row.age_hours, votes: row.votes });
+    buckets.set(row.preset_id, list);
+  }
+
+  const scores: Record<string, number> = {};
+  for (const [presetId, presetBuckets] of buckets) {
+    scores[presetId] = calculateTrendingScore(presetBuckets);
+  }
+  const scoresJson = JSON.stringify(scores);
+
+  // Scores are passed as one JSON object ({ presetId: score }) to stay under
+  // D1's bound parameter limit regardless of how many presets are trending
+  await db
+    .prepare(
+      `UPDATE presets
+       SET trending_score = COALESCE((SELECT value FROM json_each(?) WHERE key = presets.id), 0)
+       WHERE trending_score != 0 OR id IN (SELECT key FROM json_each(?))`
+    )
+    .bind(scoresJson, scoresJson)
+    .run();
+
+  return buckets.size;
+}
+
+// ============================================
+// COLOR SIMILARITY
+// ============================================
+
+/**
+ * Lab colors per dye ID, computed on first use
+ */
+const dyeLabCache = new Map<number, LabColor>();
+
+/**
+ * Get the L*a*b* color of a catalog dye (undefined for unknown IDs)
+ */
+function getDyeLab(id: number): LabColor | undefined {
+  let lab = dyeLabCache.get(id);
+  if (!lab) {
+    const dye = getDyeById(id);
+    if (!dye) return undefined;
+    lab = hexToLab(dye.hex);
+    dyeLabCache.set(id, lab);
+  }
+  return lab;
+}
+
+/**
+ * Get L*a*b* colors for a list of dye IDs
+ * Dye IDs not in the bundled catalog are skipped
+ */
+export function getDyeLabColors(dyes: number[]): LabColor[] {
+  const colors: LabColor[] = [];
+  for (const id of dyes) {
+    const lab = getDyeLab(id);
+    if (lab) colors.push(lab);
+  }
+  return colors;
+}
+
+/**
+ * CIEDE2000 radius around each query color used to pick candidate dyes
+ * when the search has no maxDistance
+ */
+const SIMILAR_DYE_RADIUS = 15;
+
+/**
+ * Most candidate presets scored per similarity search
+ */
+export const MAX_SIMILARITY_CANDIDATES = 500;
+
+/**
+ * Get the catalog dyes within `radius` of any of the colors
+ * The closest dye to each color is always included, so the result is never empty
+ */
+function getNearbyDyeIds(colors: LabColor[], radius: number): number[] {
+  const nearby = new Set<number>();
+  for (const color of colors) {
+    let closestId: number | undefined;
+    let closestDistance = Infinity;
+    for (const dye of dyeCatalog) {
+      const distance = ciede2000(color, getDyeLab(dye.id)!);
+      if (distance <= radius) nearby.add(dye.id);
+      if (distance < closestDistance) {
+        closestDistance = distance;
+        closestId = dye.id;
+      }
+    }
+    if (closestId !== undefined) nearby.add(closestId);
+  }
+  return [...nearby];
+}
+
+export interface SimilarPresetOptions {
+  /** Maximum results (default 10) */
+  limit?: number;
+  /** Preset ID to leave out (e.g. the source preset) */
+  excludeId?: string;
+  /** Statuses to search (default approved only) */
+  statuses?: PresetStatus[];
+  /** Only return presets at or below this palette distance */
+  maxDistance?: number;
+}
+
+/**
+ * Find presets whose dye colors are perceptually closest to the given colors
+ *
+ * Candidates are narrowed in SQL to presets that use a dye near one of the
+ * colors (via preset_dyes), most such dyes first, capped at
+ * MAX_SIMILARITY_CANDIDATES. These are scored with paletteDistance() (CIEDE2000
+ * in Lab space) and the closest are returned, nearest first. Only `id` and
+ * `dyes` are read for scoring; full rows are fetched for the winners only.
+ *
+ * With maxDistance the narrowing loses nothing: a palette within maxDistance
+ * has at least one dye within 2 * maxDistance of a query color. Without it,
+ * candidates use a dye within SIMILAR_DYE_RADIUS, so very distant palettes
+ * are never returned.
+ */
+export async function findSimilarPresets(
+  db: D1Database,
+  colors: LabColor[],
+  options: SimilarPresetOptions = {}
+): Promise<SimilarPreset[]> {
+  const { limit = 10, excludeId, statuses = ['approved'], maxDistance } = options;
+  if (colors.length === 0 || statuses.length === 0) {
+    return [];
+  }
+
+  const dyeIds = getNearbyDyeIds(colors, maxDistance !== undefined ? 2 * maxDistance : SIMILAR_DYE_RADIUS);
+  const placeholders = statuses.map(() => '?').join(', ');
+  const bindings: (string | number)[] = [JSON.stringify(dyeIds), ...statuses];
+  let excludeClause = '';
+  if (excludeId) {
+    excludeClause = 'AND p.id != ?';
+    bindings.push(excludeId);
+  }
+  bindings.push(MAX_SIMILARITY_CANDIDATES);
+
+  // Dye IDs are passed as one JSON array to stay under D1's bound parameter limit
+  const candidates = await db
+    .prepare(
+      `SELECT p.id, p.dyes FROM presets p
+       JOIN (
+         SELECT preset_id, COUNT(*) as overlap FROM preset_dyes
+         WHERE dye_id IN (SELECT value FROM json_each(?))
+         GROUP BY preset_id
+       ) d ON d.preset_id = p.id
+       WHERE p.status IN (${placeholders}) ${excludeClause}
+       ORDER BY d.overlap DESC
+       LIMIT ?`
+    )
+    .bind(...bindings)
+    .all<{ id: string; dyes: string }>();
+
+  const scored: { id: string; distance: number }[] = [];
+  for (const row of candidates.results || []) {
+    const distance = paletteDistance(colors, getDyeLabColors(JSON.parse(row.dyes)));
+    if (!Number.isFinite(distance)) continue;
+    if (maxDistance !== undefined && distance > maxDistance) continue;
+    scored.push({ id: row.id, distance });
+  }
+
+  scored.sort((a, b) => a.distance - b.distance);
+  const top = scored.slice(0, limit);
+  if (top.length === 0) {
+    return [];
+  }
+
+  const idPlaceholders = top.map(() => '?').join(', ');
+  const result = await db
+    .prepare(`SELECT * FROM presets WHERE id IN (${idPlaceholders})`)
+    .bind(...top.map((entry) => entry.id))
+    .all<PresetRow>();
+  const rowsById = new Map((result.results || []).map((row) => [row.id, row]));
+
+  const similar: SimilarPreset[] = [];
+  for (const { id, distance } of top) {
+    const row = rowsById.get(id);
+    if (row) {
+      similar.push({ ...rowToPreset(row), distance: Math.round(distance * 100) / 100 });
+    }
+  }
+  return similar;
+}
+
 /**
  * Get a single preset by ID
  */
@@ -195,14 +903,58 @@ export async function findDuplicatePreset(
 }
 
 /**
- * Create a new preset
+ * Default max palette distance for a near-duplicate (see paletteDistance)
+ * A single swapped dye that is hard to tell apart in-game lands well under this
+ */
+export const DEFAULT_NEAR_DUPLICATE_THRESHOLD = 3;
+
+/**
+ * Resolve the near-duplicate threshold from the NEAR_DUPLICATE_THRESHOLD env var
+ * Falls back to the default when unset or invalid; 0 disables near-duplicate checks
+ */
+export function resolveNearDuplicateThreshold(value: string | undefined): number {
+  if (value === undefined || value.trim() === '') {
+    return DEFAULT_NEAR_DUPLICATE_THRESHOLD;
+  }
+  const threshold = Number(value);
+  return Number.isFinite(threshold) && threshold >= 0 ? threshold : DEFAULT_NEAR_DUPLICATE_THRESHOLD;
+}
+
+/**
+ * Find approved/pending presets whose palettes are perceptually near-identical
+ * Complements findDuplicatePreset, which only catches identical dye signatures
+ * Only presets using a dye within 2 * threshold of a submitted dye are scored
+ */
+export async function findNearDuplicatePresets(
+  db: D1Database,
+  dyes: number[],
+  threshold: number,
+  options: { limit?: number; excludeId?: string } = {}
+): Promise<SimilarPreset[]> {
+  if (threshold <= 0) {
+    return [];
+  }
+  return findSimilarPresets(db, getDyeLabColors(dyes), {
+    limit: options.limit ?? 5,
+    excludeId: options.excludeId,
+    statuses: ['approved', 'pending'],
+    maxDistance: threshold,
+  });
+}
+
+/**
+ * Create a new preset with the author's own vote
+ * The vote is part of the same batch, so the preset never exists without it
+ * @param notification - Builds the outbox notification written in the same batch
  */
 export async function createPreset(
   db: D1Database,
   submission: PresetSubmission,
   authorDiscordId: string,
   authorName: string,
-  status: 'approved' | 'pending' = 'approved'
+  status: 'approved' | 'pending' = 'approved',
+  forkedFromId: string | null = null,
+  notification?: (preset: CommunityPreset) => NotificationMessage
 ): Promise<CommunityPreset> {
   const id = crypto.randomUUID();
   const now = new Date().toISOString();
@@ -212,29 +964,11 @@ export async function createPreset(
     INSERT INTO presets (
       id, name, description, category_id, dyes, tags,
       author_discord_id, author_name, vote_count, status, is_curated,
-      created_at, updated_at, dye_signature
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, ?, 0, ?, ?, ?)
+      created_at, updated_at, dye_signature, forked_from_id, pending_since
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1, ?, 0, ?, ?, ?, ?, ?)
   `;
 
-  await db
-    .prepare(query)
-    .bind(
-      id,
-      submission.name,
-      submission.description,
-      submission.category_id,
-      JSON.stringify(submission.dyes),
-      JSON.stringify(submission.tags),
-      authorDiscordId,
-      authorName,
-      status,
-      now,
-      now,
-      dyeSignature
-    )
-    .run();
-
-  return {
+  const preset: CommunityPreset = {
     id,
     name: submission.name,
     description: submission.description,
@@ -243,46 +977,197 @@ export async function createPreset(
     tags: submission.tags,
     author_discord_id: authorDiscordId,
     author_name: authorName,
-    vote_count: 0,
+    vote_count: 1,
     status,
     is_curated: false,
     created_at: now,
     updated_at: now,
     dye_signature: dyeSignature,
+    forked_from_id: forkedFromId,
+    trending_score: 0,
   };
+
+  // Insert preset, its preset_dyes rows, the author's vote and the outbox notification atomically
+  await db.batch([
+    db
+      .prepare(query)
+      .bind(
+        id,
+        submission.name,
+        submission.description,
+        submission.category_id,
+        JSON.stringify(submission.dyes),
+        JSON.stringify(submission.tags),
+        authorDiscordId,
+        authorName,
+        status,
+        now,
+        now,
+        dyeSignature,
+        forkedFromId,
+        status === 'pending' ? now : null
+      ),
+    ...buildPresetDyeStatements(db, id, submission.dyes),
+    db
+      .prepare('INSERT INTO votes (preset_id, user_discord_id, created_at) VALUES (?, ?, ?)')
+      .bind(id, authorDiscordId, now),
+    buildPresetRevisionStatement(db, id, 'create', REVISION_FIELDS, {
+      discordId: authorDiscordId,
+      name: authorName,
+    }),
+    ...(notification ? [buildOutboxInsertStatement(db, notification(preset), now)] : []),
+  ]);
+
+  return preset;
 }
 
 /**
- * Update preset status
+ * Get approved forks of a preset, most voted first
  */
-export async function updatePresetStatus(
+export async function getPresetForks(
   db: D1Database,
-  id: string,
-  status: CommunityPreset['status']
-): Promise<CommunityPreset | null> {
-  const now = new Date().toISOString();
+  presetId: string,
+  limit: number = 20
+): Promise<CommunityPreset[]> {
   const query = `
-    UPDATE presets
-    SET status = ?, updated_at = ?
-    WHERE id = ?
+    SELECT * FROM presets
+    WHERE forked_from_id = ? AND status = 'approved'
+    ORDER BY vote_count DESC, created_at DESC
+    LIMIT ?
   `;
-  await db.prepare(query).bind(status, now, id).run();
-  return getPresetById(db, id);
+  const result = await db.prepare(query).bind(presetId, limit).all<PresetRow>();
+  return (result.results || []).map(rowToPreset);
 }
 
 /**
- * Get pending presets for moderation
+ * Get several presets by ID
+ * IDs with no preset are missing from the result
  */
-export async function getPendingPresets(db: D1Database): Promise<CommunityPreset[]> {
-  const query = `
-    SELECT * FROM presets
-    WHERE status = 'pending'
-    ORDER BY created_at ASC
-  `;
-  const result = await db.prepare(query).all<PresetRow>();
+export async function getPresetsByIds(db: D1Database, ids: string[]): Promise<CommunityPreset[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const result = await db
+    .prepare(`SELECT * FROM presets WHERE id IN (${ids.map(() => '?').join(', ')})`)
+    .bind(...ids)
+    .all<PresetRow>();
   return (result.results || []).map(rowToPreset);
 }
 
+/**
+ * Maximum number of presets in one bulk status change
+ */
+export const MAX_BULK_PRESETS = 50;
+
+/**
+ * A planned status change for updatePresetStatus / bulkUpdatePresetStatus
+ */
+export interface StatusChange {
+  /** The preset as the moderator saw it */
+  preset: CommunityPreset;
+  /** moderation_log action for the change */
+  action: ModerationLogAction;
+  /** Author notification, queued in the outbox only if the change is applied */
+  notification?: NotificationMessage | null;
+}
+
+/**
+ * Log, update, claim release and notification statements for one status change
+ *
+ * Log first, then update: both are guarded on the status the moderator saw,
+ * and the rest on the log entry having been written. The UPDATE is always the
+ * second statement.
+ */
+function buildStatusChangeStatements(
+  db: D1Database,
+  { preset, action, notification }: StatusChange,
+  status: CommunityPreset['status'],
+  moderatorDiscordId: string,
+  reason: string | null,
+  now: string
+): D1PreparedStatement[] {
+  const logId = crypto.randomUUID();
+  const appliedHere = 'EXISTS (SELECT 1 FROM moderation_log WHERE id = ?)';
+  return [
+    db
+      .prepare(
+        `INSERT INTO moderation_log (id, preset_id, moderator_discord_id, action, reason, created_at)
+         SELECT ?, id, ?, ?, ?, ? FROM presets WHERE id = ? AND status = ?`
+      )
+      .bind(logId, moderatorDiscordId, action, reason, now, preset.id, preset.status),
+    db
+      .prepare(
+        `UPDATE presets SET status = ?, ${PENDING_SINCE_ASSIGNMENT}, updated_at = ?
+         WHERE id = ? AND status = ?`
+      )
+      .bind(status, status, now, now, preset.id, preset.status),
+    // A decided preset leaves the review queue, and with it its claim
+    db.prepare(`DELETE FROM preset_claims WHERE preset_id = ? AND ${appliedHere}`).bind(preset.id, logId),
+    ...(notification
+      ? [buildOutboxInsertStatement(db, notification, now, { sql: appliedHere, bindings: [logId] })]
+      : []),
+  ];
+}
+
+/**
+ * Change a preset's status, logging the change and queueing its notification in one batch
+ *
+ * @returns The updated preset, or null if its status changed concurrently
+ */
+export async function updatePresetStatus(
+  db: D1Database,
+  change: StatusChange,
+  status: CommunityPreset['status'],
+  moderatorDiscordId: string,
+  reason: string | null
+): Promise<CommunityPreset | null> {
+  const updated = await bulkUpdatePresetStatus(db, [change], status, moderatorDiscordId, reason);
+  if (!updated.has(change.preset.id)) {
+    return null;
+  }
+  return getPresetById(db, change.preset.id);
+}
+
+/**
+ * Change the status of several presets in one atomic batch, logging each change
+ *
+ * Each preset is only logged, updated and notified if its status is still the
+ * one in `changes`, so a preset moderated concurrently is left alone rather
+ * than overwritten.
+ *
+ * @returns IDs of the presets that were changed
+ */
+export async function bulkUpdatePresetStatus(
+  db: D1Database,
+  changes: StatusChange[],
+  status: CommunityPreset['status'],
+  moderatorDiscordId: string,
+  reason: string | null
+): Promise<Set<string>> {
+  if (changes.length === 0) {
+    return new Set();
+  }
+
+  const now = new Date().toISOString();
+  const statements: D1PreparedStatement[] = [];
+  const updateIndexes = changes.map((change) => {
+    const group = buildStatusChangeStatements(db, change, status, moderatorDiscordId, reason, now);
+    statements.push(...group);
+    return statements.length - group.length + 1;
+  });
+
+  const results = await db.batch(statements);
+
+  const updated = new Set<string>();
+  changes.forEach(({ preset }, i) => {
+    if ((results[updateIndexes[i]]?.meta?.changes ?? 0) > 0) {
+      updated.add(preset.id);
+    }
+  });
+  return updated;
+}
+
 /**
  * Get all presets submitted by a specific user
  * Returns presets in all statuses (pending, approved, rejected)
@@ -322,14 +1207,17 @@ export async function findDuplicatePresetExcluding(
 
 /**
  * Update a preset with new values
- * Optionally stores previous values for moderation revert
+ * Optionally stores previous values for moderation revert, and writes an
+ * outbox notification in the same batch
  */
 export async function updatePreset(
   db: D1Database,
   id: string,
   updates: PresetEditRequest,
   previousValues?: PresetPreviousValues | null,
-  newStatus?: 'approved' | 'pending'
+  newStatus?: 'approved' | 'pending',
+  editor: PresetRevisionEditor = { discordId: null, name: null },
+  notification?: NotificationMessage
 ): Promise<CommunityPreset | null> {
   const now = new Date().toISOString();
 
@@ -366,8 +1254,8 @@ export async function updatePreset(
   }
 
   if (newStatus !== undefined) {
-    setClauses.push('status = ?');
-    params.push(newStatus);
+    setClauses.push('status = ?', PENDING_SINCE_ASSIGNMENT);
+    params.push(newStatus, newStatus, now);
   }
 
   // Add WHERE clause
@@ -379,47 +1267,210 @@ export async function updatePreset(
     WHERE id = ?
   `;
 
-  await db.prepare(query).bind(...params).run();
+  const changedFields = REVISION_FIELDS.filter((field) => updates[field] !== undefined);
+
+  // Keep preset_dyes, the revision history and the outbox in sync in the same batch
+  await batchWithRevisionRetry(db, () => [
+    db.prepare(query).bind(...params),
+    ...(updates.dyes !== undefined ? buildPresetDyeStatements(db, id, updates.dyes) : []),
+    buildPresetRevisionStatement(db, id, 'edit', changedFields, editor),
+    ...(notification ? [buildOutboxInsertStatement(db, notification, now)] : []),
+  ]);
   return getPresetById(db, id);
 }
 
 /**
- * Revert a preset to its previous values
- * Restores from previous_values and clears that column
+ * Revert a preset to its previous values, or restore a specific revision
+ *
+ * Without a revision, restores from previous_values (the last flagged edit).
+ * With a revision number, restores that revision's snapshot. Either way the
+ * preset is approved, previous_values is cleared, any queue claim is released and a
+ * 'revert' revision is recorded.
+ * Hidden and rejected presets keep their status, so a restore can't publish
+ * a banned author's preset.
+ *
+ * A moderator's revert passes `log` and `notification`: the 'revert'
+ * moderation_log entry and the author notification (built from the reverted
+ * preset) are written in the same batch.
+ *
+ * The caller checks the restored dyes first (catalog, duplicates); if another
+ * preset takes the dye combination meanwhile, the UNIQUE dye_signature error
+ * is thrown (see isUniqueViolation).
+ *
+ * @returns The updated preset, or null if the preset or revision doesn't exist
+ *          (or there are no previous_values to revert to)
  */
 export async function revertPreset(
   db: D1Database,
-  id: string
+  id: string,
+  options: {
+    revision?: number;
+    editor?: PresetRevisionEditor;
+    log?: { moderatorDiscordId: string; reason: string | null };
+    notification?: (preset: CommunityPreset) => NotificationMessage | null;
+  } = {}
 ): Promise<CommunityPreset | null> {
+  const { revision, editor = { discordId: null, name: null }, log } = options;
+
   // First get the current preset to retrieve previous_values
   const current = await getPresetById(db, id);
-  if (!current || !current.previous_values) {
+  if (!current) {
     return null;
   }
 
-  const previous = current.previous_values;
+  let target: PresetSnapshot;
+  if (revision !== undefined) {
+    const stored = await getPresetRevision(db, id, revision);
+    if (!stored) {
+      return null;
+    }
+    target = stored.snapshot;
+  } else {
+    if (!current.previous_values) {
+      return null;
+    }
+    target = current.previous_values;
+  }
+
   const now = new Date().toISOString();
-  const dyeSignature = generateDyeSignature(previous.dyes);
+  const dyeSignature = generateDyeSignature(target.dyes);
+  const changedFields = Object.keys(diffSnapshots(current, target)) as PresetRevisionField[];
+  const notification = options.notification?.({
+    ...current,
+    ...target,
+    status: current.status === 'hidden' || current.status === 'rejected' ? current.status : 'approved',
+    previous_values: null,
+    updated_at: now,
+  });
 
   const query = `
     UPDATE presets
     SET name = ?, description = ?, dyes = ?, tags = ?, dye_signature = ?,
-        status = 'approved', previous_values = NULL, updated_at = ?
+        status = CASE WHEN status IN ('hidden', 'rejected') THEN status ELSE 'approved' END,
+        previous_values = NULL, updated_at = ?
     WHERE id = ?
   `;
 
-  await db
-    .prepare(query)
-    .bind(
-      previous.name,
-      previous.description,
-      JSON.stringify(previous.dyes),
-      JSON.stringify(previous.tags),
-      dyeSignature,
-      now,
-      id
-    )
-    .run();
+  await batchWithRevisionRetry(db, () => [
+    db
+      .prepare(query)
+      .bind(
+        target.name,
+        target.description,
+        JSON.stringify(target.dyes),
+        JSON.stringify(target.tags),
+        dyeSignature,
+        now,
+        id
+      ),
+    ...buildPresetDyeStatements(db, id, target.dyes),
+    buildPresetRevisionStatement(db, id, 'revert', changedFields, editor),
+    db.prepare('DELETE FROM preset_claims WHERE preset_id = ?').bind(id),
+    ...(log
+      ? [
+          db
+            .prepare(
+              `INSERT INTO moderation_log (id, preset_id, moderator_discord_id, action, reason, created_at)
+               VALUES (?, ?, ?, 'revert', ?, ?)`
+            )
+            .bind(crypto.randomUUID(), id, log.moderatorDiscordId, log.reason, now),
+        ]
+      : []),
+    ...(notification ? [buildOutboxInsertStatement(db, notification, now)] : []),
+  ]);
 
   return getPresetById(db, id);
 }
+
+// ============================================
+// PRESET REVISIONS
+// ============================================
+
+/**
+ * Fields captured in every revision snapshot
+ */
+const REVISION_FIELDS: PresetRevisionField[] = ['name', 'description', 'dyes', 'tags'];
+
+/**
+ * Field-level differences between two snapshots
+ * Arrays are compared by value (order matters for dyes)
+ */
+function diffSnapshots(from: PresetSnapshot, to: PresetSnapshot): PresetRevisionDiff {
+  const diff: Record<string, { from: unknown; to: unknown }> = {};
+  for (const field of REVISION_FIELDS) {
+    if (JSON.stringify(from[field]) !== JSON.stringify(to[field])) {
+      diff[field] = { from: from[field], to: to[field] };
+    }
+  }
+  return diff as PresetRevisionDiff;
+}
+
+/**
+ * Convert database row to PresetRevision (diff is filled in by the caller)
+ */
+function rowToRevision(row: PresetRevisionRow, diff: PresetRevisionDiff | null): PresetRevision {
+  return {
+    id: row.id,
+    preset_id: row.preset_id,
+    revision_number: row.revision_number,
+    action: row.action as PresetRevisionAction,
+    editor_discord_id: row.editor_discord_id,
+    editor_name: row.editor_name,
+    changed_fields: JSON.parse(row.changed_fields),
+    snapshot: JSON.parse(row.snapshot),
+    diff,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Get a preset's revision history, newest first
+ * Each revision includes its diff against the revision before it
+ */
+export async function getPresetRevisions(
+  db: D1Database,
+  presetId: string
+): Promise<PresetRevision[]> {
+  const result = await db
+    .prepare('SELECT * FROM preset_revisions WHERE preset_id = ? ORDER BY revision_number ASC')
+    .bind(presetId)
+    .all<PresetRevisionRow>();
+
+  const revisions: PresetRevision[] = [];
+  let previous: PresetSnapshot | null = null;
+  for (const row of result.results || []) {
+    const snapshot: PresetSnapshot = JSON.parse(row.snapshot);
+    revisions.push(rowToRevision(row, previous ? diffSnapshots(previous, snapshot) : null));
+    previous = snapshot;
+  }
+  return revisions.reverse();
+}
+
+/**
+ * Get a single revision by number, with its diff against the revision before it
+ */
+export async function getPresetRevision(
+  db: D1Database,
+  presetId: string,
+  revisionNumber: number
+): Promise<PresetRevision | null> {
+  const result = await db
+    .prepare(
+      `SELECT * FROM preset_revisions
+       WHERE preset_id = ? AND revision_number IN (?, ?)
+       ORDER BY revision_number ASC`
+    )
+    .bind(presetId, revisionNumber - 1, revisionNumber)
+    .all<PresetRevisionRow>();
+
+  const rows = result.results || [];
+  const row = rows.find((candidate) => candidate.revision_number === revisionNumber);
+  if (!row) {
+    return null;
+  }
+  const previous = rows.find((candidate) => candidate.revision_number === revisionNumber - 1);
+  const diff = previous
+    ? diffSnapshots(JSON.parse(previous.snapshot), JSON.parse(row.snapshot))
+    : null;
+  return rowToRevision(row, diff);
+}
@@ -0,0 +1,260 @@
+/**
+ * Moderation Queue Service
+ * Claims on pending presets, time-in-queue metrics and SLA escalation
+ *
+ * Claims are advisory: a claimed preset can still be moderated by anyone, the
+ * claim just tells other moderators to skip it. Claims expire after
+ * CLAIM_DURATION_MINUTES and an expired claim is treated as no claim.
+ *
+ * Time in queue is measured from the preset's pending_since, like
+ * expire-stale-pending: set whenever the preset moves to pending (so an edit
+ * that sends it back starts the clock again) and, unlike updated_at, not
+ * touched by votes.
+ */
+
+import type {
+  Env,
+  PendingPreset,
+  PendingPresetRow,
+  PresetClaim,
+  PresetClaimRow,
+  QueueMetrics,
+} from '../types.js';
+import { rowToPreset } from './preset-service.js';
+import { notifyModerators } from './moderation-service.js';
+
+/**
+ * How long a claim lasts; claiming again renews it
+ */
+export const CLAIM_DURATION_MINUTES = 30;
+
+/**
+ * Default hours a preset may wait in the pending queue before moderators are re-pinged
+ */
+export const DEFAULT_MODERATION_SLA_HOURS = 24;
+
+/**
+ * Maximum presets escalated per job run, so a backlog doesn't flood the webhook
+ */
+export const MAX_ESCALATIONS_PER_RUN = 10;
+
+/**
+ * Resolve the SLA from the MODERATION_SLA_HOURS env var
+ * Falls back to the default when unset or invalid; 0 disables escalation
+ */
+export function resolveModerationSlaHours(value: string | undefined): number {
+  if (value === undefined || value.trim() === '') {
+    return DEFAULT_MODERATION_SLA_HOURS;
+  }
+  const hours = Number(value);
+  return Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_MODERATION_SLA_HOURS;
+}
+
+/**
+ * Convert a preset_claims row to the API shape
+ */
+export function rowToClaim(row: PresetClaimRow): PresetClaim {
+  return {
+    preset_id: row.preset_id,
+    moderator_discord_id: row.moderator_discord_id,
+    claimed_at: row.claimed_at,
+    expires_at: row.expires_at,
+  };
+}
+
+// ============================================
+// CLAIMS
+// ============================================
+
+/**
+ * Get a preset's unexpired claim
+ */
+export async function getActiveClaim(
+  db: D1Database,
+  presetId: string,
+  now: Date = new Date()
+): Promise<PresetClaim | null> {
+  const row = await db
+    .prepare('SELECT * FROM preset_claims WHERE preset_id = ? AND expires_at > ?')
+    .bind(presetId, now.toISOString())
+    .first<PresetClaimRow>();
+  return row ? rowToClaim(row) : null;
+}
+
+/**
+ * Claim a pending preset, or renew the caller's own claim
+ * Takes over expired claims. The upsert is guarded, so of two concurrent
+ * claims only one succeeds.
+ *
+ * @returns null if the preset is not pending or someone else holds the claim
+ */
+export async function claimPreset(
+  db: D1Database,
+  presetId: string,
+  moderatorDiscordId: string,
+  now: Date = new Date()
+): Promise<PresetClaim | null> {
+  const claimedAt = now.toISOString();
+  const expiresAt = new Date(now.getTime() + CLAIM_DURATION_MINUTES * 60 * 1000).toISOString();
+
+  const result = await db
+    .prepare(
+      `INSERT INTO preset_claims (preset_id, moderator_discord_id, claimed_at, expires_at)
+       SELECT id, ?, ?, ? FROM presets WHERE id = ? AND status = 'pending'
+       ON CONFLICT(preset_id) DO UPDATE SET
+         moderator_discord_id = excluded.moderator_discord_id,
+         claimed_at = excluded.claimed_at,
+         expires_at = excluded.expires_at
+       WHERE preset_claims.expires_at <= excluded.claimed_at
+          OR preset_claims.moderator_discord_id = excluded.moderator_discord_id`
+    )
+    .bind(moderatorDiscordId, claimedAt, expiresAt, presetId)
+    .run();
+
+  if ((result.meta?.changes ?? 0) === 0) {
+    return null;
+  }
+
+  return { preset_id: presetId, moderator_discord_id: moderatorDiscordId, claimed_at: claimedAt, expires_at: expiresAt };
+}
+
+/**
+ * Release a claim held by a moderator
+ * @returns false if that moderator held no claim on the preset
+ */
+export async function releaseClaim(
+  db: D1Database,
+  presetId: string,
+  moderatorDiscordId: string
+): Promise<boolean> {
+  const result = await db
+    .prepare('DELETE FROM preset_claims WHERE preset_id = ? AND moderator_discord_id = ?')
+    .bind(presetId, moderatorDiscordId)
+    .run();
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+// ============================================
+// QUEUE AND ESCALATION
+// ============================================
+
+/**
+ * Seconds elapsed since a timestamp
+ */
+function secondsSince(timestamp: string, now: Date): number {
+  return Math.max(0, Math.floor((now.getTime() - Date.parse(timestamp)) / 1000));
+}
+
+/**
+ * When a queued preset entered the queue
+ * Falls back to updated_at if pending_since was never set
+ */
+function pendingSince(row: PendingPresetRow): string {
+  return row.pending_since ?? row.updated_at;
+}
+
+/**
+ * The pending queue, longest waiting first, with each preset's unexpired claim
+ */
+export async function getPendingPresets(db: D1Database, now: Date = new Date()): Promise<PendingPreset[]> {
+  const query = `
+    SELECT p.*, c.moderator_discord_id as claimed_by, c.expires_at as claim_expires_at
+    FROM presets p
+    LEFT JOIN preset_claims c ON c.preset_id = p.id AND c.expires_at > ?
+    WHERE p.status = 'pending'
+    ORDER BY p.pending_since ASC, p.id ASC
+  `;
+  const result = await db.prepare(query).bind(now.toISOString()).all<PendingPresetRow>();
+  return (result.results || []).map((row) => ({
+    ...rowToPreset(row),
+    claimed_by: row.claimed_by ?? null,
+    claim_expires_at: row.claim_expires_at ?? null,
+    pending_since: pendingSince(row),
+    time_in_queue_seconds: secondsSince(pendingSince(row), now),
+  }));
+}
+
+/**
+ * Summarize the pending queue
+ */
+export function getQueueMetrics(presets: PendingPreset[], slaHours: number): QueueMetrics {
+  const times = presets.map((preset) => preset.time_in_queue_seconds);
+  const slaSeconds = slaHours * 3600;
+
+  return {
+    pending: presets.length,
+    claimed: presets.filter((preset) => preset.claimed_by !== null).length,
+    overdue: slaHours > 0 ? times.filter((seconds) => seconds > slaSeconds).length : 0,
+    oldest_seconds: times.length > 0 ? Math.max(...times) : 0,
+    average_seconds: times.length > 0 ? Math.round(times.reduce((sum, t) => sum + t, 0) / times.length) : 0,
+    sla_hours: slaHours,
+  };
+}
+
+/**
+ * Re-ping moderators about presets pending longer than the SLA
+ *
+ * Each overdue preset is claimed first by recording the escalation with a
+ * conditional upsert; only the presets this run claimed are posted through
+ * notifyModerators (moderation webhook and owner DM), oldest first. A preset
+ * is re-pinged at most once per SLA period while it stays overdue, even if
+ * runs overlap or a ping throws.
+ *
+ * @returns Number of presets escalated
+ */
+export async function escalateOverduePresets(env: Env, now: Date, slaHours: number): Promise<number> {
+  const nowIso = now.toISOString();
+  const cutoff = new Date(now.getTime() - slaHours * 3600 * 1000).toISOString();
+
+  const result = await env.DB.prepare(
+    `SELECT p.*, c.moderator_discord_id as claimed_by, c.expires_at as claim_expires_at
+     FROM presets p
+     LEFT JOIN preset_claims c ON c.preset_id = p.id AND c.expires_at > ?
+     LEFT JOIN preset_sla_escalations e ON e.preset_id = p.id
+     WHERE p.status = 'pending'
+       AND julianday(p.pending_since) < julianday(?)
+       AND (e.escalated_at IS NULL OR e.escalated_at < ?)
+     ORDER BY julianday(p.pending_since) ASC
+     LIMIT ?`
+  )
+    .bind(nowIso, cutoff, cutoff, MAX_ESCALATIONS_PER_RUN)
+    .all<PendingPresetRow>();
+  const overdue = result.results || [];
+  if (overdue.length === 0) {
+    return 0;
+  }
+
+  // Claim: only a row whose last escalation is older than the SLA period is updated
+  const claims = await env.DB.batch(
+    overdue.map((row) =>
+      env.DB
+        .prepare(
+          `INSERT INTO preset_sla_escalations (preset_id, escalated_at) VALUES (?, ?)
+           ON CONFLICT(preset_id) DO UPDATE SET escalated_at = excluded.escalated_at
+           WHERE preset_sla_escalations.escalated_at IS NULL OR preset_sla_escalations.escalated_at < ?`
+        )
+        .bind(row.id, nowIso, cutoff)
+    )
+  );
+  const claimed = overdue.filter((_, i) => (claims[i]?.meta?.changes ?? 0) > 0);
+
+  for (const row of claimed) {
+    const preset = rowToPreset(row);
+    const hours = Math.floor(secondsSince(pendingSince(row), now) / 3600);
+    const claim = row.claimed_by ? `, claimed by ${row.claimed_by}` : ', unclaimed';
+    await notifyModerators(
+      {
+        presetId: preset.id,
+        presetName: preset.name,
+        description: preset.description,
+        dyes: preset.dyes,
+        authorName: preset.author_name ?? 'Unknown',
+        authorId: preset.author_discord_id ?? '',
+        flagReason: `Overdue: pending for ${hours} hours (SLA ${slaHours} hours)${claim}`,
+      },
+      env
+    );
+  }
+
+  return claimed.length;
+}
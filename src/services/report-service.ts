@@ -0,0 +1,237 @@
+/**
+ * Report Service
+ * User-submitted reports on presets and the moderator report queue
+ *
+ * Reports complement the automatic filters in moderation-service: a preset
+ * that passes them can still be reported, and once it collects enough open
+ * reports it is auto-flagged so it leaves public listings until reviewed.
+ */
+
+import type {
+  PresetReport,
+  PresetReportRow,
+  PresetRow,
+  ReportQueueItem,
+  ReportReason,
+  ReportStatus,
+  ReportSubmission,
+} from '../types.js';
+import { rowToPreset } from './preset-service.js';
+import { SYSTEM_MODERATOR_ID } from './maintenance-service.js';
+
+/**
+ * Accepted report reasons
+ */
+export const REPORT_REASONS: readonly ReportReason[] = ['offensive_name', 'spam', 'stolen', 'other'];
+
+/**
+ * Maximum length of the free-text report details
+ */
+export const MAX_REPORT_DETAILS_LENGTH = 500;
+
+/**
+ * Default number of open reports that auto-flags an approved preset
+ */
+export const DEFAULT_REPORT_FLAG_THRESHOLD = 3;
+
+/**
+ * Resolve the auto-flag threshold from the REPORT_FLAG_THRESHOLD env var
+ * Falls back to the default when unset or invalid; 0 disables auto-flagging
+ */
+export function resolveReportFlagThreshold(value: string | undefined): number {
+  if (value === undefined || value.trim() === '') {
+    return DEFAULT_REPORT_FLAG_THRESHOLD;
+  }
+  const threshold = Number(value);
+  return Number.isInteger(threshold) && threshold >= 0 ? threshold : DEFAULT_REPORT_FLAG_THRESHOLD;
+}
+
+/**
+ * Convert a preset_reports row to the API shape
+ */
+export function rowToReport(row: PresetReportRow): PresetReport {
+  return {
+    id: row.id,
+    preset_id: row.preset_id,
+    reporter_discord_id: row.reporter_discord_id,
+    reason: row.reason as ReportReason,
+    details: row.details,
+    status: row.status as ReportStatus,
+    created_at: row.created_at,
+    resolved_at: row.resolved_at,
+    resolved_by_discord_id: row.resolved_by_discord_id,
+  };
+}
+
+/**
+ * Report a preset, auto-flagging it if this report reaches the threshold
+ *
+ * The report, the moderation_log entry and the status change run in one
+ * batch. The flag steps only fire for the report inserted here, so a
+ * duplicate report can't re-flag a preset a moderator has since approved.
+ *
+ * @returns The new report (null if the user already reported this preset)
+ *          and whether the preset was auto-flagged
+ */
+export async function submitReport(
+  db: D1Database,
+  presetId: string,
+  reporterDiscordId: string,
+  submission: ReportSubmission,
+  flagThreshold: number
+): Promise<{ report: PresetReport | null; auto_flagged: boolean }> {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  const statements = [
+    db
+      .prepare(
+        `INSERT INTO preset_reports (id, preset_id, reporter_discord_id, reason, details, status, created_at)
+         VALUES (?, ?, ?, ?, ?, 'open', ?)
+         ON CONFLICT (preset_id, reporter_discord_id) DO NOTHING`
+      )
+      .bind(id, presetId, reporterDiscordId, submission.reason, submission.details ?? null, now),
+  ];
+
+  if (flagThreshold > 0) {
+    const reachedThreshold = `id = ? AND status = 'approved'
+      AND EXISTS (SELECT 1 FROM preset_reports WHERE id = ?)
+      AND (SELECT COUNT(*) FROM preset_reports WHERE preset_id = presets.id AND status = 'open') >= ?`;
+
+    statements.push(
+      db
+        .prepare(
+          `INSERT INTO moderation_log (id, preset_id, moderator_discord_id, action, reason, created_at)
+           SELECT lower(hex(randomblob(16))), id, ?, 'flag', ?, ?
+           FROM presets WHERE ${reachedThreshold}`
+        )
+        .bind(
+          SYSTEM_MODERATOR_ID,
+          `Auto-flagged after ${flagThreshold} user reports`,
+          now,
+          presetId,
+          id,
+          flagThreshold
+        ),
+      db
+        .prepare(`UPDATE presets SET status = 'flagged', updated_at = ? WHERE ${reachedThreshold}`)
+        .bind(now, presetId, id, flagThreshold)
+    );
+  }
+
+  const results = await db.batch(statements);
+
+  if (!results[0]?.meta?.changes) {
+    return { report: null, auto_flagged: false };
+  }
+
+  return {
+    report: {
+      id,
+      preset_id: presetId,
+      reporter_discord_id: reporterDiscordId,
+      reason: submission.reason,
+      details: submission.details ?? null,
+      status: 'open',
+      created_at: now,
+      resolved_at: null,
+      resolved_by_discord_id: null,
+    },
+    auto_flagged: (results[2]?.meta?.changes ?? 0) > 0,
+  };
+}
+
+/**
+ * Moderator queue: presets with open reports, most reported first
+ */
+export async function getReportQueue(
+  db: D1Database,
+  options: { page?: number; limit?: number } = {}
+): Promise<{ items: ReportQueueItem[]; total: number; page: number; limit: number; has_more: boolean }> {
+  const page = options.page && options.page > 0 ? options.page : 1;
+  const limit = options.limit && options.limit > 0 ? options.limit : 20;
+  const offset = (page - 1) * limit;
+
+  const reasonCounts = REPORT_REASONS.map(
+    (reason) => `SUM(CASE WHEN reason = '${reason}' THEN 1 ELSE 0 END) as reason_${reason}`
+  ).join(',\n        ');
+
+  // PERFORMANCE: COUNT(*) OVER() returns the total alongside the page in one query
+  const query = `
+    SELECT p.*, r.open_reports, r.first_reported_at, r.last_reported_at,
+      ${REPORT_REASONS.map((reason) => `r.reason_${reason}`).join(', ')},
+      COUNT(*) OVER() as _total
+    FROM (
+      SELECT
+        preset_id,
+        COUNT(*) as open_reports,
+        MIN(created_at) as first_reported_at,
+        MAX(created_at) as last_reported_at,
+        ${reasonCounts}
+      FROM preset_reports
+      WHERE status = 'open'
+      GROUP BY preset_id
+    ) r
+    JOIN presets p ON p.id = r.preset_id
+    ORDER BY r.open_reports DESC, r.first_reported_at ASC, p.id ASC
+    LIMIT ? OFFSET ?
+  `;
+
+  type QueueRow = PresetRow & {
+    open_reports: number;
+    first_reported_at: string;
+    last_reported_at: string;
+    _total: number;
+  } & Record<`reason_${ReportReason}`, number>;
+
+  const result = await db.prepare(query).bind(limit, offset).all<QueueRow>();
+  const rows = result.results || [];
+  const total = rows.length > 0 ? rows[0]._total : 0;
+
+  return {
+    items: rows.map((row) => ({
+      preset: rowToPreset(row),
+      open_reports: row.open_reports,
+      reasons: Object.fromEntries(
+        REPORT_REASONS.map((reason) => [reason, row[`reason_${reason}`] ?? 0])
+      ) as Record<ReportReason, number>,
+      first_reported_at: row.first_reported_at,
+      last_reported_at: row.last_reported_at,
+    })),
+    total,
+    page,
+    limit,
+    has_more: offset + rows.length < total,
+  };
+}
+
+/**
+ * All reports on a preset (open and closed), most recent first
+ */
+export async function getPresetReports(db: D1Database, presetId: string): Promise<PresetReport[]> {
+  const result = await db
+    .prepare('SELECT * FROM preset_reports WHERE preset_id = ? ORDER BY created_at DESC')
+    .bind(presetId)
+    .all<PresetReportRow>();
+  return (result.results || []).map(rowToReport);
+}
+
+/**
+ * Close every open report on a preset
+ * @returns Number of reports closed
+ */
+export async function resolveReports(
+  db: D1Database,
+  presetId: string,
+  resolution: Exclude<ReportStatus, 'open'>,
+  moderatorDiscordId: string
+): Promise<number> {
+  const result = await db
+    .prepare(
+      `UPDATE preset_reports SET status = ?, resolved_at = ?, resolved_by_discord_id = ?
+       WHERE preset_id = ? AND status = 'open'`
+    )
+    .bind(resolution, new Date().toISOString(), moderatorDiscordId, presetId)
+    .run();
+  return result.meta.changes;
+}
@@ -0,0 +1,143 @@
+/**
+ * Staff Service
+ * Staff roles and the permissions they grant
+ *
+ * Roles live in staff_roles, one per user. OWNER_DISCORD_ID and MODERATOR_IDS
+ * act as bootstrap owner and moderators (see authMiddleware) and cannot be
+ * changed here. Every grant and revoke is logged to moderation_log, in the same batch
+ * as the change.
+ */
+
+import type { StaffMember, StaffPermission, StaffRole, StaffRoleRow } from '../types.js';
+
+/**
+ * Staff roles, most privileged first
+ */
+export const STAFF_ROLES: readonly StaffRole[] = ['owner', 'admin', 'moderator', 'curator'];
+
+/**
+ * Permissions granted by each role
+ */
+export const ROLE_PERMISSIONS: Readonly<Record<StaffRole, readonly StaffPermission[]>> = {
+  owner: ['manage_roles', 'operate', 'moderate', 'review'],
+  admin: ['operate', 'moderate', 'review'],
+  moderator: ['moderate', 'review'],
+  curator: ['review'],
+};
+
+/**
+ * Check whether a role grants a permission
+ */
+export function roleHasPermission(role: StaffRole | null | undefined, permission: StaffPermission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Convert a staff_roles row to the API shape
+ */
+export function rowToStaffMember(row: StaffRoleRow): StaffMember {
+  return {
+    discord_id: row.discord_id,
+    role: row.role as StaffRole,
+    granted_by_discord_id: row.granted_by_discord_id,
+    granted_at: row.granted_at,
+  };
+}
+
+/**
+ * Get a user's role from staff_roles
+ * Unknown role values are treated as no role
+ */
+export async function getStaffRole(db: D1Database, discordId: string): Promise<StaffRole | null> {
+  const row = await db
+    .prepare('SELECT role FROM staff_roles WHERE discord_id = ?')
+    .bind(discordId)
+    .first<Pick<StaffRoleRow, 'role'>>();
+  const role = row?.role as StaffRole | undefined;
+  return role && STAFF_ROLES.includes(role) ? role : null;
+}
+
+/**
+ * List staff with a role in staff_roles, most privileged role first
+ */
+export async function getStaffMembers(db: D1Database): Promise<StaffMember[]> {
+  const result = await db
+    .prepare(
+      `SELECT * FROM staff_roles
+       ORDER BY CASE role WHEN 'owner' THEN 0 WHEN 'admin' THEN 1 WHEN 'moderator' THEN 2 ELSE 3 END,
+                granted_at ASC`
+    )
+    .all<StaffRoleRow>();
+  return (result.results || []).map(rowToStaffMember);
+}
+
+/**
+ * Grant a role, replacing the user's current one
+ * Logged as role_granted with the change in the reason (e.g. "moderator -> admin")
+ *
+ * @param previousRole - The user's current role in staff_roles, for the log entry
+ */
+export async function grantStaffRole(
+  db: D1Database,
+  discordId: string,
+  role: StaffRole,
+  grantedByDiscordId: string,
+  previousRole: StaffRole | null
+): Promise<StaffMember> {
+  const now = new Date().toISOString();
+
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO staff_roles (discord_id, role, granted_by_discord_id, granted_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(discord_id) DO UPDATE SET
+           role = excluded.role,
+           granted_by_discord_id = excluded.granted_by_discord_id,
+           granted_at = excluded.granted_at`
+      )
+      .bind(discordId, role, grantedByDiscordId, now),
+    db
+      .prepare(
+        `INSERT INTO moderation_log (id, preset_id, subject_discord_id, moderator_discord_id, action, reason, created_at)
+         VALUES (?, NULL, ?, ?, 'role_granted', ?, ?)`
+      )
+      .bind(
+        crypto.randomUUID(),
+        discordId,
+        grantedByDiscordId,
+        previousRole ? `${previousRole} -> ${role}` : role,
+        now
+      ),
+  ]);
+
+  return { discord_id: discordId, role, granted_by_discord_id: grantedByDiscordId, granted_at: now };
+}
+
+/**
+ * Revoke a user's role
+ * Logged as role_revoked with the revoked role as the reason
+ *
+ * @returns false if the user had no role in staff_roles
+ */
+export async function revokeStaffRole(
+  db: D1Database,
+  discordId: string,
+  revokedByDiscordId: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const results = await db.batch([
+    // Log first, then delete: the log reads the role being removed
+    db
+      .prepare(
+        `INSERT INTO moderation_log (id, preset_id, subject_discord_id, moderator_discord_id, action, reason, created_at)
+         SELECT lower(hex(randomblob(16))), NULL, discord_id, ?, 'role_revoked', role, ?
+         FROM staff_roles WHERE discord_id = ?`
+      )
+      .bind(revokedByDiscordId, now, discordId),
+    db.prepare('DELETE FROM staff_roles WHERE discord_id = ?').bind(discordId),
+  ]);
+
+  return (results[1]?.meta?.changes ?? 0) > 0;
+}
@@ -0,0 +1,136 @@
+/**
+ * Vote Integrity Service
+ * Keeps the denormalized presets.vote_count in line with the votes table
+ *
+ * The votes table is the source of truth. vote_count is always recomputed
+ * from it (never incremented blindly), so any statement built here also
+ * repairs earlier drift on the preset it touches.
+ */
+
+import type {
+  VoteCountMismatch,
+  VoteIntegrityReport,
+  VoteReconciliationResult,
+} from '../types.js';
+
+/**
+ * Default number of mismatches listed in an integrity report
+ */
+export const DEFAULT_INTEGRITY_REPORT_LIMIT = 100;
+export const MAX_INTEGRITY_REPORT_LIMIT = 500;
+
+/**
+ * Recount subquery for `presets`, correlated on presets.id
+ */
+const ACTUAL_VOTE_COUNT = '(SELECT COUNT(*) FROM votes WHERE votes.preset_id = presets.id)';
+
+/**
+ * Build a statement that sets one preset's vote_count from the votes table
+ *
+ * Only writes (and bumps updated_at) when the count actually changed, and
+ * returns the new vote_count in that case. Intended to run in the same
+ * db.batch() as the vote insert/delete, after it.
+ */
+export function buildVoteCountSyncStatement(
+  db: D1Database,
+  presetId: string,
+  now: string
+): D1PreparedStatement {
+  return db
+    .prepare(
+      `UPDATE presets
+       SET vote_count = ${ACTUAL_VOTE_COUNT}, updated_at = ?
+       WHERE id = ? AND vote_count != ${ACTUAL_VOTE_COUNT}
+       RETURNING vote_count`
+    )
+    .bind(now, presetId);
+}
+
+/**
+ * Read a preset's stored vote_count (0 if the preset doesn't exist)
+ */
+export async function getStoredVoteCount(db: D1Database, presetId: string): Promise<number> {
+  const preset = await db
+    .prepare('SELECT vote_count FROM presets WHERE id = ?')
+    .bind(presetId)
+    .first<{ vote_count: number }>();
+  return preset?.vote_count ?? 0;
+}
+
+/**
+ * Compare every preset's vote_count with the votes table
+ *
+ * @param limit - Max mismatches to list, largest difference first
+ */
+export async function getVoteIntegrityReport(
+  db: D1Database,
+  limit: number = DEFAULT_INTEGRITY_REPORT_LIMIT
+): Promise<VoteIntegrityReport> {
+  const checkedAt = new Date().toISOString();
+
+  const mismatchResult = await db
+    .prepare(
+      `SELECT
+         p.id as preset_id,
+         p.name,
+         p.vote_count as stored_count,
+         COALESCE(v.actual_count, 0) as actual_count,
+         COUNT(*) OVER() as _total
+       FROM presets p
+       LEFT JOIN (
+         SELECT preset_id, COUNT(*) as actual_count FROM votes GROUP BY preset_id
+       ) v ON v.preset_id = p.id
+       WHERE p.vote_count != COALESCE(v.actual_count, 0)
+       ORDER BY ABS(p.vote_count - COALESCE(v.actual_count, 0)) DESC, p.id ASC
+       LIMIT ?`
+    )
+    .bind(limit)
+    .all<Omit<VoteCountMismatch, 'difference'> & { _total: number }>();
+
+  // Votes on deleted presets (cascades normally prevent these)
+  const orphanRow = await db
+    .prepare('SELECT COUNT(*) as count FROM votes WHERE preset_id NOT IN (SELECT id FROM presets)')
+    .first<{ count: number }>();
+
+  const rows = mismatchResult.results || [];
+
+  return {
+    checked_at: checkedAt,
+    mismatch_count: rows.length > 0 ? rows[0]._total : 0,
+    mismatches: rows.map((row) => ({
+      preset_id: row.preset_id,
+      name: row.name,
+      stored_count: row.stored_count,
+      actual_count: row.actual_count,
+      difference: row.stored_count - row.actual_count,
+    })),
+    orphaned_votes: orphanRow?.count ?? 0,
+  };
+}
+
+/**
+ * Report and fix every mismatched vote_count
+ *
+ * The fix is a single UPDATE, so all counts are corrected atomically and
+ * from the votes table as it is at that moment (votes cast between the
+ * report and the fix are still counted correctly).
+ */
+export async function reconcileVoteCounts(
+  db: D1Database,
+  limit: number = DEFAULT_INTEGRITY_REPORT_LIMIT
+): Promise<VoteReconciliationResult> {
+  const report = await getVoteIntegrityReport(db, limit);
+  if (report.mismatch_count === 0) {
+    return { report, fixed: 0 };
+  }
+
+  const result = await db
+    .prepare(
+      `UPDATE presets
+       SET vote_count = ${ACTUAL_VOTE_COUNT}
+       WHERE vote_count != ${ACTUAL_VOTE_COUNT}`
+    )
+    .run();
+
+  return { report, fixed: result.meta.changes };
+}
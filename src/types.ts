@@ -42,6 +42,750 @@ export type { AuthSource, AuthContext } from '@xivdyetools/types';
  */
 export type { ModerationResult, ModerationLogEntry, RateLimitResult } from '@xivdyetools/types';
 
+import type {
+  CommunityPreset,
+  ModerationResult,
+  PresetFilters,
+  PresetListResponse,
+  PresetPreviousValues,
+  PresetStatus,
+} from '@xivdyetools/types';
+
+// ============================================
+// SHARED TYPE EXTENSIONS (Project-specific)
+// ============================================
+
+declare module '@xivdyetools/types' {
+  interface CommunityPreset {
+    /** Parent preset ID when this preset was created as a fork (null for originals) */
+    forked_from_id?: string | null;
+    /** Time-decayed score from recent votes, refreshed on a schedule (see sort=trending) */
+    trending_score?: number;
+  }
+
+  interface AuthContext {
+    /**
+     * The caller's staff role. Bootstrap roles from OWNER_DISCORD_ID / MODERATOR_IDS are set
+     * by authMiddleware; staff_roles is only read on the first permission check
+     * (undefined until then, null for non-staff)
+     */
+    role?: StaffRole | null;
+  }
+}
+
+// ============================================
+// PRESET LISTING (Project-specific)
+// ============================================
+
+/**
+ * Sort options accepted by GET /api/v1/presets
+ * Extends the shared sort options with 'relevance' (full-text search rank)
+ * and 'trending' (time-decayed recent votes, see refreshTrendingScores)
+ */
+export type PresetSortOption = NonNullable<PresetFilters['sort']> | 'relevance' | 'trending';
+
+/**
+ * Sort options accepted by GET /api/v1/presets/featured
+ */
+export type FeaturedPresetSort = 'popular' | 'trending';
+
+/**
+ * Filters accepted by getPresets()
+ * Same as the shared PresetFilters, with the extended sort options and dye filter
+ */
+export interface PresetListFilters extends Omit<PresetFilters, 'sort'> {
+  sort?: PresetSortOption;
+  /** Only presets containing these dye IDs */
+  dyes?: number[];
+  /** 'all' = contains every dye in `dyes` (default), 'any' = contains at least one */
+  dye_match?: 'all' | 'any';
+}
+
+/**
+ * Highlighted search snippets for a single preset
+ * Text is HTML-escaped; matched terms are wrapped in <mark></mark>
+ */
+export interface PresetSearchHighlight {
+  name: string;
+  description: string;
+}
+
+/**
+ * Preset list response with optional search highlights
+ * `highlights` is keyed by preset ID and only present for search queries
+ */
+export interface PresetListResult extends PresetListResponse {
+  next_cursor: string | null;
+  highlights?: Record<string, PresetSearchHighlight>;
+}
+
+/**
+ * Decoded keyset cursor
+ * `values` are the last row's sort key columns, ending with its ID
+ */
+export interface PresetCursor {
+  sort: PresetSortOption;
+  values: (string | number)[];
+}
+
+/**
+ * Preset list response for cursor (keyset) pagination
+ * No total or page number - `next_cursor` is null on the last page
+ */
+export interface PresetCursorListResult {
+  presets: CommunityPreset[];
+  limit: number;
+  has_more: boolean;
+  next_cursor: string | null;
+  highlights?: Record<string, PresetSearchHighlight>;
+}
+
+/**
+ * Preset with its palette distance from a color similarity query
+ * `distance` is the mean CIEDE2000 difference (lower = more similar)
+ */
+export type SimilarPreset = CommunityPreset & {
+  distance: number;
+};
+
+// ============================================
+// PRESET REVISIONS (Project-specific)
+// ============================================
+
+/**
+ * What produced a revision
+ * - create: preset submitted
+ * - edit: owner edit via PATCH /presets/:id
+ * - revert: moderator revert/restore
+ * - import: baseline snapshot backfilled for presets that predate revisions
+ */
+export type PresetRevisionAction = 'create' | 'edit' | 'revert' | 'import';
+
+/**
+ * Preset fields tracked by revisions
+ */
+export type PresetRevisionField = 'name' | 'description' | 'dyes' | 'tags';
+
+/**
+ * Full editable state of a preset at a revision
+ * Same shape as previous_values
+ */
+export type PresetSnapshot = PresetPreviousValues;
+
+/**
+ * Field-level changes between a revision and the one before it
+ */
+export type PresetRevisionDiff = Partial<{
+  [K in PresetRevisionField]: { from: PresetSnapshot[K]; to: PresetSnapshot[K] };
+}>;
+
+/**
+ * Who made a revision (null fields for system changes such as seeding)
+ */
+export interface PresetRevisionEditor {
+  discordId: string | null;
+  name: string | null;
+}
+
+export interface PresetRevision {
+  id: string;
+  preset_id: string;
+  revision_number: number;
+  action: PresetRevisionAction;
+  editor_discord_id: string | null;
+  editor_name: string | null;
+  changed_fields: PresetRevisionField[];
+  snapshot: PresetSnapshot;
+  /** Changes from the previous revision (null for the first revision) */
+  diff: PresetRevisionDiff | null;
+  created_at: string;
+}
+
+// ============================================
+// COLLECTIONS (Project-specific)
+// ============================================
+
+/**
+ * A user-curated list of presets
+ * item_count only counts presets that are currently approved
+ */
+export interface Collection {
+  id: string;
+  owner_discord_id: string;
+  owner_name: string | null;
+  name: string;
+  description: string | null;
+  is_public: boolean;
+  /** Text is awaiting review: not publicly visible even when is_public */
+  held_for_review: boolean;
+  item_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Collection with its presets in display order
+ */
+export interface CollectionWithPresets extends Collection {
+  presets: CommunityPreset[];
+}
+
+/**
+ * Body for POST /api/v1/collections
+ */
+export interface CollectionSubmission {
+  name: string;
+  description?: string | null;
+  is_public?: boolean;
+}
+
+/**
+ * Body for PATCH /api/v1/collections/:id (all fields optional)
+ */
+export type CollectionEditRequest = Partial<CollectionSubmission>;
+
+// ============================================
+// BOOKMARKS (Project-specific)
+// ============================================
+
+/**
+ * Preset in a user's bookmark list, with when it was saved
+ */
+export type BookmarkedPreset = CommunityPreset & {
+  bookmarked_at: string;
+};
+
+// ============================================
+// BANS (Project-specific)
+// ============================================
+
+/**
+ * A ban from Preset Palettes (active while unbanned_at is null)
+ */
+export interface UserBan {
+  id: string;
+  discord_id: string | null;
+  xivauth_id: string | null;
+  username: string;
+  moderator_discord_id: string;
+  reason: string;
+  banned_at: string;
+  unbanned_at: string | null;
+  unban_moderator_discord_id: string | null;
+  is_active: boolean;
+}
+
+/**
+ * Request body for POST /api/v1/moderation/bans
+ */
+export interface BanSubmission {
+  discord_id: string;
+  /** Defaults to the user's most recent author_name */
+  username?: string;
+  reason: string;
+}
+
+/**
+ * Result of banning or unbanning a user
+ */
+export interface BanActionResult {
+  ban: UserBan;
+  /** Presets hidden by the ban, or restored by the unban */
+  affected_presets: number;
+}
+
+// ============================================
+// MODERATION LOG (Project-specific)
+// ============================================
+
+/**
+ * Actions recorded in moderation_log
+ */
+export type ModerationLogAction =
+  | 'approve'
+  | 'reject'
+  | 'flag'
+  | 'unflag'
+  | 'revert'
+  | 'hide'
+  | 'unhide'
+  | 'ban'
+  | 'unban'
+  | 'appeal_granted'
+  | 'appeal_denied'
+  | 'role_granted'
+  | 'role_revoked'
+  | 'rule_created'
+  | 'rule_updated'
+  | 'rule_deleted';
+
+/**
+ * A moderation_log entry as returned by GET /api/v1/moderation/log
+ */
+export interface ModerationLogRecord {
+  id: string;
+  /** Null for actions on a user (bans, ban appeals, staff roles) or a moderation rule */
+  preset_id: string | null;
+  /** Null if the preset has since been deleted */
+  preset_name: string | null;
+  subject_discord_id: string | null;
+  moderator_discord_id: string;
+  action: ModerationLogAction;
+  reason: string | null;
+  created_at: string;
+}
+
+/**
+ * Filters for GET /api/v1/moderation/log (all optional, combined with AND)
+ */
+export interface ModerationLogFilters {
+  moderator?: string;
+  actions?: ModerationLogAction[];
+  preset_id?: string;
+  subject?: string;
+  /** Inclusive lower bound (ISO 8601) */
+  from?: string;
+  /** Exclusive upper bound (ISO 8601) */
+  to?: string;
+  limit?: number;
+}
+
+/**
+ * Decoded keyset cursor: the last entry's created_at and id
+ */
+export interface ModerationLogCursor {
+  created_at: string;
+  id: string;
+}
+
+/**
+ * A page of moderation log entries, newest first
+ */
+export interface ModerationLogPage {
+  entries: ModerationLogRecord[];
+  /** Pass back as ?cursor= for the next page; null on the last page */
+  next_cursor: string | null;
+  has_more: boolean;
+}
+
+// ============================================
+// BULK MODERATION (Project-specific)
+// ============================================
+
+/**
+ * Request body for POST /api/v1/moderation/bulk
+ */
+export interface BulkModerationRequest {
+  preset_ids: string[];
+  status: PresetStatus;
+  reason?: string;
+}
+
+/**
+ * What happened to one preset in a bulk action
+ * - conflict: another moderator changed its status while the batch ran
+ */
+export type BulkModerationOutcome = 'succeeded' | 'not_found' | 'already_in_status' | 'conflict';
+
+/**
+ * Per-preset result of a bulk action, in request order
+ */
+export interface BulkModerationItemResult {
+  preset_id: string;
+  outcome: BulkModerationOutcome;
+  /** Status before the action; absent if the preset was not found */
+  previous_status?: PresetStatus;
+}
+
+// ============================================
+// MODERATION QUEUE (Project-specific)
+// ============================================
+
+/**
+ * A moderator's claim on a pending preset
+ * Claims are advisory: they mark the preset as being reviewed, they don't lock it
+ */
+export interface PresetClaim {
+  preset_id: string;
+  moderator_discord_id: string;
+  claimed_at: string;
+  expires_at: string;
+}
+
+/**
+ * A preset in GET /api/v1/moderation/pending
+ */
+export interface PendingPreset extends CommunityPreset {
+  /** Moderator with an unexpired claim, or null */
+  claimed_by: string | null;
+  claim_expires_at: string | null;
+  /** When the preset last entered the pending queue */
+  pending_since: string;
+  time_in_queue_seconds: number;
+}
+
+/**
+ * Time-in-queue metrics for the pending queue
+ */
+export interface QueueMetrics {
+  pending: number;
+  claimed: number;
+  /** Presets pending longer than the SLA (0 when escalation is disabled) */
+  overdue: number;
+  oldest_seconds: number;
+  average_seconds: number;
+  /** MODERATION_SLA_HOURS (0 = escalation disabled) */
+  sla_hours: number;
+}
+
+// ============================================
+// MODERATION RULES (Project-specific)
+// ============================================
+
+/**
+ * User-facing text fields checked by content moderation
+ */
+export type ModerationField = 'name' | 'description' | 'tags';
+
+/**
+ * User-facing text submitted for moderation
+ * Collections use name and description; appeal messages go in description.
+ */
+export interface ModerationContent {
+  name?: string;
+  description?: string;
+  tags?: string[];
+}
+
+/**
+ * Kinds of auto-moderation rule
+ * - keyword: comma-separated words or phrases, matched as whole words
+ * - regex: a case-insensitive regular expression
+ * - perspective: a threshold for one Perspective API attribute
+ * - account_age: the author's Discord account is younger than `threshold` days
+ */
+export type ModerationRuleType = 'keyword' | 'regex' | 'perspective' | 'account_age';
+
+/**
+ * What a rule does to content it matches
+ * Of the rules that fire, the highest priority wins, then the most severe action
+ */
+export type ModerationRuleAction = 'approve' | 'pending' | 'reject';
+
+/**
+ * Perspective attributes, as keyed in ModerationResult.scores
+ */
+export type PerspectiveAttribute = 'toxicity' | 'severeToxicity' | 'identityAttack' | 'insult' | 'profanity';
+
+/**
+ * An auto-moderation rule
+ */
+export interface ModerationRule {
+  id: string;
+  name: string;
+  type: ModerationRuleType;
+  /** Keywords, regex source or Perspective attribute; null for account_age */
+  pattern: string | null;
+  /** Perspective score (0-1] or account age in days; null for keyword and regex */
+  threshold: number | null;
+  fields: ModerationField[];
+  action: ModerationRuleAction;
+  priority: number;
+  enabled: boolean;
+  created_by_discord_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * The editable part of a rule, before it is stored
+ */
+export type ModerationRuleDraft = Omit<ModerationRule, 'id' | 'created_by_discord_id' | 'created_at' | 'updated_at'>;
+
+/**
+ * Request body for creating (all required fields) or updating (any subset) a rule
+ */
+export interface ModerationRuleInput {
+  name?: string;
+  type?: ModerationRuleType;
+  pattern?: string | null;
+  threshold?: number | null;
+  fields?: ModerationField[];
+  action?: ModerationRuleAction;
+  priority?: number;
+  enabled?: boolean;
+}
+
+/**
+ * Request body for POST /api/v1/moderation/rules/dry-run
+ */
+export interface ModerationDryRunRequest {
+  name?: string;
+  description?: string;
+  tags?: string[];
+  /** Author to evaluate account_age rules against */
+  author_discord_id?: string;
+}
+
+/**
+ * A rule that fired during moderation
+ */
+export interface FiredModerationRule {
+  /** Null for the built-in word list and default Perspective thresholds */
+  rule_id: string | null;
+  name: string;
+  type: ModerationRuleType;
+  action: ModerationRuleAction;
+  priority: number;
+  /** 'content' when Perspective can't tell which field scored high; absent for account rules */
+  field?: ModerationField | 'content';
+  reason: string;
+}
+
+/**
+ * Extra input for moderateContent beyond the content itself
+ */
+export interface ModerationContext {
+  /** Author, for account_age rules */
+  authorDiscordId?: string | null;
+}
+
+/**
+ * moderateContent result with the rules engine outcome
+ * `passed` is true exactly when `action` is 'approve'
+ */
+export interface ContentModerationResult extends ModerationResult {
+  action: ModerationRuleAction;
+  /** Every field a holding or rejecting rule flagged; flaggedField is the one that decided */
+  flaggedFields: Array<ModerationField | 'content'>;
+  fired_rules: FiredModerationRule[];
+}
+
+// ============================================
+// STAFF ROLES (Project-specific)
+// ============================================
+
+/**
+ * Staff roles, most privileged first (see ROLE_PERMISSIONS in staff-service)
+ */
+export type StaffRole = 'owner' | 'admin' | 'moderator' | 'curator';
+
+/**
+ * What a staff role allows:
+ * - manage_roles: grant and revoke staff roles
+ * - operate: maintenance jobs, the notification outbox and vote integrity
+ * - moderate: moderation decisions, bans, and other users' presets and collections
+ * - review: read-only access to the moderation queues and history
+ */
+export type StaffPermission = 'manage_roles' | 'operate' | 'moderate' | 'review';
+
+export interface StaffMember {
+  discord_id: string;
+  role: StaffRole;
+  granted_by_discord_id: string;
+  granted_at: string;
+}
+
+/**
+ * Request body for PUT /api/v1/moderation/staff/:discordId
+ */
+export interface StaffRoleGrant {
+  role: StaffRole;
+}
+
+// ============================================
+// APPEALS (Project-specific)
+// ============================================
+
+/**
+ * Open appeals wait for a moderator; granted appeals approve the preset or lift the ban
+ */
+export type AppealStatus = 'open' | 'granted' | 'denied';
+
+/**
+ * What an appeal is against (derived from which of preset_id / ban_id is set)
+ */
+export type AppealTargetType = 'preset' | 'ban';
+
+export interface Appeal {
+  id: string;
+  appellant_discord_id: string;
+  target_type: AppealTargetType;
+  preset_id: string | null;
+  ban_id: string | null;
+  message: string;
+  status: AppealStatus;
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by_discord_id: string | null;
+  /** The moderator's note, shown to the appellant */
+  resolution_note: string | null;
+}
+
+/**
+ * Request body for POST /api/v1/appeals
+ * Exactly one of preset_id (a rejected preset) or ban_id (the user's active ban)
+ */
+export interface AppealSubmission {
+  preset_id?: string;
+  ban_id?: string;
+  message: string;
+}
+
+/**
+ * Result of granting or denying an appeal
+ */
+export interface AppealResolutionResult {
+  appeal: Appeal;
+  /** Presets approved or restored by a granted appeal */
+  affected_presets: number;
+}
+
+// ============================================
+// REPORTS (Project-specific)
+// ============================================
+
+/**
+ * Why a user reported a preset
+ */
+export type ReportReason = 'offensive_name' | 'spam' | 'stolen' | 'other';
+
+/**
+ * Open reports count toward auto-flagging; moderators close them as resolved or dismissed
+ */
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+export interface PresetReport {
+  id: string;
+  preset_id: string;
+  reporter_discord_id: string;
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by_discord_id: string | null;
+}
+
+/**
+ * Request body for POST /api/v1/presets/:id/reports
+ */
+export interface ReportSubmission {
+  reason: ReportReason;
+  /** Required when reason is 'other' */
+  details?: string;
+}
+
+/**
+ * A reported preset in the moderator queue, with its open reports summarized
+ */
+export interface ReportQueueItem {
+  preset: CommunityPreset;
+  open_reports: number;
+  reasons: Record<ReportReason, number>;
+  first_reported_at: string;
+  last_reported_at: string;
+}
+
+// ============================================
+// NOTIFICATION OUTBOX (Project-specific)
+// ============================================
+
+/**
+ * pending: awaiting (re)delivery; delivered: accepted by the Discord worker;
+ * dead: gave up after MAX_NOTIFICATION_ATTEMPTS (replayable by moderators)
+ */
+export type OutboxStatus = 'pending' | 'delivered' | 'dead';
+
+/**
+ * A notification for the Discord worker, as stored in notification_outbox
+ */
+export interface OutboxNotification {
+  id: string;
+  path: string;
+  payload: unknown;
+  preset_id: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+/**
+ * Outcome of one outbox drain
+ */
+export interface OutboxDeliveryResult {
+  delivered: number;
+  failed: number;
+  dead: number;
+}
+
+// ============================================
+// VOTE INTEGRITY (Project-specific)
+// ============================================
+
+/**
+ * A preset whose denormalized vote_count disagrees with the votes table
+ */
+export interface VoteCountMismatch {
+  preset_id: string;
+  name: string;
+  stored_count: number;
+  actual_count: number;
+  /** stored_count - actual_count (positive = overcounted) */
+  difference: number;
+}
+
+/**
+ * Result of comparing presets.vote_count against the votes table
+ */
+export interface VoteIntegrityReport {
+  checked_at: string;
+  /** Total presets with a mismatched count (mismatches may be truncated) */
+  mismatch_count: number;
+  mismatches: VoteCountMismatch[];
+  /** Votes whose preset no longer exists */
+  orphaned_votes: number;
+}
+
+/**
+ * Result of reconcileVoteCounts()
+ */
+export interface VoteReconciliationResult {
+  /** Mismatches found before fixing (may be truncated) */
+  report: VoteIntegrityReport;
+  /** Presets whose vote_count was corrected */
+  fixed: number;
+}
+
+// ============================================
+// MAINTENANCE JOBS (Project-specific)
+// ============================================
+
+/**
+ * What a maintenance job changed
+ * `affected` is the number of rows written (0 when already consistent)
+ */
+export interface MaintenanceJobResult {
+  affected: number;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Outcome of one maintenance job run (scheduled or on demand)
+ */
+export interface MaintenanceJobRun {
+  job: string;
+  success: boolean;
+  affected: number;
+  details?: Record<string, unknown>;
+  error?: string;
+  started_at: string;
+  duration_ms: number;
+}
+
 // ============================================
 // CLOUDFLARE BINDINGS (Project-specific)
 // ============================================
@@ -62,10 +806,10 @@ export interface Env {
   // Secrets (set via wrangler secret put)
   BOT_API_SECRET: string;
   BOT_SIGNING_SECRET?: string; // HMAC signing key for bot request verification
-  MODERATOR_IDS: string;
+  MODERATOR_IDS: string; // Bootstrap moderators, in addition to staff_roles
   PERSPECTIVE_API_KEY?: string;
   MODERATION_WEBHOOK_URL?: string;
-  OWNER_DISCORD_ID?: string;
+  OWNER_DISCORD_ID?: string; // Receives DM alerts; also the bootstrap owner
   DISCORD_BOT_TOKEN?: string;
 
   // Web OAuth (shared with xivdyetools-oauth-worker)
@@ -74,6 +818,15 @@ export interface Env {
   // Discord bot webhook for notifications
   DISCORD_BOT_WEBHOOK_URL?: string;
   INTERNAL_WEBHOOK_SECRET?: string;
+
+  // Submissions
+  NEAR_DUPLICATE_THRESHOLD?: string; // Max palette distance treated as a near-duplicate (default 3, 0 = off)
+
+  // Reports
+  REPORT_FLAG_THRESHOLD?: string; // Open reports that auto-flag an approved preset (default 3, 0 = off)
+
+  // Moderation queue
+  MODERATION_SLA_HOURS?: string; // Pending hours before moderators are re-pinged (default 24, 0 = off)
 }
 
 // ============================================
@@ -96,6 +849,139 @@ export interface PresetRow {
   updated_at: string;
   dye_signature: string | null;
   previous_values: string | null; // JSON string of PresetPreviousValues
+  forked_from_id: string | null;
+  trending_score: number;
+  pending_since: string | null; // When the preset last entered the pending queue
+}
+
+export interface PresetRevisionRow {
+  id: string;
+  preset_id: string;
+  revision_number: number;
+  action: string;
+  editor_discord_id: string | null;
+  editor_name: string | null;
+  changed_fields: string; // JSON array of PresetRevisionField
+  snapshot: string; // JSON string of PresetSnapshot
+  created_at: string;
+}
+
+export interface CollectionRow {
+  id: string;
+  owner_discord_id: string;
+  owner_name: string | null;
+  name: string;
+  description: string | null;
+  is_public: number; // SQLite boolean (0 or 1)
+  held_for_review: number; // SQLite boolean (0 or 1)
+  created_at: string;
+  updated_at: string;
+  item_count?: number; // Computed by collection-service queries
+}
+
+export interface CollectionItemRow {
+  collection_id: string;
+  preset_id: string;
+  position: number;
+  added_at: string;
+}
+
+export interface BannedUserRow {
+  id: string;
+  discord_id: string | null;
+  xivauth_id: string | null;
+  username: string;
+  moderator_discord_id: string;
+  reason: string;
+  banned_at: string;
+  unbanned_at: string | null;
+  unban_moderator_discord_id: string | null;
+}
+
+export interface AppealRow {
+  id: string;
+  appellant_discord_id: string;
+  preset_id: string | null;
+  ban_id: string | null;
+  message: string;
+  status: string;
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by_discord_id: string | null;
+  resolution_note: string | null;
+}
+
+export interface PresetReportRow {
+  id: string;
+  preset_id: string;
+  reporter_discord_id: string;
+  reason: string;
+  details: string | null;
+  status: string;
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by_discord_id: string | null;
+}
+
+export interface NotificationOutboxRow {
+  id: string;
+  path: string;
+  payload: string;
+  preset_id: string | null;
+  status: string;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface ModerationLogRow {
+  id: string;
+  preset_id: string | null;
+  preset_name: string | null;
+  subject_discord_id: string | null;
+  moderator_discord_id: string;
+  action: string;
+  reason: string | null;
+  created_at: string;
+}
+
+/**
+ * Pending preset joined with its unexpired claim
+ */
+export interface PendingPresetRow extends PresetRow {
+  claimed_by: string | null;
+  claim_expires_at: string | null;
+}
+
+export interface PresetClaimRow {
+  preset_id: string;
+  moderator_discord_id: string;
+  claimed_at: string;
+  expires_at: string;
+}
+
+export interface ModerationRuleRow {
+  id: string;
+  name: string;
+  type: string;
+  pattern: string | null;
+  threshold: number | null;
+  fields: string; // JSON array of ModerationField
+  action: string;
+  priority: number;
+  enabled: number; // SQLite boolean (0 or 1)
+  created_by_discord_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StaffRoleRow {
+  discord_id: string;
+  role: string;
+  granted_by_discord_id: string;
+  granted_at: string;
 }
 
 export interface CategoryRow {
@@ -107,6 +993,12 @@ export interface CategoryRow {
   display_order: number;
 }
 
+export interface BookmarkRow {
+  user_discord_id: string;
+  preset_id: string;
+  created_at: string;
+}
+
 export interface VoteRow {
   preset_id: string;
   user_discord_id: string;
@@ -40,6 +40,7 @@ export const ErrorCode = {
   DUPLICATE_RESOURCE: 'DUPLICATE_RESOURCE',
   RATE_LIMITED: 'RATE_LIMITED',
   USER_BANNED: 'USER_BANNED',
+  CONTENT_FLAGGED: 'CONTENT_FLAGGED',
 
   // Server errors (5xx)
   INTERNAL_ERROR: 'INTERNAL_ERROR',
@@ -53,6 +54,16 @@ export type ErrorCodeType = (typeof ErrorCode)[keyof typeof ErrorCode];
 // RESPONSE TYPES
 // ============================================
 
+/**
+ * Field-level details for validation errors
+ */
+export interface ValidationErrorDetails {
+  /** Request field that failed validation */
+  field: string;
+  /** Offending values within that field */
+  invalid_values?: Array<string | number>;
+}
+
 /**
  * Standard error response shape
  */
@@ -60,6 +71,7 @@ export interface ApiErrorResponse {
   success: false;
   error: ErrorCodeType | string;
   message: string;
+  details?: ValidationErrorDetails;
 }
 
 /**
@@ -88,13 +100,15 @@ export function errorResponse(
   c: AnyContext,
   error: ErrorCodeType | string,
   message: string,
-  status: number = 400
+  status: number = 400,
+  details?: ValidationErrorDetails
 ): Response {
   return c.json<ApiErrorResponse>(
     {
       success: false,
       error,
       message,
+      ...(details && { details }),
     },
     status as 400
   );
@@ -138,9 +152,14 @@ export function invalidJsonResponse(c: AnyContext): Response {
 
 /**
  * 400 Bad Request - Validation failed
+ * Pass details to point the client at the offending field/values
  */
-export function validationErrorResponse(c: AnyContext, message: string): Response {
-  return errorResponse(c, ErrorCode.VALIDATION_ERROR, message, 400);
+export function validationErrorResponse(
+  c: AnyContext,
+  message: string,
+  details?: ValidationErrorDetails
+): Response {
+  return errorResponse(c, ErrorCode.VALIDATION_ERROR, message, 400, details);
 }
 
 /**
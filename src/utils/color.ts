@@ -0,0 +1,182 @@
+/**
+ * Color Utilities
+ *
+ * Conversions and perceptual color difference for palette similarity.
+ * Colors are compared in CIE L*a*b* (D65) using the CIEDE2000 formula,
+ * which tracks perceived difference much better than RGB distance.
+ *
+ * Rough CIEDE2000 scale: < 1 imperceptible, 1-2 close inspection,
+ * 2-10 noticeable at a glance, > 50 opposite colors.
+ */
+
+export interface LabColor {
+  l: number;
+  a: number;
+  b: number;
+}
+
+/**
+ * Hex color pattern (#RGB or #RRGGBB, '#' optional)
+ */
+const HEX_COLOR_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Normalize a hex color string to '#RRGGBB' (uppercase)
+ * Returns null if the input is not a valid hex color
+ */
+export function normalizeHexColor(input: string): string | null {
+  const match = input.trim().match(HEX_COLOR_PATTERN);
+  if (!match) {
+    return null;
+  }
+  let hex = match[1];
+  if (hex.length === 3) {
+    hex = hex
+      .split('')
+      .map((ch) => ch + ch)
+      .join('');
+  }
+  return `#${hex.toUpperCase()}`;
+}
+
+/**
+ * Convert an sRGB channel (0-255) to linear light (0-1)
+ */
+function srgbToLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * CIE L*a*b* companding function
+ */
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+/**
+ * Convert a hex color to CIE L*a*b* (D65 white point)
+ * Expects a valid hex color (see normalizeHexColor)
+ */
+export function hexToLab(hex: string): LabColor {
+  const value = parseInt(hex.replace('#', ''), 16);
+  const r = srgbToLinear((value >> 16) & 0xff);
+  const g = srgbToLinear((value >> 8) & 0xff);
+  const b = srgbToLinear(value & 0xff);
+
+  // Linear sRGB -> XYZ, normalized by the D65 reference white
+  const x = (0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / 0.95047;
+  const y = 0.2126729 * r + 0.7151522 * g + 0.072175 * b;
+  const z = (0.0193339 * r + 0.119192 * g + 0.9503041 * b) / 1.08883;
+
+  const fx = labF(x);
+  const fy = labF(y);
+  const fz = labF(z);
+
+  return {
+    l: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz),
+  };
+}
+
+/**
+ * CIEDE2000 color difference between two L*a*b* colors
+ * Reference: Sharma, Wu & Dalal (2005), "The CIEDE2000 Color-Difference Formula"
+ */
+export function ciede2000(lab1: LabColor, lab2: LabColor): number {
+  const rad = Math.PI / 180;
+  const deg = 180 / Math.PI;
+
+  const c1 = Math.hypot(lab1.a, lab1.b);
+  const c2 = Math.hypot(lab2.a, lab2.b);
+  const cBar = (c1 + c2) / 2;
+  const cBar7 = Math.pow(cBar, 7);
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + Math.pow(25, 7))));
+
+  const a1p = (1 + g) * lab1.a;
+  const a2p = (1 + g) * lab2.a;
+  const c1p = Math.hypot(a1p, lab1.b);
+  const c2p = Math.hypot(a2p, lab2.b);
+
+  const hueAngle = (b: number, ap: number): number => {
+    if (b === 0 && ap === 0) return 0;
+    const h = Math.atan2(b, ap) * deg;
+    return h >= 0 ? h : h + 360;
+  };
+  const h1p = hueAngle(lab1.b, a1p);
+  const h2p = hueAngle(lab2.b, a2p);
+
+  const deltaLp = lab2.l - lab1.l;
+  const deltaCp = c2p - c1p;
+
+  let deltahp = 0;
+  if (c1p * c2p !== 0) {
+    deltahp = h2p - h1p;
+    if (deltahp > 180) deltahp -= 360;
+    else if (deltahp < -180) deltahp += 360;
+  }
+  const deltaHp = 2 * Math.sqrt(c1p * c2p) * Math.sin((deltahp / 2) * rad);
+
+  const lBarp = (lab1.l + lab2.l) / 2;
+  const cBarp = (c1p + c2p) / 2;
+
+  let hBarp = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hBarp = (h1p + h2p) / 2;
+    else if (h1p + h2p < 360) hBarp = (h1p + h2p + 360) / 2;
+    else hBarp = (h1p + h2p - 360) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos((hBarp - 30) * rad) +
+    0.24 * Math.cos(2 * hBarp * rad) +
+    0.32 * Math.cos((3 * hBarp + 6) * rad) -
+    0.2 * Math.cos((4 * hBarp - 63) * rad);
+
+  const deltaTheta = 30 * Math.exp(-Math.pow((hBarp - 275) / 25, 2));
+  const cBarp7 = Math.pow(cBarp, 7);
+  const rc = 2 * Math.sqrt(cBarp7 / (cBarp7 + Math.pow(25, 7)));
+  const lBarp50 = Math.pow(lBarp - 50, 2);
+  const sl = 1 + (0.015 * lBarp50) / Math.sqrt(20 + lBarp50);
+  const sc = 1 + 0.045 * cBarp;
+  const sh = 1 + 0.015 * cBarp * t;
+  const rt = -Math.sin(2 * deltaTheta * rad) * rc;
+
+  return Math.sqrt(
+    Math.pow(deltaLp / sl, 2) +
+      Math.pow(deltaCp / sc, 2) +
+      Math.pow(deltaHp / sh, 2) +
+      rt * (deltaCp / sc) * (deltaHp / sh)
+  );
+}
+
+/**
+ * Perceptual distance between two palettes (order-independent)
+ *
+ * For each color, finds the closest color in the other palette, then averages
+ * those distances in both directions. A palette with an extra unrelated color
+ * is therefore further away than one that matches exactly.
+ *
+ * @returns Mean CIEDE2000 distance, or Infinity if either palette is empty
+ */
+export function paletteDistance(palette1: LabColor[], palette2: LabColor[]): number {
+  if (palette1.length === 0 || palette2.length === 0) {
+    return Infinity;
+  }
+
+  const meanNearest = (from: LabColor[], to: LabColor[]): number => {
+    let total = 0;
+    for (const color of from) {
+      let nearest = Infinity;
+      for (const candidate of to) {
+        nearest = Math.min(nearest, ciede2000(color, candidate));
+      }
+      total += nearest;
+    }
+    return total / from.length;
+  };
+
+  return (meanNearest(palette1, palette2) + meanNearest(palette2, palette1)) / 2;
+}
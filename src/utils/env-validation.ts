@@ -20,7 +20,7 @@ export interface EnvValidationResult {
  * - API_VERSION: API version string
  * - CORS_ORIGIN: Allowed CORS origin
  * - BOT_API_SECRET: Secret for bot authentication
- * - MODERATOR_IDS: Comma-separated Discord user IDs for moderators
+ * - MODERATOR_IDS: Comma-separated Discord user IDs for bootstrap moderators (see staff_roles)
  * - DB: D1 database binding
  */
 export function validateEnv(env: Env): EnvValidationResult {
@@ -79,6 +79,30 @@ export function validateEnv(env: Env): EnvValidationResult {
     }
   }
 
+  // Validate NEAR_DUPLICATE_THRESHOLD if present (non-negative palette distance)
+  if (env.NEAR_DUPLICATE_THRESHOLD !== undefined) {
+    const threshold = Number(env.NEAR_DUPLICATE_THRESHOLD);
+    if (env.NEAR_DUPLICATE_THRESHOLD.trim() === '' || !Number.isFinite(threshold) || threshold < 0) {
+      errors.push(`Invalid NEAR_DUPLICATE_THRESHOLD: ${env.NEAR_DUPLICATE_THRESHOLD}`);
+    }
+  }
+
+  // Validate REPORT_FLAG_THRESHOLD if present (non-negative report count)
+  if (env.REPORT_FLAG_THRESHOLD !== undefined) {
+    const threshold = Number(env.REPORT_FLAG_THRESHOLD);
+    if (env.REPORT_FLAG_THRESHOLD.trim() === '' || !Number.isInteger(threshold) || threshold < 0) {
+      errors.push(`Invalid REPORT_FLAG_THRESHOLD: ${env.REPORT_FLAG_THRESHOLD}`);
+    }
+  }
+
+  // Validate MODERATION_SLA_HOURS if present (non-negative hours)
+  if (env.MODERATION_SLA_HOURS !== undefined) {
+    const hours = Number(env.MODERATION_SLA_HOURS);
+    if (env.MODERATION_SLA_HOURS.trim() === '' || !Number.isFinite(hours) || hours < 0) {
+      errors.push(`Invalid MODERATION_SLA_HOURS: ${env.MODERATION_SLA_HOURS}`);
+    }
+  }
+
   // Check D1 database binding
   if (!env.DB) {
     errors.push('Missing required D1 database binding: DB');
@@ -0,0 +1,114 @@
+/**
+ * Text Normalization
+ *
+ * Folds the usual tricks for slipping words past a word list back to plain
+ * lowercase text before matching:
+ *
+ * - NFKC: full-width Latin (ｓｈｉｔ), half-width katakana, ligatures and
+ *   styled math letters become their plain forms
+ * - Invisible characters (zero-width spaces/joiners, soft hyphens, BOMs,
+ *   Hangul fillers) are removed
+ * - Cyrillic and Greek lookalikes (Cyrillic а, е, о, р, с...) become Latin
+ * - Leetspeak digits and symbols (0, 1, 3, 4, 5, 7, @, $) become letters
+ * - Accents on Latin letters are dropped
+ *
+ * Separators (spaces, punctuation, emoji) are left in place; callers decide
+ * how much spacing to tolerate between letters. Normalize both the word list
+ * and the text being checked so they compare like for like.
+ */
+
+/**
+ * Characters that render as nothing (Unicode Default_Ignorable_Code_Point)
+ */
+const INVISIBLE_PATTERN = /\p{Default_Ignorable_Code_Point}/gu;
+
+/**
+ * Combining marks on a Latin letter, e.g. the diaeresis in ü after NFD
+ */
+const LATIN_MARKS_PATTERN = /(\p{Script=Latin})\p{M}+/gu;
+
+/**
+ * Anything that is not a letter, digit or combining mark
+ */
+const SEPARATOR_PATTERN = /[^\p{L}\p{N}\p{M}]/gu;
+
+/**
+ * Lowercase Cyrillic and Greek letters that look like Latin letters
+ */
+const CONFUSABLES: Readonly<Record<string, string>> = {
+  // Cyrillic
+  'а': 'a',
+  'в': 'b',
+  'ԁ': 'd',
+  'е': 'e',
+  'һ': 'h',
+  'н': 'h',
+  'і': 'i',
+  'ј': 'j',
+  'к': 'k',
+  'ӏ': 'l',
+  'м': 'm',
+  'о': 'o',
+  'р': 'p',
+  'ԛ': 'q',
+  'ѕ': 's',
+  'т': 't',
+  'с': 'c',
+  'ԝ': 'w',
+  'х': 'x',
+  'у': 'y',
+  'ү': 'y',
+  // Greek
+  'α': 'a',
+  'β': 'b',
+  'ε': 'e',
+  'ι': 'i',
+  'κ': 'k',
+  'η': 'n',
+  'ο': 'o',
+  'ρ': 'p',
+  'τ': 't',
+  'υ': 'u',
+  'ν': 'v',
+  'ω': 'w',
+  'χ': 'x',
+  // Latin letters NFKC leaves alone
+  'ı': 'i',
+  'ȷ': 'j',
+  'ɑ': 'a',
+  'ɡ': 'g',
+};
+
+/**
+ * Digits and symbols used as letters
+ */
+const LEET: Readonly<Record<string, string>> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  '$': 's',
+};
+
+/**
+ * Normalize text for word-list matching
+ * The result is lowercase NFC with separators kept, see the module comment
+ */
+export function normalizeForMatching(text: string): string {
+  const folded = Array.from(
+    text.normalize('NFKC').replace(INVISIBLE_PATTERN, '').toLowerCase().normalize('NFD'),
+    (ch) => CONFUSABLES[ch] ?? LEET[ch] ?? ch
+  ).join('');
+
+  return folded.replace(LATIN_MARKS_PATTERN, '$1').normalize('NFC');
+}
+
+/**
+ * Remove separators (spaces, punctuation, symbols) from text
+ */
+export function stripSeparators(text: string): string {
+  return text.replace(SEPARATOR_PATTERN, '');
+}
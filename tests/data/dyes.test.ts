@@ -0,0 +1,60 @@
+/**
+ * Dye Catalog Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import coreDyeDatabase from 'xivdyetools-core/dist/data/colors_xiv.json';
+import { dyeCatalog, getDyeById, findUnknownDyeIds } from '../../src/data/dyes';
+
+// Dyes usable in presets; facewear entries have no item ID
+const coreDyes = coreDyeDatabase.filter((dye) => dye.itemID !== null);
+
+describe('DyeCatalog', () => {
+    it('should list every dye in the xivdyetools-core dye database', () => {
+        expect(dyeCatalog).toHaveLength(coreDyes.length);
+        expect(findUnknownDyeIds(coreDyes.map((dye) => dye.itemID as number))).toEqual([]);
+    });
+
+    it('should match the core database names and colors', () => {
+        for (const dye of coreDyes) {
+            expect(getDyeById(dye.itemID as number)).toMatchObject({ name: dye.name, hex: dye.hex.toUpperCase() });
+        }
+    });
+
+    it('should have unique dye IDs', () => {
+        const ids = dyeCatalog.map((dye) => dye.id);
+        expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('should use #RRGGBB hex colors', () => {
+        dyeCatalog.forEach((dye) => {
+            expect(dye.hex).toMatch(/^#[0-9A-F]{6}$/);
+        });
+    });
+
+    it('should record how each dye is obtained', () => {
+        dyeCatalog.forEach((dye) => {
+            expect(['Vendor', 'Crafted', 'Venture', 'Cosmic']).toContain(dye.acquisition);
+        });
+    });
+
+    describe('getDyeById', () => {
+        it('should return a dye by ID', () => {
+            expect(getDyeById(13115)).toMatchObject({ id: 13115, name: 'Jet Black' });
+        });
+
+        it('should return undefined for unknown IDs', () => {
+            expect(getDyeById(999999)).toBeUndefined();
+        });
+    });
+
+    describe('findUnknownDyeIds', () => {
+        it('should return an empty array when all dyes are known', () => {
+            expect(findUnknownDyeIds([5729, 13115, 48227])).toEqual([]);
+        });
+
+        it('should return unknown IDs de-duplicated in input order', () => {
+            expect(findUnknownDyeIds([999999, 5729, 1, 999999])).toEqual([999999, 1]);
+        });
+    });
+});
@@ -0,0 +1,225 @@
+/**
+ * Appeals Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { appealsRouter } from '../../src/handlers/appeals';
+import { authMiddleware } from '../../src/middleware/auth';
+import { _resetPatternsForTesting, _setTestPatterns } from '../../src/services/moderation-service';
+import type { Env, AuthContext, Appeal, BannedUserRow } from '../../src/types';
+import {
+    createMockEnv,
+    createMockD1Database,
+    createMockPresetRow,
+    resetCounters,
+} from '../test-utils';
+
+type Variables = {
+    auth: AuthContext;
+};
+
+const userHeaders = {
+    'Content-Type': 'application/json',
+    Authorization: 'Bearer test-bot-secret',
+    'X-User-Discord-ID': '123',
+};
+
+function createBanRow(overrides: Partial<BannedUserRow> = {}): BannedUserRow {
+    return {
+        id: 'ban-1',
+        discord_id: '123',
+        xivauth_id: null,
+        username: 'Author',
+        moderator_discord_id: '123456789',
+        reason: 'Repeated spam submissions',
+        banned_at: '2026-01-01T00:00:00.000Z',
+        unbanned_at: null,
+        unban_moderator_discord_id: null,
+        ...overrides,
+    };
+}
+
+describe('AppealsHandler', () => {
+    let app: Hono<{ Bindings: Env; Variables: Variables }>;
+    let env: Env;
+    let mockDb: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        resetCounters();
+        mockDb = createMockD1Database();
+        env = createMockEnv({ DB: mockDb as unknown as D1Database });
+
+        app = new Hono<{ Bindings: Env; Variables: Variables }>();
+        app.use('*', authMiddleware);
+        app.route('/api/v1/appeals', appealsRouter);
+
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        _resetPatternsForTesting();
+        vi.restoreAllMocks();
+    });
+
+    /**
+     * Mock D1 for the appeal target lookups and the insert
+     */
+    function setupAppealMock(options: { preset?: unknown; ban?: BannedUserRow | null; inserted?: number } = {}) {
+        mockDb._setupMock((query: string) => {
+            if (query.includes('SELECT * FROM presets WHERE id = ?')) return options.preset ?? null;
+            if (query.includes('SELECT * FROM banned_users WHERE id = ?')) return options.ban ?? null;
+            return { success: true, meta: { changes: options.inserted ?? 1 } };
+        });
+    }
+
+    function postAppeal(body: unknown) {
+        return app.request(
+            '/api/v1/appeals',
+            { method: 'POST', headers: userHeaders, body: JSON.stringify(body) },
+            env
+        );
+    }
+
+    // ============================================
+    // GET /api/v1/appeals
+    // ============================================
+
+    describe('GET /api/v1/appeals', () => {
+        it('should require authentication', async () => {
+            const res = await app.request('/api/v1/appeals', {}, env);
+
+            expect(res.status).toBe(401);
+        });
+
+        it('should return the user\'s appeals and active ban', async () => {
+            mockDb._setupMock((query: string) => {
+                if (query.includes('FROM appeals')) return [];
+                if (query.includes('FROM banned_users')) return createBanRow();
+                return null;
+            });
+
+            const res = await app.request('/api/v1/appeals', { headers: userHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { appeals: Appeal[]; active_ban: { id: string } | null };
+            expect(body.appeals).toEqual([]);
+            expect(body.active_ban).toEqual({
+                id: 'ban-1',
+                reason: 'Repeated spam submissions',
+                banned_at: '2026-01-01T00:00:00.000Z',
+            });
+        });
+    });
+
+    // ============================================
+    // POST /api/v1/appeals
+    // ============================================
+
+    describe('POST /api/v1/appeals', () => {
+        const message = 'The name is a lore reference, not an insult';
+
+        it('should require exactly one target', async () => {
+            setupAppealMock();
+
+            expect((await postAppeal({ message })).status).toBe(400);
+            expect((await postAppeal({ preset_id: 'preset-1', ban_id: 'ban-1', message })).status).toBe(400);
+        });
+
+        it('should validate message length', async () => {
+            setupAppealMock();
+
+            const res = await postAppeal({ preset_id: 'preset-1', message: 'pls' });
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should reject messages that fail moderation', async () => {
+            _setTestPatterns([/\bbadword\b/i]);
+            setupAppealMock();
+
+            const res = await postAppeal({ preset_id: 'preset-1', message: 'this is a badword appeal' });
+
+            expect(res.status).toBe(400);
+            const body = await res.json() as { details?: { field: string } };
+            expect(body.details?.field).toBe('message');
+        });
+
+        it('should return 404 for unknown presets', async () => {
+            setupAppealMock();
+
+            const res = await postAppeal({ preset_id: 'missing', message });
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should only allow authors to appeal their presets', async () => {
+            setupAppealMock({ preset: createMockPresetRow({ status: 'rejected', author_discord_id: '999' }) });
+
+            const res = await postAppeal({ preset_id: 'preset-1', message });
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should only allow rejected presets to be appealed', async () => {
+            setupAppealMock({ preset: createMockPresetRow({ status: 'approved', author_discord_id: '123' }) });
+
+            const res = await postAppeal({ preset_id: 'preset-1', message });
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should open an appeal against a rejected preset', async () => {
+            setupAppealMock({
+                preset: createMockPresetRow({ id: 'preset-1', status: 'rejected', author_discord_id: '123' }),
+            });
+
+            const res = await postAppeal({ preset_id: 'preset-1', message: `  ${message}  ` });
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { appeal: Appeal };
+            expect(body.appeal).toMatchObject({ target_type: 'preset', preset_id: 'preset-1', status: 'open', message });
+        });
+
+        it('should return 409 when an appeal is already open', async () => {
+            setupAppealMock({
+                preset: createMockPresetRow({ status: 'rejected', author_discord_id: '123' }),
+                inserted: 0,
+            });
+
+            const res = await postAppeal({ preset_id: 'preset-1', message });
+
+            expect(res.status).toBe(409);
+        });
+
+        it('should hide other users\' bans', async () => {
+            setupAppealMock({ ban: createBanRow({ discord_id: '999' }) });
+
+            const res = await postAppeal({ ban_id: 'ban-1', message });
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should not accept appeals against lifted bans', async () => {
+            setupAppealMock({ ban: createBanRow({ unbanned_at: '2026-01-02T00:00:00.000Z' }) });
+
+            const res = await postAppeal({ ban_id: 'ban-1', message });
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should let banned users appeal their ban', async () => {
+            mockDb._setupMock((query: string) => {
+                // Both the ban check and the ban lookup see an active ban
+                if (query.includes('banned_users')) return createBanRow();
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await postAppeal({ ban_id: 'ban-1', message: 'I misread the submission rules' });
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { appeal: Appeal };
+            expect(body.appeal).toMatchObject({ target_type: 'ban', ban_id: 'ban-1' });
+        });
+    });
+});
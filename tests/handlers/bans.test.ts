@@ -0,0 +1,235 @@
+/**
+ * Bans Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { bansRouter } from '../../src/handlers/bans';
+import { authMiddleware } from '../../src/middleware/auth';
+import type { Env, AuthContext, BannedUserRow } from '../../src/types';
+import { createMockEnv, createMockD1Database, resetCounters } from '../test-utils';
+
+type Variables = {
+    auth: AuthContext;
+};
+
+const moderatorHeaders = {
+    Authorization: 'Bearer test-bot-secret',
+    'X-User-Discord-ID': '123456789',
+};
+
+const TARGET_ID = '111111111111111111';
+
+function createBanRow(overrides: Partial<BannedUserRow> = {}): BannedUserRow {
+    return {
+        id: 'ban-1',
+        discord_id: TARGET_ID,
+        xivauth_id: null,
+        username: 'Spammer',
+        moderator_discord_id: '123456789',
+        reason: 'Repeated spam submissions',
+        banned_at: '2026-01-01T00:00:00.000Z',
+        unbanned_at: null,
+        unban_moderator_discord_id: null,
+        ...overrides,
+    };
+}
+
+describe('BansHandler', () => {
+    let app: Hono<{ Bindings: Env; Variables: Variables }>;
+    let env: Env;
+    let mockDb: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        resetCounters();
+        mockDb = createMockD1Database();
+        env = createMockEnv({ DB: mockDb as unknown as D1Database });
+
+        app = new Hono<{ Bindings: Env; Variables: Variables }>();
+        app.use('*', authMiddleware);
+        app.route('/api/v1/moderation/bans', bansRouter);
+
+        vi.clearAllMocks();
+    });
+
+    function postBan(body: unknown) {
+        return app.request(
+            '/api/v1/moderation/bans',
+            {
+                method: 'POST',
+                headers: { ...moderatorHeaders, 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            },
+            env
+        );
+    }
+
+    // ============================================
+    // Authorization
+    // ============================================
+
+    describe('Authorization', () => {
+        it('should require moderator privileges', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/bans',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123' } },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+    });
+
+    // ============================================
+    // POST /api/v1/moderation/bans
+    // ============================================
+
+    describe('POST /api/v1/moderation/bans', () => {
+        it('should ban the user and report hidden presets', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('unbanned_at IS NULL LIMIT 1')) {
+                    return null;
+                }
+                if (query.includes('SELECT * FROM banned_users WHERE id = ?')) {
+                    return createBanRow();
+                }
+                return { success: true, meta: { changes: 3 } };
+            });
+
+            const res = await postBan({ discord_id: TARGET_ID, reason: 'Repeated spam submissions' });
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { success: boolean; ban: { is_active: boolean }; affected_presets: number };
+            expect(body.success).toBe(true);
+            expect(body.ban.is_active).toBe(true);
+            expect(body.affected_presets).toBe(3);
+        });
+
+        it('should reject reasons outside 10-500 characters', async () => {
+            expect((await postBan({ discord_id: TARGET_ID, reason: 'too short' })).status).toBe(400);
+            expect((await postBan({ discord_id: TARGET_ID, reason: 'x'.repeat(501) })).status).toBe(400);
+        });
+
+        it('should reject invalid Discord IDs', async () => {
+            const res = await postBan({ discord_id: 'not-an-id', reason: 'Repeated spam submissions' });
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should not allow banning a moderator', async () => {
+            env = createMockEnv({
+                DB: mockDb as unknown as D1Database,
+                MODERATOR_IDS: `123456789,${TARGET_ID}`,
+            });
+
+            const res = await postBan({ discord_id: TARGET_ID, reason: 'Repeated spam submissions' });
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should not allow banning staff from staff_roles', async () => {
+            mockDb._setupMock((query) => (query.includes('FROM staff_roles') ? { role: 'curator' } : null));
+
+            const res = await postBan({ discord_id: TARGET_ID, reason: 'Repeated spam submissions' });
+
+            expect(res.status).toBe(403);
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO banned_users'))).toBe(false);
+        });
+
+        it('should return 409 if the user is already banned', async () => {
+            mockDb._setupMock(() => createBanRow());
+
+            const res = await postBan({ discord_id: TARGET_ID, reason: 'Repeated spam submissions' });
+
+            expect(res.status).toBe(409);
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO banned_users'))).toBe(false);
+        });
+
+        it('should return 409 when a concurrent ban wins the race', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('INSERT INTO banned_users')) {
+                    throw new Error('UNIQUE constraint failed: banned_users.discord_id');
+                }
+                return null;
+            });
+
+            const res = await postBan({ discord_id: TARGET_ID, reason: 'Repeated spam submissions' });
+
+            expect(res.status).toBe(409);
+        });
+    });
+
+    // ============================================
+    // GET /api/v1/moderation/bans
+    // ============================================
+
+    describe('GET /api/v1/moderation/bans', () => {
+        it('should list active bans', async () => {
+            mockDb._setupMock(() => [{ ...createBanRow(), _total: 1 }]);
+
+            const res = await app.request('/api/v1/moderation/bans', { headers: moderatorHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { bans: Array<{ id: string }>; total: number };
+            expect(body.bans[0].id).toBe('ban-1');
+            expect(body.total).toBe(1);
+        });
+    });
+
+    // ============================================
+    // GET /api/v1/moderation/bans/:discordId
+    // ============================================
+
+    describe('GET /api/v1/moderation/bans/:discordId', () => {
+        it('should return the user\'s ban history', async () => {
+            mockDb._setupMock(() => [
+                createBanRow({ id: 'ban-1', unbanned_at: '2026-02-01T00:00:00.000Z' }),
+            ]);
+
+            const res = await app.request(`/api/v1/moderation/bans/${TARGET_ID}`, { headers: moderatorHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { bans: unknown[]; is_banned: boolean };
+            expect(body.bans).toHaveLength(1);
+            expect(body.is_banned).toBe(false);
+        });
+    });
+
+    // ============================================
+    // DELETE /api/v1/moderation/bans/:discordId
+    // ============================================
+
+    describe('DELETE /api/v1/moderation/bans/:discordId', () => {
+        it('should lift the ban and report restored presets', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('SELECT * FROM banned_users')) {
+                    return createBanRow();
+                }
+                return { success: true, meta: { changes: 2 } };
+            });
+
+            const res = await app.request(
+                `/api/v1/moderation/bans/${TARGET_ID}`,
+                { method: 'DELETE', headers: moderatorHeaders },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { success: boolean; affected_presets: number };
+            expect(body.success).toBe(true);
+            expect(body.affected_presets).toBe(2);
+        });
+
+        it('should return 404 when the user is not banned', async () => {
+            mockDb._setupMock(() => null);
+
+            const res = await app.request(
+                `/api/v1/moderation/bans/${TARGET_ID}`,
+                { method: 'DELETE', headers: moderatorHeaders },
+                env
+            );
+
+            expect(res.status).toBe(404);
+        });
+    });
+});
@@ -0,0 +1,171 @@
+/**
+ * Bookmarks Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { Hono } from 'hono';
+import { bookmarksRouter } from '../../src/handlers/bookmarks';
+import { authMiddleware } from '../../src/middleware/auth';
+import type { Env, AuthContext, BookmarkedPreset } from '../../src/types';
+import {
+    createMockEnv,
+    createMockD1Database,
+    createMockPresetRow,
+    resetCounters,
+} from '../test-utils';
+
+type Variables = {
+    auth: AuthContext;
+};
+
+const userHeaders = {
+    Authorization: 'Bearer test-bot-secret',
+    'X-User-Discord-ID': '123',
+};
+
+describe('BookmarksHandler', () => {
+    let app: Hono<{ Bindings: Env; Variables: Variables }>;
+    let env: Env;
+    let mockDb: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        resetCounters();
+        mockDb = createMockD1Database();
+        env = createMockEnv({ DB: mockDb as unknown as D1Database });
+
+        app = new Hono<{ Bindings: Env; Variables: Variables }>();
+        app.use('*', authMiddleware);
+        app.route('/api/v1/bookmarks', bookmarksRouter);
+
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    // ============================================
+    // GET /api/v1/bookmarks
+    // ============================================
+
+    describe('GET /api/v1/bookmarks', () => {
+        it('should require authentication', async () => {
+            const res = await app.request('/api/v1/bookmarks', {}, env);
+
+            expect(res.status).toBe(401);
+        });
+
+        it('should list the user\'s bookmarks', async () => {
+            mockDb._setupMock(() => [
+                { ...createMockPresetRow({ id: 'p1' }), bookmarked_at: '2025-01-01T00:00:00.000Z', _total: 1 },
+            ]);
+
+            const res = await app.request('/api/v1/bookmarks?limit=100', { headers: userHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { presets: BookmarkedPreset[]; total: number; limit: number };
+            expect(body.presets[0].id).toBe('p1');
+            expect(body.total).toBe(1);
+            expect(body.limit).toBe(50);
+            expect(mockDb._bindings[0][0]).toBe('123');
+        });
+    });
+
+    // ============================================
+    // GET /api/v1/bookmarks/check
+    // ============================================
+
+    describe('GET /api/v1/bookmarks/check', () => {
+        it('should return is_bookmarked for each requested preset', async () => {
+            mockDb._setupMock(() => [{ preset_id: 'p1' }]);
+
+            const res = await app.request('/api/v1/bookmarks/check?ids=p1,p2', { headers: userHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { is_bookmarked: Record<string, boolean> };
+            expect(body.is_bookmarked).toEqual({ p1: true, p2: false });
+        });
+
+        it('should require at least one ID', async () => {
+            const res = await app.request('/api/v1/bookmarks/check?ids=', { headers: userHeaders }, env);
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should cap the number of IDs', async () => {
+            const ids = Array.from({ length: 51 }, (_, i) => `p${i}`).join(',');
+
+            const res = await app.request(`/api/v1/bookmarks/check?ids=${ids}`, { headers: userHeaders }, env);
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    // ============================================
+    // POST /api/v1/bookmarks/:presetId
+    // ============================================
+
+    describe('POST /api/v1/bookmarks/:presetId', () => {
+        it('should require authentication', async () => {
+            const res = await app.request('/api/v1/bookmarks/p1', { method: 'POST' }, env);
+
+            expect(res.status).toBe(401);
+        });
+
+        it('should bookmark an approved preset without voting', async () => {
+            mockDb._setupMock((query: string) =>
+                query.includes('SELECT id FROM presets') ? { id: 'p1' } : { success: true, meta: { changes: 1 } }
+            );
+
+            const res = await app.request('/api/v1/bookmarks/p1', { method: 'POST', headers: userHeaders }, env);
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { is_bookmarked: boolean };
+            expect(body.is_bookmarked).toBe(true);
+            expect(mockDb._queries.some((q) => q.includes('vote'))).toBe(false);
+        });
+
+        it('should return 409 if already bookmarked', async () => {
+            mockDb._setupMock((query: string) =>
+                query.includes('SELECT id FROM presets') ? { id: 'p1' } : { success: true, meta: { changes: 0 } }
+            );
+
+            const res = await app.request('/api/v1/bookmarks/p1', { method: 'POST', headers: userHeaders }, env);
+
+            expect(res.status).toBe(409);
+        });
+
+        it('should return 404 for missing or non-approved presets', async () => {
+            mockDb._setupMock(() => null);
+
+            const res = await app.request('/api/v1/bookmarks/p1', { method: 'POST', headers: userHeaders }, env);
+
+            expect(res.status).toBe(404);
+            expect(mockDb._queries[0]).toContain("status = 'approved'");
+        });
+    });
+
+    // ============================================
+    // DELETE /api/v1/bookmarks/:presetId
+    // ============================================
+
+    describe('DELETE /api/v1/bookmarks/:presetId', () => {
+        it('should remove a bookmark', async () => {
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const res = await app.request('/api/v1/bookmarks/p1', { method: 'DELETE', headers: userHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { is_bookmarked: boolean };
+            expect(body.is_bookmarked).toBe(false);
+        });
+
+        it('should return 404 if the preset was not bookmarked', async () => {
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            const res = await app.request('/api/v1/bookmarks/p1', { method: 'DELETE', headers: userHeaders }, env);
+
+            expect(res.status).toBe(404);
+        });
+    });
+});
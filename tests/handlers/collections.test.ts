@@ -0,0 +1,622 @@
+/**
+ * Collections Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { Hono } from 'hono';
+import { collectionsRouter } from '../../src/handlers/collections';
+import { authMiddleware } from '../../src/middleware/auth';
+import { _resetPatternsForTesting, _setTestPatterns } from '../../src/services/moderation-service';
+import type { Env, AuthContext, Collection, CollectionRow, CommunityPreset } from '../../src/types';
+import {
+    createMockEnv,
+    createMockD1Database,
+    createMockPresetRow,
+    resetCounters,
+} from '../test-utils';
+
+type Variables = {
+    auth: AuthContext;
+};
+
+function createMockCollectionRow(overrides: Partial<CollectionRow> = {}): CollectionRow {
+    return {
+        id: 'collection-1',
+        owner_discord_id: '123',
+        owner_name: 'Collector',
+        name: 'Favorites',
+        description: 'My favorite palettes',
+        is_public: 0,
+        held_for_review: 0,
+        created_at: '2025-01-01T00:00:00.000Z',
+        updated_at: '2025-01-02T00:00:00.000Z',
+        item_count: 0,
+        ...overrides,
+    };
+}
+
+function userHeaders(discordId = '123'): Record<string, string> {
+    return {
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer test-bot-secret',
+        'X-User-Discord-ID': discordId,
+        'X-User-Discord-Name': 'Collector',
+    };
+}
+
+/**
+ * A keyword moderation rule on collection text
+ */
+function createMockRuleRow(action: string) {
+    return {
+        id: 'rule-1',
+        name: 'RMT',
+        type: 'keyword',
+        pattern: 'gil',
+        threshold: null,
+        fields: '["name","description"]',
+        action,
+        priority: 0,
+        enabled: 1,
+        created_by_discord_id: '123456789',
+        created_at: '2026-01-01T00:00:00.000Z',
+        updated_at: '2026-01-01T00:00:00.000Z',
+    };
+}
+
+describe('CollectionsHandler', () => {
+    let app: Hono<{ Bindings: Env; Variables: Variables }>;
+    let env: Env;
+    let mockDb: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        resetCounters();
+        mockDb = createMockD1Database();
+        env = createMockEnv({ DB: mockDb as unknown as D1Database });
+
+        app = new Hono<{ Bindings: Env; Variables: Variables }>();
+        app.use('*', authMiddleware);
+        app.route('/api/v1/collections', collectionsRouter);
+
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        _resetPatternsForTesting();
+        vi.restoreAllMocks();
+    });
+
+    /**
+     * Mock D1 for a collection, its items and an optional preset lookup
+     */
+    function setupCollectionMock(options: {
+        collection?: CollectionRow | null;
+        itemIds?: string[];
+        preset?: unknown;
+        banned?: boolean;
+        rules?: unknown[];
+    } = {}) {
+        const collection = 'collection' in options ? options.collection : createMockCollectionRow();
+        mockDb._setupMock((query: string) => {
+            if (query.includes('banned_users')) return options.banned ? { 1: 1 } : null;
+            if (query.includes('FROM moderation_rules')) return options.rules ?? [];
+            if (query.includes('SELECT preset_id FROM collection_items')) {
+                return (options.itemIds ?? []).map((preset_id) => ({ preset_id }));
+            }
+            if (query.includes('FROM collections c WHERE c.id = ?')) return collection;
+            if (query.includes('SELECT * FROM presets WHERE id = ?')) return options.preset ?? null;
+            if (query.includes('SELECT p.*')) return [];
+            if (query.includes('COUNT(*) as count')) return { count: 0 };
+            return { success: true, meta: { changes: 1 } };
+        });
+    }
+
+    // ============================================
+    // GET /api/v1/collections
+    // ============================================
+
+    describe('GET /api/v1/collections', () => {
+        it('should list public collections', async () => {
+            mockDb._setupMock(() => [{ ...createMockCollectionRow({ is_public: 1 }), _total: 1 }]);
+
+            const res = await app.request('/api/v1/collections', {}, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { collections: Collection[]; total: number };
+            expect(body.collections).toHaveLength(1);
+            expect(body.total).toBe(1);
+            expect(mockDb._queries[0]).toContain('c.is_public = 1');
+        });
+
+        it('should filter by owner', async () => {
+            mockDb._setupMock(() => []);
+
+            await app.request('/api/v1/collections?owner=456', {}, env);
+
+            expect(mockDb._bindings[0]).toContain('456');
+        });
+    });
+
+    // ============================================
+    // GET /api/v1/collections/mine
+    // ============================================
+
+    describe('GET /api/v1/collections/mine', () => {
+        it('should require authentication', async () => {
+            const res = await app.request('/api/v1/collections/mine', {}, env);
+
+            expect(res.status).toBe(401);
+        });
+
+        it('should return the user\'s collections', async () => {
+            mockDb._setupMock(() => [createMockCollectionRow(), createMockCollectionRow({ id: 'collection-2' })]);
+
+            const res = await app.request('/api/v1/collections/mine', { headers: userHeaders() }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { collections: Collection[]; total: number };
+            expect(body.total).toBe(2);
+            expect(mockDb._bindings[0]).toEqual(['123']);
+        });
+    });
+
+    // ============================================
+    // POST /api/v1/collections
+    // ============================================
+
+    describe('POST /api/v1/collections', () => {
+        async function create(body: unknown) {
+            return app.request(
+                '/api/v1/collections',
+                { method: 'POST', headers: userHeaders(), body: JSON.stringify(body) },
+                env
+            );
+        }
+
+        it('should require authentication', async () => {
+            const res = await app.request('/api/v1/collections', { method: 'POST' }, env);
+
+            expect(res.status).toBe(401);
+        });
+
+        it('should create a collection', async () => {
+            setupCollectionMock();
+
+            const res = await create({ name: 'Glamours', description: 'Outfit palettes', is_public: true });
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { success: boolean; collection: Collection };
+            expect(body.success).toBe(true);
+            expect(body.collection.name).toBe('Glamours');
+            expect(body.collection.is_public).toBe(true);
+            expect(body.collection.owner_discord_id).toBe('123');
+        });
+
+        it('should reject banned users', async () => {
+            setupCollectionMock({ banned: true });
+
+            const res = await create({ name: 'Glamours' });
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should require a name', async () => {
+            setupCollectionMock();
+
+            const res = await create({ description: 'No name' });
+
+            expect(res.status).toBe(400);
+            const body = await res.json() as { message: string };
+            expect(body.message).toBe('Name is required');
+        });
+
+        it('should validate field lengths and types', async () => {
+            setupCollectionMock();
+
+            expect((await create({ name: 'A' })).status).toBe(400);
+            expect((await create({ name: 'Valid', description: 'x'.repeat(201) })).status).toBe(400);
+            expect((await create({ name: 'Valid', is_public: 'yes' })).status).toBe(400);
+        });
+
+        it('should reject invalid JSON', async () => {
+            setupCollectionMock();
+
+            const res = await app.request(
+                '/api/v1/collections',
+                { method: 'POST', headers: userHeaders(), body: 'not json' },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should hold names flagged by the word list', async () => {
+            setupCollectionMock();
+            _setTestPatterns([/\bbadword\b/i]);
+
+            const res = await create({ name: 'badword palettes', is_public: true });
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { collection: Collection };
+            expect(body.collection.held_for_review).toBe(true);
+        });
+
+        it('should save but hold collections a pending rule matches', async () => {
+            setupCollectionMock({ rules: [createMockRuleRow('pending')] });
+
+            const res = await create({ name: 'Cheap gil here', is_public: true });
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { collection: Collection };
+            expect(body.collection.held_for_review).toBe(true);
+            const insert = mockDb._queries.findIndex((q) => q.includes('INSERT INTO collections'));
+            expect(mockDb._bindings[insert][6]).toBe(1);
+        });
+
+        it('should reject collections a reject rule matches', async () => {
+            setupCollectionMock({ rules: [createMockRuleRow('reject')] });
+
+            const res = await create({ name: 'Cheap gil here' });
+
+            expect(res.status).toBe(400);
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO collections'))).toBe(false);
+        });
+
+        it('should enforce the per-user collection limit', async () => {
+            mockDb._setupMock((query: string) => (query.includes('COUNT(*) as count') ? { count: 50 } : null));
+
+            const res = await create({ name: 'One too many' });
+
+            expect(res.status).toBe(400);
+            const body = await res.json() as { message: string };
+            expect(body.message).toContain('at most 50 collections');
+        });
+    });
+
+    // ============================================
+    // GET /api/v1/collections/:id
+    // ============================================
+
+    describe('GET /api/v1/collections/:id', () => {
+        it('should return a public collection with its presets', async () => {
+            mockDb._setupMock((query: string) => {
+                if (query.includes('SELECT p.*')) {
+                    return [createMockPresetRow({ id: 'p1' }), createMockPresetRow({ id: 'p2' })];
+                }
+                return createMockCollectionRow({ is_public: 1, item_count: 2 });
+            });
+
+            const res = await app.request('/api/v1/collections/collection-1', {}, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as Collection & { presets: CommunityPreset[] };
+            expect(body.name).toBe('Favorites');
+            expect(body.presets.map((preset) => preset.id)).toEqual(['p1', 'p2']);
+        });
+
+        it('should hide private collections from other users', async () => {
+            setupCollectionMock();
+
+            const anonymous = await app.request('/api/v1/collections/collection-1', {}, env);
+            const otherUser = await app.request(
+                '/api/v1/collections/collection-1',
+                { headers: userHeaders('456') },
+                env
+            );
+
+            expect(anonymous.status).toBe(404);
+            expect(otherUser.status).toBe(404);
+        });
+
+        it('should show private collections to the owner', async () => {
+            setupCollectionMock();
+
+            const res = await app.request('/api/v1/collections/collection-1', { headers: userHeaders() }, env);
+
+            expect(res.status).toBe(200);
+        });
+
+        it('should hide held public collections from everyone but the owner', async () => {
+            setupCollectionMock({ collection: createMockCollectionRow({ is_public: 1, held_for_review: 1 }) });
+
+            const otherUser = await app.request(
+                '/api/v1/collections/collection-1',
+                { headers: userHeaders('456') },
+                env
+            );
+            const owner = await app.request('/api/v1/collections/collection-1', { headers: userHeaders() }, env);
+
+            expect(otherUser.status).toBe(404);
+            expect(owner.status).toBe(200);
+        });
+
+        it('should return 404 if not found', async () => {
+            setupCollectionMock({ collection: null });
+
+            const res = await app.request('/api/v1/collections/missing', {}, env);
+
+            expect(res.status).toBe(404);
+        });
+    });
+
+    // ============================================
+    // PATCH /api/v1/collections/:id
+    // ============================================
+
+    describe('PATCH /api/v1/collections/:id', () => {
+        async function edit(body: unknown, discordId = '123') {
+            return app.request(
+                '/api/v1/collections/collection-1',
+                { method: 'PATCH', headers: userHeaders(discordId), body: JSON.stringify(body) },
+                env
+            );
+        }
+
+        it('should update the collection', async () => {
+            setupCollectionMock();
+
+            const res = await edit({ is_public: true });
+
+            expect(res.status).toBe(200);
+            const update = mockDb._queries.findIndex((q) => q.includes('UPDATE collections SET'));
+            expect(mockDb._queries[update]).toContain('is_public = ?');
+        });
+
+        it('should reject non-owners', async () => {
+            setupCollectionMock({ collection: createMockCollectionRow({ is_public: 1 }) });
+
+            const res = await edit({ name: 'Mine now' }, '456');
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should reject empty updates', async () => {
+            setupCollectionMock();
+
+            const res = await edit({});
+
+            expect(res.status).toBe(400);
+            const body = await res.json() as { message: string };
+            expect(body.message).toBe('No updates provided');
+        });
+
+        it('should re-moderate a changed description', async () => {
+            setupCollectionMock();
+            _setTestPatterns([/\bbadword\b/i]);
+
+            const res = await edit({ description: 'full of badword' });
+
+            expect(res.status).toBe(200);
+            const update = mockDb._queries.findIndex((q) => q.includes('UPDATE collections'));
+            expect(mockDb._bindings[update]).toEqual([expect.any(String), 'full of badword', 1, 'collection-1']);
+        });
+
+        it('should reject a changed name a reject rule matches', async () => {
+            setupCollectionMock({ rules: [createMockRuleRow('reject')] });
+
+            const res = await edit({ name: 'Cheap gil' });
+
+            expect(res.status).toBe(400);
+            const body = await res.json() as { details: { field: string } };
+            expect(body.details.field).toBe('name');
+        });
+
+        it('should lift the hold when edited text passes moderation', async () => {
+            setupCollectionMock({ collection: createMockCollectionRow({ held_for_review: 1 }) });
+
+            const res = await edit({ name: 'Renamed' });
+
+            expect(res.status).toBe(200);
+            const update = mockDb._queries.findIndex((q) => q.includes('UPDATE collections'));
+            expect(mockDb._queries[update]).toContain('held_for_review = ?');
+            expect(mockDb._bindings[update]).toEqual([expect.any(String), 'Renamed', 0, 'collection-1']);
+        });
+
+        it('should keep the hold when only the visibility changes', async () => {
+            setupCollectionMock({ collection: createMockCollectionRow({ held_for_review: 1 }) });
+
+            await edit({ is_public: true });
+
+            const update = mockDb._queries.findIndex((q) => q.includes('UPDATE collections'));
+            expect(mockDb._queries[update]).not.toContain('held_for_review');
+        });
+
+        it('should reject banned users', async () => {
+            setupCollectionMock({ banned: true });
+
+            const res = await edit({ name: 'Renamed' });
+
+            expect(res.status).toBe(403);
+        });
+    });
+
+    // ============================================
+    // DELETE /api/v1/collections/:id
+    // ============================================
+
+    describe('DELETE /api/v1/collections/:id', () => {
+        it('should allow the owner to delete', async () => {
+            setupCollectionMock();
+
+            const res = await app.request(
+                '/api/v1/collections/collection-1',
+                { method: 'DELETE', headers: userHeaders() },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM collections WHERE id = ?'))).toBe(true);
+        });
+
+        it('should allow moderators to delete any collection', async () => {
+            setupCollectionMock();
+
+            const res = await app.request(
+                '/api/v1/collections/collection-1',
+                { method: 'DELETE', headers: userHeaders('123456789') },
+                env
+            );
+
+            expect(res.status).toBe(200);
+        });
+
+        it('should reject other users', async () => {
+            setupCollectionMock({ collection: createMockCollectionRow({ is_public: 1 }) });
+
+            const res = await app.request(
+                '/api/v1/collections/collection-1',
+                { method: 'DELETE', headers: userHeaders('456') },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+    });
+
+    // ============================================
+    // POST /api/v1/collections/:id/items
+    // ============================================
+
+    describe('POST /api/v1/collections/:id/items', () => {
+        async function addItem(body: unknown) {
+            return app.request(
+                '/api/v1/collections/collection-1/items',
+                { method: 'POST', headers: userHeaders(), body: JSON.stringify(body) },
+                env
+            );
+        }
+
+        it('should add an approved preset', async () => {
+            setupCollectionMock({ preset: createMockPresetRow({ id: 'p1', status: 'approved' }) });
+
+            const res = await addItem({ preset_id: 'p1' });
+
+            expect(res.status).toBe(201);
+            expect(mockDb._queries.some((q) => q.includes('INSERT OR IGNORE INTO collection_items'))).toBe(true);
+        });
+
+        it('should return 404 for presets that are not approved', async () => {
+            setupCollectionMock({ preset: createMockPresetRow({ id: 'p1', status: 'hidden' }) });
+
+            const res = await addItem({ preset_id: 'p1' });
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should return 409 if the preset is already in the collection', async () => {
+            setupCollectionMock({
+                preset: createMockPresetRow({ id: 'p1', status: 'approved' }),
+                itemIds: ['p1'],
+            });
+
+            const res = await addItem({ preset_id: 'p1' });
+
+            expect(res.status).toBe(409);
+        });
+
+        it('should enforce the item limit', async () => {
+            setupCollectionMock({
+                preset: createMockPresetRow({ id: 'p-new', status: 'approved' }),
+                itemIds: Array.from({ length: 100 }, (_, i) => `p${i}`),
+            });
+
+            const res = await addItem({ preset_id: 'p-new' });
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should require preset_id', async () => {
+            setupCollectionMock();
+
+            const res = await addItem({});
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should reject banned users', async () => {
+            setupCollectionMock({ banned: true });
+
+            const res = await addItem({ preset_id: 'p1' });
+
+            expect(res.status).toBe(403);
+        });
+    });
+
+    // ============================================
+    // PUT /api/v1/collections/:id/items/order
+    // ============================================
+
+    describe('PUT /api/v1/collections/:id/items/order', () => {
+        async function reorder(body: unknown) {
+            return app.request(
+                '/api/v1/collections/collection-1/items/order',
+                { method: 'PUT', headers: userHeaders(), body: JSON.stringify(body) },
+                env
+            );
+        }
+
+        it('should move listed presets to the front and keep unlisted ones after', async () => {
+            setupCollectionMock({ itemIds: ['p1', 'p2', 'hidden-1', 'p3'] });
+
+            const res = await reorder({ preset_ids: ['p3', 'p1', 'p2'] });
+
+            expect(res.status).toBe(200);
+            const positions = mockDb._queries
+                .map((q, i) => (q.includes('SET position = ?') ? mockDb._bindings[i] : null))
+                .filter((b) => b !== null)
+                .map((b) => b![2]);
+            expect(positions).toEqual(['p3', 'p1', 'p2', 'hidden-1']);
+        });
+
+        it('should reject presets that are not in the collection', async () => {
+            setupCollectionMock({ itemIds: ['p1'] });
+
+            const res = await reorder({ preset_ids: ['p1', 'other'] });
+
+            expect(res.status).toBe(400);
+            const body = await res.json() as { details: { invalid_values: string[] } };
+            expect(body.details.invalid_values).toEqual(['other']);
+        });
+
+        it('should reject duplicates', async () => {
+            setupCollectionMock({ itemIds: ['p1'] });
+
+            const res = await reorder({ preset_ids: ['p1', 'p1'] });
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    // ============================================
+    // DELETE /api/v1/collections/:id/items/:presetId
+    // ============================================
+
+    describe('DELETE /api/v1/collections/:id/items/:presetId', () => {
+        it('should remove the preset', async () => {
+            setupCollectionMock();
+
+            const res = await app.request(
+                '/api/v1/collections/collection-1/items/p1',
+                { method: 'DELETE', headers: userHeaders() },
+                env
+            );
+
+            expect(res.status).toBe(200);
+        });
+
+        it('should return 404 if the preset is not in the collection', async () => {
+            mockDb._setupMock((query: string) => {
+                if (query.includes('FROM collections c WHERE c.id = ?')) return createMockCollectionRow();
+                return { success: true, meta: { changes: 0 } };
+            });
+
+            const res = await app.request(
+                '/api/v1/collections/collection-1/items/p1',
+                { method: 'DELETE', headers: userHeaders() },
+                env
+            );
+
+            expect(res.status).toBe(404);
+        });
+    });
+});
@@ -0,0 +1,249 @@
+/**
+ * Moderation Rules Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { moderationRulesRouter } from '../../src/handlers/moderation-rules';
+import { authMiddleware } from '../../src/middleware/auth';
+import type { Env, AuthContext, FiredModerationRule, ModerationRule, ModerationRuleRow } from '../../src/types';
+import { createMockEnv, createMockD1Database, resetCounters } from '../test-utils';
+
+type Variables = {
+    auth: AuthContext;
+};
+
+// The bootstrap owner (OWNER_DISCORD_ID below) has every admin permission
+const adminHeaders = {
+    'Content-Type': 'application/json',
+    Authorization: 'Bearer test-bot-secret',
+    'X-User-Discord-ID': '123456789',
+};
+
+const moderatorHeaders = {
+    ...adminHeaders,
+    'X-User-Discord-ID': '222',
+};
+
+function createRuleRow(overrides: Partial<ModerationRuleRow> = {}): ModerationRuleRow {
+    return {
+        id: 'rule-1',
+        name: 'RMT',
+        type: 'keyword',
+        pattern: 'rmt',
+        threshold: null,
+        fields: '["name","description","tags"]',
+        action: 'reject',
+        priority: 0,
+        enabled: 1,
+        created_by_discord_id: '123456789',
+        created_at: '2026-01-01T00:00:00.000Z',
+        updated_at: '2026-01-01T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+describe('ModerationRulesHandler', () => {
+    let app: Hono<{ Bindings: Env; Variables: Variables }>;
+    let env: Env;
+    let mockDb: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        resetCounters();
+        mockDb = createMockD1Database();
+        env = createMockEnv({ DB: mockDb as unknown as D1Database, OWNER_DISCORD_ID: '123456789' });
+
+        app = new Hono<{ Bindings: Env; Variables: Variables }>();
+        app.use('*', authMiddleware);
+        app.route('/api/v1/moderation/rules', moderationRulesRouter);
+
+        vi.clearAllMocks();
+    });
+
+    function send(method: string, path: string, body?: unknown, headers: Record<string, string> = adminHeaders) {
+        return app.request(
+            `/api/v1/moderation/rules${path}`,
+            { method, headers, ...(body !== undefined && { body: JSON.stringify(body) }) },
+            env
+        );
+    }
+
+    // ============================================
+    // Authorization
+    // ============================================
+
+    describe('Authorization', () => {
+        beforeEach(() => {
+            mockDb._setupMock((query) => (query.includes('FROM staff_roles') ? { role: 'moderator' } : []));
+        });
+
+        it('should let moderators list rules and dry-run content', async () => {
+            expect((await send('GET', '', undefined, moderatorHeaders)).status).toBe(200);
+            expect((await send('POST', '/dry-run', { name: 'Test' }, moderatorHeaders)).status).toBe(200);
+        });
+
+        it('should require admin privileges to change rules', async () => {
+            const res = await send('POST', '', { name: 'RMT', type: 'keyword', pattern: 'rmt', action: 'reject' }, moderatorHeaders);
+
+            expect(res.status).toBe(403);
+            expect((await send('DELETE', '/rule-1', undefined, moderatorHeaders)).status).toBe(403);
+        });
+    });
+
+    // ============================================
+    // GET /api/v1/moderation/rules
+    // ============================================
+
+    describe('GET /api/v1/moderation/rules', () => {
+        it('should list rules', async () => {
+            mockDb._setupMock(() => [createRuleRow()]);
+
+            const res = await send('GET', '');
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { rules: ModerationRule[]; total: number };
+            expect(body.total).toBe(1);
+            expect(body.rules[0]).toMatchObject({ name: 'RMT', enabled: true, fields: ['name', 'description', 'tags'] });
+        });
+    });
+
+    // ============================================
+    // POST /api/v1/moderation/rules
+    // ============================================
+
+    describe('POST /api/v1/moderation/rules', () => {
+        it('should create a rule and log it', async () => {
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const res = await send('POST', '', {
+                name: 'Links',
+                type: 'regex',
+                pattern: 'https?://',
+                fields: ['description'],
+                action: 'pending',
+                priority: 5,
+            });
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { rule: ModerationRule };
+            expect(body.rule).toMatchObject({ name: 'Links', type: 'regex', priority: 5, enabled: true });
+            expect(mockDb._queries.some((q) => q.includes("'rule_created'"))).toBe(true);
+        });
+
+        it('should point at the invalid field', async () => {
+            const res = await send('POST', '', { name: 'Bad', type: 'regex', pattern: '(a+)+', action: 'reject' });
+
+            expect(res.status).toBe(400);
+            const body = await res.json() as { details: { field: string } };
+            expect(body.details.field).toBe('pattern');
+            expect(mockDb._queries.some((q) => q.includes('INSERT'))).toBe(false);
+        });
+
+        it('should reject invalid JSON', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/rules',
+                { method: 'POST', headers: adminHeaders, body: 'not json' },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    // ============================================
+    // PATCH /api/v1/moderation/rules/:id
+    // ============================================
+
+    describe('PATCH /api/v1/moderation/rules/:id', () => {
+        it('should update part of a rule', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('SELECT * FROM moderation_rules') ? createRuleRow() : { success: true, meta: { changes: 1 } }
+            );
+
+            const res = await send('PATCH', '/rule-1', { enabled: false, priority: 20 });
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { rule: ModerationRule };
+            expect(body.rule).toMatchObject({ id: 'rule-1', name: 'RMT', enabled: false, priority: 20 });
+            expect(mockDb._queries.some((q) => q.includes("'rule_updated'"))).toBe(true);
+        });
+
+        it('should validate the rule as a whole', async () => {
+            mockDb._setupMock(() => createRuleRow());
+
+            // Switching to perspective needs an attribute and threshold
+            const res = await send('PATCH', '/rule-1', { type: 'perspective' });
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should return 404 for unknown rules', async () => {
+            mockDb._setupMock(() => null);
+
+            expect((await send('PATCH', '/missing', { enabled: false })).status).toBe(404);
+        });
+    });
+
+    // ============================================
+    // DELETE /api/v1/moderation/rules/:id
+    // ============================================
+
+    describe('DELETE /api/v1/moderation/rules/:id', () => {
+        it('should delete the rule', async () => {
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const res = await send('DELETE', '/rule-1');
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries.some((q) => q.includes("'rule_deleted'"))).toBe(true);
+        });
+
+        it('should return 404 for unknown rules', async () => {
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            expect((await send('DELETE', '/missing')).status).toBe(404);
+        });
+    });
+
+    // ============================================
+    // POST /api/v1/moderation/rules/dry-run
+    // ============================================
+
+    describe('POST /api/v1/moderation/rules/dry-run', () => {
+        it('should show which rules would fire', async () => {
+            mockDb._setupMock((query) => (query.includes('FROM moderation_rules') ? [createRuleRow()] : null));
+
+            const res = await send('POST', '/dry-run', { name: 'Palette', tags: ['rmt'] });
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as {
+                action: string;
+                flagged_field: string;
+                flagged_fields: string[];
+                fired_rules: FiredModerationRule[];
+            };
+            expect(body.action).toBe('reject');
+            expect(body.flagged_field).toBe('tags');
+            expect(body.flagged_fields).toEqual(['tags']);
+            expect(body.fired_rules).toEqual([expect.objectContaining({ rule_id: 'rule-1', name: 'RMT' })]);
+        });
+
+        it('should not write anything', async () => {
+            mockDb._setupMock(() => []);
+
+            await send('POST', '/dry-run', { description: 'Anything' });
+
+            expect(mockDb._queries.every((q) => !/INSERT|UPDATE|DELETE/.test(q))).toBe(true);
+        });
+
+        it('should require something to test', async () => {
+            expect((await send('POST', '/dry-run', {})).status).toBe(400);
+        });
+
+        it('should validate tags', async () => {
+            const res = await send('POST', '/dry-run', { tags: 'rmt' });
+
+            expect(res.status).toBe(400);
+        });
+    });
+});
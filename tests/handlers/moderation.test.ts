@@ -143,6 +143,32 @@ describe('ModerationHandler', () => {
             expect(body.presets).toEqual([]);
             expect(body.total).toBe(0);
         });
+
+        it('should include claims and queue metrics', async () => {
+            const updatedAt = new Date(Date.now() - 30 * 3600 * 1000).toISOString();
+            mockDb._setupMock(() => [
+                { ...createMockPresetRow({ id: 'p1', status: 'pending', updated_at: updatedAt }), claimed_by: '987654321' },
+                createMockPresetRow({ id: 'p2', status: 'pending', updated_at: new Date().toISOString() }),
+            ]);
+
+            const res = await app.request(
+                '/api/v1/moderation/pending',
+                {
+                    headers: {
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123456789',
+                    },
+                },
+                env
+            );
+
+            const body = await res.json() as {
+                presets: Array<{ id: string; claimed_by: string | null }>;
+                metrics: { pending: number; claimed: number; overdue: number; sla_hours: number };
+            };
+            expect(body.presets.map((p) => p.claimed_by)).toEqual(['987654321', null]);
+            expect(body.metrics).toMatchObject({ pending: 2, claimed: 1, overdue: 1, sla_hours: 24 });
+        });
     });
 
     // ============================================
@@ -152,7 +178,9 @@ describe('ModerationHandler', () => {
     describe('PATCH /api/v1/moderation/:presetId/status', () => {
         it('should approve preset', async () => {
             const mockRow = createMockPresetRow({ id: 'preset-123', status: 'pending' });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) =>
+                query.includes('SELECT * FROM presets') ? mockRow : { success: true, meta: { changes: 1 } }
+            );
 
             const res = await app.request(
                 '/api/v1/moderation/preset-123/status',
@@ -176,7 +204,9 @@ describe('ModerationHandler', () => {
 
         it('should reject preset with reason', async () => {
             const mockRow = createMockPresetRow({ id: 'preset-123', status: 'pending' });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) =>
+                query.includes('SELECT * FROM presets') ? mockRow : { success: true, meta: { changes: 1 } }
+            );
 
             const res = await app.request(
                 '/api/v1/moderation/preset-123/status',
@@ -201,7 +231,9 @@ describe('ModerationHandler', () => {
 
         it('should flag preset', async () => {
             const mockRow = createMockPresetRow({ id: 'preset-123', status: 'approved' });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) =>
+                query.includes('SELECT * FROM presets') ? mockRow : { success: true, meta: { changes: 1 } }
+            );
 
             const res = await app.request(
                 '/api/v1/moderation/preset-123/status',
@@ -316,6 +348,320 @@ describe('ModerationHandler', () => {
 
             expect(mockDb._queries.some((q) => q.includes('INSERT INTO moderation_log'))).toBe(true);
         });
+
+        it('should log and update in one batch guarded on the status it had', async () => {
+            const mockRow = createMockPresetRow({ id: 'preset-123', status: 'pending' });
+            mockDb._setupMock((query) =>
+                query.includes('SELECT * FROM presets') ? mockRow : { success: true, meta: { changes: 1 } }
+            );
+            const batchSpy = vi.spyOn(mockDb, 'batch');
+
+            await app.request(
+                '/api/v1/moderation/preset-123/status',
+                {
+                    method: 'PATCH',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123456789',
+                    },
+                    body: JSON.stringify({ status: 'flagged' }),
+                },
+                env
+            );
+
+            expect(batchSpy).toHaveBeenCalledTimes(1);
+            const update = mockDb._queries.findIndex((q) => q.includes('UPDATE presets'));
+            expect(mockDb._queries[update]).toContain('WHERE id = ? AND status = ?');
+            expect(mockDb._bindings[update]).toEqual(expect.arrayContaining(['preset-123', 'pending']));
+        });
+
+        it('should return 409 if the status changed concurrently', async () => {
+            const mockRow = createMockPresetRow({ id: 'preset-123', status: 'pending' });
+            mockDb._setupMock((query) =>
+                query.includes('SELECT * FROM presets') ? mockRow : { success: true, meta: { changes: 0 } }
+            );
+
+            const res = await app.request(
+                '/api/v1/moderation/preset-123/status',
+                {
+                    method: 'PATCH',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123456789',
+                    },
+                    body: JSON.stringify({ status: 'approved' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(409);
+        });
+    });
+
+    // ============================================
+    // POST /api/v1/moderation/bulk
+    // ============================================
+
+    describe('POST /api/v1/moderation/bulk', () => {
+        let executionCtx: ExecutionContext;
+
+        beforeEach(() => {
+            executionCtx = {
+                waitUntil: vi.fn(),
+                passThroughOnException: vi.fn(),
+            } as unknown as ExecutionContext;
+        });
+
+        function bulk(body: unknown, userId = '123456789') {
+            return app.request(
+                '/api/v1/moderation/bulk',
+                {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': userId,
+                    },
+                    body: JSON.stringify(body),
+                },
+                env,
+                executionCtx
+            );
+        }
+
+        type BulkBody = {
+            results: Array<{ preset_id: string; outcome: string; previous_status?: string }>;
+            summary: Record<string, number>;
+        };
+
+        it('should require moderator privileges', async () => {
+            const res = await bulk({ preset_ids: ['preset-1'], status: 'rejected' }, '999');
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should report per-preset outcomes in request order', async () => {
+            mockDb._setupMock((query, bindings) => {
+                if (query.includes('WHERE id IN')) {
+                    return [
+                        createMockPresetRow({ id: 'preset-1', status: 'pending' }),
+                        createMockPresetRow({ id: 'preset-2', status: 'rejected' }),
+                        createMockPresetRow({ id: 'preset-3', status: 'approved' }),
+                    ];
+                }
+                // preset-3 was moderated by someone else mid-batch
+                const changed = !(query.includes('UPDATE presets') && bindings[4] === 'preset-3');
+                return { success: true, meta: { changes: changed ? 1 : 0 } };
+            });
+
+            const res = await bulk({
+                preset_ids: ['preset-1', 'missing', 'preset-2', 'preset-3', 'preset-1'],
+                status: 'rejected',
+                reason: 'Spam wave',
+            });
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as BulkBody;
+            expect(body.results).toEqual([
+                { preset_id: 'preset-1', outcome: 'succeeded', previous_status: 'pending' },
+                { preset_id: 'missing', outcome: 'not_found' },
+                { preset_id: 'preset-2', outcome: 'already_in_status', previous_status: 'rejected' },
+                { preset_id: 'preset-3', outcome: 'conflict', previous_status: 'approved' },
+            ]);
+            expect(body.summary).toEqual({ succeeded: 1, not_found: 1, already_in_status: 1, conflict: 1 });
+        });
+
+        it('should apply every change in a single batch', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('WHERE id IN')
+                    ? [
+                        createMockPresetRow({ id: 'preset-1', status: 'pending' }),
+                        createMockPresetRow({ id: 'preset-2', status: 'flagged' }),
+                    ]
+                    : { success: true, meta: { changes: 1 } }
+            );
+            const batchSpy = vi.spyOn(mockDb, 'batch');
+
+            await bulk({ preset_ids: ['preset-1', 'preset-2'], status: 'approved' });
+
+            const [statements] = batchSpy.mock.calls[0];
+            expect(statements).toHaveLength(6);
+            const logBindings = mockDb._queries
+                .map((q, i) => (q.includes('INSERT INTO moderation_log') ? mockDb._bindings[i] : null))
+                .filter((b) => b !== null);
+            expect(logBindings[0]).toContain('approve');
+            expect(logBindings[1]).toContain('unflag');
+        });
+
+        it('should queue author notifications guarded on their change being applied', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('WHERE id IN')
+                    ? [
+                        createMockPresetRow({ id: 'preset-1', author_discord_id: 'author-1', status: 'pending' }),
+                        createMockPresetRow({ id: 'preset-2', author_discord_id: null, status: 'pending' }),
+                    ]
+                    : { success: true, meta: { changes: 1 } }
+            );
+            const batchSpy = vi.spyOn(mockDb, 'batch');
+
+            await bulk({ preset_ids: ['preset-1', 'preset-2'], status: 'rejected', reason: 'Spam wave' });
+
+            expect(batchSpy).toHaveBeenCalledTimes(1);
+            const [statements] = batchSpy.mock.calls[0];
+            expect(statements).toHaveLength(7);
+            const log = mockDb._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            const outbox = mockDb._queries.findIndex((q) => q.includes('INSERT INTO notification_outbox'));
+            expect(mockDb._queries[outbox]).toContain('WHERE EXISTS (SELECT 1 FROM moderation_log WHERE id = ?)');
+            expect(mockDb._bindings[outbox][6]).toBe(mockDb._bindings[log][0]);
+            expect(JSON.parse(mockDb._bindings[outbox][2] as string)).toMatchObject({
+                event: 'rejected',
+                reason: 'Spam wave',
+                preset: { id: 'preset-1' },
+            });
+        });
+
+        it('should not write anything when nothing needs changing', async () => {
+            mockDb._setupMock(() => [createMockPresetRow({ id: 'preset-1', status: 'rejected' })]);
+
+            const res = await bulk({ preset_ids: ['preset-1', 'missing'], status: 'rejected' });
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries.some((q) => q.includes('UPDATE presets'))).toBe(false);
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO moderation_log'))).toBe(false);
+        });
+
+        it('should validate the request', async () => {
+            expect((await bulk({ preset_ids: [], status: 'rejected' })).status).toBe(400);
+            expect((await bulk({ preset_ids: 'preset-1', status: 'rejected' })).status).toBe(400);
+            expect((await bulk({ preset_ids: [''], status: 'rejected' })).status).toBe(400);
+            expect((await bulk({ preset_ids: ['preset-1'], status: 'deleted' })).status).toBe(400);
+            expect((await bulk({ preset_ids: ['preset-1'], status: 'rejected', reason: 42 })).status).toBe(400);
+        });
+
+        it('should reject more than 50 presets', async () => {
+            const presetIds = Array.from({ length: 51 }, (_, i) => `preset-${i}`);
+
+            const res = await bulk({ preset_ids: presetIds, status: 'rejected' });
+
+            expect(res.status).toBe(400);
+            expect(mockDb._queries).toHaveLength(0);
+        });
+    });
+
+    // ============================================
+    // Queue claims
+    // ============================================
+
+    describe('Queue claims', () => {
+        const claimRow = {
+            preset_id: 'preset-123',
+            moderator_discord_id: '987654321',
+            claimed_at: '2026-01-01T00:00:00.000Z',
+            expires_at: '2099-01-01T00:00:00.000Z',
+        };
+
+        function claimRequest(method: 'POST' | 'DELETE', userId = '123456789') {
+            return app.request(
+                '/api/v1/moderation/preset-123/claim',
+                {
+                    method,
+                    headers: {
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': userId,
+                    },
+                },
+                env
+            );
+        }
+
+        it('should claim a pending preset', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('INSERT INTO preset_claims')
+                    ? { success: true, meta: { changes: 1 } }
+                    : createMockPresetRow({ id: 'preset-123', status: 'pending' })
+            );
+
+            const res = await claimRequest('POST');
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { claim: { moderator_discord_id: string; expires_at: string } };
+            expect(body.claim.moderator_discord_id).toBe('123456789');
+        });
+
+        it('should return 409 when another moderator holds the claim', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('INSERT INTO preset_claims')) return { success: true, meta: { changes: 0 } };
+                if (query.includes('FROM preset_claims')) return claimRow;
+                return createMockPresetRow({ id: 'preset-123', status: 'pending' });
+            });
+
+            const res = await claimRequest('POST');
+
+            expect(res.status).toBe(409);
+            const body = await res.json() as { message: string };
+            expect(body.message).toContain('987654321');
+        });
+
+        it('should not claim presets that are not pending', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('FROM preset_claims') ? null : createMockPresetRow({ id: 'preset-123', status: 'approved' })
+            );
+
+            const res = await claimRequest('POST');
+
+            expect(res.status).toBe(409);
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO preset_claims'))).toBe(false);
+        });
+
+        it('should return 404 for a missing preset', async () => {
+            mockDb._setupMock(() => null);
+
+            expect((await claimRequest('POST')).status).toBe(404);
+        });
+
+        it('should release your own claim', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('SELECT * FROM preset_claims') ? claimRow : { success: true, meta: { changes: 1 } }
+            );
+
+            const res = await claimRequest('DELETE', '987654321');
+
+            expect(res.status).toBe(200);
+        });
+
+        it('should not let a moderator release someone else\'s claim', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM staff_roles')) return { role: 'moderator' };
+                if (query.includes('SELECT * FROM preset_claims')) return claimRow;
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await claimRequest('DELETE', '111111111111111111');
+
+            expect(res.status).toBe(403);
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM preset_claims'))).toBe(false);
+        });
+
+        it('should let admins release any claim', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM staff_roles')) return { role: 'admin' };
+                return query.includes('SELECT * FROM preset_claims') ? claimRow : { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await claimRequest('DELETE', '555555555');
+
+            expect(res.status).toBe(200);
+            const deleted = mockDb._queries.findIndex((q) => q.includes('DELETE FROM preset_claims'));
+            expect(mockDb._bindings[deleted]).toEqual(['preset-123', '987654321']);
+        });
+
+        it('should return 404 when there is no active claim', async () => {
+            mockDb._setupMock(() => null);
+
+            expect((await claimRequest('DELETE')).status).toBe(404);
+        });
     });
 
     // ============================================
@@ -346,13 +692,13 @@ describe('ModerationHandler', () => {
                 name: 'Original Name',
                 description: 'Original Description',
                 tags: ['original'],
-                dyes: [1, 2, 3],
+                dyes: [5729, 5738, 5739],
             };
             const mockRow = createMockPresetRow({
                 id: 'preset-123',
                 previous_values: JSON.stringify(previousValues),
             });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) => (query.includes('dye_signature = ?') ? null : mockRow));
 
             const res = await app.request(
                 '/api/v1/moderation/preset-123/revert',
@@ -427,7 +773,7 @@ describe('ModerationHandler', () => {
         it('should return 500 if revert operation fails', async () => {
             const mockRow = createMockPresetRow({
                 id: 'preset-123',
-                previous_values: JSON.stringify({ name: 'Original' }),
+                previous_values: JSON.stringify({ name: 'Original', description: 'Original', tags: [], dyes: [5729] }),
             });
 
             let callCount = 0;
@@ -527,13 +873,13 @@ describe('ModerationHandler', () => {
                 name: 'Original',
                 description: 'Original desc',
                 tags: [],
-                dyes: [1, 2],
+                dyes: [5729, 5738],
             };
             const mockRow = createMockPresetRow({
                 id: 'preset-123',
                 previous_values: JSON.stringify(previousValues),
             });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) => (query.includes('dye_signature = ?') ? null : mockRow));
 
             await app.request(
                 '/api/v1/moderation/preset-123/revert',
@@ -551,6 +897,168 @@ describe('ModerationHandler', () => {
 
             expect(mockDb._bindings.some((b) => b.includes('revert'))).toBe(true);
         });
+
+        it('should restore a specific revision', async () => {
+            const mockRow = createMockPresetRow({ id: 'preset-123', previous_values: null });
+            const revisionRow = {
+                id: 'rev-2',
+                preset_id: 'preset-123',
+                revision_number: 2,
+                action: 'edit',
+                editor_discord_id: '123',
+                editor_name: 'Owner',
+                changed_fields: '["name"]',
+                snapshot: JSON.stringify({ name: 'Second', description: 'Second description', dyes: [5729, 5738], tags: [] }),
+                created_at: '2026-01-02T00:00:00.000Z',
+            };
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM preset_revisions')) return [revisionRow];
+                if (query.includes('dye_signature = ?')) return null;
+                return mockRow;
+            });
+
+            const res = await app.request(
+                '/api/v1/moderation/preset-123/revert',
+                {
+                    method: 'PATCH',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123456789',
+                    },
+                    body: JSON.stringify({ reason: 'Restoring the approved version', revision: 2 }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { message: string };
+            expect(body.message).toBe('Preset restored to revision 2');
+            expect(mockDb._bindings.some((b) => b.includes('Second'))).toBe(true);
+        });
+
+        describe('restored dyes', () => {
+            const revisionRow = {
+                id: 'rev-1',
+                preset_id: 'preset-123',
+                revision_number: 1,
+                action: 'create',
+                editor_discord_id: '123',
+                editor_name: 'Owner',
+                changed_fields: '["name","description","dyes","tags"]',
+                snapshot: JSON.stringify({ name: 'First', description: 'First description', dyes: [5729, 5738], tags: [] }),
+                created_at: '2026-01-01T00:00:00.000Z',
+            };
+
+            function restoreRevision() {
+                return app.request(
+                    '/api/v1/moderation/preset-123/revert',
+                    {
+                        method: 'PATCH',
+                        headers: {
+                            'Content-Type': 'application/json',
+                            Authorization: 'Bearer test-bot-secret',
+                            'X-User-Discord-ID': '123456789',
+                        },
+                        body: JSON.stringify({ reason: 'Restoring the approved version', revision: 1 }),
+                    },
+                    env
+                );
+            }
+
+            it('should return 409 if another preset now uses the dye combination', async () => {
+                const other = createMockPresetRow({ id: 'other', name: 'Taken' });
+                mockDb._setupMock((query) => {
+                    if (query.includes('FROM preset_revisions')) return [revisionRow];
+                    if (query.includes('dye_signature = ?')) return other;
+                    return createMockPresetRow({ id: 'preset-123' });
+                });
+
+                const res = await restoreRevision();
+
+                expect(res.status).toBe(409);
+                const body = await res.json() as { error: string; duplicate: { id: string } };
+                expect(body.error).toBe('DUPLICATE_RESOURCE');
+                expect(body.duplicate.id).toBe('other');
+                expect(mockDb._queries.some((q) => q.includes('UPDATE presets'))).toBe(false);
+            });
+
+            it('should return 409 when the dye combination is taken during the restore', async () => {
+                mockDb._setupMock((query) => {
+                    if (query.includes('FROM preset_revisions')) return [revisionRow];
+                    if (query.includes('dye_signature = ?')) return null;
+                    if (query.includes('UPDATE presets')) {
+                        throw new Error('UNIQUE constraint failed: presets.dye_signature');
+                    }
+                    return createMockPresetRow({ id: 'preset-123' });
+                });
+
+                const res = await restoreRevision();
+
+                expect(res.status).toBe(409);
+                expect(mockDb._bindings.some((b) => b.includes('revert'))).toBe(false);
+            });
+
+            it('should reject dyes missing from the catalog', async () => {
+                mockDb._setupMock((query) => {
+                    if (query.includes('FROM preset_revisions')) {
+                        const snapshot = { name: 'First', description: 'First', dyes: [5729, 1], tags: [] };
+                        return [{ ...revisionRow, snapshot: JSON.stringify(snapshot) }];
+                    }
+                    return createMockPresetRow({ id: 'preset-123' });
+                });
+
+                const res = await restoreRevision();
+
+                expect(res.status).toBe(400);
+                const body = await res.json() as { details: { field: string; invalid_values: number[] } };
+                expect(body.details).toEqual({ field: 'dyes', invalid_values: [1] });
+            });
+        });
+
+        it('should return 404 if the revision does not exist', async () => {
+            const mockRow = createMockPresetRow({ id: 'preset-123' });
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM preset_revisions')) return [];
+                return mockRow;
+            });
+
+            const res = await app.request(
+                '/api/v1/moderation/preset-123/revert',
+                {
+                    method: 'PATCH',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123456789',
+                    },
+                    body: JSON.stringify({ reason: 'Restoring the approved version', revision: 7 }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should reject a non-integer revision', async () => {
+            mockDb._setupMock(() => createMockPresetRow({ id: 'preset-123' }));
+
+            const res = await app.request(
+                '/api/v1/moderation/preset-123/revert',
+                {
+                    method: 'PATCH',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123456789',
+                    },
+                    body: JSON.stringify({ reason: 'Restoring the approved version', revision: 'latest' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
     });
 
     // ============================================
@@ -773,4 +1281,707 @@ describe('ModerationHandler', () => {
             expect(mockDb._bindings.some((b) => b.includes('flag'))).toBe(true);
         });
     });
+
+    // ============================================
+    // Maintenance jobs
+    // ============================================
+
+    describe('Maintenance jobs', () => {
+        const moderatorHeaders = {
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': '123456789',
+        };
+
+        beforeEach(() => {
+            // Jobs need admin; the bootstrap owner has it
+            env = createMockEnv({ DB: mockDb as unknown as D1Database, OWNER_DISCORD_ID: '123456789' });
+        });
+
+        it('should require moderator privileges', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/jobs',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123' } },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should list registered jobs', async () => {
+            const res = await app.request('/api/v1/moderation/jobs', { headers: moderatorHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { jobs: Array<{ name: string; schedule: string }> };
+            expect(body.jobs.map((job) => job.name)).toContain('reconcile-vote-counts');
+        });
+
+        it('should run a job on demand', async () => {
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 2 } }));
+
+            const res = await app.request(
+                '/api/v1/moderation/jobs/cleanup-rate-limits/run',
+                { method: 'POST', headers: moderatorHeaders },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { success: boolean; run: { job: string; affected: number } };
+            expect(body.success).toBe(true);
+            expect(body.run.job).toBe('cleanup-rate-limits');
+            expect(body.run.affected).toBe(2);
+        });
+
+        it('should return 500 with the run when a job fails', async () => {
+            mockDb._setupMock(() => {
+                throw new Error('D1 unavailable');
+            });
+
+            const res = await app.request(
+                '/api/v1/moderation/jobs/cleanup-rate-limits/run',
+                { method: 'POST', headers: moderatorHeaders },
+                env
+            );
+
+            expect(res.status).toBe(500);
+            const body = await res.json() as { run: { success: boolean; error: string } };
+            expect(body.run.success).toBe(false);
+            expect(body.run.error).toBe('D1 unavailable');
+        });
+
+        it('should return 404 for unknown jobs', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/jobs/nope/run',
+                { method: 'POST', headers: moderatorHeaders },
+                env
+            );
+
+            expect(res.status).toBe(404);
+        });
+    });
+
+    // ============================================
+    // Vote integrity
+    // ============================================
+
+    describe('GET /api/v1/moderation/votes/integrity', () => {
+        const moderatorHeaders = {
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': '123456789',
+        };
+
+        it('should require staff privileges', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/votes/integrity',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123' } },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should return the integrity report without fixing anything', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('COALESCE(v.actual_count, 0)')) {
+                    return [{ preset_id: 'p1', name: 'Drifted', stored_count: 5, actual_count: 3, _total: 1 }];
+                }
+                if (query.includes('NOT IN (SELECT id FROM presets)')) {
+                    return { count: 0 };
+                }
+                return null;
+            });
+
+            const res = await app.request('/api/v1/moderation/votes/integrity', { headers: moderatorHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as {
+                report: { mismatch_count: number; mismatches: Array<{ preset_id: string; difference: number }> };
+            };
+            expect(body.report.mismatch_count).toBe(1);
+            expect(body.report.mismatches[0]).toMatchObject({ preset_id: 'p1', difference: 2 });
+            expect(mockDb._queries.some((q) => q.includes('UPDATE presets'))).toBe(false);
+        });
+
+        it('should let curators read the report', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('SELECT role FROM staff_roles')) return { role: 'curator' };
+                if (query.includes('NOT IN (SELECT id FROM presets)')) return { count: 0 };
+                return [];
+            });
+
+            const res = await app.request(
+                '/api/v1/moderation/votes/integrity',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '222' } },
+                env
+            );
+
+            expect(res.status).toBe(200);
+        });
+
+        it('should reject an out-of-range limit', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/votes/integrity?limit=0',
+                { headers: moderatorHeaders },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    // ============================================
+    // Report queue
+    // ============================================
+
+    describe('Report queue', () => {
+        const moderatorHeaders = {
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': '123456789',
+        };
+
+        it('should require moderator privileges', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/reports',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123' } },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should list reported presets', async () => {
+            mockDb._setupMock(() => [
+                {
+                    ...createMockPresetRow({ id: 'preset-1' }),
+                    open_reports: 2,
+                    first_reported_at: '2026-01-01T00:00:00.000Z',
+                    last_reported_at: '2026-01-02T00:00:00.000Z',
+                    reason_offensive_name: 0,
+                    reason_spam: 2,
+                    reason_stolen: 0,
+                    reason_other: 0,
+                    _total: 1,
+                },
+            ]);
+
+            const res = await app.request('/api/v1/moderation/reports', { headers: moderatorHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { items: Array<{ open_reports: number }>; total: number };
+            expect(body.total).toBe(1);
+            expect(body.items[0].open_reports).toBe(2);
+        });
+
+        it('should list the reports on a preset', async () => {
+            mockDb._setupMock(() => []);
+
+            const res = await app.request('/api/v1/moderation/reports/preset-1', { headers: moderatorHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { reports: unknown[] };
+            expect(body.reports).toEqual([]);
+        });
+
+        it('should close open reports', async () => {
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 3 } }));
+
+            const res = await app.request(
+                '/api/v1/moderation/reports/preset-1',
+                {
+                    method: 'PATCH',
+                    headers: { ...moderatorHeaders, 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ status: 'dismissed' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { closed: number };
+            expect(body.closed).toBe(3);
+        });
+
+        it('should reject other statuses', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/reports/preset-1',
+                {
+                    method: 'PATCH',
+                    headers: { ...moderatorHeaders, 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ status: 'open' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should return 404 when there are no open reports', async () => {
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            const res = await app.request(
+                '/api/v1/moderation/reports/preset-1',
+                {
+                    method: 'PATCH',
+                    headers: { ...moderatorHeaders, 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ status: 'resolved' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(404);
+        });
+    });
+
+    // ============================================
+    // Author notifications
+    // ============================================
+
+    describe('Author notifications', () => {
+        let executionCtx: ExecutionContext;
+
+        beforeEach(() => {
+            env = createMockEnv({
+                DB: mockDb as unknown as D1Database,
+                DISCORD_WORKER: { fetch: vi.fn() } as unknown as Fetcher,
+                INTERNAL_WEBHOOK_SECRET: 'internal-secret',
+            });
+            executionCtx = {
+                waitUntil: vi.fn(),
+                passThroughOnException: vi.fn(),
+            } as unknown as ExecutionContext;
+        });
+
+        function moderate(path: string, body: unknown) {
+            return app.request(
+                `/api/v1/moderation/preset-123/${path}`,
+                {
+                    method: 'PATCH',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123456789',
+                    },
+                    body: JSON.stringify(body),
+                },
+                env,
+                executionCtx
+            );
+        }
+
+        function queuedPayloads() {
+            return mockDb._queries
+                .map((query, i) => (query.includes('INSERT INTO notification_outbox') ? mockDb._bindings[i] : null))
+                .filter((bindings) => bindings !== null)
+                .map((bindings) => ({ path: bindings![1], payload: JSON.parse(bindings![2] as string) }));
+        }
+
+        it('should queue a rejection for the author with the reason', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('SELECT * FROM presets')
+                    ? createMockPresetRow({ id: 'preset-123', author_discord_id: 'author-1', status: 'pending' })
+                    : { success: true, meta: { changes: 1 } }
+            );
+
+            const res = await moderate('status', { status: 'rejected', reason: 'Name is offensive' });
+
+            expect(res.status).toBe(200);
+            const [queued] = queuedPayloads();
+            expect(queued.path).toBe('/webhooks/preset-moderation');
+            expect(queued.payload).toMatchObject({
+                type: 'moderation_decision',
+                event: 'rejected',
+                reason: 'Name is offensive',
+                preset: { id: 'preset-123', author_discord_id: 'author-1' },
+            });
+            expect(queued.payload).not.toHaveProperty('moderator_discord_id');
+            expect(executionCtx.waitUntil).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not notify when flagging', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('SELECT * FROM presets')
+                    ? createMockPresetRow({ id: 'preset-123', status: 'approved' })
+                    : { success: true, meta: { changes: 1 } }
+            );
+
+            await moderate('status', { status: 'flagged', reason: 'Needs a second look' });
+
+            expect(queuedPayloads()).toHaveLength(0);
+            expect(executionCtx.waitUntil).not.toHaveBeenCalled();
+        });
+
+        it('should queue a revert for the author', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('dye_signature = ?')
+                    ? null
+                    : createMockPresetRow({
+                          id: 'preset-123',
+                          author_discord_id: 'author-1',
+                          previous_values: JSON.stringify({
+                              name: 'Original',
+                              description: 'Original',
+                              tags: [],
+                              dyes: [5729, 5738],
+                          }),
+                      })
+            );
+
+            const res = await moderate('revert', { reason: 'Edit added an offensive name' });
+
+            expect(res.status).toBe(200);
+            const [queued] = queuedPayloads();
+            expect(queued.payload).toMatchObject({ event: 'reverted', reason: 'Edit added an offensive name' });
+        });
+
+        it('should queue but not attempt delivery when the worker is not configured', async () => {
+            env = createMockEnv({ DB: mockDb as unknown as D1Database });
+            mockDb._setupMock((query) =>
+                query.includes('SELECT * FROM presets')
+                    ? createMockPresetRow({ id: 'preset-123', author_discord_id: 'author-1', status: 'pending' })
+                    : { success: true, meta: { changes: 1 } }
+            );
+
+            const res = await moderate('status', { status: 'approved' });
+
+            expect(res.status).toBe(200);
+            expect(queuedPayloads()).toHaveLength(1);
+            expect(executionCtx.waitUntil).not.toHaveBeenCalled();
+        });
+
+        it('should not apply the decision when the notification cannot be queued', async () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            mockDb._setupMock((query) => {
+                if (query.includes('INSERT INTO notification_outbox')) throw new Error('D1 unavailable');
+                return query.includes('SELECT * FROM presets')
+                    ? createMockPresetRow({ id: 'preset-123', author_discord_id: 'author-1', status: 'pending' })
+                    : { success: true, meta: { changes: 1 } };
+            });
+            const batchSpy = vi.spyOn(mockDb, 'batch');
+
+            const res = await moderate('status', { status: 'approved' });
+
+            expect(res.status).toBe(500);
+            // The log entry, the update, the claim release and the outbox row were one batch
+            const [statements] = batchSpy.mock.calls[0];
+            expect(statements).toHaveLength(4);
+            expect(executionCtx.waitUntil).not.toHaveBeenCalled();
+        });
+    });
+
+    // ============================================
+    // Appeals
+    // ============================================
+
+    describe('Appeals', () => {
+        const moderatorHeaders = {
+            'Content-Type': 'application/json',
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': '123456789',
+        };
+
+        const appealRow = {
+            id: 'appeal-1',
+            appellant_discord_id: 'author-1',
+            preset_id: 'preset-123',
+            ban_id: null,
+            message: 'The name is a lore reference, not an insult',
+            status: 'open',
+            created_at: '2026-01-01T00:00:00.000Z',
+            resolved_at: null,
+            resolved_by_discord_id: null,
+            resolution_note: null,
+        };
+
+        const executionCtx = {
+            waitUntil: vi.fn(),
+            passThroughOnException: vi.fn(),
+        } as unknown as ExecutionContext;
+
+        function resolve(body: unknown, id = 'appeal-1') {
+            return app.request(
+                `/api/v1/moderation/appeals/${id}`,
+                { method: 'PATCH', headers: moderatorHeaders, body: JSON.stringify(body) },
+                env,
+                executionCtx
+            );
+        }
+
+        it('should list the open appeal queue', async () => {
+            mockDb._setupMock(() => [{ ...appealRow, _total: 1 }]);
+
+            const res = await app.request('/api/v1/moderation/appeals', { headers: moderatorHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { appeals: Array<{ id: string; target_type: string }>; total: number };
+            expect(body.total).toBe(1);
+            expect(body.appeals[0]).toMatchObject({ id: 'appeal-1', target_type: 'preset' });
+            expect(mockDb._bindings[0][0]).toBe('open');
+        });
+
+        it('should reject unknown statuses', async () => {
+            const res = await app.request('/api/v1/moderation/appeals?status=pending', { headers: moderatorHeaders }, env);
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should return an appeal with its preset', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('FROM appeals') ? appealRow : createMockPresetRow({ id: 'preset-123', status: 'rejected' })
+            );
+
+            const res = await app.request('/api/v1/moderation/appeals/appeal-1', { headers: moderatorHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { appeal: { id: string }; preset: CommunityPreset; ban: null };
+            expect(body.appeal.id).toBe('appeal-1');
+            expect(body.preset.status).toBe('rejected');
+            expect(body.ban).toBeNull();
+        });
+
+        it('should require a valid decision', async () => {
+            expect((await resolve({ status: 'open' })).status).toBe(400);
+        });
+
+        it('should require a note to deny', async () => {
+            const res = await resolve({ status: 'denied', note: '  ' });
+
+            expect(res.status).toBe(400);
+            expect(mockDb._queries).toHaveLength(0);
+        });
+
+        it('should return 404 for appeals that are not open', async () => {
+            mockDb._setupMock(() => ({ ...appealRow, status: 'denied' }));
+
+            const res = await resolve({ status: 'granted' });
+
+            expect(res.status).toBe(404);
+            expect(mockDb._queries.some((q) => q.includes('UPDATE appeals'))).toBe(false);
+        });
+
+        it('should deny an appeal', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('SELECT * FROM appeals') ? appealRow : { success: true, meta: { changes: 1 } }
+            );
+
+            const res = await resolve({ status: 'denied', note: 'The name is still a slur' });
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { appeal: { status: string }; affected_presets: number };
+            expect(body.appeal.status).toBe('denied');
+            expect(body.affected_presets).toBe(0);
+            expect(mockDb._queries.some((q) => q.includes("SET status = 'approved'"))).toBe(false);
+        });
+
+        it('should approve the preset and notify the author when granted', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('SELECT * FROM appeals')) return appealRow;
+                if (query.includes('SELECT * FROM presets')) {
+                    return createMockPresetRow({ id: 'preset-123', author_discord_id: 'author-1', status: 'approved' });
+                }
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await resolve({ status: 'granted', note: 'Checked the lore' });
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { appeal: { status: string }; affected_presets: number };
+            expect(body.appeal.status).toBe('granted');
+            expect(body.affected_presets).toBe(1);
+            const queued = mockDb._queries.findIndex((q) => q.includes('INSERT INTO notification_outbox'));
+            expect(JSON.parse(mockDb._bindings[queued][2] as string)).toMatchObject({
+                event: 'approved',
+                reason: 'Checked the lore',
+            });
+        });
+
+        it('should return 404 when another moderator resolved it first', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('SELECT * FROM appeals') ? appealRow : { success: true, meta: { changes: 0 } }
+            );
+
+            const res = await resolve({ status: 'granted' });
+
+            expect(res.status).toBe(404);
+        });
+    });
+
+    // ============================================
+    // Moderation log
+    // ============================================
+
+    describe('GET /api/v1/moderation/log', () => {
+        const moderatorHeaders = {
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': '123456789',
+        };
+
+        const logRow = {
+            id: 'log-1',
+            preset_id: 'preset-123',
+            preset_name: 'Sunset',
+            subject_discord_id: null,
+            moderator_discord_id: '123456789',
+            action: 'reject',
+            reason: 'Offensive, "really"',
+            created_at: '2026-01-02T00:00:00.000Z',
+        };
+
+        function getLog(query = '') {
+            return app.request(`/api/v1/moderation/log${query}`, { headers: moderatorHeaders }, env);
+        }
+
+        it('should return a page of entries', async () => {
+            mockDb._setupMock(() => [logRow]);
+
+            const res = await getLog('?moderator=123456789&action=approve,reject');
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { entries: Array<{ id: string }>; next_cursor: string | null; has_more: boolean };
+            expect(body.entries[0].id).toBe('log-1');
+            expect(body.next_cursor).toBeNull();
+            expect(mockDb._bindings[0]).toEqual(['123456789', 'approve', 'reject', 51]);
+        });
+
+        it('should normalize date bounds to ISO timestamps', async () => {
+            mockDb._setupMock(() => []);
+
+            await getLog('?from=2026-01-01&to=2026-02-01');
+
+            expect(mockDb._bindings[0]).toEqual(['2026-01-01T00:00:00.000Z', '2026-02-01T00:00:00.000Z', 51]);
+        });
+
+        it('should reject invalid filters', async () => {
+            expect((await getLog('?action=approve,delete')).status).toBe(400);
+            expect((await getLog('?from=yesterday')).status).toBe(400);
+            expect((await getLog('?from=2026-02-01&to=2026-01-01')).status).toBe(400);
+            expect((await getLog('?limit=101')).status).toBe(400);
+            expect((await getLog('?cursor=garbage')).status).toBe(400);
+            expect((await getLog('?format=xml')).status).toBe(400);
+            expect(mockDb._queries.some((q) => q.includes('FROM moderation_log'))).toBe(false);
+        });
+
+        it('should export CSV with the next cursor in a header', async () => {
+            mockDb._setupMock(() => [logRow, { ...logRow, id: 'log-0' }]);
+
+            const res = await getLog('?format=csv&limit=1');
+
+            expect(res.status).toBe(200);
+            expect(res.headers.get('Content-Type')).toContain('text/csv');
+            expect(res.headers.get('Content-Disposition')).toContain('moderation-log.csv');
+            expect(res.headers.get('X-Next-Cursor')).toBeTruthy();
+            const csv = await res.text();
+            expect(csv.split('\r\n')[1]).toBe(
+                '2026-01-02T00:00:00.000Z,123456789,reject,preset-123,Sunset,,"Offensive, ""really""",log-1'
+            );
+        });
+
+        it('should allow larger CSV exports', async () => {
+            mockDb._setupMock(() => []);
+
+            const res = await getLog('?format=csv&limit=5000');
+
+            expect(res.status).toBe(200);
+            expect(mockDb._bindings[0]).toEqual([5001]);
+        });
+
+        it('should require staff privileges', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/log',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '555' } },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+    });
+
+    // ============================================
+    // Notification outbox
+    // ============================================
+
+    describe('Notification outbox', () => {
+        const moderatorHeaders = {
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': '123456789',
+        };
+
+        beforeEach(() => {
+            // The outbox needs admin; the bootstrap owner has it
+            env = createMockEnv({ DB: mockDb as unknown as D1Database, OWNER_DISCORD_ID: '123456789' });
+        });
+
+        const outboxRow = {
+            id: 'notification-1',
+            path: '/webhooks/preset-submission',
+            payload: JSON.stringify({ type: 'submission' }),
+            preset_id: 'preset-123',
+            status: 'dead',
+            attempts: 8,
+            next_attempt_at: '2026-01-01T00:00:00.000Z',
+            last_error: 'Discord worker returned 503: down',
+            created_at: '2026-01-01T00:00:00.000Z',
+            delivered_at: null,
+        };
+
+        function replay(id = 'notification-1') {
+            return app.request(
+                `/api/v1/moderation/notifications/${id}/replay`,
+                { method: 'POST', headers: moderatorHeaders },
+                env
+            );
+        }
+
+        it('should list dead notifications', async () => {
+            mockDb._setupMock(() => [{ ...outboxRow, _total: 1 }]);
+
+            const res = await app.request('/api/v1/moderation/notifications?status=dead', { headers: moderatorHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { notifications: Array<{ id: string; last_error: string }>; total: number };
+            expect(body.total).toBe(1);
+            expect(body.notifications[0].last_error).toContain('503');
+            expect(mockDb._bindings[0][0]).toBe('dead');
+        });
+
+        it('should reject unknown statuses', async () => {
+            const res = await app.request('/api/v1/moderation/notifications?status=lost', { headers: moderatorHeaders }, env);
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should require moderator privileges', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/notifications',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '555' } },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should replay a dead notification', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('RETURNING *') ? { ...outboxRow, status: 'pending', attempts: 0 } : outboxRow
+            );
+
+            const res = await replay();
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { notification: { status: string; attempts: number } };
+            expect(body.notification).toMatchObject({ status: 'pending', attempts: 0 });
+        });
+
+        it('should return 404 for unknown notifications', async () => {
+            mockDb._setupMock(() => null);
+
+            expect((await replay('missing')).status).toBe(404);
+        });
+
+        it('should return 409 for notifications that are not dead', async () => {
+            mockDb._setupMock(() => ({ ...outboxRow, status: 'delivered' }));
+
+            const res = await replay();
+
+            expect(res.status).toBe(409);
+            expect(mockDb._queries.some((q) => q.includes('RETURNING *'))).toBe(false);
+        });
+    });
 });
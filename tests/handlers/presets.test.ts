@@ -6,6 +6,7 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { Hono } from 'hono';
 import { presetsRouter, resetCategoryCache } from '../../src/handlers/presets';
 import { authMiddleware } from '../../src/middleware/auth';
+import { _resetPatternsForTesting, _setTestPatterns } from '../../src/services/moderation-service';
 import type { Env, AuthContext, CommunityPreset } from '../../src/types';
 import {
     createMockEnv,
@@ -81,7 +82,24 @@ describe('PresetsHandler', () => {
 
             await app.request('/api/v1/presets?search=sunset', {}, env);
 
-            expect(mockDb._bindings.some((b) => b.includes('%sunset%'))).toBe(true);
+            expect(mockDb._bindings.some((b) => b.includes('"sunset"*'))).toBe(true);
+        });
+
+        it('should reject a search without letters or numbers instead of listing everything', async () => {
+            mockDb._setupMock(() => []);
+
+            const res = await app.request('/api/v1/presets?search=!!!', {}, env);
+
+            expect(res.status).toBe(400);
+            expect(mockDb._queries).toHaveLength(0);
+        });
+
+        it('should treat a blank search as no search', async () => {
+            mockDb._setupMock(() => []);
+
+            const res = await app.request('/api/v1/presets?search=%20', {}, env);
+
+            expect(res.status).toBe(200);
         });
 
         it('should filter by is_curated', async () => {
@@ -93,6 +111,35 @@ describe('PresetsHandler', () => {
             expect(mockDb._bindings.some((b) => b.includes(1))).toBe(true);
         });
 
+        it('should filter by dye IDs', async () => {
+            mockDb._setupMock(() => []);
+
+            const res = await app.request('/api/v1/presets?dyes=5738,13115&match=any', {}, env);
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries.some((q) => q.includes('FROM preset_dyes'))).toBe(true);
+            expect(mockDb._bindings.some((b) => b.includes(5738) && b.includes(13115))).toBe(true);
+        });
+
+        it('should reject invalid dye IDs', async () => {
+            const res = await app.request('/api/v1/presets?dyes=5738,abc', {}, env);
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should reject too many dye IDs', async () => {
+            const ids = Array.from({ length: 11 }, (_, i) => i + 1).join(',');
+            const res = await app.request(`/api/v1/presets?dyes=${ids}`, {}, env);
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should reject an invalid match mode', async () => {
+            const res = await app.request('/api/v1/presets?dyes=5738&match=some', {}, env);
+
+            expect(res.status).toBe(400);
+        });
+
         it('should respect page and limit params', async () => {
             // Return empty array - the page/limit assertions don't need actual data
             mockDb._setupMock(() => []);
@@ -116,6 +163,59 @@ describe('PresetsHandler', () => {
         });
     });
 
+    // ============================================
+    // GET /api/v1/presets (cursor pagination)
+    // ============================================
+
+    describe('GET /api/v1/presets?cursor=', () => {
+        it('should return next_cursor in offset mode', async () => {
+            mockDb._setupMock(() => [
+                { ...createMockPresetRow({ id: 'p1' }), _total: 3 },
+            ]);
+
+            const res = await app.request('/api/v1/presets?limit=1', {}, env);
+            const body = await res.json() as { next_cursor: string | null };
+
+            expect(body.next_cursor).toEqual(expect.any(String));
+        });
+
+        it('should follow a cursor from a previous page', async () => {
+            mockDb._setupMock(() => [
+                { ...createMockPresetRow({ id: 'p1' }), _total: 3 },
+            ]);
+            const first = await app.request('/api/v1/presets?limit=1', {}, env);
+            const { next_cursor } = await first.json() as { next_cursor: string };
+
+            mockDb._setupMock(() => [createMockPresetRow({ id: 'p2' })]);
+            const res = await app.request(`/api/v1/presets?limit=1&cursor=${next_cursor}`, {}, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { presets: CommunityPreset[]; has_more: boolean; total?: number };
+            expect(body.presets).toHaveLength(1);
+            expect(body.has_more).toBe(false);
+            expect(body.total).toBeUndefined();
+            expect(mockDb._queries.some((q) => q.includes('(vote_count, created_at, id) < (?, ?, ?)'))).toBe(true);
+        });
+
+        it('should reject a malformed cursor', async () => {
+            const res = await app.request('/api/v1/presets?cursor=garbage', {}, env);
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should reject a cursor issued for a different sort', async () => {
+            mockDb._setupMock(() => [
+                { ...createMockPresetRow({ id: 'p1' }), _total: 3 },
+            ]);
+            const first = await app.request('/api/v1/presets?limit=1&sort=name', {}, env);
+            const { next_cursor } = await first.json() as { next_cursor: string };
+
+            const res = await app.request(`/api/v1/presets?sort=recent&cursor=${next_cursor}`, {}, env);
+
+            expect(res.status).toBe(400);
+        });
+    });
+
     // ============================================
     // GET /api/v1/presets/featured
     // ============================================
@@ -132,6 +232,90 @@ describe('PresetsHandler', () => {
 
             expect(body.presets).toHaveLength(10);
         });
+
+        it('should rank by trending score with sort=trending', async () => {
+            mockDb._setupMock(() => []);
+
+            const res = await app.request('/api/v1/presets/featured?sort=trending', {}, env);
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries[0]).toContain('trending_score DESC');
+        });
+
+        it('should reject unknown sort values', async () => {
+            const res = await app.request('/api/v1/presets/featured?sort=bogus', {}, env);
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    // ============================================
+    // GET /api/v1/presets/similar
+    // ============================================
+
+    describe('GET /api/v1/presets/similar', () => {
+        it('should return presets closest to the given colors', async () => {
+            const rows = [
+                createMockPresetRow({ id: 'white', dyes: JSON.stringify([13114]) }),
+                createMockPresetRow({ id: 'black', dyes: JSON.stringify([13115]) }),
+            ];
+            mockDb._setupMock((query: string, bindings: unknown[]) => {
+                if (query.includes('SELECT id, dyes')) return rows;
+                return rows.filter((row) => bindings.includes(row.id));
+            });
+
+            const res = await app.request('/api/v1/presets/similar?colors=1E1E1E,%23F9F8F4', {}, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { presets: (CommunityPreset & { distance: number })[] };
+            expect(body.presets).toHaveLength(2);
+            expect(body.presets[0].distance).toBeGreaterThanOrEqual(0);
+        });
+
+        it('should accept 3-digit hex colors', async () => {
+            mockDb._setupMock(() => []);
+
+            const res = await app.request('/api/v1/presets/similar?colors=fff', {}, env);
+
+            expect(res.status).toBe(200);
+        });
+
+        it('should return 400 when colors is missing', async () => {
+            const res = await app.request('/api/v1/presets/similar', {}, env);
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should return 400 for invalid hex colors', async () => {
+            const res = await app.request('/api/v1/presets/similar?colors=1E1E1E,not-a-color', {}, env);
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should return 400 for more than 5 colors', async () => {
+            const res = await app.request(
+                '/api/v1/presets/similar?colors=000,111,222,333,444,555',
+                {},
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should cap limit at 50', async () => {
+            const rows = Array.from({ length: 60 }, (_, i) =>
+                createMockPresetRow({ id: `preset-${i}`, dyes: JSON.stringify([13115]) })
+            );
+            mockDb._setupMock((query: string, bindings: unknown[]) => {
+                if (query.includes('SELECT id, dyes')) return rows;
+                return rows.filter((row) => bindings.includes(row.id));
+            });
+
+            const res = await app.request('/api/v1/presets/similar?colors=000&limit=100', {}, env);
+
+            const body = await res.json() as { presets: CommunityPreset[] };
+            expect(body.presets).toHaveLength(50);
+        });
     });
 
     // ============================================
@@ -281,6 +465,190 @@ describe('PresetsHandler', () => {
         });
     });
 
+    // ============================================
+    // GET /api/v1/presets/:id/revisions
+    // ============================================
+
+    describe('GET /api/v1/presets/:id/revisions', () => {
+        const revisionRows = [
+            {
+                id: 'rev-1',
+                preset_id: 'preset-123',
+                revision_number: 1,
+                action: 'create',
+                editor_discord_id: '123',
+                editor_name: 'Owner',
+                changed_fields: '["name","description","dyes","tags"]',
+                snapshot: JSON.stringify({ name: 'First', description: 'First description', dyes: [5729, 5738], tags: [] }),
+                created_at: '2026-01-01T00:00:00.000Z',
+            },
+            {
+                id: 'rev-2',
+                preset_id: 'preset-123',
+                revision_number: 2,
+                action: 'edit',
+                editor_discord_id: '123',
+                editor_name: 'Owner',
+                changed_fields: '["name"]',
+                snapshot: JSON.stringify({ name: 'Second', description: 'First description', dyes: [5729, 5738], tags: [] }),
+                created_at: '2026-01-02T00:00:00.000Z',
+            },
+        ];
+
+        function setupRevisionMock(ownerId: string) {
+            const mockRow = createMockPresetRow({ id: 'preset-123', author_discord_id: ownerId });
+            mockDb._setupMock((query: string) => {
+                if (query.includes('FROM preset_revisions')) return revisionRows;
+                return mockRow;
+            });
+        }
+
+        it('should require authentication', async () => {
+            const res = await app.request('/api/v1/presets/preset-123/revisions', {}, env);
+
+            expect(res.status).toBe(401);
+        });
+
+        it('should return history with diffs for the owner', async () => {
+            setupRevisionMock('123');
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123/revisions',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123' } },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as {
+                revisions: { revision_number: number; diff: Record<string, unknown> | null }[];
+                total: number;
+            };
+            expect(body.total).toBe(2);
+            expect(body.revisions[0].revision_number).toBe(2);
+            expect(body.revisions[0].diff).toEqual({ name: { from: 'First', to: 'Second' } });
+        });
+
+        it('should allow moderators to view any preset history', async () => {
+            setupRevisionMock('someone-else');
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123/revisions',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123456789' } },
+                env
+            );
+
+            expect(res.status).toBe(200);
+        });
+
+        it('should allow curators from staff_roles to view any preset history', async () => {
+            const mockRow = createMockPresetRow({ id: 'preset-123', author_discord_id: 'someone-else' });
+            mockDb._setupMock((query: string) => {
+                if (query.includes('FROM staff_roles')) return { role: 'curator' };
+                if (query.includes('FROM preset_revisions')) return revisionRows;
+                return mockRow;
+            });
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123/revisions',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '222' } },
+                env
+            );
+
+            expect(res.status).toBe(200);
+        });
+
+        it("should return 403 for another user's preset", async () => {
+            setupRevisionMock('someone-else');
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123/revisions',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123' } },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should return 404 if preset not found', async () => {
+            mockDb._setupMock(() => null);
+
+            const res = await app.request(
+                '/api/v1/presets/nonexistent/revisions',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123' } },
+                env
+            );
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should return a single revision with its diff', async () => {
+            setupRevisionMock('123');
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123/revisions/2',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123' } },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { revision_number: number; diff: Record<string, unknown> };
+            expect(body.revision_number).toBe(2);
+            expect(body.diff).toEqual({ name: { from: 'First', to: 'Second' } });
+        });
+
+        it('should return 404 for a missing revision', async () => {
+            setupRevisionMock('123');
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123/revisions/5',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123' } },
+                env
+            );
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should return 400 for an invalid revision number', async () => {
+            const res = await app.request(
+                '/api/v1/presets/preset-123/revisions/abc',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123' } },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    // ============================================
+    // GET /api/v1/presets/:id/similar
+    // ============================================
+
+    describe('GET /api/v1/presets/:id/similar', () => {
+        it('should return similar presets excluding the source preset', async () => {
+            const source = createMockPresetRow({ id: 'source', dyes: JSON.stringify([13115]) });
+            const rows = [source, createMockPresetRow({ id: 'other', dyes: JSON.stringify([5734]) })];
+            mockDb._setupMock((query: string, bindings: unknown[]) => {
+                if (query.includes('SELECT id, dyes')) return rows;
+                if (query.includes('id IN')) return rows.filter((row) => bindings.includes(row.id));
+                return source;
+            });
+
+            const res = await app.request('/api/v1/presets/source/similar', {}, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { presets: CommunityPreset[] };
+            expect(body.presets.map((preset) => preset.id)).toEqual(['other']);
+        });
+
+        it('should return 404 if preset not found', async () => {
+            mockDb._setupMock(() => null);
+
+            const res = await app.request('/api/v1/presets/nonexistent/similar', {}, env);
+
+            expect(res.status).toBe(404);
+        });
+    });
+
     // ============================================
     // POST /api/v1/presets
     // ============================================
@@ -597,6 +965,41 @@ describe('PresetsHandler', () => {
             expect(body.message).toContain('Maximum 10 tags');
         });
 
+        it('should reject dye IDs missing from the dye catalog', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('categories')) return [{ id: 'aesthetics' }];
+                return { count: 0 };
+            });
+
+            const res = await app.request(
+                '/api/v1/presets',
+                {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123',
+                    },
+                    body: JSON.stringify({
+                        ...createMockSubmission(),
+                        category_id: 'aesthetics',
+                        dyes: [5729, 999999, 888888, 999999],
+                    }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(400);
+            const body = await res.json() as {
+                error: string;
+                message: string;
+                details: { field: string; invalid_values: number[] };
+            };
+            expect(body.error).toBe('VALIDATION_ERROR');
+            expect(body.message).toBe('Unknown dye IDs: 999999, 888888');
+            expect(body.details).toEqual({ field: 'dyes', invalid_values: [999999, 888888] });
+        });
+
         it('should enforce rate limiting', async () => {
             mockDb._setupMock(() => ({ count: 10 })); // At limit
 
@@ -655,7 +1058,7 @@ describe('PresetsHandler', () => {
                         Authorization: 'Bearer test-bot-secret',
                         'X-User-Discord-ID': '123',
                     },
-                    body: JSON.stringify(createMockSubmission()),
+                    body: JSON.stringify({ ...createMockSubmission(), dyes: [5729, 5738, 13115] }),
                 },
                 env
             );
@@ -665,25 +1068,515 @@ describe('PresetsHandler', () => {
             expect(body.duplicate).toBeDefined();
             expect(body.duplicate.id).toBe('existing-123');
         });
-    });
 
-    // ============================================
-    // DELETE /api/v1/presets/:id
-    // ============================================
+        it('should vote for the preset created concurrently with the same dyes', async () => {
+            let duplicateLookups = 0;
+            mockDb._setupMock((query) => {
+                if (query.includes('INSERT INTO presets')) {
+                    throw new Error('UNIQUE constraint failed: presets.dye_signature');
+                }
+                if (query.includes('categories')) {
+                    return [{ id: 'aesthetics' }, { id: 'jobs' }, { id: 'community' }];
+                }
+                if (query.includes('COUNT') && query.includes('author_discord_id')) {
+                    return { count: 0 };
+                }
+                if (query.includes('dye_signature')) {
+                    duplicateLookups++;
+                    return duplicateLookups > 1 ? createMockPresetRow({ id: 'winner' }) : null;
+                }
+                if (query.includes('SELECT id, dyes')) {
+                    return [];
+                }
+                if (query.includes('vote_count')) {
+                    return { vote_count: 1 };
+                }
+                return null;
+            });
 
-    describe('DELETE /api/v1/presets/:id', () => {
-        it('should require authentication', async () => {
             const res = await app.request(
-                '/api/v1/presets/preset-123',
-                { method: 'DELETE' },
-                env
-            );
-
-            expect(res.status).toBe(401);
-        });
-
-        it('should allow owner to delete their preset', async () => {
-            const mockRow = createMockPresetRow({
+                '/api/v1/presets',
+                {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123',
+                    },
+                    body: JSON.stringify({ ...createMockSubmission(), dyes: [5729, 5738, 13115] }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { duplicate: { id: string } };
+            expect(body.duplicate.id).toBe('winner');
+        });
+    });
+
+    // ============================================
+    // POST /api/v1/presets - Near-Duplicates
+    // ============================================
+
+    describe('POST /api/v1/presets - Near-Duplicates', () => {
+        const executionCtx = {
+            waitUntil: vi.fn(),
+            passThroughOnException: vi.fn(),
+        } as unknown as ExecutionContext;
+
+        const submission = {
+            ...createMockSubmission(),
+            category_id: 'aesthetics',
+            dyes: [13115, 13114],
+        };
+
+        function setupSubmitMock(candidates: ReturnType<typeof createMockPresetRow>[]) {
+            mockDb._setupMock((query: string, bindings: unknown[]) => {
+                if (query.includes('FROM categories')) return [{ id: 'aesthetics' }];
+                if (query.includes('COUNT')) return { count: 0 };
+                if (query.includes('dye_signature')) return null;
+                if (query.includes('SELECT id, dyes')) return candidates;
+                if (query.includes('id IN')) return candidates.filter((row) => bindings.includes(row.id));
+                return null;
+            });
+        }
+
+        async function submit(overrides: Partial<Env> = {}) {
+            return app.request(
+                '/api/v1/presets',
+                {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123',
+                        'X-User-Discord-Name': 'TestUser',
+                    },
+                    body: JSON.stringify(submission),
+                },
+                { ...env, ...overrides },
+                executionCtx
+            );
+        }
+
+        it('should route near-duplicates to pending and list approved matches', async () => {
+            // Soot Black is a near-identical shade of Jet Black
+            setupSubmitMock([
+                createMockPresetRow({ id: 'near', name: 'Monochrome', status: 'approved', dyes: JSON.stringify([5734, 13114]) }),
+            ]);
+
+            const res = await submit();
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as {
+                moderation_status: string;
+                near_duplicates: { id: string; name: string; distance: number }[];
+            };
+            expect(body.moderation_status).toBe('pending');
+            expect(body.near_duplicates).toHaveLength(1);
+            expect(body.near_duplicates[0]).toMatchObject({ id: 'near', name: 'Monochrome' });
+            expect(body.near_duplicates[0].distance).toBeLessThanOrEqual(3);
+        });
+
+        it('should write the submission notification to the outbox with the preset', async () => {
+            setupSubmitMock([
+                createMockPresetRow({ id: 'near', name: 'Monochrome', status: 'approved', dyes: JSON.stringify([5734, 13114]) }),
+            ]);
+
+            const res = await submit();
+
+            const body = await res.json() as { preset: { id: string } };
+            const outbox = mockDb._queries.findIndex((query) => query.includes('INSERT INTO notification_outbox'));
+            expect(outbox).toBeGreaterThan(mockDb._queries.findIndex((query) => query.includes('INSERT INTO presets')));
+            expect(mockDb._bindings[outbox][1]).toBe('/webhooks/preset-submission');
+            expect(JSON.parse(mockDb._bindings[outbox][2] as string)).toMatchObject({
+                type: 'submission',
+                preset: { id: body.preset.id, status: 'pending', near_duplicate_ids: ['near'] },
+            });
+        });
+
+        it('should not list pending matches but still route to pending', async () => {
+            setupSubmitMock([
+                createMockPresetRow({ id: 'near', status: 'pending', dyes: JSON.stringify([5734, 13114]) }),
+            ]);
+
+            const res = await submit();
+
+            const body = await res.json() as { moderation_status: string; near_duplicates: unknown[] };
+            expect(body.moderation_status).toBe('pending');
+            expect(body.near_duplicates).toEqual([]);
+        });
+
+        it('should approve submissions with no near-duplicates', async () => {
+            setupSubmitMock([
+                createMockPresetRow({ id: 'far', status: 'approved', dyes: JSON.stringify([5738, 30118]) }),
+            ]);
+
+            const res = await submit();
+
+            const body = await res.json() as { moderation_status: string; near_duplicates: unknown[] };
+            expect(body.moderation_status).toBe('approved');
+            expect(body.near_duplicates).toEqual([]);
+        });
+
+        it('should respect NEAR_DUPLICATE_THRESHOLD', async () => {
+            setupSubmitMock([
+                createMockPresetRow({ id: 'near', status: 'approved', dyes: JSON.stringify([5734, 13114]) }),
+            ]);
+
+            const res = await submit({ NEAR_DUPLICATE_THRESHOLD: '0' });
+
+            const body = await res.json() as { moderation_status: string };
+            expect(body.moderation_status).toBe('approved');
+            expect(mockDb._queries.some((query) => query.includes('SELECT id, dyes'))).toBe(false);
+        });
+    });
+
+    // ============================================
+    // POST /api/v1/presets - Content Moderation
+    // ============================================
+
+    describe('POST /api/v1/presets - Content Moderation', () => {
+        const executionCtx = {
+            waitUntil: vi.fn(),
+            passThroughOnException: vi.fn(),
+        } as unknown as ExecutionContext;
+
+        const rmtRule = (action: string) => ({
+            id: 'rule-1',
+            name: 'RMT',
+            type: 'keyword',
+            pattern: 'rmt',
+            threshold: null,
+            fields: '["tags"]',
+            action,
+            priority: 0,
+            enabled: 1,
+            created_by_discord_id: '123456789',
+            created_at: '2026-01-01T00:00:00.000Z',
+            updated_at: '2026-01-01T00:00:00.000Z',
+        });
+
+        function setupModerationMock(rules: unknown[] = []) {
+            mockDb._setupMock((query: string) => {
+                if (query.includes('FROM moderation_rules')) return rules;
+                if (query.includes('FROM categories')) return [{ id: 'aesthetics' }];
+                if (query.includes('COUNT')) return { count: 0 };
+                return null;
+            });
+        }
+
+        async function submit(tags: string[]) {
+            return app.request(
+                '/api/v1/presets',
+                {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123',
+                        'X-User-Discord-Name': 'TestUser',
+                    },
+                    body: JSON.stringify({ ...createMockSubmission(), category_id: 'aesthetics', tags }),
+                },
+                env,
+                executionCtx
+            );
+        }
+
+        afterEach(() => {
+            _resetPatternsForTesting();
+        });
+
+        it('should hold submissions with flagged tags and tell reviewers which field', async () => {
+            _setTestPatterns([/\bbadword\b/i]);
+            setupModerationMock();
+
+            const res = await submit(['pastel', 'badword']);
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { moderation_status: string };
+            expect(body.moderation_status).toBe('pending');
+            const outbox = mockDb._queries.findIndex((query) => query.includes('INSERT INTO notification_outbox'));
+            expect(JSON.parse(mockDb._bindings[outbox][2] as string)).toMatchObject({
+                preset: { moderation_status: 'flagged', flagged_fields: ['tags'] },
+            });
+        });
+
+        it('should refuse submissions a rule rejects', async () => {
+            setupModerationMock([rmtRule('reject')]);
+
+            const res = await submit(['rmt']);
+
+            expect(res.status).toBe(422);
+            const body = await res.json() as { error: string; details: { field: string } };
+            expect(body.error).toBe('CONTENT_FLAGGED');
+            expect(body.details.field).toBe('tags');
+            expect(mockDb._queries.some((query) => query.includes('INSERT INTO presets'))).toBe(false);
+        });
+
+        it('should send submissions a rule holds to pending', async () => {
+            setupModerationMock([rmtRule('pending')]);
+
+            const res = await submit(['rmt']);
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { moderation_status: string };
+            expect(body.moderation_status).toBe('pending');
+        });
+
+        it('should re-moderate edits that only change tags', async () => {
+            _setTestPatterns([/\bbadword\b/i]);
+            mockDb._setupMock(() => createMockPresetRow({ id: 'preset-123', author_discord_id: '123' }));
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123',
+                {
+                    method: 'PATCH',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123',
+                    },
+                    body: JSON.stringify({ tags: ['badword'] }),
+                },
+                env,
+                executionCtx
+            );
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { moderation_status: string };
+            expect(body.moderation_status).toBe('pending');
+        });
+    });
+
+    // ============================================
+    // POST /api/v1/presets/:id/fork
+    // ============================================
+
+    describe('POST /api/v1/presets/:id/fork', () => {
+        const executionCtx = {
+            waitUntil: vi.fn(),
+            passThroughOnException: vi.fn(),
+        } as unknown as ExecutionContext;
+
+        const sourceRow = createMockPresetRow({
+            id: 'source-1',
+            name: 'Original Palette',
+            description: 'The original palette being remixed',
+            category_id: 'aesthetics',
+            dyes: JSON.stringify([5729, 5738]),
+            tags: JSON.stringify(['original']),
+            author_name: 'Original Author',
+            status: 'approved',
+        });
+
+        function setupForkMock(options: { source?: unknown; duplicate?: unknown } = {}) {
+            const source = 'source' in options ? options.source : sourceRow;
+            mockDb._setupMock((query: string) => {
+                if (query.includes('FROM categories')) return [{ id: 'aesthetics' }];
+                if (query.includes('COUNT')) return { count: 0 };
+                if (query.includes('dye_signature')) return options.duplicate ?? null;
+                if (query.includes('SELECT id, dyes')) return [];
+                if (query.includes('SELECT * FROM presets WHERE id = ?')) return source;
+                return null;
+            });
+        }
+
+        async function fork(body?: unknown, id = 'source-1') {
+            return app.request(
+                `/api/v1/presets/${id}/fork`,
+                {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123',
+                        'X-User-Discord-Name': 'Remixer',
+                    },
+                    body: body === undefined ? undefined : JSON.stringify(body),
+                },
+                env,
+                executionCtx
+            );
+        }
+
+        it('should require authentication', async () => {
+            const res = await app.request('/api/v1/presets/source-1/fork', { method: 'POST' }, env);
+
+            expect(res.status).toBe(401);
+        });
+
+        it('should create a fork pre-filled from the source', async () => {
+            setupForkMock();
+
+            const res = await fork({ dyes: [5729, 13115] });
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as {
+                preset: CommunityPreset;
+                forked_from: { id: string; name: string; author_name: string };
+                moderation_status: string;
+            };
+            expect(body.preset.forked_from_id).toBe('source-1');
+            expect(body.preset.name).toBe('Original Palette');
+            expect(body.preset.description).toBe('The original palette being remixed');
+            expect(body.preset.tags).toEqual(['original']);
+            expect(body.preset.dyes).toEqual([5729, 13115]);
+            expect(body.preset.author_discord_id).toBe('123');
+            expect(body.forked_from).toEqual({ id: 'source-1', name: 'Original Palette', author_name: 'Original Author' });
+        });
+
+        it('should record the author\'s vote with the fork, not in a separate write', async () => {
+            setupForkMock();
+
+            const res = await fork({ dyes: [5729, 13115] });
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { preset: CommunityPreset };
+            expect(body.preset.vote_count).toBe(1);
+            expect(mockDb._queries.some((q) => q.includes('ON CONFLICT DO NOTHING'))).toBe(false);
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO votes'))).toBe(true);
+        });
+
+        it('should apply overrides from the body', async () => {
+            setupForkMock();
+
+            const res = await fork({ name: 'My Remix', dyes: [13115, 5738] });
+
+            const body = await res.json() as { preset: CommunityPreset };
+            expect(body.preset.name).toBe('My Remix');
+        });
+
+        it('should reject a fork with the same dyes as the source', async () => {
+            setupForkMock();
+
+            const res = await fork({ name: 'Same Dyes', dyes: [5738, 5729] });
+
+            expect(res.status).toBe(400);
+            const body = await res.json() as { message: string };
+            expect(body.message).toContain('must change at least one dye');
+        });
+
+        it('should reject an empty body since the dyes are unchanged', async () => {
+            setupForkMock();
+
+            const res = await fork();
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should return 409 if the dye combination already exists', async () => {
+            setupForkMock({ duplicate: createMockPresetRow({ id: 'existing', name: 'Existing' }) });
+
+            const res = await fork({ dyes: [5729, 13115] });
+
+            expect(res.status).toBe(409);
+            const body = await res.json() as { error: string; duplicate: { id: string } };
+            expect(body.error).toBe('DUPLICATE_RESOURCE');
+            expect(body.duplicate.id).toBe('existing');
+        });
+
+        it('should return 409 naming the preset created concurrently with the same dyes', async () => {
+            let duplicateLookups = 0;
+            mockDb._setupMock((query: string) => {
+                if (query.includes('INSERT INTO presets')) {
+                    throw new Error('UNIQUE constraint failed: presets.dye_signature');
+                }
+                if (query.includes('FROM categories')) return [{ id: 'aesthetics' }];
+                if (query.includes('COUNT')) return { count: 0 };
+                if (query.includes('dye_signature')) {
+                    duplicateLookups++;
+                    return duplicateLookups > 1 ? createMockPresetRow({ id: 'winner' }) : null;
+                }
+                if (query.includes('SELECT id, dyes')) return [];
+                if (query.includes('SELECT * FROM presets WHERE id = ?')) return sourceRow;
+                return null;
+            });
+
+            const res = await fork({ dyes: [5729, 13115] });
+
+            expect(res.status).toBe(409);
+            const body = await res.json() as { error: string; duplicate: { id: string } };
+            expect(body.error).toBe('DUPLICATE_RESOURCE');
+            expect(body.duplicate.id).toBe('winner');
+            expect(mockDb._queries.some((q) => q.includes('ON CONFLICT DO NOTHING'))).toBe(false);
+        });
+
+        it('should run submission validation on the merged preset', async () => {
+            setupForkMock();
+
+            const res = await fork({ name: 'A', dyes: [5729, 13115] });
+
+            expect(res.status).toBe(400);
+            const body = await res.json() as { message: string };
+            expect(body.message).toContain('Name must be 2-50 characters');
+        });
+
+        it('should return 404 if the source preset is not approved', async () => {
+            setupForkMock({ source: { ...sourceRow, status: 'pending' } });
+
+            const res = await fork({ dyes: [5729, 13115] });
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should return 404 if the source preset does not exist', async () => {
+            setupForkMock({ source: null });
+
+            const res = await fork({ dyes: [5729, 13115] }, 'nonexistent');
+
+            expect(res.status).toBe(404);
+        });
+    });
+
+    // ============================================
+    // GET /api/v1/presets/:id/forks
+    // ============================================
+
+    describe('GET /api/v1/presets/:id/forks', () => {
+        it('should list forks of the preset', async () => {
+            const parent = createMockPresetRow({ id: 'parent-1' });
+            const forks = [
+                { ...createMockPresetRow({ id: 'fork-1' }), forked_from_id: 'parent-1' },
+                { ...createMockPresetRow({ id: 'fork-2' }), forked_from_id: 'parent-1' },
+            ];
+            mockDb._setupMock((query: string) => (query.includes('forked_from_id') ? forks : parent));
+
+            const res = await app.request('/api/v1/presets/parent-1/forks', {}, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { presets: CommunityPreset[] };
+            expect(body.presets.map((preset) => preset.id)).toEqual(['fork-1', 'fork-2']);
+            expect(body.presets[0].forked_from_id).toBe('parent-1');
+        });
+
+        it('should return 404 if preset not found', async () => {
+            mockDb._setupMock(() => null);
+
+            const res = await app.request('/api/v1/presets/nonexistent/forks', {}, env);
+
+            expect(res.status).toBe(404);
+        });
+    });
+
+    // ============================================
+    // DELETE /api/v1/presets/:id
+    // ============================================
+
+    describe('DELETE /api/v1/presets/:id', () => {
+        it('should require authentication', async () => {
+            const res = await app.request(
+                '/api/v1/presets/preset-123',
+                { method: 'DELETE' },
+                env
+            );
+
+            expect(res.status).toBe(401);
+        });
+
+        it('should allow owner to delete their preset', async () => {
+            const mockRow = createMockPresetRow({
                 id: 'preset-123',
                 author_discord_id: '123',
             });
@@ -706,6 +1599,50 @@ describe('PresetsHandler', () => {
             expect(body.success).toBe(true);
         });
 
+        it('should remove the preset from collections and bookmarks', async () => {
+            mockDb._setupMock(() => createMockPresetRow({ id: 'preset-123', author_discord_id: '123' }));
+
+            await app.request(
+                '/api/v1/presets/preset-123',
+                {
+                    method: 'DELETE',
+                    headers: {
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123',
+                    },
+                },
+                env
+            );
+
+            expect(mockDb._queries).toContain('DELETE FROM collection_items WHERE preset_id = ?');
+            expect(mockDb._queries).toContain('DELETE FROM bookmarks WHERE preset_id = ?');
+            expect(mockDb._queries).toContain('DELETE FROM ban_hidden_presets WHERE preset_id = ?');
+            expect(mockDb._queries).toContain('DELETE FROM preset_reports WHERE preset_id = ?');
+            expect(mockDb._queries).toContain('DELETE FROM preset_claims WHERE preset_id = ?');
+        });
+
+        it('should keep revisions and appeals, closing open appeals', async () => {
+            mockDb._setupMock(() => createMockPresetRow({ id: 'preset-123', author_discord_id: '123' }));
+
+            await app.request(
+                '/api/v1/presets/preset-123',
+                {
+                    method: 'DELETE',
+                    headers: {
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123',
+                    },
+                },
+                env
+            );
+
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM appeals'))).toBe(false);
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM preset_revisions'))).toBe(false);
+            const close = mockDb._queries.findIndex((q) => q.includes('UPDATE appeals'));
+            expect(mockDb._queries[close]).toContain("WHERE preset_id = ? AND status = 'open'");
+            expect(mockDb._bindings[close]).toEqual([expect.any(String), '123', 'Preset was deleted', 'preset-123']);
+        });
+
         it('should allow moderator to delete any preset', async () => {
             const mockRow = createMockPresetRow({
                 id: 'preset-123',
@@ -874,6 +1811,114 @@ describe('PresetsHandler', () => {
         });
     });
 
+    // ============================================
+    // POST /api/v1/presets/:id/reports
+    // ============================================
+
+    describe('POST /api/v1/presets/:id/reports', () => {
+        const reportedRow = createMockPresetRow({ id: 'preset-1', author_discord_id: 'author-1', status: 'approved' });
+
+        function setupReportMock(options: { preset?: unknown; changes?: number[] } = {}) {
+            const preset = 'preset' in options ? options.preset : reportedRow;
+            const [insertChanges, , flagChanges] = options.changes ?? [1, 0, 0];
+            mockDb._setupMock((query: string) => {
+                if (query.includes('SELECT * FROM presets WHERE id = ?')) return preset;
+                if (query.includes('INSERT INTO preset_reports')) return { success: true, meta: { changes: insertChanges } };
+                if (query.includes("SET status = 'flagged'")) return { success: true, meta: { changes: flagChanges } };
+                return null;
+            });
+        }
+
+        async function report(body: unknown, id = 'preset-1') {
+            return app.request(
+                `/api/v1/presets/${id}/reports`,
+                {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123',
+                    },
+                    body: JSON.stringify(body),
+                },
+                env
+            );
+        }
+
+        it('should require authentication', async () => {
+            const res = await app.request('/api/v1/presets/preset-1/reports', { method: 'POST' }, env);
+
+            expect(res.status).toBe(401);
+        });
+
+        it('should create a report', async () => {
+            setupReportMock();
+
+            const res = await report({ reason: 'spam', details: 'Same palette posted ten times' });
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { report: { reason: string; status: string }; auto_flagged: boolean };
+            expect(body.report.reason).toBe('spam');
+            expect(body.report.status).toBe('open');
+            expect(body.auto_flagged).toBe(false);
+        });
+
+        it('should report when the preset was auto-flagged', async () => {
+            setupReportMock({ changes: [1, 1, 1] });
+
+            const res = await report({ reason: 'offensive_name' });
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { auto_flagged: boolean };
+            expect(body.auto_flagged).toBe(true);
+        });
+
+        it('should reject unknown reasons', async () => {
+            const res = await report({ reason: 'ugly' });
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should reject a body that is not an object', async () => {
+            for (const body of [null, 'spam', ['spam']]) {
+                const res = await report(body);
+
+                expect(res.status).toBe(400);
+            }
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO preset_reports'))).toBe(false);
+        });
+
+        it('should require details for reason other', async () => {
+            const res = await report({ reason: 'other', details: '   ' });
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should return 404 for presets that are not approved', async () => {
+            setupReportMock({ preset: createMockPresetRow({ id: 'preset-1', status: 'pending' }) });
+
+            const res = await report({ reason: 'spam' });
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should not allow reporting your own preset', async () => {
+            setupReportMock({ preset: createMockPresetRow({ id: 'preset-1', author_discord_id: '123', status: 'approved' }) });
+
+            const res = await report({ reason: 'spam' });
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should return 409 when the user already reported the preset', async () => {
+            setupReportMock({ changes: [0, 0, 0] });
+
+            const res = await report({ reason: 'spam' });
+
+            expect(res.status).toBe(409);
+        });
+    });
+
     // ============================================
     // PATCH /api/v1/presets/:id
     // ============================================
@@ -998,7 +2043,7 @@ describe('PresetsHandler', () => {
                         Authorization: 'Bearer test-bot-secret',
                         'X-User-Discord-ID': '123',
                     },
-                    body: JSON.stringify({ dyes: [4, 5, 6] }),
+                    body: JSON.stringify({ dyes: [5729, 5738, 13115] }),
                 },
                 env
             );
@@ -1008,6 +2053,32 @@ describe('PresetsHandler', () => {
             expect(body.error).toBe('DUPLICATE_RESOURCE');
         });
 
+        it('should reject unknown dye IDs on edit', async () => {
+            const mockRow = createMockPresetRow({
+                id: 'preset-123',
+                author_discord_id: '123',
+            });
+            mockDb._setupMock(() => mockRow);
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123',
+                {
+                    method: 'PATCH',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123',
+                    },
+                    body: JSON.stringify({ dyes: [5729, 424242] }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(400);
+            const body = await res.json() as { details: { field: string; invalid_values: number[] } };
+            expect(body.details).toEqual({ field: 'dyes', invalid_values: [424242] });
+        });
+
         it('should validate edit request fields', async () => {
             const mockRow = createMockPresetRow({
                 id: 'preset-123',
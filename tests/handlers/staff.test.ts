@@ -0,0 +1,189 @@
+/**
+ * Staff Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { staffRouter } from '../../src/handlers/staff';
+import { authMiddleware } from '../../src/middleware/auth';
+import type { Env, AuthContext, StaffMember } from '../../src/types';
+import { createMockEnv, createMockD1Database, resetCounters } from '../test-utils';
+
+type Variables = {
+    auth: AuthContext;
+};
+
+const OWNER_ID = '100000000000000001';
+const TARGET_ID = '111111111111111111';
+
+const ownerHeaders = {
+    'Content-Type': 'application/json',
+    Authorization: 'Bearer test-bot-secret',
+    'X-User-Discord-ID': OWNER_ID,
+};
+
+describe('StaffHandler', () => {
+    let app: Hono<{ Bindings: Env; Variables: Variables }>;
+    let env: Env;
+    let mockDb: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        resetCounters();
+        mockDb = createMockD1Database();
+        env = createMockEnv({ DB: mockDb as unknown as D1Database, OWNER_DISCORD_ID: OWNER_ID });
+
+        app = new Hono<{ Bindings: Env; Variables: Variables }>();
+        app.use('*', authMiddleware);
+        app.route('/api/v1/moderation/staff', staffRouter);
+
+        vi.clearAllMocks();
+    });
+
+    function putRole(discordId: string, body: unknown) {
+        return app.request(
+            `/api/v1/moderation/staff/${discordId}`,
+            { method: 'PUT', headers: ownerHeaders, body: JSON.stringify(body) },
+            env
+        );
+    }
+
+    function revokeRole(discordId: string) {
+        return app.request(`/api/v1/moderation/staff/${discordId}`, { method: 'DELETE', headers: ownerHeaders }, env);
+    }
+
+    // ============================================
+    // Authorization
+    // ============================================
+
+    describe('Authorization', () => {
+        it('should require the owner role', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/staff',
+                // MODERATOR_IDS are bootstrap moderators, not owners
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123456789' } },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should accept owners from staff_roles', async () => {
+            mockDb._setupMock((query) => (query.includes('SELECT role FROM staff_roles') ? { role: 'owner' } : []));
+
+            const res = await app.request(
+                '/api/v1/moderation/staff',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '222' } },
+                env
+            );
+
+            expect(res.status).toBe(200);
+        });
+    });
+
+    // ============================================
+    // GET /api/v1/moderation/staff
+    // ============================================
+
+    describe('GET /api/v1/moderation/staff', () => {
+        it('should list staff', async () => {
+            mockDb._setupMock(() => [
+                { discord_id: TARGET_ID, role: 'moderator', granted_by_discord_id: OWNER_ID, granted_at: '2026-01-01T00:00:00.000Z' },
+            ]);
+
+            const res = await app.request('/api/v1/moderation/staff', { headers: ownerHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { staff: StaffMember[]; total: number };
+            expect(body.total).toBe(1);
+            expect(body.staff[0].role).toBe('moderator');
+        });
+    });
+
+    // ============================================
+    // PUT /api/v1/moderation/staff/:discordId
+    // ============================================
+
+    describe('PUT /api/v1/moderation/staff/:discordId', () => {
+        it('should grant a role and log it', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('SELECT role FROM staff_roles') ? null : { success: true, meta: { changes: 1 } }
+            );
+
+            const res = await putRole(TARGET_ID, { role: 'moderator' });
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { staff: StaffMember; previous_role: string | null };
+            expect(body.staff).toMatchObject({ discord_id: TARGET_ID, role: 'moderator', granted_by_discord_id: OWNER_ID });
+            expect(body.previous_role).toBeNull();
+            expect(mockDb._queries.some((q) => q.includes("'role_granted'"))).toBe(true);
+        });
+
+        it('should change an existing role', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('SELECT role FROM staff_roles') ? { role: 'curator' } : { success: true, meta: { changes: 1 } }
+            );
+
+            const res = await putRole(TARGET_ID, { role: 'admin' });
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { previous_role: string };
+            expect(body.previous_role).toBe('curator');
+        });
+
+        it('should return 409 when the user already has the role', async () => {
+            mockDb._setupMock(() => ({ role: 'moderator' }));
+
+            const res = await putRole(TARGET_ID, { role: 'moderator' });
+
+            expect(res.status).toBe(409);
+        });
+
+        it('should reject unknown roles', async () => {
+            expect((await putRole(TARGET_ID, { role: 'superuser' })).status).toBe(400);
+        });
+
+        it('should reject invalid Discord IDs', async () => {
+            expect((await putRole('not-an-id', { role: 'moderator' })).status).toBe(400);
+        });
+
+        it('should not let owners change their own role', async () => {
+            const res = await putRole(OWNER_ID, { role: 'admin' });
+
+            expect(res.status).toBe(400);
+            expect(mockDb._queries).toHaveLength(0);
+        });
+
+        it('should not change bootstrap staff', async () => {
+            env = createMockEnv({
+                DB: mockDb as unknown as D1Database,
+                OWNER_DISCORD_ID: OWNER_ID,
+                MODERATOR_IDS: TARGET_ID,
+            });
+
+            const res = await putRole(TARGET_ID, { role: 'curator' });
+
+            expect(res.status).toBe(409);
+        });
+    });
+
+    // ============================================
+    // DELETE /api/v1/moderation/staff/:discordId
+    // ============================================
+
+    describe('DELETE /api/v1/moderation/staff/:discordId', () => {
+        it('should revoke the role', async () => {
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const res = await revokeRole(TARGET_ID);
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries.some((q) => q.includes("'role_revoked'"))).toBe(true);
+        });
+
+        it('should return 404 for users without a role', async () => {
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            expect((await revokeRole(TARGET_ID)).status).toBe(404);
+        });
+    });
+});
@@ -46,9 +46,9 @@ describe('VotesHandler', () => {
                 if (query.includes('INSERT INTO votes')) {
                     return { success: true, meta: { changes: 1 } };
                 }
-                // Update vote count
+                // Recount vote_count (RETURNING the new value)
                 if (query.includes('UPDATE presets')) {
-                    return { vote_count: 1 };
+                    return { success: true, results: [{ vote_count: 1 }], meta: { changes: 1 } };
                 }
                 return { success: true };
             });
@@ -93,6 +93,51 @@ describe('VotesHandler', () => {
             expect(result.success).toBe(false);
             expect(result.error).toBe('Failed to add vote');
         });
+
+        it('should report the stored count instead of 0 on errors', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('INSERT INTO votes')) {
+                    throw new Error('Database error');
+                }
+                if (query.includes('vote_count FROM presets')) {
+                    return { vote_count: 7 };
+                }
+                return null;
+            });
+
+            const result = await addVote(mockDb, 'preset-123', 'user-456');
+
+            expect(result.success).toBe(false);
+            expect(result.new_vote_count).toBe(7);
+        });
+
+        it('should rethrow when the stored count cannot be read either', async () => {
+            mockDb._setupMock(() => {
+                throw new Error('Database error');
+            });
+
+            await expect(addVote(mockDb, 'preset-123', 'user-456')).rejects.toThrow('Database error');
+        });
+
+        it('should fall back to the stored count when the recount made no change', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('INSERT INTO votes')) {
+                    return { success: true, meta: { changes: 1 } };
+                }
+                if (query.includes('UPDATE presets')) {
+                    return { success: true, results: [], meta: { changes: 0 } };
+                }
+                if (query.includes('vote_count FROM presets')) {
+                    return { vote_count: 3 };
+                }
+                return null;
+            });
+
+            const result = await addVote(mockDb, 'preset-123', 'user-456');
+
+            expect(result.success).toBe(true);
+            expect(result.new_vote_count).toBe(3);
+        });
     });
 
     // ============================================
@@ -106,9 +151,9 @@ describe('VotesHandler', () => {
                 if (query.includes('DELETE FROM votes')) {
                     return { success: true, meta: { changes: 1 } };
                 }
-                // Update vote count
+                // Recount vote_count (RETURNING the new value)
                 if (query.includes('UPDATE presets')) {
-                    return { vote_count: 4 };
+                    return { success: true, results: [{ vote_count: 4 }], meta: { changes: 1 } };
                 }
                 return { success: true };
             });
@@ -213,9 +258,9 @@ describe('VotesHandler', () => {
                 if (query.includes('INSERT INTO votes')) {
                     return { success: true, meta: { changes: 1 } };
                 }
-                // Update vote count
+                // Recount vote_count (RETURNING the new value)
                 if (query.includes('UPDATE presets')) {
-                    return { vote_count: 1 };
+                    return { success: true, results: [{ vote_count: 1 }], meta: { changes: 1 } };
                 }
                 return { success: true };
             });
@@ -273,6 +318,40 @@ describe('VotesHandler', () => {
 
             expect(body.already_voted).toBe(true);
         });
+
+        it('should return 500 if the vote could not be saved', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('SELECT id FROM presets')) {
+                    return { id: 'preset-123' };
+                }
+                if (query.includes('INSERT INTO votes')) {
+                    throw new Error('Database error');
+                }
+                if (query.includes('vote_count FROM presets')) {
+                    return { vote_count: 5 };
+                }
+                return null;
+            });
+
+            const res = await app.request(
+                '/api/v1/votes/preset-123',
+                {
+                    method: 'POST',
+                    headers: {
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123',
+                    },
+                },
+                env
+            );
+
+            expect(res.status).toBe(500);
+            const body = await res.json() as { success: boolean; new_vote_count: number; error: string };
+
+            expect(body.success).toBe(false);
+            expect(body.new_vote_count).toBe(5);
+            expect(body.error).toBe('Failed to add vote');
+        });
     });
 
     // ============================================
@@ -339,9 +418,9 @@ describe('VotesHandler', () => {
                 if (query.includes('DELETE FROM votes')) {
                     return { success: true, meta: { changes: 1 } };
                 }
-                // Update vote count
+                // Recount vote_count (RETURNING the new value)
                 if (query.includes('UPDATE presets')) {
-                    return { vote_count: 4 };
+                    return { success: true, results: [{ vote_count: 4 }], meta: { changes: 1 } };
                 }
                 return { success: true };
             });
@@ -474,56 +553,48 @@ describe('VotesHandler', () => {
     // ============================================
 
     describe('Vote Count Consistency', () => {
-        it('should use batch operations for vote add', async () => {
+        it('should insert the vote and recount in one batch', async () => {
             mockDb._setupMock((query) => {
-                if (query.includes('SELECT 1 FROM votes')) {
-                    return null;
-                }
-                if (query.includes('vote_count FROM presets')) {
-                    return { vote_count: 1 };
+                if (query.includes('INSERT INTO votes')) {
+                    return { success: true, meta: { changes: 1 } };
                 }
-                return { success: true };
+                return { success: true, results: [{ vote_count: 1 }], meta: { changes: 1 } };
             });
 
             await addVote(mockDb, 'preset-123', 'user-456');
 
-            // Should have INSERT vote and UPDATE preset with vote_count + 1
-            expect(mockDb._queries.some((q) => q.includes('INSERT INTO votes'))).toBe(true);
-            expect(mockDb._queries.some((q) => q.includes('vote_count + 1'))).toBe(true);
+            const insert = mockDb._queries.findIndex((q) => q.includes('INSERT INTO votes'));
+            const update = mockDb._queries.findIndex((q) => q.includes('UPDATE presets'));
+            expect(insert).toBeGreaterThanOrEqual(0);
+            expect(update).toBeGreaterThan(insert);
+            expect(mockDb._queries[update]).toContain('SET vote_count = (SELECT COUNT(*) FROM votes');
         });
 
-        it('should use batch operations for vote remove', async () => {
+        it('should delete the vote and recount in one batch', async () => {
             mockDb._setupMock((query) => {
-                if (query.includes('SELECT 1 FROM votes')) {
-                    return { 1: 1 };
-                }
-                if (query.includes('vote_count FROM presets')) {
-                    return { vote_count: 4 };
+                if (query.includes('DELETE FROM votes')) {
+                    return { success: true, meta: { changes: 1 } };
                 }
-                return { success: true };
+                return { success: true, results: [{ vote_count: 0 }], meta: { changes: 1 } };
             });
 
             await removeVote(mockDb, 'preset-123', 'user-456');
 
-            // Should have DELETE vote and UPDATE preset with vote_count - 1
-            expect(mockDb._queries.some((q) => q.includes('DELETE FROM votes'))).toBe(true);
-            expect(mockDb._queries.some((q) => q.includes('vote_count - 1'))).toBe(true);
+            const del = mockDb._queries.findIndex((q) => q.includes('DELETE FROM votes'));
+            const update = mockDb._queries.findIndex((q) => q.includes('UPDATE presets'));
+            expect(del).toBeGreaterThanOrEqual(0);
+            expect(update).toBeGreaterThan(del);
+            expect(mockDb._queries[update]).toContain('SET vote_count = (SELECT COUNT(*) FROM votes');
         });
 
-        it('should use MAX(0, vote_count - 1) to prevent negative votes', async () => {
-            mockDb._setupMock((query) => {
-                if (query.includes('SELECT 1 FROM votes')) {
-                    return { 1: 1 };
-                }
-                if (query.includes('vote_count FROM presets')) {
-                    return { vote_count: 0 };
-                }
-                return { success: true };
-            });
+        it('should never increment or decrement vote_count blindly', async () => {
+            mockDb._setupMock(() => ({ success: true, results: [], meta: { changes: 1 } }));
 
+            await addVote(mockDb, 'preset-123', 'user-456');
             await removeVote(mockDb, 'preset-123', 'user-456');
 
-            expect(mockDb._queries.some((q) => q.includes('MAX(0, vote_count - 1)'))).toBe(true);
+            expect(mockDb._queries.some((q) => q.includes('vote_count + 1'))).toBe(false);
+            expect(mockDb._queries.some((q) => q.includes('vote_count - 1'))).toBe(false);
         });
     });
 });
@@ -4,9 +4,9 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import app from '../src/index';
+import worker, { app } from '../src/index';
 import type { Env } from '../src/types';
-import { createMockEnv } from './test-utils';
+import { createMockEnv, createMockD1Database } from './test-utils';
 
 describe('Index/App', () => {
     let env: Env;
@@ -453,4 +453,71 @@ describe('Index/App', () => {
             expect([200, 500]).toContain(res.status);
         });
     });
+
+    // ============================================
+    // Scheduled Handler
+    // ============================================
+
+    describe('Scheduled Handler', () => {
+        it('should refresh trending scores every 15 minutes', async () => {
+            const mockDb = env.DB as unknown as ReturnType<typeof createMockD1Database>;
+            mockDb._setupMock(() => []);
+            const waitUntil = vi.fn();
+
+            await worker.scheduled(
+                { cron: '*/15 * * * *', scheduledTime: Date.now() } as ScheduledController,
+                env,
+                { waitUntil, passThroughOnException: vi.fn() } as unknown as ExecutionContext
+            );
+            await Promise.all(waitUntil.mock.calls.map(([promise]) => promise));
+
+            expect(waitUntil).toHaveBeenCalledTimes(1);
+            expect(mockDb._queries.some((q) => q.includes('SET trending_score'))).toBe(true);
+        });
+
+        it('should deliver outbox notifications every 5 minutes', async () => {
+            const mockDb = env.DB as unknown as ReturnType<typeof createMockD1Database>;
+            mockDb._setupMock(() => []);
+            const waitUntil = vi.fn();
+
+            await worker.scheduled(
+                { cron: '*/5 * * * *', scheduledTime: Date.now() } as ScheduledController,
+                { ...env, DISCORD_WORKER: { fetch: vi.fn() } as unknown as Fetcher, INTERNAL_WEBHOOK_SECRET: 'secret' },
+                { waitUntil, passThroughOnException: vi.fn() } as unknown as ExecutionContext
+            );
+            await Promise.all(waitUntil.mock.calls.map(([promise]) => promise));
+
+            expect(mockDb._queries.some((q) => q.includes('FROM notification_outbox'))).toBe(true);
+        });
+
+        it('should run the daily maintenance jobs', async () => {
+            const mockDb = env.DB as unknown as ReturnType<typeof createMockD1Database>;
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+            const waitUntil = vi.fn();
+
+            await worker.scheduled(
+                { cron: '0 4 * * *', scheduledTime: Date.now() } as ScheduledController,
+                env,
+                { waitUntil, passThroughOnException: vi.fn() } as unknown as ExecutionContext
+            );
+            await Promise.all(waitUntil.mock.calls.map(([promise]) => promise));
+
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM rate_limits'))).toBe(true);
+            expect(mockDb._queries.some((q) => q.includes('SET vote_count'))).toBe(true);
+            expect(mockDb._queries.some((q) => q.includes("SET status = 'rejected'"))).toBe(true);
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM notification_outbox'))).toBe(true);
+        });
+
+        it('should do nothing for an unknown cron expression', async () => {
+            const waitUntil = vi.fn();
+
+            await worker.scheduled(
+                { cron: '* * * * *', scheduledTime: Date.now() } as ScheduledController,
+                env,
+                { waitUntil, passThroughOnException: vi.fn() } as unknown as ExecutionContext
+            );
+
+            expect(waitUntil).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -7,11 +7,13 @@ import { Hono } from 'hono';
 import {
     authMiddleware,
     requireAuth,
-    requireModerator,
+    requirePermission,
     requireUserContext,
+    hasPermission,
+    getBootstrapRole,
 } from '../../src/middleware/auth';
 import type { Env, AuthContext } from '../../src/types';
-import { createMockEnv, createTestJWT, createExpiredJWT } from '../test-utils';
+import { createMockEnv, createMockD1Database, createTestJWT, createExpiredJWT } from '../test-utils';
 
 type Variables = {
     auth: AuthContext;
@@ -40,12 +42,19 @@ describe('AuthMiddleware', () => {
         });
 
         // Moderator route
-        app.get('/test/moderator', (c) => {
-            const modError = requireModerator(c);
+        app.get('/test/moderator', async (c) => {
+            const modError = await requirePermission(c, 'moderate');
             if (modError) return modError;
             return c.json({ success: true });
         });
 
+        // Owner route
+        app.get('/test/owner', async (c) => {
+            const ownerError = await requirePermission(c, 'manage_roles');
+            if (ownerError) return ownerError;
+            return c.json({ success: true, role: c.get('auth').role });
+        });
+
         // User context route
         app.get('/test/user-context', (c) => {
             const userError = requireUserContext(c);
@@ -409,10 +418,10 @@ describe('AuthMiddleware', () => {
     });
 
     // ============================================
-    // requireModerator
+    // requirePermission
     // ============================================
 
-    describe('requireModerator', () => {
+    describe('requirePermission', () => {
         it('should allow moderator requests', async () => {
             const res = await app.request(
                 '/test/moderator',
@@ -452,6 +461,105 @@ describe('AuthMiddleware', () => {
         });
     });
 
+    // ============================================
+    // Staff Roles
+    // ============================================
+
+    describe('Staff Roles', () => {
+        const staffHeaders = (discordId: string) => ({
+            headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': discordId },
+        });
+
+        it('should treat OWNER_DISCORD_ID as owner and MODERATOR_IDS as moderators', () => {
+            const ownerEnv = createMockEnv({ OWNER_DISCORD_ID: '555' });
+
+            expect(getBootstrapRole('555', ownerEnv)).toBe('owner');
+            expect(getBootstrapRole('123456789', ownerEnv)).toBe('moderator');
+            expect(getBootstrapRole('999', ownerEnv)).toBeNull();
+            expect(getBootstrapRole(undefined, ownerEnv)).toBeNull();
+        });
+
+        it('should set bootstrap roles without reading staff_roles', async () => {
+            const db = createMockD1Database();
+            const res = await app.request('/test/auth', staffHeaders('123456789'), createMockEnv({ DB: db as unknown as D1Database }));
+            const body = await res.json() as AuthContext;
+
+            expect(body.role).toBe('moderator');
+            expect(body.isModerator).toBe(true);
+            expect(db._queries).toHaveLength(0);
+        });
+
+        it('should read roles from staff_roles on the first permission check', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ role: 'moderator' }));
+            const dbEnv = createMockEnv({ DB: db as unknown as D1Database });
+
+            const res = await app.request('/test/moderator', staffHeaders('222'), dbEnv);
+
+            expect(res.status).toBe(200);
+            expect(db._queries[0]).toContain('FROM staff_roles');
+            expect(db._bindings[0]).toEqual(['222']);
+        });
+
+        it('should deny permissions a role does not grant', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ role: 'curator' }));
+            const dbEnv = createMockEnv({ DB: db as unknown as D1Database });
+
+            expect((await app.request('/test/moderator', staffHeaders('222'), dbEnv)).status).toBe(403);
+
+            const res = await app.request('/test/owner', staffHeaders('123456789'), dbEnv);
+            expect(res.status).toBe(403);
+            const body = await res.json() as { message: string };
+            expect(body.message).toBe('Owner privileges required');
+        });
+
+        it('should allow owners to manage roles', async () => {
+            const res = await app.request('/test/owner', staffHeaders('555'), createMockEnv({ OWNER_DISCORD_ID: '555' }));
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { role: string };
+            expect(body.role).toBe('owner');
+        });
+
+        it('should ignore unknown roles', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ role: 'superuser' }));
+
+            const res = await app.request('/test/moderator', staffHeaders('222'), createMockEnv({ DB: db as unknown as D1Database }));
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should fail closed when the lookup fails', async () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            const db = createMockD1Database();
+            db._setupMock(() => {
+                throw new Error('no such table: staff_roles');
+            });
+
+            const res = await app.request('/test/moderator', staffHeaders('222'), createMockEnv({ DB: db as unknown as D1Database }));
+
+            expect(res.status).toBe(403);
+            expect(console.error).toHaveBeenCalled();
+        });
+
+        it('should look up the role once per request', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ role: 'moderator' }));
+            app.get('/test/twice', async (c) => {
+                const first = await hasPermission(c, 'review');
+                const second = await hasPermission(c, 'operate');
+                return c.json({ first, second });
+            });
+
+            const res = await app.request('/test/twice', staffHeaders('222'), createMockEnv({ DB: db as unknown as D1Database }));
+
+            expect(await res.json()).toEqual({ first: true, second: false });
+            expect(db._queries).toHaveLength(1);
+        });
+    });
+
     // ============================================
     // requireUserContext
     // ============================================
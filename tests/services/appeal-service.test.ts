@@ -0,0 +1,171 @@
+/**
+ * Appeal Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    rowToAppeal,
+    getUserAppeals,
+    getAppealQueue,
+    submitAppeal,
+    resolveAppeal,
+} from '../../src/services/appeal-service';
+import type { AppealRow } from '../../src/types';
+import { createMockD1Database } from '../test-utils';
+
+function createAppealRow(overrides: Partial<AppealRow> = {}): AppealRow {
+    return {
+        id: 'appeal-1',
+        appellant_discord_id: 'user-1',
+        preset_id: 'preset-1',
+        ban_id: null,
+        message: 'The name is a lore reference, not an insult',
+        status: 'open',
+        created_at: '2026-01-01T00:00:00.000Z',
+        resolved_at: null,
+        resolved_by_discord_id: null,
+        resolution_note: null,
+        ...overrides,
+    };
+}
+
+describe('AppealService', () => {
+    let db: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        db = createMockD1Database();
+        vi.clearAllMocks();
+    });
+
+    describe('rowToAppeal', () => {
+        it('should derive the target type', () => {
+            expect(rowToAppeal(createAppealRow()).target_type).toBe('preset');
+            expect(rowToAppeal(createAppealRow({ preset_id: null, ban_id: 'ban-1' })).target_type).toBe('ban');
+        });
+    });
+
+    describe('getUserAppeals', () => {
+        it('should return the appellant\'s appeals', async () => {
+            db._setupMock(() => [createAppealRow()]);
+
+            const appeals = await getUserAppeals(db as unknown as D1Database, 'user-1');
+
+            expect(appeals).toHaveLength(1);
+            expect(db._bindings[0]).toEqual(['user-1']);
+        });
+    });
+
+    describe('getAppealQueue', () => {
+        it('should list open appeals oldest first', async () => {
+            db._setupMock(() => [{ ...createAppealRow(), _total: 1 }]);
+
+            const queue = await getAppealQueue(db as unknown as D1Database);
+
+            expect(queue.total).toBe(1);
+            expect(queue.appeals[0].id).toBe('appeal-1');
+            expect(db._queries[0]).toContain('ORDER BY created_at ASC');
+            expect(db._bindings[0]).toEqual(['open', 20, 0]);
+        });
+
+        it('should list closed appeals newest first', async () => {
+            db._setupMock(() => []);
+
+            const queue = await getAppealQueue(db as unknown as D1Database, { status: 'denied', page: 2, limit: 10 });
+
+            expect(queue).toEqual({ appeals: [], total: 0, page: 2, limit: 10, has_more: false });
+            expect(db._queries[0]).toContain('ORDER BY created_at DESC');
+            expect(db._bindings[0]).toEqual(['denied', 10, 10]);
+        });
+    });
+
+    describe('submitAppeal', () => {
+        it('should open an appeal against a preset', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const appeal = await submitAppeal(db as unknown as D1Database, 'user-1', { preset_id: 'preset-1' }, 'Please take another look');
+
+            expect(appeal).toMatchObject({ target_type: 'preset', preset_id: 'preset-1', ban_id: null, status: 'open' });
+            expect(db._queries[0]).toContain('ON CONFLICT DO NOTHING');
+            expect(db._bindings[0].slice(1, 5)).toEqual(['user-1', 'preset-1', null, 'Please take another look']);
+        });
+
+        it('should open an appeal against a ban', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const appeal = await submitAppeal(db as unknown as D1Database, 'user-1', { ban_id: 'ban-1' }, 'I misread the rules');
+
+            expect(appeal).toMatchObject({ target_type: 'ban', preset_id: null, ban_id: 'ban-1' });
+        });
+
+        it('should return null when an appeal is already open', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            expect(await submitAppeal(db as unknown as D1Database, 'user-1', { preset_id: 'preset-1' }, 'Please take another look')).toBeNull();
+        });
+    });
+
+    describe('resolveAppeal', () => {
+        it('should deny and log the decision only', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const result = await resolveAppeal(db as unknown as D1Database, rowToAppeal(createAppealRow()), 'denied', '123456789', 'Still offensive');
+
+            expect(result?.appeal).toMatchObject({ status: 'denied', resolution_note: 'Still offensive' });
+            expect(result?.affected_presets).toBe(0);
+            expect(db._queries).toHaveLength(2);
+            expect(db._queries[0]).toContain("WHERE id = ? AND status = 'open'");
+            expect(db._bindings[1].slice(0, 3)).toEqual(['123456789', 'appeal_denied', 'Still offensive']);
+        });
+
+        it('should approve a rejected preset when granted', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const result = await resolveAppeal(db as unknown as D1Database, rowToAppeal(createAppealRow()), 'granted', '123456789', null);
+
+            expect(result?.affected_presets).toBe(1);
+            expect(db._bindings[1][1]).toBe('appeal_granted');
+            const approveLog = db._queries.findIndex((q) => q.includes("'approve'"));
+            const update = db._queries.findIndex((q) => q.includes("SET status = 'approved'"));
+            expect(approveLog).toBeGreaterThan(1);
+            expect(update).toBeGreaterThan(approveLog);
+            // Only a preset that is still rejected, and only if this call closed the appeal
+            expect(db._queries[update]).toContain("status = 'rejected'");
+            expect(db._queries[update]).toContain('FROM appeals');
+        });
+
+        it('should queue the author notification only for an approval it made', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            await resolveAppeal(db as unknown as D1Database, rowToAppeal(createAppealRow()), 'granted', '123456789', null, {
+                path: '/webhooks/preset-moderation',
+                payload: { event: 'approved' },
+                preset_id: 'preset-1',
+            });
+
+            const approveLog = db._queries.findIndex((q) => q.includes("'approve'"));
+            const outbox = db._queries.findIndex((q) => q.includes('INSERT INTO notification_outbox'));
+            expect(outbox).toBe(db._queries.length - 1);
+            expect(db._queries[outbox]).toContain('WHERE EXISTS (SELECT 1 FROM moderation_log WHERE id = ?)');
+            expect(db._bindings[outbox][6]).toBe(db._bindings[approveLog][0]);
+        });
+
+        it('should lift the ban when a ban appeal is granted', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 3 } }));
+
+            const appeal = rowToAppeal(createAppealRow({ preset_id: null, ban_id: 'ban-1' }));
+            const result = await resolveAppeal(db as unknown as D1Database, appeal, 'granted', '123456789', 'Fair point');
+
+            expect(result?.affected_presets).toBe(3);
+            const lift = db._queries.findIndex((q) => q.includes('UPDATE banned_users'));
+            expect(lift).toBeGreaterThan(1);
+            expect(db._queries[lift]).toContain('FROM appeals');
+            expect(db._queries.some((q) => q.includes("'unhide'"))).toBe(true);
+        });
+
+        it('should return null when the appeal was already resolved', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            expect(await resolveAppeal(db as unknown as D1Database, rowToAppeal(createAppealRow()), 'granted', '123456789', null)).toBeNull();
+        });
+    });
+});
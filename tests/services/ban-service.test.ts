@@ -0,0 +1,216 @@
+/**
+ * Ban Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    rowToBan,
+    getActiveBan,
+    getActiveBans,
+    getBanHistory,
+    banUser,
+    unbanUser,
+    buildUnbanStatements,
+} from '../../src/services/ban-service';
+import type { BannedUserRow } from '../../src/types';
+import { createMockD1Database } from '../test-utils';
+
+function createBanRow(overrides: Partial<BannedUserRow> = {}): BannedUserRow {
+    return {
+        id: 'ban-1',
+        discord_id: '111111111111111111',
+        xivauth_id: null,
+        username: 'Spammer',
+        moderator_discord_id: '123456789',
+        reason: 'Repeated spam submissions',
+        banned_at: '2026-01-01T00:00:00.000Z',
+        unbanned_at: null,
+        unban_moderator_discord_id: null,
+        ...overrides,
+    };
+}
+
+describe('BanService', () => {
+    let db: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        db = createMockD1Database();
+        vi.clearAllMocks();
+    });
+
+    describe('rowToBan', () => {
+        it('should mark bans without unbanned_at as active', () => {
+            expect(rowToBan(createBanRow()).is_active).toBe(true);
+            expect(rowToBan(createBanRow({ unbanned_at: '2026-02-01T00:00:00.000Z' })).is_active).toBe(false);
+        });
+    });
+
+    describe('getActiveBan', () => {
+        it('should only look at unlifted bans', async () => {
+            db._setupMock(() => createBanRow());
+
+            const ban = await getActiveBan(db, '111111111111111111');
+
+            expect(ban?.id).toBe('ban-1');
+            expect(db._queries[0]).toContain('unbanned_at IS NULL');
+            expect(db._bindings[0]).toEqual(['111111111111111111']);
+        });
+
+        it('should return null when not banned', async () => {
+            db._setupMock(() => null);
+
+            expect(await getActiveBan(db, '111111111111111111')).toBeNull();
+        });
+    });
+
+    describe('getActiveBans', () => {
+        it('should paginate active bans', async () => {
+            db._setupMock(() => [{ ...createBanRow(), _total: 3 }]);
+
+            const result = await getActiveBans(db, { page: 2, limit: 1 });
+
+            expect(result.bans).toHaveLength(1);
+            expect(result.total).toBe(3);
+            expect(result.has_more).toBe(true);
+            expect(db._bindings[0]).toEqual([1, 1]);
+        });
+    });
+
+    describe('getBanHistory', () => {
+        it('should return active and lifted bans', async () => {
+            db._setupMock(() => [
+                createBanRow({ id: 'ban-2' }),
+                createBanRow({ id: 'ban-1', unbanned_at: '2025-12-01T00:00:00.000Z' }),
+            ]);
+
+            const history = await getBanHistory(db, '111111111111111111');
+
+            expect(history.map((ban) => ban.is_active)).toEqual([true, false]);
+            expect(db._queries[0]).toContain('ORDER BY banned_at DESC');
+        });
+    });
+
+    describe('banUser', () => {
+        it('should record the ban, log and hide presets in one batch', async () => {
+            db._setupMock((query: string) => {
+                if (query.includes('SELECT * FROM banned_users WHERE id = ?')) {
+                    return createBanRow();
+                }
+                return { success: true, meta: { changes: 2 } };
+            });
+
+            const result = await banUser(
+                db,
+                { discord_id: '111111111111111111', reason: 'Repeated spam submissions' },
+                '123456789'
+            );
+
+            expect(result.ban.id).toBe('ban-1');
+            expect(result.affected_presets).toBe(2);
+
+            const insertBan = db._queries.findIndex((q) => q.includes('INSERT INTO banned_users'));
+            const remember = db._queries.findIndex((q) => q.includes('INSERT INTO ban_hidden_presets'));
+            const log = db._queries.findIndex((q) => q.includes('INSERT INTO moderation_log') && q.includes("'hide'"));
+            const hide = db._queries.findIndex((q) => q.includes("SET status = 'hidden'"));
+            expect(insertBan).toBeGreaterThanOrEqual(0);
+            expect(remember).toBeGreaterThan(insertBan);
+            expect(log).toBeGreaterThan(remember);
+            expect(hide).toBeGreaterThan(log);
+            expect(db._queries[remember]).toContain("status != 'hidden'");
+            expect(db._bindings[log][1]).toBe('User banned: Repeated spam submissions');
+        });
+
+        it('should log the ban itself against the banned user', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            await banUser(db, { discord_id: '111111111111111111', reason: 'Repeated spam submissions' }, '123456789');
+
+            const banLog = db._queries.findIndex((q) => q.includes("'ban'"));
+            expect(db._queries[banLog]).toContain('INSERT INTO moderation_log');
+            expect(db._bindings[banLog]).toEqual([
+                expect.any(String),
+                '111111111111111111',
+                '123456789',
+                'Repeated spam submissions',
+                expect.any(String),
+            ]);
+        });
+
+        it('should fall back to the author name when no username is given', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            await banUser(db, { discord_id: '111111111111111111', reason: 'Repeated spam submissions' }, '123456789');
+
+            const insertBan = db._queries.findIndex((q) => q.includes('INSERT INTO banned_users'));
+            expect(db._queries[insertBan]).toContain('COALESCE(?, (');
+            expect(db._bindings[insertBan][2]).toBeNull();
+        });
+    });
+
+    describe('unbanUser', () => {
+        it('should return null when there is no active ban', async () => {
+            db._setupMock(() => null);
+
+            expect(await unbanUser(db, '111111111111111111', '123456789')).toBeNull();
+            expect(db._queries.some((q) => q.includes('UPDATE banned_users'))).toBe(false);
+        });
+
+        it('should lift the ban and restore previous statuses', async () => {
+            db._setupMock((query: string) => {
+                if (query.includes('SELECT * FROM banned_users')) {
+                    return createBanRow();
+                }
+                return { success: true, meta: { changes: 2 } };
+            });
+
+            const result = await unbanUser(db, '111111111111111111', '987654321');
+
+            expect(result?.affected_presets).toBe(2);
+            const lift = db._queries.findIndex((q) => q.includes('UPDATE banned_users'));
+            const log = db._queries.findIndex((q) => q.includes("'unhide'"));
+            const restore = db._queries.findIndex((q) => q.includes('SELECT previous_status FROM ban_hidden_presets'));
+            expect(lift).toBeGreaterThanOrEqual(0);
+            expect(log).toBeGreaterThan(lift);
+            expect(restore).toBeGreaterThan(log);
+            expect(db._bindings[lift].slice(1)).toEqual(['987654321', 'ban-1']);
+            // Presets a moderator changed during the ban are left alone
+            expect(db._queries[restore]).toContain("presets.status = 'hidden'");
+            // Presets going back to pending restart their queue time
+            expect(db._queries[restore]).toContain('pending_since = CASE WHEN');
+            // The unban itself is logged against the user, only if this lift applied
+            const unbanLog = db._queries.findIndex((q) => q.includes("'unban'"));
+            expect(unbanLog).toBeGreaterThan(lift);
+            expect(db._queries[unbanLog]).toContain('SELECT lower(hex(randomblob(16))), NULL, discord_id');
+            expect(db._queries[unbanLog]).toContain('FROM banned_users WHERE id = ? AND unbanned_at = ?');
+        });
+
+        it('should return null when the ban was lifted concurrently', async () => {
+            db._setupMock((query: string) => {
+                if (query.includes('SELECT * FROM banned_users')) {
+                    return createBanRow();
+                }
+                return { success: true, meta: { changes: 0 } };
+            });
+
+            expect(await unbanUser(db, '111111111111111111', '987654321')).toBeNull();
+        });
+    });
+
+    describe('buildUnbanStatements', () => {
+        it('should add an extra condition to the lift only', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            await db.batch(
+                buildUnbanStatements(db, 'ban-1', '987654321', '2026-02-01T00:00:00.000Z', {
+                    sql: 'EXISTS (SELECT 1 FROM appeals WHERE id = ?)',
+                    bindings: ['appeal-1'],
+                })
+            );
+
+            expect(db._queries[0]).toContain('unbanned_at IS NULL AND EXISTS (SELECT 1 FROM appeals WHERE id = ?)');
+            expect(db._bindings[0]).toEqual(['2026-02-01T00:00:00.000Z', '987654321', 'ban-1', 'appeal-1']);
+            expect(db._queries).toHaveLength(4);
+            expect(db._queries.slice(1).some((q) => q.includes('appeals'))).toBe(false);
+        });
+    });
+});
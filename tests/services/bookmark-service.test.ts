@@ -0,0 +1,119 @@
+/**
+ * Bookmark Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    addBookmark,
+    removeBookmark,
+    getBookmarkedPresets,
+    getBookmarkStatuses,
+} from '../../src/services/bookmark-service';
+import { createMockD1Database, createMockPresetRow, resetCounters } from '../test-utils';
+
+describe('BookmarkService', () => {
+    beforeEach(() => {
+        resetCounters();
+        vi.clearAllMocks();
+    });
+
+    describe('addBookmark', () => {
+        it('should return true when the bookmark is inserted', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const result = await addBookmark(db, '123', 'preset-1');
+
+            expect(result).toBe(true);
+            expect(db._queries[0]).toContain('INSERT INTO bookmarks');
+            expect(db._queries[0]).toContain('ON CONFLICT DO NOTHING');
+            expect(db._bindings[0].slice(0, 2)).toEqual(['123', 'preset-1']);
+        });
+
+        it('should return false when already bookmarked', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            expect(await addBookmark(db, '123', 'preset-1')).toBe(false);
+        });
+
+        it('should never touch votes or vote_count', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            await addBookmark(db, '123', 'preset-1');
+
+            expect(db._queries.some((q) => q.includes('votes') || q.includes('vote_count'))).toBe(false);
+        });
+    });
+
+    describe('removeBookmark', () => {
+        it('should report whether a bookmark was removed', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            expect(await removeBookmark(db, '123', 'preset-1')).toBe(true);
+            expect(db._bindings[0]).toEqual(['123', 'preset-1']);
+        });
+
+        it('should return false if nothing was bookmarked', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            expect(await removeBookmark(db, '123', 'preset-1')).toBe(false);
+        });
+    });
+
+    describe('getBookmarkedPresets', () => {
+        it('should return approved presets with bookmark time and pagination', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [
+                { ...createMockPresetRow({ id: 'p1' }), bookmarked_at: '2025-02-01T00:00:00.000Z', _total: 3 },
+                { ...createMockPresetRow({ id: 'p2' }), bookmarked_at: '2025-01-01T00:00:00.000Z', _total: 3 },
+            ]);
+
+            const result = await getBookmarkedPresets(db, '123', { limit: 2 });
+
+            expect(result.presets.map((preset) => preset.id)).toEqual(['p1', 'p2']);
+            expect(result.presets[0].bookmarked_at).toBe('2025-02-01T00:00:00.000Z');
+            expect(result.total).toBe(3);
+            expect(result.has_more).toBe(true);
+            expect(db._queries[0]).toContain("p.status = 'approved'");
+            expect(db._queries[0]).toContain('ORDER BY b.created_at DESC');
+            expect(db._bindings[0]).toEqual(['123', 2, 0]);
+        });
+
+        it('should handle an empty list', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            const result = await getBookmarkedPresets(db, '123');
+
+            expect(result.presets).toEqual([]);
+            expect(result.total).toBe(0);
+            expect(result.has_more).toBe(false);
+        });
+    });
+
+    describe('getBookmarkStatuses', () => {
+        it('should map every requested ID to its bookmark state', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [{ preset_id: 'p2' }]);
+
+            const result = await getBookmarkStatuses(db, '123', ['p1', 'p2', 'p3']);
+
+            expect(result).toEqual({ p1: false, p2: true, p3: false });
+            expect(db._queries[0]).toContain('preset_id IN (?, ?, ?)');
+            expect(db._bindings[0]).toEqual(['123', 'p1', 'p2', 'p3']);
+        });
+
+        it('should not query for an empty list', async () => {
+            const db = createMockD1Database();
+
+            const result = await getBookmarkStatuses(db, '123', []);
+
+            expect(result).toEqual({});
+            expect(db._queries).toHaveLength(0);
+        });
+    });
+});
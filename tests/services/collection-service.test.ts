@@ -0,0 +1,317 @@
+/**
+ * Collection Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    rowToCollection,
+    getCollectionById,
+    getCollectionsByOwner,
+    getPublicCollections,
+    countCollectionsByOwner,
+    createCollection,
+    updateCollection,
+    deleteCollection,
+    getCollectionPresets,
+    getCollectionItemIds,
+    addCollectionItem,
+    removeCollectionItem,
+    reorderCollectionItems,
+} from '../../src/services/collection-service';
+import type { CollectionRow } from '../../src/types';
+import { createMockD1Database, createMockPresetRow, resetCounters } from '../test-utils';
+
+function createMockCollectionRow(overrides: Partial<CollectionRow> = {}): CollectionRow {
+    return {
+        id: 'collection-1',
+        owner_discord_id: '123',
+        owner_name: 'Collector',
+        name: 'Favorites',
+        description: 'My favorite palettes',
+        is_public: 1,
+        held_for_review: 0,
+        created_at: '2025-01-01T00:00:00.000Z',
+        updated_at: '2025-01-02T00:00:00.000Z',
+        item_count: 2,
+        ...overrides,
+    };
+}
+
+describe('CollectionService', () => {
+    beforeEach(() => {
+        resetCounters();
+        vi.clearAllMocks();
+    });
+
+    // ============================================
+    // rowToCollection
+    // ============================================
+
+    describe('rowToCollection', () => {
+        it('should convert SQLite booleans and default the item count', () => {
+            const collection = rowToCollection(
+                createMockCollectionRow({ is_public: 0, item_count: undefined })
+            );
+
+            expect(collection.is_public).toBe(false);
+            expect(collection.item_count).toBe(0);
+            expect(collection.name).toBe('Favorites');
+        });
+    });
+
+    // ============================================
+    // Queries
+    // ============================================
+
+    describe('getCollectionById', () => {
+        it('should return the collection with its visible item count', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => createMockCollectionRow());
+
+            const result = await getCollectionById(db, 'collection-1');
+
+            expect(result?.id).toBe('collection-1');
+            expect(result?.is_public).toBe(true);
+            expect(result?.item_count).toBe(2);
+            expect(db._queries[0]).toContain("p.status = 'approved'");
+            expect(db._bindings[0]).toEqual(['collection-1']);
+        });
+
+        it('should return null if not found', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => null);
+
+            expect(await getCollectionById(db, 'missing')).toBeNull();
+        });
+    });
+
+    describe('getCollectionsByOwner', () => {
+        it('should return all of the owner\'s collections', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [
+                createMockCollectionRow({ id: 'a' }),
+                createMockCollectionRow({ id: 'b', is_public: 0 }),
+            ]);
+
+            const result = await getCollectionsByOwner(db, '123');
+
+            expect(result.map((collection) => collection.id)).toEqual(['a', 'b']);
+            expect(db._queries[0]).toContain('c.owner_discord_id = ?');
+            expect(db._queries[0]).not.toContain('is_public = 1');
+            expect(db._bindings[0]).toEqual(['123']);
+        });
+    });
+
+    describe('getPublicCollections', () => {
+        it('should only list public collections with pagination', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [
+                { ...createMockCollectionRow({ id: 'a' }), _total: 3 },
+                { ...createMockCollectionRow({ id: 'b' }), _total: 3 },
+            ]);
+
+            const result = await getPublicCollections(db, { page: 1, limit: 2 });
+
+            expect(result.collections).toHaveLength(2);
+            expect(result.total).toBe(3);
+            expect(result.has_more).toBe(true);
+            expect(db._queries[0]).toContain('c.is_public = 1');
+            expect(db._queries[0]).toContain('c.held_for_review = 0');
+            expect(db._bindings[0]).toEqual([2, 0]);
+        });
+
+        it('should filter by owner', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            const result = await getPublicCollections(db, { owner: '456', page: 2 });
+
+            expect(result.total).toBe(0);
+            expect(result.has_more).toBe(false);
+            expect(db._queries[0]).toContain('c.owner_discord_id = ?');
+            expect(db._bindings[0]).toEqual(['456', 20, 20]);
+        });
+    });
+
+    describe('countCollectionsByOwner', () => {
+        it('should return the count', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ count: 7 }));
+
+            expect(await countCollectionsByOwner(db, '123')).toBe(7);
+        });
+    });
+
+    // ============================================
+    // Mutations
+    // ============================================
+
+    describe('createCollection', () => {
+        it('should insert and return the new collection', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true }));
+
+            const result = await createCollection(
+                db,
+                { name: 'Glamours', description: '', is_public: true },
+                '123',
+                'Collector'
+            );
+
+            expect(result.name).toBe('Glamours');
+            expect(result.description).toBeNull();
+            expect(result.is_public).toBe(true);
+            expect(result.item_count).toBe(0);
+            expect(db._queries[0]).toContain('INSERT INTO collections');
+            expect(db._bindings[0].slice(1, 6)).toEqual(['123', 'Collector', 'Glamours', null, 1]);
+        });
+
+        it('should default to private', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true }));
+
+            const result = await createCollection(db, { name: 'Secret' }, '123', 'Collector');
+
+            expect(result.is_public).toBe(false);
+            expect(db._bindings[0][5]).toBe(0);
+        });
+
+        it('should hold the collection for review when asked', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true }));
+
+            const result = await createCollection(db, { name: 'Cheap gil', is_public: true }, '123', 'Collector', true);
+
+            expect(result.held_for_review).toBe(true);
+            expect(db._bindings[0][6]).toBe(1);
+        });
+    });
+
+    describe('updateCollection', () => {
+        it('should only update provided fields', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query: string) =>
+                query.includes('UPDATE') ? { success: true } : createMockCollectionRow({ is_public: 0 })
+            );
+
+            const result = await updateCollection(db, 'collection-1', { is_public: false });
+
+            expect(result?.is_public).toBe(false);
+            expect(db._queries[0]).toContain('is_public = ?');
+            expect(db._queries[0]).not.toContain('name = ?');
+            expect(db._bindings[0].slice(1)).toEqual([0, 'collection-1']);
+        });
+
+        it('should set the review hold when the text was re-moderated', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query: string) =>
+                query.includes('UPDATE') ? { success: true } : createMockCollectionRow()
+            );
+
+            await updateCollection(db, 'collection-1', { name: 'Renamed' }, false);
+
+            expect(db._queries[0]).toContain('held_for_review = ?');
+            expect(db._bindings[0].slice(1)).toEqual(['Renamed', 0, 'collection-1']);
+        });
+    });
+
+    describe('deleteCollection', () => {
+        it('should delete items and the collection together', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true }));
+
+            await deleteCollection(db, 'collection-1');
+
+            expect(db._queries.some((q) => q.includes('DELETE FROM collection_items WHERE collection_id = ?'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('DELETE FROM collections WHERE id = ?'))).toBe(true);
+        });
+    });
+
+    // ============================================
+    // Items
+    // ============================================
+
+    describe('getCollectionPresets', () => {
+        it('should only return approved presets in position order', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [
+                createMockPresetRow({ id: 'p1' }),
+                createMockPresetRow({ id: 'p2' }),
+            ]);
+
+            const result = await getCollectionPresets(db, 'collection-1');
+
+            expect(result.map((preset) => preset.id)).toEqual(['p1', 'p2']);
+            expect(db._queries[0]).toContain("p.status = 'approved'");
+            expect(db._queries[0]).toContain('ORDER BY ci.position ASC');
+        });
+    });
+
+    describe('getCollectionItemIds', () => {
+        it('should return every item ID regardless of preset status', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [{ preset_id: 'p2' }, { preset_id: 'p1' }]);
+
+            const result = await getCollectionItemIds(db, 'collection-1');
+
+            expect(result).toEqual(['p2', 'p1']);
+            expect(db._queries[0]).not.toContain('presets');
+        });
+    });
+
+    describe('addCollectionItem', () => {
+        it('should append after the last position', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true }));
+
+            await addCollectionItem(db, 'collection-1', 'p1');
+
+            const insert = db._queries.findIndex((q) => q.includes('INSERT OR IGNORE INTO collection_items'));
+            expect(insert).toBeGreaterThanOrEqual(0);
+            expect(db._queries[insert]).toContain('COALESCE(MAX(position), -1) + 1');
+            expect(db._bindings[insert][0]).toBe('collection-1');
+            expect(db._bindings[insert][1]).toBe('p1');
+            expect(db._queries.some((q) => q.includes('UPDATE collections SET updated_at'))).toBe(true);
+        });
+    });
+
+    describe('removeCollectionItem', () => {
+        it('should return true and touch the collection when removed', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const result = await removeCollectionItem(db, 'collection-1', 'p1');
+
+            expect(result).toBe(true);
+            expect(db._queries).toHaveLength(2);
+        });
+
+        it('should return false if the preset was not in the collection', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            const result = await removeCollectionItem(db, 'collection-1', 'p1');
+
+            expect(result).toBe(false);
+            expect(db._queries).toHaveLength(1);
+        });
+    });
+
+    describe('reorderCollectionItems', () => {
+        it('should write each position in the given order', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true }));
+
+            await reorderCollectionItems(db, 'collection-1', ['p3', 'p1', 'p2']);
+
+            const positions = db._queries
+                .map((q, i) => (q.includes('SET position = ?') ? db._bindings[i] : null))
+                .filter((b) => b !== null);
+            expect(positions).toEqual([
+                [0, 'collection-1', 'p3'],
+                [1, 'collection-1', 'p1'],
+                [2, 'collection-1', 'p2'],
+            ]);
+        });
+    });
+});
@@ -0,0 +1,326 @@
+/**
+ * Maintenance Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import type { Env } from '../../src/types';
+import {
+    MAINTENANCE_JOBS,
+    CRON_DAILY,
+    CRON_EVERY_5_MINUTES,
+    CRON_EVERY_15_MINUTES,
+    PENDING_EXPIRY_DAYS,
+    SYSTEM_MODERATOR_ID,
+    getMaintenanceJob,
+    getJobsForSchedule,
+    runMaintenanceJob,
+    runMaintenanceJobs,
+    type MaintenanceJob,
+} from '../../src/services/maintenance-service';
+import { DELIVERED_RETENTION_DAYS } from '../../src/services/notification-service';
+import { createMockEnv, createMockD1Database, createMockPresetRow } from '../test-utils';
+
+function createMockLogger(): ExtendedLogger {
+    const logger = {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+        child: vi.fn(),
+    };
+    logger.child.mockReturnValue(logger);
+    return logger as unknown as ExtendedLogger;
+}
+
+describe('MaintenanceService', () => {
+    const now = new Date('2026-03-31T04:00:00.000Z');
+    let db: ReturnType<typeof createMockD1Database>;
+    let logger: ExtendedLogger;
+
+    beforeEach(() => {
+        db = createMockD1Database();
+        logger = createMockLogger();
+        vi.clearAllMocks();
+    });
+
+    function runJob(name: string, overrides: Partial<Env> = {}) {
+        const env = createMockEnv({ DB: db as unknown as D1Database, ...overrides });
+        return runMaintenanceJob(getMaintenanceJob(name)!, env, logger, now);
+    }
+
+    // ============================================
+    // Registry
+    // ============================================
+
+    describe('registry', () => {
+        it('should have unique job names', () => {
+            const names = MAINTENANCE_JOBS.map((job) => job.name);
+            expect(new Set(names).size).toBe(names.length);
+        });
+
+        it('should only use configured cron schedules', () => {
+            for (const job of MAINTENANCE_JOBS) {
+                expect([CRON_EVERY_5_MINUTES, CRON_EVERY_15_MINUTES, CRON_DAILY]).toContain(job.schedule);
+            }
+        });
+
+        it('should select jobs by cron expression', () => {
+            expect(getJobsForSchedule(CRON_EVERY_15_MINUTES).map((job) => job.name)).toEqual([
+                'refresh-trending-scores',
+                'escalate-overdue-pending',
+            ]);
+            expect(getJobsForSchedule(CRON_EVERY_5_MINUTES).map((job) => job.name)).toEqual([
+                'deliver-notifications',
+            ]);
+            expect(getJobsForSchedule(CRON_DAILY).map((job) => job.name)).toEqual([
+                'cleanup-rate-limits',
+                'reconcile-vote-counts',
+                'expire-stale-pending',
+                'purge-delivered-notifications',
+                'cleanup-queue-claims',
+            ]);
+            expect(getJobsForSchedule('* * * * *')).toEqual([]);
+        });
+
+        it('should return undefined for unknown jobs', () => {
+            expect(getMaintenanceJob('nope')).toBeUndefined();
+        });
+    });
+
+    // ============================================
+    // Jobs
+    // ============================================
+
+    describe('cleanup-rate-limits', () => {
+        it('should delete expired rows', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 4 } }));
+
+            const run = await runJob('cleanup-rate-limits');
+
+            expect(run.success).toBe(true);
+            expect(run.affected).toBe(4);
+            expect(db._queries[0]).toContain('DELETE FROM rate_limits WHERE expires_at < datetime(?)');
+            expect(db._bindings[0]).toEqual([now.toISOString()]);
+        });
+    });
+
+    describe('reconcile-vote-counts', () => {
+        it('should only update presets whose count has drifted', async () => {
+            db._setupMock((query: string) => {
+                if (query.includes('COALESCE(v.actual_count, 0)')) {
+                    return [{ preset_id: 'p1', name: 'Drifted', stored_count: 5, actual_count: 3, _total: 2 }];
+                }
+                if (query.includes('NOT IN (SELECT id FROM presets)')) {
+                    return { count: 1 };
+                }
+                return { success: true, meta: { changes: 2 } };
+            });
+
+            const run = await runJob('reconcile-vote-counts');
+
+            expect(run.affected).toBe(2);
+            expect(run.details).toEqual({ mismatches: 2, orphaned_votes: 1 });
+            const update = db._queries.find((q) => q.includes('UPDATE presets'));
+            expect(update).toContain('SET vote_count = (SELECT COUNT(*) FROM votes');
+            expect(update).toContain('WHERE vote_count !=');
+        });
+    });
+
+    describe('expire-stale-pending', () => {
+        it('should log and reject stale pending presets in one batch', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const run = await runJob('expire-stale-pending');
+
+            expect(run.success).toBe(true);
+            const log = db._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            const update = db._queries.findIndex((q) => q.includes("SET status = 'rejected'"));
+            expect(log).toBeGreaterThanOrEqual(0);
+            expect(update).toBeGreaterThan(log);
+            expect(db._bindings[log][0]).toBe(SYSTEM_MODERATOR_ID);
+            const cutoff = new Date(now.getTime() - PENDING_EXPIRY_DAYS * 24 * 3600 * 1000).toISOString();
+            expect(db._bindings[log][3]).toBe(cutoff);
+            expect(db._bindings[update]).toEqual([now.toISOString(), cutoff]);
+            expect(db._queries[update]).toContain('julianday(pending_since) < julianday(?)');
+        });
+    });
+
+    describe('deliver-notifications', () => {
+        it('should report delivery outcomes', async () => {
+            const mockFetch = vi.fn().mockResolvedValue(new Response('ok', { status: 200 }));
+            db._setupMock((query: string) => {
+                if (query.includes('SELECT * FROM notification_outbox')) {
+                    return [{
+                        id: 'n1',
+                        path: '/webhooks/preset-submission',
+                        payload: '{}',
+                        preset_id: null,
+                        status: 'pending',
+                        attempts: 0,
+                        next_attempt_at: now.toISOString(),
+                        last_error: null,
+                        created_at: now.toISOString(),
+                        delivered_at: null,
+                    }];
+                }
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const run = await runJob('deliver-notifications', {
+                DISCORD_WORKER: { fetch: mockFetch } as unknown as Fetcher,
+                INTERNAL_WEBHOOK_SECRET: 'internal-secret',
+            });
+
+            expect(run.success).toBe(true);
+            expect(run.details).toEqual({ delivered: 1, failed: 0, dead: 0 });
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('purge-delivered-notifications', () => {
+        it('should only delete delivered rows past retention', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 6 } }));
+
+            const run = await runJob('purge-delivered-notifications');
+
+            expect(run.affected).toBe(6);
+            expect(db._queries[0]).toContain("status = 'delivered'");
+            const cutoff = new Date(now.getTime() - DELIVERED_RETENTION_DAYS * 24 * 3600 * 1000).toISOString();
+            expect(db._bindings[0]).toEqual([cutoff]);
+        });
+    });
+
+    describe('escalate-overdue-pending', () => {
+        const originalFetch = globalThis.fetch;
+
+        afterEach(() => {
+            globalThis.fetch = originalFetch;
+        });
+
+        it('should re-ping moderators about overdue presets and record the escalation', async () => {
+            const mockFetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+            globalThis.fetch = mockFetch;
+            db._setupMock((query: string) =>
+                query.includes('FROM presets p')
+                    ? [{
+                        ...createMockPresetRow({ id: 'p1', updated_at: '2026-03-31T03:00:00.000Z' }),
+                        pending_since: '2026-03-29T04:00:00.000Z',
+                        claimed_by: null,
+                    }]
+                    : { success: true, meta: { changes: 1 } }
+            );
+
+            const run = await runJob('escalate-overdue-pending', { MODERATION_WEBHOOK_URL: 'https://discord.test/webhook' });
+
+            expect(run.affected).toBe(1);
+            expect(run.details).toEqual({ sla_hours: 24 });
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            const embed = JSON.parse(mockFetch.mock.calls[0][1].body).embeds[0];
+            expect(JSON.stringify(embed.fields)).toContain('Overdue: pending for 48 hours (SLA 24 hours), unclaimed');
+            expect(db._queries.some((q) => q.includes('INSERT INTO preset_sla_escalations'))).toBe(true);
+        });
+
+        it('should only ping presets this run claimed', async () => {
+            const mockFetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+            globalThis.fetch = mockFetch;
+            db._setupMock((query: string, bindings: unknown[]) => {
+                if (query.includes('FROM presets p')) {
+                    return ['p1', 'p2'].map((id) => ({
+                        ...createMockPresetRow({ id }),
+                        pending_since: '2026-03-29T04:00:00.000Z',
+                        claimed_by: null,
+                    }));
+                }
+                // p2 was escalated by an overlapping run
+                return { success: true, meta: { changes: bindings[0] === 'p2' ? 0 : 1 } };
+            });
+
+            const run = await runJob('escalate-overdue-pending', { MODERATION_WEBHOOK_URL: 'https://discord.test/webhook' });
+
+            expect(run.affected).toBe(1);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            const claim = db._queries.findIndex((q) => q.includes('INSERT INTO preset_sla_escalations'));
+            expect(db._queries[claim]).toContain('WHERE preset_sla_escalations.escalated_at IS NULL OR preset_sla_escalations.escalated_at < ?');
+        });
+
+        it('should do nothing when the SLA is disabled', async () => {
+            const run = await runJob('escalate-overdue-pending', { MODERATION_SLA_HOURS: '0' });
+
+            expect(run.affected).toBe(0);
+            expect(db._queries).toHaveLength(0);
+        });
+    });
+
+    describe('cleanup-queue-claims', () => {
+        it('should delete expired claims and stale escalations', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 2 } }));
+
+            const run = await runJob('cleanup-queue-claims');
+
+            expect(run.affected).toBe(4);
+            expect(run.details).toEqual({ expired_claims: 2, stale_escalations: 2 });
+            expect(db._bindings[0]).toEqual([now.toISOString()]);
+        });
+    });
+
+    describe('refresh-trending-scores', () => {
+        it('should report the number of trending presets', async () => {
+            db._setupMock((query: string) =>
+                query.includes('FROM votes') ? [{ preset_id: 'p1', age_hours: 1, votes: 2 }] : { success: true }
+            );
+
+            const run = await runJob('refresh-trending-scores');
+
+            expect(run.affected).toBe(1);
+            expect(run.details).toEqual({ trending_presets: 1 });
+        });
+    });
+
+    // ============================================
+    // Runner
+    // ============================================
+
+    describe('runMaintenanceJob', () => {
+        it('should catch and report failures', async () => {
+            const failing: MaintenanceJob = {
+                name: 'failing',
+                description: 'Always fails',
+                schedule: CRON_DAILY,
+                run: async () => {
+                    throw new Error('boom');
+                },
+            };
+
+            const run = await runMaintenanceJob(failing, createMockEnv(), logger, now);
+
+            expect(run.success).toBe(false);
+            expect(run.error).toBe('boom');
+            expect(run.started_at).toBe(now.toISOString());
+            expect(logger.error).toHaveBeenCalled();
+        });
+
+        it('should log with a job-scoped logger', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            await runJob('cleanup-rate-limits');
+
+            expect(logger.child).toHaveBeenCalledWith({ job: 'cleanup-rate-limits' });
+            expect(logger.info).toHaveBeenCalledWith('Maintenance job completed', expect.objectContaining({ affected: 0 }));
+        });
+    });
+
+    describe('runMaintenanceJobs', () => {
+        it('should keep running after a failure', async () => {
+            const jobs: MaintenanceJob[] = [
+                { name: 'a', description: '', schedule: CRON_DAILY, run: async () => { throw new Error('a'); } },
+                { name: 'b', description: '', schedule: CRON_DAILY, run: async () => ({ affected: 3 }) },
+            ];
+
+            const runs = await runMaintenanceJobs(jobs, createMockEnv(), logger, now);
+
+            expect(runs.map((run) => run.success)).toEqual([false, true]);
+            expect(runs[1].affected).toBe(3);
+        });
+    });
+});
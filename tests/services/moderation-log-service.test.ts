@@ -0,0 +1,133 @@
+/**
+ * Moderation Log Service Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    encodeLogCursor,
+    decodeLogCursor,
+    getModerationLog,
+    moderationLogToCsv,
+} from '../../src/services/moderation-log-service';
+import type { ModerationLogRecord, ModerationLogRow } from '../../src/types';
+import { createMockD1Database } from '../test-utils';
+
+function createLogRow(overrides: Partial<ModerationLogRow> = {}): ModerationLogRow {
+    return {
+        id: 'log-1',
+        preset_id: 'preset-1',
+        preset_name: 'Sunset',
+        subject_discord_id: null,
+        moderator_discord_id: '123456789',
+        action: 'approve',
+        reason: null,
+        created_at: '2026-01-02T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+describe('ModerationLogService', () => {
+    let db: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        db = createMockD1Database();
+    });
+
+    describe('log cursors', () => {
+        it('should round-trip', () => {
+            const cursor = { created_at: '2026-01-02T00:00:00.000Z', id: 'log-1' };
+
+            expect(decodeLogCursor(encodeLogCursor(cursor))).toEqual(cursor);
+        });
+
+        it('should reject malformed cursors', () => {
+            expect(decodeLogCursor('not-a-cursor')).toBeNull();
+            expect(decodeLogCursor(btoa(JSON.stringify(['2026-01-02', 5])))).toBeNull();
+        });
+    });
+
+    describe('getModerationLog', () => {
+        it('should list newest first without filters', async () => {
+            db._setupMock(() => [createLogRow()]);
+
+            const page = await getModerationLog(db as unknown as D1Database, {});
+
+            expect(page).toEqual({ entries: [createLogRow()], next_cursor: null, has_more: false });
+            expect(db._queries[0]).not.toContain('WHERE');
+            expect(db._queries[0]).toContain('ORDER BY l.created_at DESC, l.id DESC');
+            expect(db._bindings[0]).toEqual([51]);
+        });
+
+        it('should combine filters', async () => {
+            db._setupMock(() => []);
+
+            await getModerationLog(db as unknown as D1Database, {
+                moderator: '123456789',
+                actions: ['approve', 'reject'],
+                preset_id: 'preset-1',
+                subject: '222',
+                from: '2026-01-01T00:00:00.000Z',
+                to: '2026-02-01T00:00:00.000Z',
+                limit: 10,
+            });
+
+            expect(db._queries[0]).toContain('l.action IN (?, ?)');
+            expect(db._bindings[0]).toEqual([
+                '123456789',
+                'approve',
+                'reject',
+                'preset-1',
+                '222',
+                '2026-01-01T00:00:00.000Z',
+                '2026-02-01T00:00:00.000Z',
+                11,
+            ]);
+        });
+
+        it('should return a cursor after the last entry when more remain', async () => {
+            db._setupMock(() => [
+                createLogRow({ id: 'log-3', created_at: '2026-01-03T00:00:00.000Z' }),
+                createLogRow({ id: 'log-2' }),
+                createLogRow({ id: 'log-1' }),
+            ]);
+
+            const page = await getModerationLog(db as unknown as D1Database, { limit: 2 });
+
+            expect(page.entries.map((e) => e.id)).toEqual(['log-3', 'log-2']);
+            expect(page.has_more).toBe(true);
+            expect(decodeLogCursor(page.next_cursor!)).toEqual({ created_at: '2026-01-02T00:00:00.000Z', id: 'log-2' });
+        });
+
+        it('should continue from a cursor', async () => {
+            db._setupMock(() => []);
+
+            await getModerationLog(db as unknown as D1Database, {}, { created_at: '2026-01-02T00:00:00.000Z', id: 'log-2' });
+
+            expect(db._queries[0]).toContain('(l.created_at, l.id) < (?, ?)');
+            expect(db._bindings[0]).toEqual(['2026-01-02T00:00:00.000Z', 'log-2', 51]);
+        });
+    });
+
+    describe('moderationLogToCsv', () => {
+        it('should write a header and one row per entry', () => {
+            const csv = moderationLogToCsv([createLogRow() as ModerationLogRecord]);
+
+            expect(csv).toBe(
+                'created_at,moderator_discord_id,action,preset_id,preset_name,subject_discord_id,reason,id\r\n' +
+                    '2026-01-02T00:00:00.000Z,123456789,approve,preset-1,Sunset,,,log-1\r\n'
+            );
+        });
+
+        it('should quote fields with commas, quotes and newlines', () => {
+            const csv = moderationLogToCsv([createLogRow({ reason: 'Said "hi",\nthen left' }) as ModerationLogRecord]);
+
+            expect(csv).toContain('"Said ""hi"",\nthen left"');
+        });
+
+        it('should neutralize spreadsheet formulas', () => {
+            const csv = moderationLogToCsv([createLogRow({ reason: '=HYPERLINK("x")' }) as ModerationLogRecord]);
+
+            expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+        });
+    });
+});
@@ -0,0 +1,229 @@
+/**
+ * Moderation Rule Service Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    MODERATION_RULE_FIELDS,
+    buildModerationRuleDraft,
+    validateModerationRule,
+    parseKeywords,
+    rowToModerationRule,
+    getEnabledModerationRules,
+    createModerationRule,
+    updateModerationRule,
+    deleteModerationRule,
+} from '../../src/services/moderation-rule-service';
+import type { ModerationRule, ModerationRuleInput, ModerationRuleRow } from '../../src/types';
+import { createMockD1Database } from '../test-utils';
+
+function createRuleRow(overrides: Partial<ModerationRuleRow> = {}): ModerationRuleRow {
+    return {
+        id: 'rule-1',
+        name: 'Spam links',
+        type: 'regex',
+        pattern: 'https?://',
+        threshold: null,
+        fields: '["description"]',
+        action: 'reject',
+        priority: 10,
+        enabled: 1,
+        created_by_discord_id: 'admin-1',
+        created_at: '2026-01-01T00:00:00.000Z',
+        updated_at: '2026-01-01T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+function validate(input: ModerationRuleInput, existing?: ModerationRule) {
+    return validateModerationRule(buildModerationRuleDraft(input, existing));
+}
+
+describe('ModerationRuleService', () => {
+    let db: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        db = createMockD1Database();
+    });
+
+    describe('rowToModerationRule', () => {
+        it('should parse fields and enabled', () => {
+            expect(rowToModerationRule(createRuleRow())).toMatchObject({
+                fields: ['description'],
+                enabled: true,
+                priority: 10,
+            });
+        });
+
+        it('should fall back to every field when the stored list is malformed', () => {
+            expect(rowToModerationRule(createRuleRow({ fields: 'not json' })).fields).toEqual([...MODERATION_RULE_FIELDS]);
+        });
+    });
+
+    describe('parseKeywords', () => {
+        it('should split, trim and lowercase keywords', () => {
+            expect(parseKeywords(' Free Gil, ,RMT ')).toEqual(['free gil', 'rmt']);
+            expect(parseKeywords(null)).toEqual([]);
+        });
+    });
+
+    describe('buildModerationRuleDraft', () => {
+        it('should apply defaults for a new rule', () => {
+            expect(buildModerationRuleDraft({ name: ' RMT ', type: 'keyword', pattern: 'rmt', action: 'reject' })).toEqual({
+                name: 'RMT',
+                type: 'keyword',
+                pattern: 'rmt',
+                threshold: null,
+                fields: ['name', 'description', 'tags'],
+                action: 'reject',
+                priority: 0,
+                enabled: true,
+            });
+        });
+
+        it('should merge updates onto the existing rule and clear what the new type lacks', () => {
+            const existing = rowToModerationRule(createRuleRow());
+
+            expect(buildModerationRuleDraft({ type: 'account_age', threshold: 7 }, existing)).toMatchObject({
+                name: 'Spam links',
+                type: 'account_age',
+                pattern: null,
+                threshold: 7,
+                action: 'reject',
+            });
+        });
+    });
+
+    describe('validateModerationRule', () => {
+        it('should accept valid rules of each type', () => {
+            expect(validate({ name: 'RMT', type: 'keyword', pattern: 'rmt, free gil', action: 'reject' })).toBeNull();
+            expect(validate({ name: 'Links', type: 'regex', pattern: 'https?://\\S+', action: 'pending' })).toBeNull();
+            expect(
+                validate({ name: 'Insults', type: 'perspective', pattern: 'insult', threshold: 0.9, action: 'reject' })
+            ).toBeNull();
+            expect(validate({ name: 'New accounts', type: 'account_age', threshold: 7, action: 'pending' })).toBeNull();
+        });
+
+        it('should require a known type, action and fields', () => {
+            expect(validate({ name: 'x', type: 'magic' as never, pattern: 'a', action: 'reject' })?.field).toBe('type');
+            expect(validate({ name: 'x', type: 'keyword', pattern: 'a', action: 'ban' as never })?.field).toBe('action');
+            expect(
+                validate({ name: 'x', type: 'keyword', pattern: 'a', action: 'reject', fields: ['dyes' as never] })?.field
+            ).toBe('fields');
+            expect(validate({ name: ' ', type: 'keyword', pattern: 'a', action: 'reject' })?.field).toBe('name');
+        });
+
+        it('should reject invalid and nested-quantifier regexes', () => {
+            expect(validate({ name: 'x', type: 'regex', pattern: '([a-z]', action: 'reject' })?.message).toContain(
+                'Invalid regular expression'
+            );
+            expect(validate({ name: 'x', type: 'regex', pattern: '(a+)+$', action: 'reject' })?.message).toContain(
+                'nested quantifiers'
+            );
+        });
+
+        it('should reject regexes prone to catastrophic backtracking', () => {
+            const message = (pattern: string) => validate({ name: 'x', type: 'regex', pattern, action: 'reject' })?.message;
+
+            expect(message('((a)+)+')).toContain('nested quantifiers');
+            expect(message('(\\d{3}-){2}')).toContain('nested quantifiers');
+            expect(message('(a|aa)+$')).toContain('repeated alternation');
+            expect(message('(a|a)*b')).toContain('repeated alternation');
+            expect(message('(a)\\1')).toContain('backreferences');
+            expect(message('(?<x>a)\\k<x>')).toContain('backreferences');
+            expect(message('(?=a)b')).toContain('lookarounds');
+            expect(message('(?<!a)b')).toContain('lookarounds');
+        });
+
+        it('should accept regexes without repeated risky groups', () => {
+            for (const pattern of ['https?://\\S+', '\\b(spam|scam)\\b', '(foo|bar)?baz', '(?:ab)+', '[(|+]+', '\\(a+\\)+']) {
+                expect(validate({ name: 'x', type: 'regex', pattern, action: 'reject' })).toBeNull();
+            }
+        });
+
+        it('should check Perspective attributes and thresholds', () => {
+            expect(
+                validate({ name: 'x', type: 'perspective', pattern: 'TOXICITY', threshold: 0.8, action: 'reject' })?.field
+            ).toBe('pattern');
+            expect(
+                validate({ name: 'x', type: 'perspective', pattern: 'toxicity', threshold: 1.5, action: 'reject' })?.field
+            ).toBe('threshold');
+        });
+
+        it('should require a whole number of days for account age rules', () => {
+            expect(validate({ name: 'x', type: 'account_age', threshold: 0.5, action: 'pending' })?.field).toBe('threshold');
+        });
+
+        it('should require an integer priority and boolean enabled', () => {
+            const base = { name: 'x', type: 'keyword', pattern: 'a', action: 'reject' } as const;
+
+            expect(validate({ ...base, priority: 1.5 })?.field).toBe('priority');
+            expect(validate({ ...base, enabled: 'yes' as never })?.field).toBe('enabled');
+        });
+    });
+
+    describe('getEnabledModerationRules', () => {
+        it('should load enabled rules, highest priority first', async () => {
+            db._setupMock(() => [createRuleRow()]);
+
+            const rules = await getEnabledModerationRules(db as unknown as D1Database);
+
+            expect(rules).toHaveLength(1);
+            expect(db._queries[0]).toContain('WHERE enabled = 1');
+            expect(db._queries[0]).toContain('priority DESC');
+        });
+    });
+
+    describe('createModerationRule', () => {
+        it('should insert the rule and log it in one batch', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const draft = buildModerationRuleDraft({ name: 'RMT', type: 'keyword', pattern: 'rmt', action: 'reject' });
+            const rule = await createModerationRule(db as unknown as D1Database, draft, 'admin-1');
+
+            expect(rule).toMatchObject({ name: 'RMT', created_by_discord_id: 'admin-1' });
+            expect(db._queries[0]).toContain('INSERT INTO moderation_rules');
+            expect(db._queries[1]).toContain("'rule_created'");
+            expect(db._bindings[1]).toContain('RMT');
+        });
+    });
+
+    describe('updateModerationRule', () => {
+        const existing = rowToModerationRule(createRuleRow());
+
+        it('should log, then update', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const draft = buildModerationRuleDraft({ enabled: false }, existing);
+            const rule = await updateModerationRule(db as unknown as D1Database, existing, draft, 'admin-2');
+
+            expect(rule).toMatchObject({ id: 'rule-1', enabled: false, created_by_discord_id: 'admin-1' });
+            expect(db._queries[0]).toContain("'rule_updated'");
+            expect(db._queries[1]).toContain('UPDATE moderation_rules');
+        });
+
+        it('should return null if the rule was deleted meanwhile', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            const draft = buildModerationRuleDraft({}, existing);
+
+            expect(await updateModerationRule(db as unknown as D1Database, existing, draft, 'admin-2')).toBeNull();
+        });
+    });
+
+    describe('deleteModerationRule', () => {
+        it('should log the rule name before deleting', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            expect(await deleteModerationRule(db as unknown as D1Database, 'rule-1', 'admin-1')).toBe(true);
+            expect(db._queries[0]).toContain("'rule_deleted', name");
+            expect(db._queries[1]).toContain('DELETE FROM moderation_rules');
+        });
+
+        it('should return false for unknown rules', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            expect(await deleteModerationRule(db as unknown as D1Database, 'missing', 'admin-1')).toBe(false);
+        });
+    });
+});
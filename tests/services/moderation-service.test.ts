@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import {
     moderateContent,
+    dryRunModeration,
     notifyModerators,
     checkLocalFilter,
     escapeRegex,
@@ -12,8 +13,40 @@ import {
     _resetPatternsForTesting,
     _setTestPatterns,
 } from '../../src/services/moderation-service';
-import { createMockEnv, resetCounters } from '../test-utils';
-import type { Env } from '../../src/types';
+import { createMockEnv, createMockD1Database, resetCounters } from '../test-utils';
+import type { SupportedLocale } from '../../src/data/profanity/index';
+import type { Env, ModerationRuleRow } from '../../src/types';
+
+/**
+ * Per-locale fixtures for the production word lists: obfuscated entries that
+ * must be caught, and near misses that must not
+ */
+const LOCALE_FIXTURES: Record<SupportedLocale, { flagged: string[]; clean: string[] }> = {
+    en: {
+        flagged: ['Pure AI slop', 'a1 sl0p', 'a i s l o p', 'ＡＩ ＳＬＯＰ', 'a\u200Bi slop', 'аі ѕlор'],
+        clean: ['Mai slop', 'AI slope', 'AI art'],
+    },
+    de: {
+        flagged: ['Echter KI-Schrott', 'k1-schr0tt', 'KI Fullmaterial', 'KI‑FÜLLMATERIAL'],
+        clean: ['Kischrottplatz', 'KI-Kunst'],
+    },
+    fr: {
+        flagged: ['Contenu IA bas de gamme', 'brouillon-ia', 'BROUILLON 1A'],
+        clean: ['Brouillon à revoir', 'Contenu de gamme'],
+    },
+    ja: {
+        flagged: ['これはAIのガラクタです', 'ＡＩのｺﾞﾐ', 'AIの\u200Bゴミ'],
+        clean: ['ゴミ箱の色', 'ガラクタ市'],
+    },
+    ko: {
+        flagged: ['이건 AI 쓰레기네', 'ai쓰레기', 'Ａｉ 퀄리티 낮음'],
+        clean: ['쓰레기통 색상', 'AI 퀄리티 좋음'],
+    },
+    zh: {
+        flagged: ['这是AI垃圾', 'ａｉ水文', 'ai\u200D垃 圾'],
+        clean: ['垃圾分类', '山水文化'],
+    },
+};
 
 // Mock fetch for external API calls
 const originalFetch = globalThis.fetch;
@@ -97,6 +130,19 @@ describe('ModerationService', () => {
             expect(compiled.wordSet.size).toBe(0);
             expect(compiled.combinedPattern).toBeNull();
         });
+
+        it('should normalize words and drop their separators', () => {
+            const compiled = compileProfanityPatterns({ de: ['KI-Füllmaterial'], en: ['ai slop', 'AI-Slop'] });
+
+            expect([...compiled.wordSet]).toEqual(['kifullmaterial', 'aislop']);
+        });
+
+        it('should match CJK words as substrings', () => {
+            const compiled = compileProfanityPatterns({ zh: ['垃圾'], en: ['bad'] });
+
+            expect(compiled.combinedPattern?.test('这是垃圾')).toBe(true);
+            expect(compiled.combinedPattern?.test('badger')).toBe(false);
+        });
     });
 
     // ============================================
@@ -106,13 +152,13 @@ describe('ModerationService', () => {
     describe('checkLocalFilter', () => {
         it('should return null for clean content with custom patterns', () => {
             _setTestPatterns([/\bbadword\b/i]);
-            const result = checkLocalFilter('Good Name', 'Nice description');
+            const result = checkLocalFilter({ name: 'Good Name', description: 'Nice description' });
             expect(result).toBeNull();
         });
 
         it('should flag content matching custom pattern in name', () => {
             _setTestPatterns([/\bbadword\b/i]);
-            const result = checkLocalFilter('This is badword here', 'Clean description');
+            const result = checkLocalFilter({ name: 'This is badword here', description: 'Clean description' });
 
             expect(result).not.toBeNull();
             expect(result!.passed).toBe(false);
@@ -122,7 +168,7 @@ describe('ModerationService', () => {
 
         it('should flag content matching custom pattern in description only', () => {
             _setTestPatterns([/\bbadword\b/i]);
-            const result = checkLocalFilter('Clean Name', 'This has badword in it');
+            const result = checkLocalFilter({ name: 'Clean Name', description: 'This has badword in it' });
 
             expect(result).not.toBeNull();
             expect(result!.passed).toBe(false);
@@ -130,11 +176,18 @@ describe('ModerationService', () => {
             expect(result!.method).toBe('local');
         });
 
+        it('should flag content matching custom pattern in a tag', () => {
+            _setTestPatterns([/\bbadword\b/i]);
+            const result = checkLocalFilter({ name: 'Clean Name', description: 'Clean', tags: ['pastel', 'BadWord'] });
+
+            expect(result!.flaggedField).toBe('tags');
+        });
+
         it('should check against multiple patterns', () => {
             _setTestPatterns([/\bword1\b/i, /\bword2\b/i, /\bword3\b/i]);
 
             // First pattern doesn't match, second does
-            const result = checkLocalFilter('Contains word2', 'Description');
+            const result = checkLocalFilter({ name: 'Contains word2', description: 'Description' });
 
             expect(result).not.toBeNull();
             expect(result!.passed).toBe(false);
@@ -144,7 +197,7 @@ describe('ModerationService', () => {
             _setTestPatterns([/\btestbadword\b/i]);
 
             // Now checkLocalFilter should use injected patterns
-            const result = checkLocalFilter('Has testbadword', 'Clean');
+            const result = checkLocalFilter({ name: 'Has testbadword', description: 'Clean' });
 
             expect(result).not.toBeNull();
             expect(result!.passed).toBe(false);
@@ -157,7 +210,7 @@ describe('ModerationService', () => {
 
             // After reset, should use default production patterns (may or may not flag)
             // Since production patterns are populated, test with innocuous content
-            const result = checkLocalFilter('Hello', 'World');
+            const result = checkLocalFilter({ name: 'Hello', description: 'World' });
 
             // Innocuous content should not be flagged
             expect(result).toBeNull();
@@ -166,14 +219,48 @@ describe('ModerationService', () => {
         it('should handle case insensitivity correctly', () => {
             _setTestPatterns([/\bBADWORD\b/i]);
 
-            const result1 = checkLocalFilter('badword', 'Clean');
-            const result2 = checkLocalFilter('BADWORD', 'Clean');
-            const result3 = checkLocalFilter('BadWord', 'Clean');
+            const result1 = checkLocalFilter({ name: 'badword', description: 'Clean' });
+            const result2 = checkLocalFilter({ name: 'BADWORD', description: 'Clean' });
+            const result3 = checkLocalFilter({ name: 'BadWord', description: 'Clean' });
 
             expect(result1).not.toBeNull();
             expect(result2).not.toBeNull();
             expect(result3).not.toBeNull();
         });
+
+        it('should see through obfuscated spellings', () => {
+            _setTestPatterns([/\bbadword\b/i]);
+
+            for (const name of ['b4dw0rd', 'b a d w o r d', 'b.a.d.w.o.r.d', 'ｂａｄｗｏｒｄ', 'bad\u200Bword', 'bаdwоrd']) {
+                expect(checkLocalFilter({ name })?.flaggedField).toBe('name');
+            }
+        });
+
+        it('should not flag words that only contain a listed word', () => {
+            _setTestPatterns([/\bbadword\b/i]);
+
+            expect(checkLocalFilter({ name: 'badwords', description: 'notbadword, bad words' })).toBeNull();
+        });
+    });
+
+    // ============================================
+    // checkLocalFilter - Locale Fixtures
+    // ============================================
+
+    describe('checkLocalFilter - Locale Fixtures', () => {
+        for (const [locale, { flagged, clean }] of Object.entries(LOCALE_FIXTURES)) {
+            it(`should flag obfuscated ${locale} entries`, () => {
+                for (const description of flagged) {
+                    expect(checkLocalFilter({ description })?.flaggedField).toBe('description');
+                }
+            });
+
+            it(`should not flag ${locale} near misses`, () => {
+                for (const description of clean) {
+                    expect(checkLocalFilter({ description })).toBeNull();
+                }
+            });
+        }
     });
 
     // ============================================
@@ -185,8 +272,7 @@ describe('ModerationService', () => {
             const env = createMockEnv();
 
             const result = await moderateContent(
-                'Beautiful Sunset Palette',
-                'A lovely collection of warm sunset colors',
+                { name: 'Beautiful Sunset Palette', description: 'A lovely collection of warm sunset colors' },
                 env
             );
 
@@ -200,8 +286,7 @@ describe('ModerationService', () => {
             // Since local profanity lists are intentionally empty,
             // content passes through local filter and relies on Perspective API
             const result = await moderateContent(
-                'Any Content Here',
-                'A normal description here',
+                { name: 'Any Content Here', description: 'A normal description here' },
                 env
             );
 
@@ -213,8 +298,7 @@ describe('ModerationService', () => {
             const env = createMockEnv({ PERSPECTIVE_API_KEY: undefined });
 
             const result = await moderateContent(
-                'Normal Palette Name',
-                'This description has some words',
+                { name: 'Normal Palette Name', description: 'This description has some words' },
                 env
             );
 
@@ -225,11 +309,7 @@ describe('ModerationService', () => {
         it('should handle empty name gracefully', async () => {
             const env = createMockEnv();
 
-            const result = await moderateContent(
-                '',
-                'A valid description here',
-                env
-            );
+            const result = await moderateContent({ name: '', description: 'A valid description here' }, env);
 
             expect(result.passed).toBe(true);
         });
@@ -237,11 +317,7 @@ describe('ModerationService', () => {
         it('should handle empty description gracefully', async () => {
             const env = createMockEnv();
 
-            const result = await moderateContent(
-                'Valid Palette Name',
-                '',
-                env
-            );
+            const result = await moderateContent({ name: 'Valid Palette Name', description: '' }, env);
 
             expect(result.passed).toBe(true);
         });
@@ -249,11 +325,7 @@ describe('ModerationService', () => {
         it('should handle unicode content gracefully', async () => {
             const env = createMockEnv();
 
-            const result = await moderateContent(
-                '日本語パレット',
-                '説明文がここにあります',
-                env
-            );
+            const result = await moderateContent({ name: '日本語パレット', description: '説明文がここにあります' }, env);
 
             expect(result.passed).toBe(true);
         });
@@ -263,8 +335,7 @@ describe('ModerationService', () => {
 
             // These characters could cause regex issues if not escaped
             const result = await moderateContent(
-                'Test.*+?^${}()|[]\\',
-                'Description with special [brackets] and {braces}',
+                { name: 'Test.*+?^${}()|[]\\', description: 'Description with special [brackets] and {braces}' },
                 env
             );
 
@@ -275,8 +346,7 @@ describe('ModerationService', () => {
             const env = createMockEnv();
 
             const result = await moderateContent(
-                'A'.repeat(100),
-                'B'.repeat(500),
+                { name: 'A'.repeat(100), description: 'B'.repeat(500) },
                 env
             );
 
@@ -287,8 +357,7 @@ describe('ModerationService', () => {
             const env = createMockEnv();
 
             const result = await moderateContent(
-                '  Spaced   Name  ',
-                '  Description  with  lots    of    spaces  ',
+                { name: '  Spaced   Name  ', description: '  Description  with  lots    of    spaces  ' },
                 env
             );
 
@@ -302,8 +371,7 @@ describe('ModerationService', () => {
             const env = createMockEnv({ PERSPECTIVE_API_KEY: 'test-api-key' });
 
             const result = await moderateContent(
-                'Contains flaggedword here',
-                'Normal description',
+                { name: 'Contains flaggedword here', description: 'Normal description' },
                 env
             );
 
@@ -323,8 +391,7 @@ describe('ModerationService', () => {
             const env = createMockEnv({ PERSPECTIVE_API_KEY: 'test-api-key' });
 
             const result = await moderateContent(
-                'Clean Name',
-                'This description has badcontent in it',
+                { name: 'Clean Name', description: 'This description has badcontent in it' },
                 env
             );
 
@@ -335,6 +402,33 @@ describe('ModerationService', () => {
             // Should not reach Perspective API
             expect(fetchMock).not.toHaveBeenCalled();
         });
+
+        it('should report every field the word list flags', async () => {
+            _setTestPatterns([/\bbadcontent\b/i]);
+
+            const env = createMockEnv();
+
+            const result = await moderateContent(
+                { name: 'badcontent palette', description: 'Clean', tags: ['pastel', 'badcontent'] },
+                env
+            );
+
+            expect(result.passed).toBe(false);
+            expect(result.flaggedField).toBe('name');
+            expect(result.flaggedFields).toEqual(['name', 'tags']);
+        });
+
+        it('should flag tags when name and description are clean', async () => {
+            _setTestPatterns([/\bbadcontent\b/i]);
+
+            const env = createMockEnv();
+
+            const result = await moderateContent({ name: 'Clean', description: 'Clean', tags: ['badcontent'] }, env);
+
+            expect(result.passed).toBe(false);
+            expect(result.flaggedField).toBe('tags');
+            expect(result.flaggedFields).toEqual(['tags']);
+        });
     });
 
     // ============================================
@@ -345,7 +439,7 @@ describe('ModerationService', () => {
         it('should skip Perspective API if not configured', async () => {
             const env = createMockEnv({ PERSPECTIVE_API_KEY: undefined });
 
-            await moderateContent('Test', 'Test description', env);
+            await moderateContent({ name: 'Test', description: 'Test description' }, env);
 
             expect(fetchMock).not.toHaveBeenCalled();
         });
@@ -367,8 +461,7 @@ describe('ModerationService', () => {
             });
 
             const result = await moderateContent(
-                'Nice Palette',
-                'A beautiful description',
+                { name: 'Nice Palette', description: 'A beautiful description' },
                 env
             );
 
@@ -395,14 +488,14 @@ describe('ModerationService', () => {
             });
 
             const result = await moderateContent(
-                'Sneaky Bad Content',
-                'Something the local filter missed',
+                { name: 'Sneaky Bad Content', description: 'Something the local filter missed' },
                 env
             );
 
             expect(result.passed).toBe(false);
             expect(result.method).toBe('perspective');
             expect(result.flaggedField).toBe('content');
+            expect(result.flaggedFields).toEqual(['content']);
             expect(result.flaggedReason).toContain('toxicity');
             expect(result.scores?.toxicity).toBe(0.85);
         });
@@ -423,14 +516,61 @@ describe('ModerationService', () => {
                 }),
             });
 
+            const result = await moderateContent({ name: 'Test', description: 'Test' }, env);
+
+            expect(result.passed).toBe(false);
+            expect(result.flaggedReason).toContain('identityAttack');
+        });
+
+        it('should send every field to Perspective in one request', async () => {
+            const env = createMockEnv({ PERSPECTIVE_API_KEY: 'test-api-key' });
+
+            fetchMock.mockResolvedValueOnce({ ok: true, json: async () => ({ attributeScores: {} }) });
+
+            await moderateContent({ name: 'Palette', description: 'Description', tags: ['pastel', 'spring'] }, env);
+
+            expect(fetchMock).toHaveBeenCalledOnce();
+            const request = JSON.parse(fetchMock.mock.calls[0][1].body);
+            expect(request.comment.text).toBe('Palette\n\nDescription\n\npastel, spring');
+            expect(request.spanAnnotations).toBe(true);
+        });
+
+        it('should attribute high span scores to the fields they cover', async () => {
+            const env = createMockEnv({ PERSPECTIVE_API_KEY: 'test-api-key' });
+
+            // 'Palette\n\nDescription\n\nslur, spring': the tags start at offset 22
+            fetchMock.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    attributeScores: {
+                        IDENTITY_ATTACK: {
+                            summaryScore: { value: 0.8 },
+                            spanScores: [
+                                { begin: 0, end: 20, score: { value: 0.1 } },
+                                { begin: 22, end: 34, score: { value: 0.9 } },
+                            ],
+                        },
+                    },
+                }),
+            });
+
             const result = await moderateContent(
-                'Test',
-                'Test',
+                { name: 'Palette', description: 'Description', tags: ['slur', 'spring'] },
                 env
             );
 
             expect(result.passed).toBe(false);
-            expect(result.flaggedReason).toContain('identityAttack');
+            expect(result.flaggedField).toBe('tags');
+            expect(result.flaggedFields).toEqual(['tags']);
+        });
+
+        it('should skip Perspective when there is no text', async () => {
+            const env = createMockEnv({ PERSPECTIVE_API_KEY: 'test-api-key' });
+
+            const result = await moderateContent({ name: '', tags: [] }, env);
+
+            expect(result.passed).toBe(true);
+            expect(fetchMock).not.toHaveBeenCalled();
         });
 
         it('should gracefully handle Perspective API errors', async () => {
@@ -443,8 +583,7 @@ describe('ModerationService', () => {
             });
 
             const result = await moderateContent(
-                'Test Palette',
-                'Normal description',
+                { name: 'Test Palette', description: 'Normal description' },
                 env
             );
 
@@ -459,8 +598,7 @@ describe('ModerationService', () => {
             fetchMock.mockRejectedValueOnce(new Error('Network error'));
 
             const result = await moderateContent(
-                'Test Palette',
-                'Normal description',
+                { name: 'Test Palette', description: 'Normal description' },
                 env
             );
 
@@ -485,8 +623,7 @@ describe('ModerationService', () => {
             });
 
             const result = await moderateContent(
-                'Some Palette',
-                'Normal description',
+                { name: 'Some Palette', description: 'Normal description' },
                 env
             );
 
@@ -497,6 +634,208 @@ describe('ModerationService', () => {
         });
     });
 
+    // ============================================
+    // moderateContent - Moderation Rules
+    // ============================================
+
+    describe('moderateContent - Moderation Rules', () => {
+        function ruleRow(overrides: Partial<ModerationRuleRow>): ModerationRuleRow {
+            return {
+                id: 'rule-1',
+                name: 'Test rule',
+                type: 'keyword',
+                pattern: null,
+                threshold: null,
+                fields: '["name","description","tags"]',
+                action: 'pending',
+                priority: 0,
+                enabled: 1,
+                created_by_discord_id: 'admin-1',
+                created_at: '2026-01-01T00:00:00.000Z',
+                updated_at: '2026-01-01T00:00:00.000Z',
+                ...overrides,
+            };
+        }
+
+        function envWithRules(rows: ModerationRuleRow[], overrides: Partial<Env> = {}): Env {
+            const db = createMockD1Database();
+            db._setupMock((query) => (query.includes('FROM moderation_rules') ? rows : null));
+            return createMockEnv({ DB: db as unknown as D1Database, ...overrides });
+        }
+
+        function perspectiveScores(scores: Partial<Record<string, number>>) {
+            fetchMock.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    attributeScores: Object.fromEntries(
+                        Object.entries(scores).map(([key, value]) => [key, { summaryScore: { value } }])
+                    ),
+                }),
+            });
+        }
+
+        it('should reject content matching a keyword rule in tags', async () => {
+            const env = envWithRules([ruleRow({ pattern: 'rmt, free gil', fields: '["tags"]', action: 'reject' })]);
+
+            const result = await moderateContent(
+                { name: 'Nice Palette', description: 'Cheap rmt here', tags: ['Free Gil'] },
+                env
+            );
+
+            expect(result.passed).toBe(false);
+            expect(result.action).toBe('reject');
+            expect(result.flaggedField).toBe('tags');
+            expect(result.fired_rules).toEqual([expect.objectContaining({ rule_id: 'rule-1', field: 'tags' })]);
+        });
+
+        it('should match keywords as whole words only', async () => {
+            const env = envWithRules([ruleRow({ pattern: 'rmt', action: 'reject' })]);
+
+            const result = await moderateContent(
+                { name: 'Farmtown Greens', description: 'Colors of the farm' },
+                env
+            );
+
+            expect(result.passed).toBe(true);
+            expect(result.fired_rules).toEqual([]);
+        });
+
+        it('should hold content matching a regex rule', async () => {
+            const env = envWithRules([ruleRow({ type: 'regex', pattern: 'https?://', fields: '["description"]' })]);
+
+            const result = await moderateContent(
+                { name: 'Palette', description: 'See https://example.com' },
+                env
+            );
+
+            expect(result.action).toBe('pending');
+            expect(result.flaggedField).toBe('description');
+            expect(result.method).toBe('local');
+        });
+
+        it('should let a higher-priority approve rule override the word list', async () => {
+            _setTestPatterns([/\bflaggedword\b/i]);
+            const env = envWithRules([ruleRow({ pattern: 'flaggedword', action: 'approve', priority: 10 })]);
+
+            const result = await moderateContent(
+                { name: 'flaggedword palette', description: 'Normal description' },
+                env
+            );
+
+            expect(result.passed).toBe(true);
+            expect(result.action).toBe('approve');
+            expect(result.fired_rules).toHaveLength(2);
+        });
+
+        it('should prefer the most severe action among rules of the same priority', async () => {
+            const env = envWithRules([
+                ruleRow({ id: 'allow', pattern: 'sunset', action: 'approve' }),
+                ruleRow({ id: 'block', pattern: 'sunset', action: 'reject' }),
+            ]);
+
+            const result = await moderateContent({ name: 'Sunset', description: '' }, env);
+
+            expect(result.action).toBe('reject');
+        });
+
+        it('should hold content from new Discord accounts', async () => {
+            const env = envWithRules([ruleRow({ type: 'account_age', threshold: 7 })]);
+            const dayOld = String((BigInt(Date.now() - 24 * 60 * 60 * 1000) - 1420070400000n) << 22n);
+
+            const fresh = await moderateContent(
+                { name: 'Palette', description: 'Description' },
+                env,
+                { authorDiscordId: dayOld }
+            );
+            const unknown = await moderateContent(
+                { name: 'Palette', description: 'Description' },
+                env,
+                { authorDiscordId: 'user-1' }
+            );
+
+            expect(fresh.action).toBe('pending');
+            expect(fresh.flaggedReason).toBe('Discord account is under 7 days old');
+            expect(unknown.action).toBe('approve');
+        });
+
+        it('should replace the default Perspective threshold for attributes with rules', async () => {
+            const env = envWithRules(
+                [
+                    ruleRow({ id: 'insult', type: 'perspective', pattern: 'insult', threshold: 0.95 }),
+                    ruleRow({ id: 'toxic', type: 'perspective', pattern: 'toxicity', threshold: 0.8, action: 'reject' }),
+                ],
+                { PERSPECTIVE_API_KEY: 'test-api-key' }
+            );
+            perspectiveScores({ TOXICITY: 0.5, INSULT: 0.85 });
+
+            const lenient = await moderateContent({ name: 'Palette', description: 'Description' }, env);
+
+            expect(lenient.passed).toBe(true);
+            expect(lenient.method).toBe('all');
+
+            perspectiveScores({ TOXICITY: 0.85 });
+
+            const strict = await moderateContent({ name: 'Palette', description: 'Description' }, env);
+
+            expect(strict.action).toBe('reject');
+            expect(strict.method).toBe('perspective');
+            expect(strict.flaggedField).toBe('content');
+        });
+
+        it('should fall back to the built-in checks when rules fail to load', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => {
+                throw new Error('D1 unavailable');
+            });
+            const env = createMockEnv({ DB: db as unknown as D1Database });
+
+            const result = await moderateContent({ name: 'Palette', description: 'Description' }, env);
+
+            expect(result.passed).toBe(true);
+        });
+    });
+
+    // ============================================
+    // dryRunModeration
+    // ============================================
+
+    describe('dryRunModeration', () => {
+        it('should call Perspective and report every rule even after a local rule fires', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query) =>
+                query.includes('FROM moderation_rules')
+                    ? [
+                          {
+                              id: 'rule-1',
+                              name: 'RMT',
+                              type: 'keyword',
+                              pattern: 'rmt',
+                              threshold: null,
+                              fields: '["name"]',
+                              action: 'reject',
+                              priority: 0,
+                              enabled: 1,
+                              created_by_discord_id: 'admin-1',
+                              created_at: '2026-01-01T00:00:00.000Z',
+                              updated_at: '2026-01-01T00:00:00.000Z',
+                          },
+                      ]
+                    : null
+            );
+            const env = createMockEnv({ DB: db as unknown as D1Database, PERSPECTIVE_API_KEY: 'test-api-key' });
+            fetchMock.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({ attributeScores: { PROFANITY: { summaryScore: { value: 0.9 } } } }),
+            });
+
+            const result = await dryRunModeration({ name: 'rmt palette', description: 'Description' }, env);
+
+            expect(fetchMock).toHaveBeenCalledOnce();
+            expect(result.action).toBe('reject');
+            expect(result.fired_rules.map((rule) => rule.name)).toEqual(['RMT', 'Default profanity threshold']);
+        });
+    });
+
     // ============================================
     // notifyModerators
     // ============================================
@@ -0,0 +1,325 @@
+/**
+ * Notification Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    MAX_NOTIFICATION_ATTEMPTS,
+    isDiscordWorkerConfigured,
+    sendToDiscordWorker,
+    getOutboxBackoffDelay,
+    buildOutboxInsertStatement,
+    drainNotificationOutbox,
+    scheduleOutboxDelivery,
+    getOutboxNotifications,
+    replayNotification,
+    getAuthorNotificationEvent,
+    buildAuthorNotification,
+    authorNotificationMessage,
+} from '../../src/services/notification-service';
+import type { Env, NotificationOutboxRow } from '../../src/types';
+import { createMockEnv, createMockD1Database } from '../test-utils';
+
+function createOutboxRow(overrides: Partial<NotificationOutboxRow> = {}): NotificationOutboxRow {
+    return {
+        id: 'notification-1',
+        path: '/webhooks/preset-submission',
+        payload: JSON.stringify({ type: 'submission' }),
+        preset_id: 'preset-1',
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: '2026-01-01T00:00:00.000Z',
+        last_error: null,
+        created_at: '2026-01-01T00:00:00.000Z',
+        delivered_at: null,
+        ...overrides,
+    };
+}
+
+describe('NotificationService', () => {
+    let env: Env;
+    let db: ReturnType<typeof createMockD1Database>;
+    let mockFetch: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        db = createMockD1Database();
+        mockFetch = vi.fn().mockResolvedValue(new Response('ok', { status: 200 }));
+        env = createMockEnv({
+            DB: db as unknown as D1Database,
+            DISCORD_WORKER: { fetch: mockFetch } as unknown as Fetcher,
+            INTERNAL_WEBHOOK_SECRET: 'internal-secret',
+        });
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    // ============================================
+    // sendToDiscordWorker
+    // ============================================
+
+    describe('sendToDiscordWorker', () => {
+        it('should skip when the binding is not configured', async () => {
+            const unconfigured = createMockEnv();
+
+            expect(isDiscordWorkerConfigured(unconfigured)).toBe(false);
+            await expect(sendToDiscordWorker(unconfigured, '/webhooks/test', {})).resolves.toBeUndefined();
+        });
+
+        it('should POST the payload with the internal secret', async () => {
+            await sendToDiscordWorker(env, '/webhooks/test', { hello: 'world' });
+
+            const request = mockFetch.mock.calls[0][0] as Request;
+            expect(new URL(request.url).pathname).toBe('/webhooks/test');
+            expect(request.method).toBe('POST');
+            expect(request.headers.get('Authorization')).toBe('Bearer internal-secret');
+            expect(await request.json()).toEqual({ hello: 'world' });
+        });
+
+        it('should throw on failure without retrying', async () => {
+            mockFetch.mockResolvedValue(new Response('down', { status: 503 }));
+
+            await expect(sendToDiscordWorker(env, '/webhooks/test', {})).rejects.toThrow('returned 503');
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    // ============================================
+    // Outbox
+    // ============================================
+
+    describe('getOutboxBackoffDelay', () => {
+        it('should double per attempt within jitter bounds', () => {
+            const first = getOutboxBackoffDelay(1);
+            const third = getOutboxBackoffDelay(3);
+
+            expect(first).toBeGreaterThanOrEqual(0.75 * 120_000);
+            expect(first).toBeLessThanOrEqual(1.25 * 120_000);
+            expect(third).toBeGreaterThanOrEqual(0.75 * 480_000);
+            expect(third).toBeLessThanOrEqual(1.25 * 480_000);
+        });
+
+        it('should cap the delay', () => {
+            expect(getOutboxBackoffDelay(50)).toBeLessThanOrEqual(1.25 * 2 * 3600 * 1000);
+        });
+    });
+
+    describe('buildOutboxInsertStatement', () => {
+        it('should queue the notification as due now', async () => {
+            await buildOutboxInsertStatement(
+                db as unknown as D1Database,
+                { path: '/webhooks/test', payload: { hello: 'world' }, preset_id: 'preset-1' },
+                '2026-01-01T00:00:00.000Z'
+            ).run();
+
+            expect(db._queries[0]).toContain('INSERT INTO notification_outbox');
+            expect(db._bindings[0]).toEqual([
+                expect.any(String),
+                '/webhooks/test',
+                '{"hello":"world"}',
+                'preset-1',
+                '2026-01-01T00:00:00.000Z',
+                '2026-01-01T00:00:00.000Z',
+            ]);
+        });
+
+        it('should only queue the notification when the condition holds', async () => {
+            await buildOutboxInsertStatement(
+                db as unknown as D1Database,
+                { path: '/webhooks/test', payload: {}, preset_id: 'preset-1' },
+                '2026-01-01T00:00:00.000Z',
+                { sql: 'EXISTS (SELECT 1 FROM moderation_log WHERE id = ?)', bindings: ['log-1'] }
+            ).run();
+
+            expect(db._queries[0]).toContain('SELECT ?, ?, ?, ?');
+            expect(db._queries[0]).toContain('WHERE EXISTS (SELECT 1 FROM moderation_log WHERE id = ?)');
+            expect(db._bindings[0][6]).toBe('log-1');
+        });
+    });
+
+    describe('drainNotificationOutbox', () => {
+        const now = new Date('2026-01-01T00:05:00.000Z');
+
+        function setupOutbox(rows: NotificationOutboxRow[], claimed = 1) {
+            db._setupMock((query: string) => {
+                if (query.includes('SELECT * FROM notification_outbox')) return rows;
+                if (query.includes('SET attempts = ?')) return { success: true, meta: { changes: claimed } };
+                return { success: true, meta: { changes: 1 } };
+            });
+        }
+
+        it('should deliver due notifications and mark them delivered', async () => {
+            setupOutbox([createOutboxRow()]);
+
+            const result = await drainNotificationOutbox(env, now);
+
+            expect(result).toEqual({ delivered: 1, failed: 0, dead: 0 });
+            expect(await (mockFetch.mock.calls[0][0] as Request).json()).toEqual({ type: 'submission' });
+            expect(db._queries.some((q) => q.includes("SET status = 'delivered'"))).toBe(true);
+        });
+
+        it('should claim each row before sending', async () => {
+            setupOutbox([createOutboxRow({ attempts: 2 })]);
+
+            await drainNotificationOutbox(env, now);
+
+            const claim = db._queries.findIndex((q) => q.includes('SET attempts = ?'));
+            expect(db._queries[claim]).toContain("status = 'pending' AND attempts = ?");
+            expect(db._bindings[claim][0]).toBe(3);
+            expect(db._bindings[claim][2]).toBe('notification-1');
+            expect(db._bindings[claim][3]).toBe(2);
+            // The claim pushes the row out to its retry time
+            expect(new Date(db._bindings[claim][1] as string).getTime()).toBeGreaterThan(now.getTime());
+        });
+
+        it('should skip rows claimed by a concurrent drain', async () => {
+            setupOutbox([createOutboxRow()], 0);
+
+            const result = await drainNotificationOutbox(env, now);
+
+            expect(result).toEqual({ delivered: 0, failed: 0, dead: 0 });
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('should keep failed rows pending with the error', async () => {
+            mockFetch.mockResolvedValue(new Response('down', { status: 503 }));
+            setupOutbox([createOutboxRow()]);
+
+            const result = await drainNotificationOutbox(env, now);
+
+            expect(result).toEqual({ delivered: 0, failed: 1, dead: 0 });
+            const failure = db._queries.findIndex((q) => q.includes('SET status = ?, last_error = ?'));
+            expect(db._bindings[failure]).toEqual(['pending', 'Discord worker returned 503: down', 'notification-1']);
+        });
+
+        it('should dead-letter after the last attempt', async () => {
+            mockFetch.mockRejectedValue(new Error('connection refused'));
+            setupOutbox([createOutboxRow({ attempts: MAX_NOTIFICATION_ATTEMPTS - 1 })]);
+
+            const result = await drainNotificationOutbox(env, now);
+
+            expect(result).toEqual({ delivered: 0, failed: 0, dead: 1 });
+            const failure = db._queries.findIndex((q) => q.includes('SET status = ?, last_error = ?'));
+            expect(db._bindings[failure]).toEqual(['dead', 'connection refused', 'notification-1']);
+        });
+
+        it('should leave the outbox alone when the worker is not configured', async () => {
+            const result = await drainNotificationOutbox(createMockEnv({ DB: db as unknown as D1Database }), now);
+
+            expect(result).toEqual({ delivered: 0, failed: 0, dead: 0 });
+            expect(db._queries).toHaveLength(0);
+        });
+    });
+
+    describe('scheduleOutboxDelivery', () => {
+        it('should drain via waitUntil when configured', () => {
+            db._setupMock(() => []);
+            const waitUntil = vi.fn();
+
+            scheduleOutboxDelivery(env, { waitUntil });
+
+            expect(waitUntil).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not schedule anything when the worker is not configured', () => {
+            const waitUntil = vi.fn();
+
+            scheduleOutboxDelivery(createMockEnv(), { waitUntil });
+
+            expect(waitUntil).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getOutboxNotifications', () => {
+        it('should filter by status and parse payloads', async () => {
+            db._setupMock(() => [{ ...createOutboxRow({ status: 'dead', attempts: 8 }), _total: 1 }]);
+
+            const result = await getOutboxNotifications(db as unknown as D1Database, { status: 'dead' });
+
+            expect(result.total).toBe(1);
+            expect(result.notifications[0].payload).toEqual({ type: 'submission' });
+            expect(result.notifications[0].status).toBe('dead');
+            expect(db._queries[0]).toContain('WHERE status = ?');
+            expect(db._bindings[0]).toEqual(['dead', 20, 0]);
+        });
+    });
+
+    describe('replayNotification', () => {
+        it('should requeue dead notifications with fresh attempts', async () => {
+            db._setupMock(() => createOutboxRow());
+
+            const notification = await replayNotification(db as unknown as D1Database, 'notification-1');
+
+            expect(notification?.status).toBe('pending');
+            expect(db._queries[0]).toContain("SET status = 'pending', attempts = 0");
+            expect(db._queries[0]).toContain("status = 'dead'");
+        });
+
+        it('should return null for notifications that are not dead', async () => {
+            db._setupMock(() => null);
+
+            expect(await replayNotification(db as unknown as D1Database, 'notification-1')).toBeNull();
+        });
+    });
+
+    // ============================================
+    // Author notifications
+    // ============================================
+
+    describe('getAuthorNotificationEvent', () => {
+        it('should announce approvals and rejections', () => {
+            expect(getAuthorNotificationEvent('pending', 'approved')).toBe('approved');
+            expect(getAuthorNotificationEvent('flagged', 'approved')).toBe('approved');
+            expect(getAuthorNotificationEvent('approved', 'rejected')).toBe('rejected');
+        });
+
+        it('should not announce flags or unchanged statuses', () => {
+            expect(getAuthorNotificationEvent('approved', 'flagged')).toBeNull();
+            expect(getAuthorNotificationEvent('approved', 'approved')).toBeNull();
+        });
+    });
+
+    describe('buildAuthorNotification', () => {
+        const preset = {
+            id: 'preset-1',
+            name: 'Sunset',
+            status: 'rejected' as const,
+            author_discord_id: '123',
+            author_name: 'Author',
+        };
+
+        it('should include the moderator reason', () => {
+            const payload = buildAuthorNotification(preset, 'rejected', 'Name is offensive');
+
+            expect(payload).toMatchObject({
+                type: 'moderation_decision',
+                event: 'rejected',
+                preset: { id: 'preset-1', author_discord_id: '123', status: 'rejected' },
+                reason: 'Name is offensive',
+            });
+        });
+
+        it('should skip presets without a Discord author', () => {
+            expect(buildAuthorNotification({ ...preset, author_discord_id: null }, 'approved', null)).toBeNull();
+        });
+    });
+
+    describe('authorNotificationMessage', () => {
+        it('should target the preset-moderation webhook', () => {
+            const payload = buildAuthorNotification(
+                { id: 'preset-1', name: 'Sunset', status: 'approved', author_discord_id: '123', author_name: null },
+                'approved',
+                undefined
+            )!;
+
+            expect(authorNotificationMessage(payload)).toEqual({
+                path: '/webhooks/preset-moderation',
+                payload,
+                preset_id: 'preset-1',
+            });
+            expect(payload.reason).toBeNull();
+        });
+    });
+});
@@ -5,20 +5,45 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
     generateDyeSignature,
+    buildPresetDyeStatements,
+    buildSearchQuery,
+    formatSnippet,
     rowToPreset,
     getPresets,
+    getPresetsByCursor,
+    encodePresetCursor,
+    decodePresetCursor,
+    resolvePresetSort,
     getFeaturedPresets,
     getPresetById,
     findDuplicatePreset,
     createPreset,
     updatePresetStatus,
-    getPendingPresets,
+    getPresetsByIds,
+    bulkUpdatePresetStatus,
+    PENDING_SINCE_ASSIGNMENT,
     getPresetsByUser,
     findDuplicatePresetExcluding,
+    isUniqueViolation,
     updatePreset,
     revertPreset,
+    getDyeLabColors,
+    findSimilarPresets,
+    findNearDuplicatePresets,
+    MAX_SIMILARITY_CANDIDATES,
+    resolveNearDuplicateThreshold,
+    DEFAULT_NEAR_DUPLICATE_THRESHOLD,
+    buildPresetRevisionStatement,
+    getPresetRevisions,
+    getPresetRevision,
+    getPresetForks,
+    calculateTrendingScore,
+    refreshTrendingScores,
+    TRENDING_GRAVITY,
+    TRENDING_WINDOW_DAYS,
 } from '../../src/services/preset-service';
-import type { PresetRow, CommunityPreset } from '../../src/types';
+import { hexToLab } from '../../src/utils/color';
+import type { PresetRow, CommunityPreset, PresetRevisionRow } from '../../src/types';
 import {
     createMockD1Database,
     createMockPresetRow,
@@ -76,6 +101,82 @@ describe('PresetService', () => {
         });
     });
 
+    // ============================================
+    // buildSearchQuery
+    // ============================================
+
+    describe('buildSearchQuery', () => {
+        it('should build a quoted prefix query for each term', () => {
+            expect(buildSearchQuery('sunset warrior')).toEqual({ match: '"sunset"* "warrior"*', substrings: [] });
+        });
+
+        it('should lowercase and NFKC-normalize terms', () => {
+            expect(buildSearchQuery('ＳＵＮ Set')?.match).toBe('"sun"* "set"*');
+        });
+
+        it('should strip FTS5 operators and punctuation', () => {
+            expect(buildSearchQuery('"dark" -gothic ^name:(x*)')?.match).toBe(
+                '"dark"* "gothic"* "name"* "x"*'
+            );
+        });
+
+        it('should keep non-Latin terms', () => {
+            expect(buildSearchQuery('café Ωmega')?.match).toBe('"café"* "ωmega"*');
+        });
+
+        it('should match CJK terms as substrings', () => {
+            expect(buildSearchQuery('夕焼け café')).toEqual({ match: '"café"*', substrings: ['夕焼け'] });
+            expect(buildSearchQuery('빨간 ai垃圾')).toEqual({ match: null, substrings: ['빨간', 'ai垃圾'] });
+        });
+
+        it('should return null when there are no searchable terms', () => {
+            expect(buildSearchQuery('  %_* ')).toBeNull();
+            expect(buildSearchQuery('!!!')).toBeNull();
+            expect(buildSearchQuery('')).toBeNull();
+        });
+
+        it('should cap the number of terms', () => {
+            const query = buildSearchQuery('a b c d e f g h i j k');
+            expect(query?.match?.split(' ')).toHaveLength(8);
+        });
+    });
+
+    // ============================================
+    // formatSnippet
+    // ============================================
+
+    describe('formatSnippet', () => {
+        it('should replace match markers with mark tags', () => {
+            expect(formatSnippet('\u0001Sun\u0002set')).toBe('<mark>Sun</mark>set');
+        });
+
+        it('should HTML-escape snippet text', () => {
+            expect(formatSnippet('<script>"x" & \'y\'</script>')).toBe(
+                '&lt;script&gt;&quot;x&quot; &amp; &#39;y&#39;&lt;/script&gt;'
+            );
+        });
+    });
+
+    // ============================================
+    // buildPresetDyeStatements
+    // ============================================
+
+    describe('buildPresetDyeStatements', () => {
+        it('should clear existing rows then insert one row per dye with its position', async () => {
+            const db = createMockD1Database();
+
+            const statements = buildPresetDyeStatements(db, 'preset-1', [30, 10, 20]);
+            await db.batch(statements);
+
+            expect(statements).toHaveLength(4);
+            expect(db._queries[0]).toContain('DELETE FROM preset_dyes WHERE preset_id = ?');
+            expect(db._queries.filter((q) => q.includes('INSERT INTO preset_dyes'))).toHaveLength(3);
+            expect(db._bindings).toContainEqual(['preset-1', 30, 0]);
+            expect(db._bindings).toContainEqual(['preset-1', 10, 1]);
+            expect(db._bindings).toContainEqual(['preset-1', 20, 2]);
+        });
+    });
+
     // ============================================
     // rowToPreset
     // ============================================
@@ -122,6 +223,11 @@ describe('PresetService', () => {
             expect(preset.previous_values).toEqual(previousValues);
         });
 
+        it('should expose forked_from_id', () => {
+            expect(rowToPreset({ ...createMockPresetRow(), forked_from_id: 'parent-1' }).forked_from_id).toBe('parent-1');
+            expect(rowToPreset({ ...createMockPresetRow(), forked_from_id: null }).forked_from_id).toBeNull();
+        });
+
         it('should set previous_values to null if not present', () => {
             const row = createMockPresetRow({ previous_values: null });
             const preset = rowToPreset(row);
@@ -173,15 +279,112 @@ describe('PresetService', () => {
             expect(db._bindings.some((b) => b.includes('jobs'))).toBe(true);
         });
 
-        it('should filter by search term', async () => {
+        it('should filter by search term using the FTS index', async () => {
             const db = createMockD1Database();
             // Return empty array - service uses window function COUNT(*) OVER() not separate count query
             db._setupMock(() => []);
 
             await getPresets(db, { search: 'red' });
 
-            expect(db._queries.some((q) => q.includes('LIKE ?'))).toBe(true);
-            expect(db._bindings.some((b) => b.some((v) => v === '%red%'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('presets_fts MATCH ?'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('LIKE'))).toBe(false);
+            expect(db._bindings.some((b) => b.some((v) => v === '"red"*'))).toBe(true);
+        });
+
+        it('should match CJK terms as substrings alongside the FTS index', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { search: 'sunset 夕焼け' });
+
+            expect(db._queries[0]).toContain('presets_fts MATCH ?');
+            expect(db._queries[0]).toContain('(name LIKE ? OR description LIKE ? OR tags LIKE ?)');
+            expect(db._bindings[0]).toContain('"sunset"*');
+            expect(db._bindings[0].filter((v) => v === '%夕焼け%')).toHaveLength(3);
+        });
+
+        it('should rank CJK-only searches without the FTS index', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [{ ...createMockPresetRow({ id: 'preset-1' }), _total: 1, _rank: -10 }]);
+
+            const result = await getPresets(db, { search: '空' });
+
+            expect(db._queries[0]).not.toContain('presets_fts');
+            expect(db._queries[0]).toContain('10.0 * (name LIKE ?)');
+            expect(db._queries[0]).toContain('_rank ASC');
+            expect(db._bindings[0].filter((v) => v === '%空%')).toHaveLength(6);
+            expect(result.highlights?.['preset-1']).toBeDefined();
+        });
+
+        it('should default to relevance sort when searching', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { search: 'red' });
+
+            expect(db._queries.some((q) => q.includes('_rank ASC'))).toBe(true);
+        });
+
+        it('should respect explicit sort when searching', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { search: 'red', sort: 'recent' });
+
+            expect(db._queries.some((q) => q.includes('_rank ASC'))).toBe(false);
+            expect(db._queries.some((q) => q.includes('created_at DESC'))).toBe(true);
+        });
+
+        it('should fall back to popular for relevance sort without search', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { sort: 'relevance' });
+
+            expect(db._queries.some((q) => q.includes('presets_fts'))).toBe(false);
+            expect(db._queries.some((q) => q.includes('vote_count DESC'))).toBe(true);
+        });
+
+        it('should ignore search input without searchable terms', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            const result = await getPresets(db, { search: '%_*"' });
+
+            expect(db._queries.some((q) => q.includes('presets_fts'))).toBe(false);
+            expect(result.highlights).toBeUndefined();
+        });
+
+        it('should return highlights keyed by preset ID for search results', async () => {
+            const db = createMockD1Database();
+            const mockRows = [
+                {
+                    ...createMockPresetRow({ id: 'preset-1' }),
+                    _total: 1,
+                    _rank: -1.5,
+                    _name_snippet: '\u0001Sun\u0002set <b>',
+                    _description_snippet: 'Warm \u0001sun\u0002 tones',
+                },
+            ];
+            db._setupMock(() => mockRows);
+
+            const result = await getPresets(db, { search: 'sun' });
+
+            expect(result.highlights).toEqual({
+                'preset-1': {
+                    name: '<mark>Sun</mark>set &lt;b&gt;',
+                    description: 'Warm <mark>sun</mark> tones',
+                },
+            });
+        });
+
+        it('should not include highlights when not searching', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [{ ...createMockPresetRow(), _total: 1 }]);
+
+            const result = await getPresets(db, {});
+
+            expect(result.highlights).toBeUndefined();
         });
 
         it('should filter by is_curated', async () => {
@@ -225,114 +428,644 @@ describe('PresetService', () => {
             expect(db._queries.some((q) => q.includes('name ASC'))).toBe(true);
         });
 
-        it('should paginate correctly', async () => {
+        it('should paginate correctly', async () => {
+            const db = createMockD1Database();
+            // Return empty array - we're just testing the bindings are correct
+            db._setupMock(() => []);
+
+            const result = await getPresets(db, { page: 3, limit: 10 });
+
+            expect(result.page).toBe(3);
+            expect(result.limit).toBe(10);
+            expect(db._bindings.some((b) => b.includes(10) && b.includes(20))).toBe(true); // LIMIT 10 OFFSET 20
+        });
+
+        it('should calculate has_more correctly', async () => {
+            const db = createMockD1Database();
+            // Window function embeds _total in each row
+            const mockRows = [
+                { ...createMockPresetRow(), _total: 5 },
+                { ...createMockPresetRow(), _total: 5 }
+            ];
+
+            db._setupMock(() => {
+                return mockRows;
+            });
+
+            const result = await getPresets(db, { page: 1, limit: 2 });
+
+            expect(result.has_more).toBe(true);
+        });
+
+        it('should return has_more false on last page', async () => {
+            const db = createMockD1Database();
+            // Window function embeds _total in each row - on last page with 1 item when total is 3, page 2, limit 2
+            const mockRows = [{ ...createMockPresetRow(), _total: 3 }];
+
+            db._setupMock(() => mockRows);
+
+            const result = await getPresets(db, { page: 2, limit: 2 });
+
+            expect(result.has_more).toBe(false);
+        });
+
+        it('should handle empty results with total 0', async () => {
+            const db = createMockD1Database();
+
+            db._setupMock(() => []);
+
+            const result = await getPresets(db, {});
+
+            expect(result.total).toBe(0);
+            expect(result.presets).toEqual([]);
+            expect(result.has_more).toBe(false);
+        });
+
+        it('should strip FTS query syntax from search input', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { search: 'test%_\\string OR name:x' });
+
+            expect(
+                db._bindings.some((b) => b.includes('"test"* "string"* "or"* "name"* "x"*'))
+            ).toBe(true);
+        });
+
+        it('should filter by dyes with match=all by default', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { dyes: [5738, 13115] });
+
+            const query = db._queries[0];
+            expect(query).toContain('SELECT preset_id FROM preset_dyes WHERE dye_id IN (?, ?)');
+            expect(query).toContain('HAVING COUNT(DISTINCT dye_id) = ?');
+            expect(db._bindings[0]).toEqual(
+                expect.arrayContaining([5738, 13115, 2])
+            );
+        });
+
+        it('should filter by dyes with match=any', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { dyes: [5738, 13115], dye_match: 'any' });
+
+            const query = db._queries[0];
+            expect(query).toContain('SELECT preset_id FROM preset_dyes WHERE dye_id IN (?, ?)');
+            expect(query).not.toContain('HAVING');
+        });
+
+        it('should de-duplicate requested dye IDs', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { dyes: [5738, 5738] });
+
+            expect(db._queries[0]).toContain('dye_id IN (?)');
+        });
+
+        it('should filter by is_curated false', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { is_curated: false });
+
+            expect(db._bindings.some((b) => b.includes(0))).toBe(true);
+        });
+
+        it('should filter by custom status', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { status: 'pending' });
+
+            expect(db._bindings.some((b) => b.includes('pending'))).toBe(true);
+        });
+    });
+
+    // ============================================
+    // Cursor pagination
+    // ============================================
+
+    describe('encodePresetCursor / decodePresetCursor', () => {
+        it('should round-trip a cursor', () => {
+            const cursor = { sort: 'popular' as const, values: [12, '2025-12-07T12:00:00Z', 'preset-1'] };
+            expect(decodePresetCursor(encodePresetCursor(cursor))).toEqual(cursor);
+        });
+
+        it('should round-trip non-ASCII sort values', () => {
+            const cursor = { sort: 'name' as const, values: ['夕焼け Café', 'preset-2'] };
+            expect(decodePresetCursor(encodePresetCursor(cursor))).toEqual(cursor);
+        });
+
+        it('should produce URL-safe output', () => {
+            const encoded = encodePresetCursor({ sort: 'name', values: ['???>>>', 'id'] });
+            expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+        });
+
+        it('should reject malformed cursors', () => {
+            expect(decodePresetCursor('not-a-cursor')).toBeNull();
+            expect(decodePresetCursor('')).toBeNull();
+        });
+
+        it('should reject cursors with the wrong number of values', () => {
+            const encoded = encodePresetCursor({ sort: 'recent', values: ['only-one'] });
+            expect(decodePresetCursor(encoded)).toBeNull();
+        });
+
+        it('should reject cursors for unknown sorts', () => {
+            const encoded = encodePresetCursor({ sort: 'toString' as 'name', values: ['a', 'b'] });
+            expect(decodePresetCursor(encoded)).toBeNull();
+        });
+    });
+
+    describe('resolvePresetSort', () => {
+        it('should default to popular', () => {
+            expect(resolvePresetSort({})).toBe('popular');
+        });
+
+        it('should default to relevance when searching', () => {
+            expect(resolvePresetSort({ search: 'sun' })).toBe('relevance');
+        });
+
+        it('should fall back to popular for relevance without search', () => {
+            expect(resolvePresetSort({ sort: 'relevance' })).toBe('popular');
+        });
+
+        it('should ignore unknown sort values', () => {
+            expect(resolvePresetSort({ sort: 'bogus' as 'name' })).toBe('popular');
+        });
+
+        it('should accept trending', () => {
+            expect(resolvePresetSort({ sort: 'trending' })).toBe('trending');
+        });
+    });
+
+    describe('getPresets sort=trending', () => {
+        it('should order by the precomputed trending score', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { sort: 'trending' });
+
+            expect(db._queries[0]).toContain('ORDER BY trending_score DESC, created_at DESC, id DESC');
+        });
+
+        it('should round-trip trending cursors', () => {
+            const cursor = encodePresetCursor({ sort: 'trending', values: [0.123456, '2025-01-01T00:00:00Z', 'abc'] });
+
+            expect(decodePresetCursor(cursor)).toEqual({
+                sort: 'trending',
+                values: [0.123456, '2025-01-01T00:00:00Z', 'abc'],
+            });
+        });
+    });
+
+    describe('getPresets next_cursor', () => {
+        it('should return next_cursor for the last row when more pages exist', async () => {
+            const db = createMockD1Database();
+            const rows = [
+                { ...createMockPresetRow({ id: 'p1', vote_count: 9, created_at: '2025-01-02' }), _total: 5 },
+                { ...createMockPresetRow({ id: 'p2', vote_count: 7, created_at: '2025-01-01' }), _total: 5 },
+            ];
+            db._setupMock(() => rows);
+
+            const result = await getPresets(db, { limit: 2 });
+
+            expect(result.next_cursor).not.toBeNull();
+            expect(decodePresetCursor(result.next_cursor!)).toEqual({
+                sort: 'popular',
+                values: [7, '2025-01-01', 'p2'],
+            });
+        });
+
+        it('should return null next_cursor on the last page', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [{ ...createMockPresetRow(), _total: 1 }]);
+
+            const result = await getPresets(db, {});
+
+            expect(result.next_cursor).toBeNull();
+        });
+    });
+
+    describe('getPresetsByCursor', () => {
+        it('should use a row-value keyset condition instead of OFFSET', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresetsByCursor(db, { limit: 10 }, {
+                sort: 'popular',
+                values: [5, '2025-01-01', 'p9'],
+            });
+
+            const query = db._queries[0];
+            expect(query).toContain('(vote_count, created_at, id) < (?, ?, ?)');
+            expect(query).not.toContain('OFFSET');
+            expect(query).not.toContain('COUNT(*) OVER()');
+            // Fetches one extra row to detect has_more
+            expect(db._bindings[0]).toEqual(['approved', 5, '2025-01-01', 'p9', 11]);
+        });
+
+        it('should use ascending comparison for name sort', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresetsByCursor(db, { sort: 'name' }, { sort: 'name', values: ['Moon', 'p1'] });
+
+            expect(db._queries[0]).toContain('(name, id) > (?, ?)');
+            expect(db._queries[0]).toContain('name ASC, id ASC');
+        });
+
+        it('should set has_more and next_cursor when an extra row is returned', async () => {
+            const db = createMockD1Database();
+            const rows = [
+                createMockPresetRow({ id: 'p1', created_at: '2025-01-03' }),
+                createMockPresetRow({ id: 'p2', created_at: '2025-01-02' }),
+                createMockPresetRow({ id: 'p3', created_at: '2025-01-01' }),
+            ];
+            db._setupMock(() => rows);
+
+            const result = await getPresetsByCursor(db, { sort: 'recent', limit: 2 }, {
+                sort: 'recent',
+                values: ['2025-01-04', 'p0'],
+            });
+
+            expect(result.presets.map((p) => p.id)).toEqual(['p1', 'p2']);
+            expect(result.has_more).toBe(true);
+            expect(decodePresetCursor(result.next_cursor!)).toEqual({
+                sort: 'recent',
+                values: ['2025-01-02', 'p2'],
+            });
+        });
+
+        it('should return null next_cursor on the last page', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [createMockPresetRow({ id: 'p1' })]);
+
+            const result = await getPresetsByCursor(db, { sort: 'recent', limit: 2 }, {
+                sort: 'recent',
+                values: ['2025-01-04', 'p0'],
+            });
+
+            expect(result.has_more).toBe(false);
+            expect(result.next_cursor).toBeNull();
+        });
+    });
+
+    // ============================================
+    // getFeaturedPresets
+    // ============================================
+
+    describe('getFeaturedPresets', () => {
+        it('should return top 10 approved presets', async () => {
+            const db = createMockD1Database();
+            const mockRows = Array.from({ length: 10 }, () => createMockPresetRow());
+
+            db._setupMock(() => mockRows);
+
+            const result = await getFeaturedPresets(db);
+
+            expect(result.length).toBe(10);
+            expect(db._queries[0]).toContain("status = 'approved'");
+            expect(db._queries[0]).toContain('LIMIT 10');
+        });
+
+        it('should order by vote_count DESC', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getFeaturedPresets(db);
+
+            expect(db._queries[0]).toContain('vote_count DESC');
+            expect(db._queries[0]).not.toContain('trending_score');
+        });
+
+        it('should order by trending score when requested', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getFeaturedPresets(db, 'trending');
+
+            expect(db._queries[0]).toContain('ORDER BY trending_score DESC, vote_count DESC');
+        });
+    });
+
+    // ============================================
+    // Trending
+    // ============================================
+
+    describe('calculateTrendingScore', () => {
+        it('should weight newer votes more heavily', () => {
+            const fresh = calculateTrendingScore([{ age_hours: 0, votes: 1 }]);
+            const old = calculateTrendingScore([{ age_hours: 100, votes: 1 }]);
+
+            expect(fresh).toBeCloseTo(1 / Math.pow(2, TRENDING_GRAVITY), 6);
+            expect(old).toBeLessThan(fresh);
+        });
+
+        it('should sum buckets', () => {
+            const score = calculateTrendingScore([
+                { age_hours: 0, votes: 2 },
+                { age_hours: 2, votes: 1 },
+            ]);
+
+            expect(score).toBeCloseTo(2 / Math.pow(2, TRENDING_GRAVITY) + 1 / Math.pow(4, TRENDING_GRAVITY), 6);
+        });
+
+        it('should return 0 with no votes', () => {
+            expect(calculateTrendingScore([])).toBe(0);
+        });
+    });
+
+    describe('refreshTrendingScores', () => {
+        const now = new Date('2026-01-10T12:00:00.000Z');
+
+        it('should write scores for presets with votes in the window', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query: string) =>
+                query.includes('FROM votes')
+                    ? [
+                          { preset_id: 'p1', age_hours: 0, votes: 3 },
+                          { preset_id: 'p1', age_hours: 5, votes: 1 },
+                          { preset_id: 'p2', age_hours: 48, votes: 1 },
+                      ]
+                    : { success: true }
+            );
+
+            const trending = await refreshTrendingScores(db, now);
+
+            expect(trending).toBe(2);
+            expect(db._bindings[0]).toEqual(['2026-01-10T12:00:00.000Z', `2026-01-0${10 - TRENDING_WINDOW_DAYS} 12:00:00`]);
+            const update = db._queries.findIndex((q) => q.includes('SET trending_score'));
+            const scores = JSON.parse(db._bindings[update][0] as string) as Record<string, number>;
+            expect(Object.keys(scores)).toEqual(['p1', 'p2']);
+            expect(scores.p1).toBeGreaterThan(scores.p2);
+        });
+
+        it('should ignore buckets outside the window', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query: string) =>
+                query.includes('FROM votes')
+                    ? [{ preset_id: 'p1', age_hours: TRENDING_WINDOW_DAYS * 24 + 3, votes: 1 }]
+                    : { success: true }
+            );
+
+            const trending = await refreshTrendingScores(db, now);
+
+            expect(trending).toBe(0);
+        });
+
+        it('should reset stale scores when nothing is trending', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query: string) => (query.includes('FROM votes') ? [] : { success: true }));
+
+            await refreshTrendingScores(db, now);
+
+            const update = db._queries.findIndex((q) => q.includes('SET trending_score'));
+            expect(db._queries[update]).toContain('WHERE trending_score != 0');
+            expect(db._bindings[update]).toEqual(['{}', '{}']);
+        });
+    });
+
+    // ============================================
+    // getDyeLabColors
+    // ============================================
+
+    describe('getDyeLabColors', () => {
+        it('should convert catalog dyes to Lab colors', () => {
+            const colors = getDyeLabColors([5729, 13115]);
+
+            expect(colors).toHaveLength(2);
+            expect(colors[0]).toEqual(hexToLab('#E4DFD0'));
+            expect(colors[1]).toEqual(hexToLab('#1E1E1E'));
+        });
+
+        it('should skip dye IDs missing from the catalog', () => {
+            expect(getDyeLabColors([999999, 13115])).toHaveLength(1);
+            expect(getDyeLabColors([999999])).toEqual([]);
+        });
+    });
+
+    // ============================================
+    // findSimilarPresets
+    // ============================================
+
+    describe('findSimilarPresets', () => {
+        const jetBlack = hexToLab('#1E1E1E');
+
+        function setupCandidates(db: ReturnType<typeof createMockD1Database>, rows: PresetRow[]) {
+            db._setupMock((query: string, bindings: unknown[]) => {
+                if (query.includes('SELECT p.id, p.dyes')) {
+                    return rows.map((row) => ({ id: row.id, dyes: row.dyes }));
+                }
+                return rows.filter((row) => bindings.includes(row.id));
+            });
+        }
+
+        it('should return presets ordered by palette distance', async () => {
+            const db = createMockD1Database();
+            setupCandidates(db, [
+                createMockPresetRow({ id: 'white', dyes: JSON.stringify([13114]) }),
+                createMockPresetRow({ id: 'black', dyes: JSON.stringify([13115]) }),
+                createMockPresetRow({ id: 'soot', dyes: JSON.stringify([5734]) }),
+            ]);
+
+            const result = await findSimilarPresets(db, [jetBlack]);
+
+            expect(result.map((preset) => preset.id)).toEqual(['black', 'soot', 'white']);
+            expect(result[0].distance).toBe(0);
+            expect(result[1].distance).toBeLessThan(result[2].distance);
+        });
+
+        it('should only score approved presets by default', async () => {
+            const db = createMockD1Database();
+            setupCandidates(db, []);
+
+            await findSimilarPresets(db, [jetBlack]);
+
+            expect(db._queries[0]).toContain('status IN (?)');
+            expect(db._bindings[0].slice(1)).toEqual(['approved', MAX_SIMILARITY_CANDIDATES]);
+        });
+
+        it('should only score capped candidates that use a nearby dye', async () => {
+            const db = createMockD1Database();
+            setupCandidates(db, []);
+
+            await findSimilarPresets(db, [jetBlack], { maxDistance: 3 });
+
+            expect(db._queries[0]).toContain('FROM preset_dyes');
+            expect(db._queries[0]).toContain('LIMIT ?');
+            const dyeIds = JSON.parse(db._bindings[0][0] as string) as number[];
+            expect(dyeIds).toContain(13115);
+            expect(dyeIds).not.toContain(13114);
+            expect(db._bindings[0].at(-1)).toBe(MAX_SIMILARITY_CANDIDATES);
+        });
+
+        it('should always include the closest dye to each color', async () => {
+            const db = createMockD1Database();
+            setupCandidates(db, []);
+
+            await findSimilarPresets(db, [hexToLab('#1F1F1F')], { maxDistance: 0.0001 });
+
+            expect(JSON.parse(db._bindings[0][0] as string)).toHaveLength(1);
+        });
+
+        it('should score the given statuses', async () => {
+            const db = createMockD1Database();
+            setupCandidates(db, []);
+
+            await findSimilarPresets(db, [jetBlack], { statuses: ['approved', 'pending'] });
+
+            expect(db._queries[0]).toContain('status IN (?, ?)');
+            expect(db._bindings[0].slice(1)).toEqual(['approved', 'pending', MAX_SIMILARITY_CANDIDATES]);
+        });
+
+        it('should exclude the given preset ID in the candidate query', async () => {
+            const db = createMockD1Database();
+            setupCandidates(db, []);
+
+            await findSimilarPresets(db, [jetBlack], { excludeId: 'source' });
+
+            expect(db._queries[0]).toContain('AND p.id != ?');
+            expect(db._bindings[0].slice(1)).toEqual(['approved', 'source', MAX_SIMILARITY_CANDIDATES]);
+        });
+
+        it('should apply limit and maxDistance', async () => {
+            const db = createMockD1Database();
+            setupCandidates(db, [
+                createMockPresetRow({ id: 'black', dyes: JSON.stringify([13115]) }),
+                createMockPresetRow({ id: 'soot', dyes: JSON.stringify([5734]) }),
+                createMockPresetRow({ id: 'white', dyes: JSON.stringify([13114]) }),
+            ]);
+
+            const limited = await findSimilarPresets(db, [jetBlack], { limit: 1 });
+            expect(limited.map((preset) => preset.id)).toEqual(['black']);
+
+            const close = await findSimilarPresets(db, [jetBlack], { maxDistance: 10 });
+            expect(close.map((preset) => preset.id)).not.toContain('white');
+        });
+
+        it('should skip presets with no catalog dyes', async () => {
             const db = createMockD1Database();
-            // Return empty array - we're just testing the bindings are correct
-            db._setupMock(() => []);
+            setupCandidates(db, [
+                createMockPresetRow({ id: 'unknown', dyes: JSON.stringify([999999]) }),
+            ]);
 
-            const result = await getPresets(db, { page: 3, limit: 10 });
+            const result = await findSimilarPresets(db, [jetBlack]);
 
-            expect(result.page).toBe(3);
-            expect(result.limit).toBe(10);
-            expect(db._bindings.some((b) => b.includes(10) && b.includes(20))).toBe(true); // LIMIT 10 OFFSET 20
+            expect(result).toEqual([]);
+            expect(db._queries).toHaveLength(1);
         });
 
-        it('should calculate has_more correctly', async () => {
+        it('should return empty without querying when no colors are given', async () => {
             const db = createMockD1Database();
-            // Window function embeds _total in each row
-            const mockRows = [
-                { ...createMockPresetRow(), _total: 5 },
-                { ...createMockPresetRow(), _total: 5 }
-            ];
-
-            db._setupMock(() => {
-                return mockRows;
-            });
 
-            const result = await getPresets(db, { page: 1, limit: 2 });
+            const result = await findSimilarPresets(db, []);
 
-            expect(result.has_more).toBe(true);
+            expect(result).toEqual([]);
+            expect(db._queries).toHaveLength(0);
         });
+    });
 
-        it('should return has_more false on last page', async () => {
-            const db = createMockD1Database();
-            // Window function embeds _total in each row - on last page with 1 item when total is 3, page 2, limit 2
-            const mockRows = [{ ...createMockPresetRow(), _total: 3 }];
+    // ============================================
+    // Near-duplicate detection
+    // ============================================
 
-            db._setupMock(() => mockRows);
+    describe('resolveNearDuplicateThreshold', () => {
+        it('should default when unset or blank', () => {
+            expect(resolveNearDuplicateThreshold(undefined)).toBe(DEFAULT_NEAR_DUPLICATE_THRESHOLD);
+            expect(resolveNearDuplicateThreshold(' ')).toBe(DEFAULT_NEAR_DUPLICATE_THRESHOLD);
+        });
 
-            const result = await getPresets(db, { page: 2, limit: 2 });
+        it('should parse numeric values', () => {
+            expect(resolveNearDuplicateThreshold('4.5')).toBe(4.5);
+            expect(resolveNearDuplicateThreshold('0')).toBe(0);
+        });
 
-            expect(result.has_more).toBe(false);
+        it('should default for invalid values', () => {
+            expect(resolveNearDuplicateThreshold('abc')).toBe(DEFAULT_NEAR_DUPLICATE_THRESHOLD);
+            expect(resolveNearDuplicateThreshold('-1')).toBe(DEFAULT_NEAR_DUPLICATE_THRESHOLD);
         });
+    });
 
-        it('should handle empty results with total 0', async () => {
+    describe('findNearDuplicatePresets', () => {
+        it('should search approved and pending presets within the threshold', async () => {
             const db = createMockD1Database();
+            const rows = [
+                createMockPresetRow({ id: 'near', dyes: JSON.stringify([5734, 13114]) }),
+                createMockPresetRow({ id: 'far', dyes: JSON.stringify([5738, 30118]) }),
+            ];
+            db._setupMock((query: string, bindings: unknown[]) => {
+                if (query.includes('SELECT p.id, p.dyes')) return rows;
+                return rows.filter((row) => bindings.includes(row.id));
+            });
 
-            db._setupMock(() => []);
-
-            const result = await getPresets(db, {});
+            const result = await findNearDuplicatePresets(db, [13115, 13114], 3);
 
-            expect(result.total).toBe(0);
-            expect(result.presets).toEqual([]);
-            expect(result.has_more).toBe(false);
+            expect(db._bindings[0].slice(1)).toEqual(['approved', 'pending', MAX_SIMILARITY_CANDIDATES]);
+            expect(result.map((preset) => preset.id)).toEqual(['near']);
         });
 
-        it('should escape LIKE pattern special characters in search', async () => {
+        it('should exclude the given preset ID', async () => {
             const db = createMockD1Database();
             db._setupMock(() => []);
 
-            await getPresets(db, { search: 'test%_\\string' });
+            await findNearDuplicatePresets(db, [13115, 13114], 3, { excludeId: 'parent' });
 
-            // The search pattern should be escaped
-            const query = db._queries.find((q) => q.includes('LIKE'));
-            expect(query).toBeDefined();
+            expect(db._bindings[0]).toContain('parent');
         });
 
-        it('should filter by is_curated false', async () => {
+        it('should only score presets that use a dye within twice the threshold', async () => {
             const db = createMockD1Database();
             db._setupMock(() => []);
 
-            await getPresets(db, { is_curated: false });
+            await findNearDuplicatePresets(db, [13115], 3);
 
-            expect(db._bindings.some((b) => b.includes(0))).toBe(true);
+            const dyeIds = JSON.parse(db._bindings[0][0] as string) as number[];
+            expect(dyeIds).toContain(13115);
+            expect(dyeIds).not.toContain(13114);
         });
 
-        it('should filter by custom status', async () => {
+        it('should skip the query when the threshold is 0', async () => {
             const db = createMockD1Database();
-            db._setupMock(() => []);
 
-            await getPresets(db, { status: 'pending' });
+            const result = await findNearDuplicatePresets(db, [13115, 13114], 0);
 
-            expect(db._bindings.some((b) => b.includes('pending'))).toBe(true);
+            expect(result).toEqual([]);
+            expect(db._queries).toHaveLength(0);
         });
     });
 
     // ============================================
-    // getFeaturedPresets
+    // getPresetForks
     // ============================================
 
-    describe('getFeaturedPresets', () => {
-        it('should return top 10 approved presets', async () => {
+    describe('getPresetForks', () => {
+        it('should return approved forks of the preset, most voted first', async () => {
             const db = createMockD1Database();
-            const mockRows = Array.from({ length: 10 }, () => createMockPresetRow());
+            db._setupMock(() => [
+                { ...createMockPresetRow({ id: 'fork-1' }), forked_from_id: 'parent-1' },
+            ]);
 
-            db._setupMock(() => mockRows);
-
-            const result = await getFeaturedPresets(db);
+            const result = await getPresetForks(db, 'parent-1');
 
-            expect(result.length).toBe(10);
+            expect(result.map((preset) => preset.id)).toEqual(['fork-1']);
+            expect(db._queries[0]).toContain('forked_from_id = ?');
             expect(db._queries[0]).toContain("status = 'approved'");
-            expect(db._queries[0]).toContain('LIMIT 10');
+            expect(db._queries[0]).toContain('vote_count DESC');
+            expect(db._bindings[0]).toEqual(['parent-1', 20]);
         });
 
-        it('should order by vote_count DESC', async () => {
+        it('should apply the limit', async () => {
             const db = createMockD1Database();
             db._setupMock(() => []);
 
-            await getFeaturedPresets(db);
+            await getPresetForks(db, 'parent-1', 5);
 
-            expect(db._queries[0]).toContain('vote_count DESC');
+            expect(db._bindings[0]).toEqual(['parent-1', 5]);
         });
     });
 
@@ -417,10 +1150,22 @@ describe('PresetService', () => {
             expect(result.author_discord_id).toBe('user-123');
             expect(result.author_name).toBe('TestUser');
             expect(result.status).toBe('approved');
-            expect(result.vote_count).toBe(0);
+            expect(result.vote_count).toBe(1);
             expect(result.is_curated).toBe(false);
         });
 
+        it('should record the author\'s vote in the same batch as the preset', async () => {
+            const db = createMockD1Database();
+            const submission = createMockSubmission();
+
+            const result = await createPreset(db, submission, 'user-123', 'TestUser');
+
+            const insert = db._queries.findIndex((q) => q.includes('INSERT INTO presets'));
+            const vote = db._queries.findIndex((q) => q.includes('INSERT INTO votes'));
+            expect(vote).toBeGreaterThan(insert);
+            expect(db._bindings[vote]).toEqual([result.id, 'user-123', result.created_at]);
+        });
+
         it('should generate UUID for new preset', async () => {
             const db = createMockD1Database();
             const submission = createMockSubmission();
@@ -449,6 +1194,80 @@ describe('PresetService', () => {
 
             expect(result.status).toBe('pending');
         });
+
+        it('should write the outbox notification alongside the preset', async () => {
+            const db = createMockD1Database();
+            const submission = createMockSubmission();
+
+            const result = await createPreset(db, submission, 'user-123', 'TestUser', 'pending', null, (preset) => ({
+                path: '/webhooks/preset-submission',
+                payload: { preset_id: preset.id },
+                preset_id: preset.id,
+            }));
+
+            const outbox = db._queries.findIndex((q) => q.includes('INSERT INTO notification_outbox'));
+            expect(outbox).toBeGreaterThan(0);
+            expect(db._bindings[outbox]).toContain(JSON.stringify({ preset_id: result.id }));
+            expect(db._bindings[outbox]).toContain(result.id);
+        });
+
+        it('should write preset_dyes rows alongside the preset', async () => {
+            const db = createMockD1Database();
+            const submission = createMockSubmission({ dyes: [5, 3, 1] });
+
+            const result = await createPreset(db, submission, 'user-123', 'TestUser');
+
+            expect(db._queries.some((q) => q.includes('INSERT INTO presets'))).toBe(true);
+            expect(db._bindings).toContainEqual([result.id, 5, 0]);
+            expect(db._bindings).toContainEqual([result.id, 3, 1]);
+            expect(db._bindings).toContainEqual([result.id, 1, 2]);
+        });
+
+        it('should record forked_from_id for forks', async () => {
+            const db = createMockD1Database();
+            const submission = createMockSubmission();
+
+            const original = await createPreset(db, submission, 'user-123', 'TestUser');
+            const fork = await createPreset(db, submission, 'user-123', 'TestUser', 'approved', 'parent-1');
+
+            expect(original.forked_from_id).toBeNull();
+            expect(fork.forked_from_id).toBe('parent-1');
+            const insertIndexes = db._queries.flatMap((q, i) => (q.includes('INSERT INTO presets') ? [i] : []));
+            expect(db._queries[insertIndexes[0]]).toContain('forked_from_id');
+            expect(db._bindings[insertIndexes[0]].at(-2)).toBeNull();
+            expect(db._bindings[insertIndexes[1]].at(-2)).toBe('parent-1');
+        });
+
+        it('should set pending_since only for presets created pending', async () => {
+            const db = createMockD1Database();
+            const submission = createMockSubmission();
+
+            const pending = await createPreset(db, submission, 'user-123', 'TestUser', 'pending');
+            await createPreset(db, submission, 'user-123', 'TestUser', 'approved');
+
+            const insertIndexes = db._queries.flatMap((q, i) => (q.includes('INSERT INTO presets') ? [i] : []));
+            expect(db._queries[insertIndexes[0]]).toContain('pending_since');
+            expect(db._bindings[insertIndexes[0]].at(-1)).toBe(pending.created_at);
+            expect(db._bindings[insertIndexes[1]].at(-1)).toBeNull();
+        });
+
+        it('should record a create revision in the same batch', async () => {
+            const db = createMockD1Database();
+            const submission = createMockSubmission();
+
+            const result = await createPreset(db, submission, 'user-123', 'TestUser');
+
+            const revisionIndex = db._queries.findIndex((q) => q.includes('INSERT INTO preset_revisions'));
+            expect(revisionIndex).toBeGreaterThan(db._queries.findIndex((q) => q.includes('INSERT INTO presets')));
+            expect(db._bindings[revisionIndex]).toEqual([
+                expect.any(String),
+                'create',
+                'user-123',
+                'TestUser',
+                '["name","description","dyes","tags"]',
+                result.id,
+            ]);
+        });
     });
 
     // ============================================
@@ -456,46 +1275,135 @@ describe('PresetService', () => {
     // ============================================
 
     describe('updatePresetStatus', () => {
-        it('should update preset status', async () => {
+        it('should log and update the preset in one batch', async () => {
             const db = createMockD1Database();
-            const mockRow = createMockPresetRow({ status: 'approved' });
+            db._setupMock((query) =>
+                query.includes('SELECT * FROM presets')
+                    ? createMockPresetRow({ status: 'rejected' })
+                    : { success: true, meta: { changes: 1 } }
+            );
+            const batchSpy = vi.spyOn(db, 'batch');
+            const preset = rowToPreset(createMockPresetRow({ status: 'approved' }));
+
+            const result = await updatePresetStatus(db, { preset, action: 'reject' }, 'rejected', 'mod-1', 'Spam');
+
+            expect(result?.status).toBe('rejected');
+            expect(batchSpy).toHaveBeenCalledTimes(1);
+            expect(db._queries[0]).toContain('INSERT INTO moderation_log');
+            const update = db._queries.findIndex((q) => q.includes('UPDATE presets'));
+            expect(db._queries[update]).toContain(PENDING_SINCE_ASSIGNMENT);
+            expect(db._bindings[update]).toEqual([
+                'rejected',
+                'rejected',
+                expect.any(String),
+                expect.any(String),
+                'preset-1',
+                'approved',
+            ]);
+        });
 
-            db._setupMock(() => mockRow);
+        it('should queue the notification guarded on the log entry', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+            const preset = rowToPreset(createMockPresetRow({ status: 'pending' }));
+
+            await updatePresetStatus(
+                db,
+                { preset, action: 'approve', notification: { path: '/webhooks/test', payload: {}, preset_id: 'preset-1' } },
+                'approved',
+                'mod-1',
+                null
+            );
+
+            const outbox = db._queries.findIndex((q) => q.includes('INSERT INTO notification_outbox'));
+            expect(db._queries[outbox]).toContain('WHERE EXISTS (SELECT 1 FROM moderation_log WHERE id = ?)');
+            expect(db._bindings[outbox][6]).toBe(db._bindings[0][0]);
+        });
 
-            await updatePresetStatus(db, 'preset-1', 'rejected');
+        it('should return null if the status changed concurrently', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+            const preset = rowToPreset(createMockPresetRow({ status: 'pending' }));
 
-            expect(db._queries.some((q) => q.includes('UPDATE presets'))).toBe(true);
-            expect(db._bindings.some((b) => b.includes('rejected'))).toBe(true);
+            expect(await updatePresetStatus(db, { preset, action: 'approve' }, 'approved', 'mod-1', null)).toBeNull();
         });
     });
 
     // ============================================
-    // getPendingPresets
+    // getPresetsByIds
     // ============================================
 
-    describe('getPendingPresets', () => {
-        it('should return only pending presets', async () => {
+    describe('getPresetsByIds', () => {
+        it('should fetch all presets in one query', async () => {
             const db = createMockD1Database();
-            const mockRows = [
-                createMockPresetRow({ status: 'pending' }),
-                createMockPresetRow({ status: 'pending' }),
-            ];
+            db._setupMock(() => [createMockPresetRow({ id: 'preset-1' }), createMockPresetRow({ id: 'preset-2' })]);
 
-            db._setupMock(() => mockRows);
+            const presets = await getPresetsByIds(db, ['preset-1', 'preset-2', 'missing']);
+
+            expect(presets.map((p) => p.id)).toEqual(['preset-1', 'preset-2']);
+            expect(db._queries[0]).toContain('WHERE id IN (?, ?, ?)');
+            expect(db._bindings[0]).toEqual(['preset-1', 'preset-2', 'missing']);
+        });
+
+        it('should not query for an empty list', async () => {
+            const db = createMockD1Database();
+
+            expect(await getPresetsByIds(db, [])).toEqual([]);
+            expect(db._queries).toHaveLength(0);
+        });
+    });
+
+    // ============================================
+    // bulkUpdatePresetStatus
+    // ============================================
+
+    describe('bulkUpdatePresetStatus', () => {
+        it('should log and update each preset guarded on the status it had', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+            const changes = [
+                { preset: rowToPreset(createMockPresetRow({ id: 'preset-1', status: 'pending' })), action: 'reject' as const },
+                { preset: rowToPreset(createMockPresetRow({ id: 'preset-2', status: 'flagged' })), action: 'reject' as const },
+            ];
 
-            const result = await getPendingPresets(db);
+            const updated = await bulkUpdatePresetStatus(db, changes, 'rejected', 'mod-1', 'Spam wave');
+
+            expect([...updated]).toEqual(['preset-1', 'preset-2']);
+            expect(db._queries).toHaveLength(6);
+            expect(db._queries[0]).toContain('INSERT INTO moderation_log');
+            expect(db._queries[0]).toContain('WHERE id = ? AND status = ?');
+            expect(db._bindings[0]).toEqual(expect.arrayContaining(['mod-1', 'reject', 'Spam wave', 'preset-1', 'pending']));
+            expect(db._queries[1]).toContain('UPDATE presets');
+            expect(db._bindings[4]).toEqual(['rejected', 'rejected', expect.any(String), expect.any(String), 'preset-2', 'flagged']);
+            // Each applied change releases the preset's queue claim
+            expect(db._queries[2]).toContain('DELETE FROM preset_claims WHERE preset_id = ? AND EXISTS');
+            expect(db._bindings[2]).toEqual(['preset-1', db._bindings[0][0]]);
+        });
 
-            expect(result.length).toBe(2);
-            expect(db._queries[0]).toContain("status = 'pending'");
+        it('should leave out presets whose status changed concurrently', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query, bindings) => ({
+                success: true,
+                meta: { changes: query.includes('UPDATE presets') && bindings[4] === 'preset-2' ? 0 : 1 },
+            }));
+            const changes = ['preset-1', 'preset-2'].map((id) => ({
+                preset: rowToPreset(createMockPresetRow({ id, status: 'pending' })),
+                action: 'approve' as const,
+            }));
+
+            const updated = await bulkUpdatePresetStatus(db, changes, 'approved', 'mod-1', null);
+
+            expect(updated.has('preset-1')).toBe(true);
+            expect(updated.has('preset-2')).toBe(false);
         });
 
-        it('should order by created_at ASC', async () => {
+        it('should not run a batch with no changes', async () => {
             const db = createMockD1Database();
-            db._setupMock(() => []);
 
-            await getPendingPresets(db);
+            const updated = await bulkUpdatePresetStatus(db, [], 'approved', 'mod-1', null);
 
-            expect(db._queries[0]).toContain('created_at ASC');
+            expect(updated.size).toBe(0);
+            expect(db._queries).toHaveLength(0);
         });
     });
 
@@ -540,6 +1448,20 @@ describe('PresetService', () => {
         });
     });
 
+    // ============================================
+    // isUniqueViolation
+    // ============================================
+
+    describe('isUniqueViolation', () => {
+        it('should match UNIQUE errors on the given target only', () => {
+            const error = new Error('D1_ERROR: UNIQUE constraint failed: presets.dye_signature');
+
+            expect(isUniqueViolation(error, 'presets.dye_signature')).toBe(true);
+            expect(isUniqueViolation(error, 'preset_revisions.')).toBe(false);
+            expect(isUniqueViolation(new Error('presets.dye_signature is invalid'), 'presets.dye_signature')).toBe(false);
+        });
+    });
+
     // ============================================
     // updatePreset
     // ============================================
@@ -567,6 +1489,42 @@ describe('PresetService', () => {
             expect(db._bindings.some((b) => b.includes('New description that is long enough'))).toBe(true);
         });
 
+        it('should write the outbox notification in the same batch', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => createMockPresetRow());
+
+            await updatePreset(db, 'preset-1', { name: 'New Name' }, undefined, 'pending', undefined, {
+                path: '/webhooks/preset-submission',
+                payload: { type: 'submission' },
+                preset_id: 'preset-1',
+            });
+
+            const outbox = db._queries.findIndex((q) => q.includes('INSERT INTO notification_outbox'));
+            expect(outbox).toBeGreaterThan(db._queries.findIndex((q) => q.includes('UPDATE presets')));
+            expect(db._bindings[outbox]).toContain('{"type":"submission"}');
+        });
+
+        it('should sync preset_dyes in the same batch when dyes change', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => createMockPresetRow());
+
+            await updatePreset(db, 'preset-1', { dyes: [7, 8] });
+
+            expect(db._queries.some((q) => q.includes('UPDATE presets'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('DELETE FROM preset_dyes'))).toBe(true);
+            expect(db._bindings).toContainEqual(['preset-1', 7, 0]);
+            expect(db._bindings).toContainEqual(['preset-1', 8, 1]);
+        });
+
+        it('should not touch preset_dyes when dyes are unchanged', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => createMockPresetRow());
+
+            await updatePreset(db, 'preset-1', { name: 'New Name' });
+
+            expect(db._queries.some((q) => q.includes('preset_dyes'))).toBe(false);
+        });
+
         it('should update tags field', async () => {
             const db = createMockD1Database();
             db._setupMock(() => createMockPresetRow());
@@ -650,6 +1608,31 @@ describe('PresetService', () => {
             const updateQuery = db._queries.find((q) => q.includes('UPDATE presets'));
             expect(updateQuery).toContain('updated_at = ?');
         });
+
+        it('should record an edit revision with the changed fields and editor', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => createMockPresetRow());
+
+            await updatePreset(
+                db,
+                'preset-1',
+                { name: 'New Name', dyes: [7, 8] },
+                undefined,
+                'approved',
+                { discordId: 'user-1', name: 'Editor' }
+            );
+
+            const revisionIndex = db._queries.findIndex((q) => q.includes('INSERT INTO preset_revisions'));
+            expect(revisionIndex).toBeGreaterThan(db._queries.findIndex((q) => q.includes('UPDATE presets')));
+            expect(db._bindings[revisionIndex]).toEqual([
+                expect.any(String),
+                'edit',
+                'user-1',
+                'Editor',
+                '["name","dyes"]',
+                'preset-1',
+            ]);
+        });
     });
 
     // ============================================
@@ -702,6 +1685,25 @@ describe('PresetService', () => {
             expect(updateQuery).toBeDefined();
         });
 
+        it('should restore preset_dyes rows from previous values', async () => {
+            const db = createMockD1Database();
+            const mockRow = createMockPresetRow({
+                previous_values: JSON.stringify({
+                    name: 'Original Name',
+                    description: 'Original Description',
+                    tags: [],
+                    dyes: [10, 20],
+                }),
+            });
+            db._setupMock(() => mockRow);
+
+            await revertPreset(db, 'preset-1');
+
+            expect(db._queries.some((q) => q.includes('DELETE FROM preset_dyes'))).toBe(true);
+            expect(db._bindings).toContainEqual(['preset-1', 10, 0]);
+            expect(db._bindings).toContainEqual(['preset-1', 20, 1]);
+        });
+
         it('should set status to approved after revert', async () => {
             const db = createMockD1Database();
             const previousValues = {
@@ -718,8 +1720,249 @@ describe('PresetService', () => {
 
             await revertPreset(db, 'preset-1');
 
-            const updateQuery = db._queries.find((q) => q.includes("status = 'approved'"));
-            expect(updateQuery).toBeDefined();
+            const updateQuery = db._queries.find((q) => q.includes('UPDATE presets'));
+            expect(updateQuery).toContain("ELSE 'approved' END");
+        });
+
+        it('should keep hidden and rejected presets unpublished', async () => {
+            const db = createMockD1Database();
+            const mockRow = createMockPresetRow({
+                previous_values: JSON.stringify({ name: 'Original', description: 'Original', tags: [], dyes: [10, 20] }),
+            });
+            db._setupMock(() => mockRow);
+
+            await revertPreset(db, 'preset-1');
+
+            const updateQuery = db._queries.find((q) => q.includes('UPDATE presets'));
+            expect(updateQuery).toContain("WHEN status IN ('hidden', 'rejected') THEN status");
+        });
+
+        it('should retry when a concurrent edit takes the revision number', async () => {
+            const db = createMockD1Database();
+            const mockRow = createMockPresetRow({
+                previous_values: JSON.stringify({ name: 'Original', description: 'Original', tags: [], dyes: [10, 20] }),
+            });
+            let conflicts = 0;
+            db._setupMock((query: string) => {
+                if (query.includes('INSERT INTO preset_revisions') && conflicts++ === 0) {
+                    throw new Error('UNIQUE constraint failed: preset_revisions.preset_id, preset_revisions.revision_number');
+                }
+                return mockRow;
+            });
+
+            const result = await revertPreset(db, 'preset-1');
+
+            expect(result).not.toBeNull();
+            expect(db._queries.filter((q) => q.includes('INSERT INTO preset_revisions'))).toHaveLength(2);
+        });
+
+        it('should not retry other errors', async () => {
+            const db = createMockD1Database();
+            const mockRow = createMockPresetRow({
+                previous_values: JSON.stringify({ name: 'Original', description: 'Original', tags: [], dyes: [10, 20] }),
+            });
+            db._setupMock((query: string) => {
+                if (query.includes('UPDATE presets')) {
+                    throw new Error('UNIQUE constraint failed: presets.dye_signature');
+                }
+                return mockRow;
+            });
+
+            await expect(revertPreset(db, 'preset-1')).rejects.toThrow('presets.dye_signature');
+        });
+
+        it('should record a revert revision listing the restored fields', async () => {
+            const db = createMockD1Database();
+            const mockRow = createMockPresetRow({
+                name: 'Flagged Name',
+                description: 'Original Description',
+                tags: JSON.stringify([]),
+                dyes: JSON.stringify([10, 20]),
+                previous_values: JSON.stringify({
+                    name: 'Original Name',
+                    description: 'Original Description',
+                    tags: [],
+                    dyes: [10, 20],
+                }),
+            });
+            db._setupMock(() => mockRow);
+
+            await revertPreset(db, 'preset-1', { editor: { discordId: 'mod-1', name: 'Mod' } });
+
+            const revisionIndex = db._queries.findIndex((q) => q.includes('INSERT INTO preset_revisions'));
+            expect(db._bindings[revisionIndex]).toEqual([
+                expect.any(String),
+                'revert',
+                'mod-1',
+                'Mod',
+                '["name"]',
+                'preset-1',
+            ]);
+        });
+
+        it('should log the revert and queue the notification in the same batch', async () => {
+            const db = createMockD1Database();
+            const mockRow = createMockPresetRow({
+                status: 'flagged',
+                previous_values: JSON.stringify({ name: 'Original Name', description: 'Original', tags: [], dyes: [10, 20] }),
+            });
+            db._setupMock(() => mockRow);
+            const batchSpy = vi.spyOn(db, 'batch');
+            const notification = vi.fn((preset: CommunityPreset) => ({
+                path: '/webhooks/test',
+                payload: { name: preset.name, status: preset.status },
+                preset_id: preset.id,
+            }));
+
+            await revertPreset(db, 'preset-1', {
+                editor: { discordId: 'mod-1', name: 'Mod' },
+                log: { moderatorDiscordId: 'mod-1', reason: 'Offensive edit' },
+                notification,
+            });
+
+            expect(batchSpy).toHaveBeenCalledTimes(1);
+            const [statements] = batchSpy.mock.calls[0];
+            const log = db._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            const outbox = db._queries.findIndex((q) => q.includes('INSERT INTO notification_outbox'));
+            expect(statements).toHaveLength(outbox + 1);
+            expect(db._bindings[log]).toEqual([expect.any(String), 'preset-1', 'mod-1', 'Offensive edit', expect.any(String)]);
+            expect(JSON.parse(db._bindings[outbox][2] as string)).toEqual({ name: 'Original Name', status: 'approved' });
+        });
+
+        it('should restore a specific revision snapshot', async () => {
+            const db = createMockD1Database();
+            const mockRow = createMockPresetRow({ id: 'preset-1', previous_values: null });
+            const revisionRow = createRevisionRow(2, {
+                name: 'Revision Two',
+                description: 'Second version of this preset',
+                dyes: [5729, 5738],
+                tags: ['two'],
+            });
+            db._setupMock((query: string) => {
+                if (query.includes('FROM preset_revisions')) return [revisionRow];
+                return mockRow;
+            });
+
+            const result = await revertPreset(db, 'preset-1', { revision: 2 });
+
+            expect(result).not.toBeNull();
+            const updateIndex = db._queries.findIndex((q) => q.includes('UPDATE presets'));
+            expect(db._bindings[updateIndex].slice(0, 4)).toEqual([
+                'Revision Two',
+                'Second version of this preset',
+                '[5729,5738]',
+                '["two"]',
+            ]);
+            expect(db._bindings).toContainEqual(['preset-1', 5738, 1]);
+        });
+
+        it('should return null if the revision does not exist', async () => {
+            const db = createMockD1Database();
+            const mockRow = createMockPresetRow({ id: 'preset-1' });
+            db._setupMock((query: string) => {
+                if (query.includes('FROM preset_revisions')) return [];
+                return mockRow;
+            });
+
+            const result = await revertPreset(db, 'preset-1', { revision: 9 });
+
+            expect(result).toBeNull();
+            expect(db._queries.some((q) => q.includes('UPDATE presets'))).toBe(false);
+        });
+    });
+
+    // ============================================
+    // Preset revisions
+    // ============================================
+
+    function createRevisionRow(
+        revisionNumber: number,
+        snapshot: { name: string; description: string; dyes: number[]; tags: string[] },
+        overrides: Partial<PresetRevisionRow> = {}
+    ): PresetRevisionRow {
+        return {
+            id: `rev-${revisionNumber}`,
+            preset_id: 'preset-1',
+            revision_number: revisionNumber,
+            action: revisionNumber === 1 ? 'create' : 'edit',
+            editor_discord_id: 'user-1',
+            editor_name: 'Editor',
+            changed_fields: JSON.stringify(['name']),
+            snapshot: JSON.stringify(snapshot),
+            created_at: `2026-01-0${revisionNumber}T00:00:00.000Z`,
+            ...overrides,
+        };
+    }
+
+    const baseSnapshot = {
+        name: 'First',
+        description: 'First description here',
+        dyes: [5729, 5738],
+        tags: ['one'],
+    };
+
+    describe('buildPresetRevisionStatement', () => {
+        it('should snapshot the stored preset and number the revision in SQL', () => {
+            const db = createMockD1Database();
+
+            buildPresetRevisionStatement(db, 'preset-1', 'edit', ['tags'], { discordId: null, name: null });
+
+            expect(db._queries[0]).toContain('INSERT INTO preset_revisions');
+            expect(db._queries[0]).toContain('MAX(revision_number)');
+            expect(db._queries[0]).toContain('json_object');
+            expect(db._bindings[0]).toEqual([expect.any(String), 'edit', null, null, '["tags"]', 'preset-1']);
+        });
+    });
+
+    describe('getPresetRevisions', () => {
+        it('should return revisions newest first with diffs against the previous revision', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [
+                createRevisionRow(1, baseSnapshot),
+                createRevisionRow(2, { ...baseSnapshot, name: 'Second', dyes: [5729, 13115] }),
+            ]);
+
+            const revisions = await getPresetRevisions(db, 'preset-1');
+
+            expect(db._queries[0]).toContain('ORDER BY revision_number ASC');
+            expect(revisions.map((r) => r.revision_number)).toEqual([2, 1]);
+            expect(revisions[0].diff).toEqual({
+                name: { from: 'First', to: 'Second' },
+                dyes: { from: [5729, 5738], to: [5729, 13115] },
+            });
+            expect(revisions[1].diff).toBeNull();
+            expect(revisions[1].snapshot).toEqual(baseSnapshot);
+            expect(revisions[0].changed_fields).toEqual(['name']);
+        });
+
+        it('should return an empty array when there is no history', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            expect(await getPresetRevisions(db, 'preset-1')).toEqual([]);
+        });
+    });
+
+    describe('getPresetRevision', () => {
+        it('should return the revision with its diff', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [
+                createRevisionRow(1, baseSnapshot),
+                createRevisionRow(2, { ...baseSnapshot, tags: ['one', 'two'] }),
+            ]);
+
+            const revision = await getPresetRevision(db, 'preset-1', 2);
+
+            expect(db._bindings[0]).toEqual(['preset-1', 1, 2]);
+            expect(revision?.revision_number).toBe(2);
+            expect(revision?.diff).toEqual({ tags: { from: ['one'], to: ['one', 'two'] } });
+        });
+
+        it('should return null when the revision does not exist', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [createRevisionRow(1, baseSnapshot)]);
+
+            expect(await getPresetRevision(db, 'preset-1', 2)).toBeNull();
         });
     });
 });
@@ -0,0 +1,148 @@
+/**
+ * Moderation Queue Service Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    CLAIM_DURATION_MINUTES,
+    DEFAULT_MODERATION_SLA_HOURS,
+    resolveModerationSlaHours,
+    getActiveClaim,
+    claimPreset,
+    releaseClaim,
+    getPendingPresets,
+    getQueueMetrics,
+} from '../../src/services/queue-service';
+import type { PendingPreset } from '../../src/types';
+import { createMockD1Database, createMockPresetRow } from '../test-utils';
+
+describe('QueueService', () => {
+    const now = new Date('2026-03-31T12:00:00.000Z');
+    let db: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        db = createMockD1Database();
+    });
+
+    describe('resolveModerationSlaHours', () => {
+        it('should parse non-negative hours', () => {
+            expect(resolveModerationSlaHours('48')).toBe(48);
+            expect(resolveModerationSlaHours('0.5')).toBe(0.5);
+            expect(resolveModerationSlaHours('0')).toBe(0);
+        });
+
+        it('should fall back to the default when unset or invalid', () => {
+            expect(resolveModerationSlaHours(undefined)).toBe(DEFAULT_MODERATION_SLA_HOURS);
+            expect(resolveModerationSlaHours(' ')).toBe(DEFAULT_MODERATION_SLA_HOURS);
+            expect(resolveModerationSlaHours('-1')).toBe(DEFAULT_MODERATION_SLA_HOURS);
+            expect(resolveModerationSlaHours('soon')).toBe(DEFAULT_MODERATION_SLA_HOURS);
+        });
+    });
+
+    describe('claimPreset', () => {
+        it('should claim a pending preset until the claim expires', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const claim = await claimPreset(db as unknown as D1Database, 'preset-1', 'mod-1', now);
+
+            expect(claim).toEqual({
+                preset_id: 'preset-1',
+                moderator_discord_id: 'mod-1',
+                claimed_at: now.toISOString(),
+                expires_at: new Date(now.getTime() + CLAIM_DURATION_MINUTES * 60 * 1000).toISOString(),
+            });
+            expect(db._queries[0]).toContain("status = 'pending'");
+            expect(db._queries[0]).toContain('preset_claims.expires_at <= excluded.claimed_at');
+        });
+
+        it('should return null when another moderator holds the claim', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            expect(await claimPreset(db as unknown as D1Database, 'preset-1', 'mod-2', now)).toBeNull();
+        });
+    });
+
+    describe('getActiveClaim', () => {
+        it('should ignore expired claims', async () => {
+            db._setupMock(() => null);
+
+            expect(await getActiveClaim(db as unknown as D1Database, 'preset-1', now)).toBeNull();
+            expect(db._queries[0]).toContain('expires_at > ?');
+            expect(db._bindings[0]).toEqual(['preset-1', now.toISOString()]);
+        });
+    });
+
+    describe('releaseClaim', () => {
+        it('should only delete the given moderator\'s claim', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            expect(await releaseClaim(db as unknown as D1Database, 'preset-1', 'mod-1')).toBe(false);
+            expect(db._bindings[0]).toEqual(['preset-1', 'mod-1']);
+        });
+    });
+
+    describe('getPendingPresets', () => {
+        it('should return only pending presets with their claims and time in queue', async () => {
+            db._setupMock(() => [
+                {
+                    ...createMockPresetRow({ id: 'p1', status: 'pending', updated_at: '2026-03-31T10:00:00.000Z' }),
+                    claimed_by: 'mod-1',
+                    claim_expires_at: '2026-03-31T12:20:00.000Z',
+                },
+                createMockPresetRow({ id: 'p2', status: 'pending', updated_at: '2026-03-31T11:59:00.000Z' }),
+            ]);
+
+            const presets = await getPendingPresets(db as unknown as D1Database, now);
+
+            expect(presets).toHaveLength(2);
+            expect(presets[0]).toMatchObject({
+                id: 'p1',
+                claimed_by: 'mod-1',
+                pending_since: '2026-03-31T10:00:00.000Z',
+                time_in_queue_seconds: 7200,
+            });
+            expect(presets[1]).toMatchObject({ claimed_by: null, claim_expires_at: null, time_in_queue_seconds: 60 });
+            expect(db._queries[0]).toContain("status = 'pending'");
+            expect(db._queries[0]).toContain('ORDER BY p.pending_since ASC');
+        });
+
+        it('should measure time in queue from pending_since, not the last vote', async () => {
+            db._setupMock(() => [
+                {
+                    ...createMockPresetRow({ id: 'p1', status: 'pending', updated_at: '2026-03-31T11:59:00.000Z' }),
+                    pending_since: '2026-03-30T12:00:00.000Z',
+                },
+            ]);
+
+            const [preset] = await getPendingPresets(db as unknown as D1Database, now);
+
+            expect(preset).toMatchObject({
+                pending_since: '2026-03-30T12:00:00.000Z',
+                time_in_queue_seconds: 24 * 3600,
+            });
+        });
+    });
+
+    describe('getQueueMetrics', () => {
+        const pending = (seconds: number, claimedBy: string | null = null) =>
+            ({ time_in_queue_seconds: seconds, claimed_by: claimedBy }) as PendingPreset;
+
+        it('should summarize the queue against the SLA', () => {
+            const metrics = getQueueMetrics([pending(3600), pending(30 * 3600, 'mod-1'), pending(50 * 3600)], 24);
+
+            expect(metrics).toEqual({
+                pending: 3,
+                claimed: 1,
+                overdue: 2,
+                oldest_seconds: 50 * 3600,
+                average_seconds: 27 * 3600,
+                sla_hours: 24,
+            });
+        });
+
+        it('should report an empty queue and no overdue presets without an SLA', () => {
+            expect(getQueueMetrics([], 24)).toMatchObject({ pending: 0, oldest_seconds: 0, average_seconds: 0 });
+            expect(getQueueMetrics([pending(100 * 3600)], 0).overdue).toBe(0);
+        });
+    });
+});
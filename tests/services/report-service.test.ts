@@ -0,0 +1,162 @@
+/**
+ * Report Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    DEFAULT_REPORT_FLAG_THRESHOLD,
+    resolveReportFlagThreshold,
+    submitReport,
+    getReportQueue,
+    getPresetReports,
+    resolveReports,
+} from '../../src/services/report-service';
+import { SYSTEM_MODERATOR_ID } from '../../src/services/maintenance-service';
+import { createMockD1Database, createMockPresetRow, resetCounters } from '../test-utils';
+
+describe('ReportService', () => {
+    let db: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        resetCounters();
+        db = createMockD1Database();
+        vi.clearAllMocks();
+    });
+
+    describe('resolveReportFlagThreshold', () => {
+        it('should default when unset, blank or invalid', () => {
+            expect(resolveReportFlagThreshold(undefined)).toBe(DEFAULT_REPORT_FLAG_THRESHOLD);
+            expect(resolveReportFlagThreshold(' ')).toBe(DEFAULT_REPORT_FLAG_THRESHOLD);
+            expect(resolveReportFlagThreshold('2.5')).toBe(DEFAULT_REPORT_FLAG_THRESHOLD);
+            expect(resolveReportFlagThreshold('-1')).toBe(DEFAULT_REPORT_FLAG_THRESHOLD);
+        });
+
+        it('should accept non-negative integers', () => {
+            expect(resolveReportFlagThreshold('5')).toBe(5);
+            expect(resolveReportFlagThreshold('0')).toBe(0);
+        });
+    });
+
+    describe('submitReport', () => {
+        it('should insert the report and flag steps in one batch', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const result = await submitReport(db, 'preset-1', 'user-1', { reason: 'spam' }, 3);
+
+            expect(result.report?.status).toBe('open');
+            expect(result.auto_flagged).toBe(true);
+            expect(db._queries[0]).toContain('INSERT INTO preset_reports');
+            expect(db._queries[0]).toContain('ON CONFLICT (preset_id, reporter_discord_id) DO NOTHING');
+
+            const log = db._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            const flag = db._queries.findIndex((q) => q.includes("SET status = 'flagged'"));
+            expect(log).toBeGreaterThan(0);
+            expect(flag).toBeGreaterThan(log);
+            expect(db._bindings[log][0]).toBe(SYSTEM_MODERATOR_ID);
+            // Only the report inserted by this call can trigger the flag
+            expect(db._bindings[flag]).toEqual([expect.any(String), 'preset-1', result.report!.id, 3]);
+        });
+
+        it('should not flag below the threshold', async () => {
+            db._setupMock((query: string) =>
+                query.includes('INSERT INTO preset_reports')
+                    ? { success: true, meta: { changes: 1 } }
+                    : { success: true, meta: { changes: 0 } }
+            );
+
+            const result = await submitReport(db, 'preset-1', 'user-1', { reason: 'stolen' }, 3);
+
+            expect(result.report).not.toBeNull();
+            expect(result.auto_flagged).toBe(false);
+        });
+
+        it('should return no report for a duplicate', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            const result = await submitReport(db, 'preset-1', 'user-1', { reason: 'spam' }, 3);
+
+            expect(result).toEqual({ report: null, auto_flagged: false });
+        });
+
+        it('should skip the flag steps when auto-flagging is disabled', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const result = await submitReport(db, 'preset-1', 'user-1', { reason: 'other', details: 'Copied' }, 0);
+
+            expect(result.auto_flagged).toBe(false);
+            expect(db._queries).toHaveLength(1);
+            expect(db._bindings[0][4]).toBe('Copied');
+        });
+    });
+
+    describe('getReportQueue', () => {
+        it('should summarize open reports per preset', async () => {
+            db._setupMock(() => [
+                {
+                    ...createMockPresetRow({ id: 'preset-1' }),
+                    open_reports: 3,
+                    first_reported_at: '2026-01-01T00:00:00.000Z',
+                    last_reported_at: '2026-01-02T00:00:00.000Z',
+                    reason_offensive_name: 2,
+                    reason_spam: 1,
+                    reason_stolen: 0,
+                    reason_other: 0,
+                    _total: 1,
+                },
+            ]);
+
+            const queue = await getReportQueue(db);
+
+            expect(queue.total).toBe(1);
+            expect(queue.items[0].preset.id).toBe('preset-1');
+            expect(queue.items[0].open_reports).toBe(3);
+            expect(queue.items[0].reasons).toEqual({ offensive_name: 2, spam: 1, stolen: 0, other: 0 });
+            expect(db._queries[0]).toContain("WHERE status = 'open'");
+            expect(db._queries[0]).toContain('ORDER BY r.open_reports DESC');
+        });
+
+        it('should return an empty queue', async () => {
+            db._setupMock(() => []);
+
+            const queue = await getReportQueue(db, { page: 2, limit: 10 });
+
+            expect(queue).toEqual({ items: [], total: 0, page: 2, limit: 10, has_more: false });
+            expect(db._bindings[0]).toEqual([10, 10]);
+        });
+    });
+
+    describe('getPresetReports', () => {
+        it('should return all reports for a preset', async () => {
+            db._setupMock(() => [
+                {
+                    id: 'report-1',
+                    preset_id: 'preset-1',
+                    reporter_discord_id: 'user-1',
+                    reason: 'spam',
+                    details: null,
+                    status: 'dismissed',
+                    created_at: '2026-01-01T00:00:00.000Z',
+                    resolved_at: '2026-01-02T00:00:00.000Z',
+                    resolved_by_discord_id: '123456789',
+                },
+            ]);
+
+            const reports = await getPresetReports(db, 'preset-1');
+
+            expect(reports).toHaveLength(1);
+            expect(reports[0].status).toBe('dismissed');
+        });
+    });
+
+    describe('resolveReports', () => {
+        it('should close only open reports', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 2 } }));
+
+            const closed = await resolveReports(db, 'preset-1', 'dismissed', '123456789');
+
+            expect(closed).toBe(2);
+            expect(db._queries[0]).toContain("status = 'open'");
+            expect(db._bindings[0]).toEqual(['dismissed', expect.any(String), '123456789', 'preset-1']);
+        });
+    });
+});
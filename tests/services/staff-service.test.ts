@@ -0,0 +1,105 @@
+/**
+ * Staff Service Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    roleHasPermission,
+    getStaffRole,
+    getStaffMembers,
+    grantStaffRole,
+    revokeStaffRole,
+} from '../../src/services/staff-service';
+import { createMockD1Database } from '../test-utils';
+
+describe('StaffService', () => {
+    let db: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        db = createMockD1Database();
+    });
+
+    describe('roleHasPermission', () => {
+        it('should grant each role its permissions', () => {
+            expect(roleHasPermission('owner', 'manage_roles')).toBe(true);
+            expect(roleHasPermission('admin', 'manage_roles')).toBe(false);
+            expect(roleHasPermission('admin', 'operate')).toBe(true);
+            expect(roleHasPermission('moderator', 'operate')).toBe(false);
+            expect(roleHasPermission('moderator', 'moderate')).toBe(true);
+            expect(roleHasPermission('curator', 'moderate')).toBe(false);
+            expect(roleHasPermission('curator', 'review')).toBe(true);
+        });
+
+        it('should grant nothing without a role', () => {
+            expect(roleHasPermission(null, 'review')).toBe(false);
+            expect(roleHasPermission(undefined, 'review')).toBe(false);
+        });
+    });
+
+    describe('getStaffRole', () => {
+        it('should return the stored role', async () => {
+            db._setupMock(() => ({ role: 'curator' }));
+
+            expect(await getStaffRole(db as unknown as D1Database, '222')).toBe('curator');
+            expect(db._bindings[0]).toEqual(['222']);
+        });
+
+        it('should return null for users without a role', async () => {
+            db._setupMock(() => null);
+
+            expect(await getStaffRole(db as unknown as D1Database, '222')).toBeNull();
+        });
+    });
+
+    describe('getStaffMembers', () => {
+        it('should list the most privileged roles first', async () => {
+            db._setupMock(() => [
+                { discord_id: '222', role: 'admin', granted_by_discord_id: '555', granted_at: '2026-01-01T00:00:00.000Z' },
+            ]);
+
+            const staff = await getStaffMembers(db as unknown as D1Database);
+
+            expect(staff).toEqual([
+                { discord_id: '222', role: 'admin', granted_by_discord_id: '555', granted_at: '2026-01-01T00:00:00.000Z' },
+            ]);
+            expect(db._queries[0]).toContain("WHEN 'owner' THEN 0");
+        });
+    });
+
+    describe('grantStaffRole', () => {
+        it('should upsert the role and log the change', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const staff = await grantStaffRole(db as unknown as D1Database, '222', 'admin', '555', 'moderator');
+
+            expect(staff).toMatchObject({ discord_id: '222', role: 'admin', granted_by_discord_id: '555' });
+            expect(db._queries[0]).toContain('ON CONFLICT(discord_id) DO UPDATE');
+            expect(db._queries[1]).toContain("'role_granted'");
+            expect(db._bindings[1].slice(1, 4)).toEqual(['222', '555', 'moderator -> admin']);
+        });
+
+        it('should log a new role on its own', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            await grantStaffRole(db as unknown as D1Database, '222', 'curator', '555', null);
+
+            expect(db._bindings[1][3]).toBe('curator');
+        });
+    });
+
+    describe('revokeStaffRole', () => {
+        it('should log the revoked role before deleting it', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            expect(await revokeStaffRole(db as unknown as D1Database, '222', '555')).toBe(true);
+            expect(db._queries[0]).toContain("'role_revoked', role");
+            expect(db._queries[1]).toContain('DELETE FROM staff_roles');
+        });
+
+        it('should return false for users without a role', async () => {
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            expect(await revokeStaffRole(db as unknown as D1Database, '222', '555')).toBe(false);
+        });
+    });
+});
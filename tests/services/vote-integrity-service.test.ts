@@ -0,0 +1,145 @@
+/**
+ * Vote Integrity Service Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    DEFAULT_INTEGRITY_REPORT_LIMIT,
+    buildVoteCountSyncStatement,
+    getStoredVoteCount,
+    getVoteIntegrityReport,
+    reconcileVoteCounts,
+} from '../../src/services/vote-integrity-service';
+import { createMockD1Database } from '../test-utils';
+
+describe('VoteIntegrityService', () => {
+    let db: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        db = createMockD1Database();
+    });
+
+    function setupMismatches(
+        rows: Array<{ preset_id: string; name: string; stored_count: number; actual_count: number; _total: number }>,
+        orphaned = 0
+    ) {
+        db._setupMock((query: string) => {
+            if (query.includes('COALESCE(v.actual_count, 0)')) {
+                return rows;
+            }
+            if (query.includes('NOT IN (SELECT id FROM presets)')) {
+                return { count: orphaned };
+            }
+            return { success: true, meta: { changes: rows.length > 0 ? rows[0]._total : 0 } };
+        });
+    }
+
+    // ============================================
+    // buildVoteCountSyncStatement
+    // ============================================
+
+    describe('buildVoteCountSyncStatement', () => {
+        it('should recount from votes and only write when the count changed', async () => {
+            db._setupMock(() => ({ success: true, results: [{ vote_count: 3 }], meta: { changes: 1 } }));
+
+            await buildVoteCountSyncStatement(db, 'preset-1', '2026-01-01T00:00:00.000Z').run();
+
+            expect(db._queries[0]).toContain('SET vote_count = (SELECT COUNT(*) FROM votes');
+            expect(db._queries[0]).toContain('AND vote_count !=');
+            expect(db._queries[0]).toContain('RETURNING vote_count');
+            expect(db._bindings[0]).toEqual(['2026-01-01T00:00:00.000Z', 'preset-1']);
+        });
+    });
+
+    // ============================================
+    // getStoredVoteCount
+    // ============================================
+
+    describe('getStoredVoteCount', () => {
+        it('should return the stored count', async () => {
+            db._setupMock(() => ({ vote_count: 9 }));
+
+            expect(await getStoredVoteCount(db, 'preset-1')).toBe(9);
+        });
+
+        it('should return 0 for a missing preset', async () => {
+            db._setupMock(() => null);
+
+            expect(await getStoredVoteCount(db, 'missing')).toBe(0);
+        });
+    });
+
+    // ============================================
+    // getVoteIntegrityReport
+    // ============================================
+
+    describe('getVoteIntegrityReport', () => {
+        it('should list mismatches with their difference', async () => {
+            setupMismatches(
+                [
+                    { preset_id: 'p1', name: 'Over', stored_count: 10, actual_count: 4, _total: 2 },
+                    { preset_id: 'p2', name: 'Under', stored_count: 0, actual_count: 1, _total: 2 },
+                ],
+                3
+            );
+
+            const report = await getVoteIntegrityReport(db);
+
+            expect(report.mismatch_count).toBe(2);
+            expect(report.orphaned_votes).toBe(3);
+            expect(report.mismatches).toEqual([
+                { preset_id: 'p1', name: 'Over', stored_count: 10, actual_count: 4, difference: 6 },
+                { preset_id: 'p2', name: 'Under', stored_count: 0, actual_count: 1, difference: -1 },
+            ]);
+            expect(report.checked_at).toEqual(expect.any(String));
+        });
+
+        it('should report no mismatches when counts agree', async () => {
+            setupMismatches([]);
+
+            const report = await getVoteIntegrityReport(db);
+
+            expect(report.mismatch_count).toBe(0);
+            expect(report.mismatches).toEqual([]);
+            expect(report.orphaned_votes).toBe(0);
+        });
+
+        it('should apply the limit', async () => {
+            setupMismatches([]);
+
+            await getVoteIntegrityReport(db, 10);
+            await getVoteIntegrityReport(db);
+
+            const reportIndexes = db._queries.flatMap((q, i) => (q.includes('COALESCE(v.actual_count, 0)') ? [i] : []));
+            expect(db._bindings[reportIndexes[0]]).toEqual([10]);
+            expect(db._bindings[reportIndexes[1]]).toEqual([DEFAULT_INTEGRITY_REPORT_LIMIT]);
+        });
+    });
+
+    // ============================================
+    // reconcileVoteCounts
+    // ============================================
+
+    describe('reconcileVoteCounts', () => {
+        it('should fix every mismatch in a single update', async () => {
+            setupMismatches([{ preset_id: 'p1', name: 'Over', stored_count: 10, actual_count: 4, _total: 5 }]);
+
+            const result = await reconcileVoteCounts(db);
+
+            expect(result.fixed).toBe(5);
+            expect(result.report.mismatch_count).toBe(5);
+            const updates = db._queries.filter((q) => q.includes('UPDATE presets'));
+            expect(updates).toHaveLength(1);
+            expect(updates[0]).toContain('WHERE vote_count != (SELECT COUNT(*) FROM votes');
+        });
+
+        it('should skip the update when there is nothing to fix', async () => {
+            setupMismatches([]);
+
+            const result = await reconcileVoteCounts(db);
+
+            expect(result.fixed).toBe(0);
+            expect(db._queries.some((q) => q.includes('UPDATE presets'))).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * Color Utility Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { normalizeHexColor, hexToLab, ciede2000, paletteDistance } from '../../src/utils/color';
+
+describe('Color Utils', () => {
+    // ============================================
+    // normalizeHexColor
+    // ============================================
+
+    describe('normalizeHexColor', () => {
+        it('should uppercase and prefix 6-digit colors', () => {
+            expect(normalizeHexColor('d9ae4e')).toBe('#D9AE4E');
+            expect(normalizeHexColor('#d9ae4e')).toBe('#D9AE4E');
+        });
+
+        it('should expand 3-digit colors', () => {
+            expect(normalizeHexColor('#fa0')).toBe('#FFAA00');
+        });
+
+        it('should trim whitespace', () => {
+            expect(normalizeHexColor(' #FFFFFF ')).toBe('#FFFFFF');
+        });
+
+        it('should reject invalid colors', () => {
+            expect(normalizeHexColor('')).toBeNull();
+            expect(normalizeHexColor('#GGGGGG')).toBeNull();
+            expect(normalizeHexColor('#FFFF')).toBeNull();
+            expect(normalizeHexColor('##FFFFFF')).toBeNull();
+        });
+    });
+
+    // ============================================
+    // hexToLab
+    // ============================================
+
+    describe('hexToLab', () => {
+        it('should convert white and black', () => {
+            const white = hexToLab('#FFFFFF');
+            expect(white.l).toBeCloseTo(100, 2);
+            expect(white.a).toBeCloseTo(0, 2);
+            expect(white.b).toBeCloseTo(0, 2);
+
+            const black = hexToLab('#000000');
+            expect(black.l).toBeCloseTo(0, 2);
+        });
+
+        it('should convert pure red', () => {
+            const red = hexToLab('#FF0000');
+            expect(red.l).toBeCloseTo(53.24, 1);
+            expect(red.a).toBeCloseTo(80.09, 1);
+            expect(red.b).toBeCloseTo(67.2, 1);
+        });
+    });
+
+    // ============================================
+    // ciede2000
+    // ============================================
+
+    describe('ciede2000', () => {
+        // Reference pairs from Sharma, Wu & Dalal (2005)
+        it.each([
+            [{ l: 50, a: 2.6772, b: -79.7751 }, { l: 50, a: 0, b: -82.7485 }, 2.0425],
+            [{ l: 50, a: 3.1571, b: -77.2803 }, { l: 50, a: 0, b: -82.7485 }, 2.8615],
+            [{ l: 50, a: -1.3802, b: -84.2814 }, { l: 50, a: 0, b: -82.7485 }, 1.0],
+            [{ l: 50, a: 2.5, b: 0 }, { l: 50, a: 0, b: -2.5 }, 4.3065],
+            [{ l: 50, a: 2.5, b: 0 }, { l: 73, a: 25, b: -18 }, 27.1492],
+            [{ l: 60.2574, a: -34.0099, b: 36.2677 }, { l: 60.4626, a: -34.1751, b: 39.4387 }, 1.2644],
+        ])('should match reference pair %#', (lab1, lab2, expected) => {
+            expect(ciede2000(lab1, lab2)).toBeCloseTo(expected, 4);
+        });
+
+        it('should be zero for identical colors', () => {
+            const color = hexToLab('#781A1A');
+            expect(ciede2000(color, color)).toBe(0);
+        });
+
+        it('should be symmetric', () => {
+            const a = hexToLab('#781A1A');
+            const b = hexToLab('#2B2923');
+            expect(ciede2000(a, b)).toBeCloseTo(ciede2000(b, a), 10);
+        });
+    });
+
+    // ============================================
+    // paletteDistance
+    // ============================================
+
+    describe('paletteDistance', () => {
+        const black = hexToLab('#1E1E1E');
+        const white = hexToLab('#F9F8F4');
+        const red = hexToLab('#781A1A');
+
+        it('should be zero for identical palettes regardless of order', () => {
+            expect(paletteDistance([black, white], [white, black])).toBe(0);
+        });
+
+        it('should be symmetric', () => {
+            expect(paletteDistance([black], [black, red])).toBeCloseTo(
+                paletteDistance([black, red], [black]),
+                10
+            );
+        });
+
+        it('should penalize an extra unrelated color', () => {
+            expect(paletteDistance([black], [black, white])).toBeGreaterThan(0);
+            expect(paletteDistance([black], [black, white])).toBeGreaterThan(
+                paletteDistance([black], [black, red])
+            );
+        });
+
+        it('should return Infinity when either palette is empty', () => {
+            expect(paletteDistance([], [black])).toBe(Infinity);
+            expect(paletteDistance([black], [])).toBe(Infinity);
+        });
+    });
+});
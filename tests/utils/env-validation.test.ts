@@ -270,6 +270,63 @@ describe('Environment Validation', () => {
             });
         });
 
+        describe('NEAR_DUPLICATE_THRESHOLD validation', () => {
+            it('should pass when not set', () => {
+                const result = validateEnv(createValidEnv());
+
+                expect(result.valid).toBe(true);
+            });
+
+            it('should pass with a non-negative number', () => {
+                expect(validateEnv(createValidEnv({ NEAR_DUPLICATE_THRESHOLD: '2.5' })).valid).toBe(true);
+                expect(validateEnv(createValidEnv({ NEAR_DUPLICATE_THRESHOLD: '0' })).valid).toBe(true);
+            });
+
+            it('should fail for invalid values', () => {
+                const result = validateEnv(createValidEnv({ NEAR_DUPLICATE_THRESHOLD: 'close' }));
+
+                expect(result.valid).toBe(false);
+                expect(result.errors).toContain('Invalid NEAR_DUPLICATE_THRESHOLD: close');
+            });
+
+            it('should fail for negative values', () => {
+                const result = validateEnv(createValidEnv({ NEAR_DUPLICATE_THRESHOLD: '-1' }));
+
+                expect(result.valid).toBe(false);
+            });
+        });
+
+        describe('REPORT_FLAG_THRESHOLD validation', () => {
+            it('should pass with a non-negative integer', () => {
+                expect(validateEnv(createValidEnv({ REPORT_FLAG_THRESHOLD: '5' })).valid).toBe(true);
+                expect(validateEnv(createValidEnv({ REPORT_FLAG_THRESHOLD: '0' })).valid).toBe(true);
+            });
+
+            it('should fail for fractional or invalid values', () => {
+                const result = validateEnv(createValidEnv({ REPORT_FLAG_THRESHOLD: '2.5' }));
+
+                expect(result.valid).toBe(false);
+                expect(result.errors).toContain('Invalid REPORT_FLAG_THRESHOLD: 2.5');
+                expect(validateEnv(createValidEnv({ REPORT_FLAG_THRESHOLD: 'many' })).valid).toBe(false);
+            });
+        });
+
+        describe('MODERATION_SLA_HOURS validation', () => {
+            it('should pass with non-negative hours', () => {
+                expect(validateEnv(createValidEnv({ MODERATION_SLA_HOURS: '24' })).valid).toBe(true);
+                expect(validateEnv(createValidEnv({ MODERATION_SLA_HOURS: '0.5' })).valid).toBe(true);
+                expect(validateEnv(createValidEnv({ MODERATION_SLA_HOURS: '0' })).valid).toBe(true);
+            });
+
+            it('should fail for negative or invalid values', () => {
+                const result = validateEnv(createValidEnv({ MODERATION_SLA_HOURS: '-1' }));
+
+                expect(result.valid).toBe(false);
+                expect(result.errors).toContain('Invalid MODERATION_SLA_HOURS: -1');
+                expect(validateEnv(createValidEnv({ MODERATION_SLA_HOURS: 'soon' })).valid).toBe(false);
+            });
+        });
+
         describe('DB binding validation', () => {
             it('should pass when DB is provided', () => {
                 const env = createValidEnv();
@@ -0,0 +1,62 @@
+/**
+ * Text Normalization Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { normalizeForMatching, stripSeparators } from '../../src/utils/text-normalization';
+
+describe('Text Normalization', () => {
+    // ============================================
+    // normalizeForMatching
+    // ============================================
+
+    describe('normalizeForMatching', () => {
+        it('should lowercase plain text', () => {
+            expect(normalizeForMatching('Sunset Palette')).toBe('sunset palette');
+        });
+
+        it('should fold full-width and half-width forms', () => {
+            expect(normalizeForMatching('ＡＩ Ｓｌｏｐ')).toBe('ai slop');
+            expect(normalizeForMatching('ｺﾞﾐ')).toBe('ゴミ');
+        });
+
+        it('should remove zero-width and other invisible characters', () => {
+            expect(normalizeForMatching('s\u200Bl\u200Co\u200Dp\uFEFF\u00AD')).toBe('slop');
+        });
+
+        it('should fold Cyrillic and Greek lookalikes', () => {
+            expect(normalizeForMatching('ѕlор')).toBe('slop');
+            expect(normalizeForMatching('ΑΙ')).toBe('ai');
+        });
+
+        it('should map leetspeak digits and symbols', () => {
+            expect(normalizeForMatching('$l0p')).toBe('slop');
+            expect(normalizeForMatching('@1 5l0p')).toBe('ai slop');
+        });
+
+        it('should drop accents from Latin letters only', () => {
+            expect(normalizeForMatching('Füllmaterial café')).toBe('fullmaterial cafe');
+            expect(normalizeForMatching('ガラクタ')).toBe('ガラクタ');
+            expect(normalizeForMatching('쓰레기')).toBe('쓰레기');
+        });
+
+        it('should keep separators', () => {
+            expect(normalizeForMatching('ki-schrott!')).toBe('ki-schrott!');
+        });
+    });
+
+    // ============================================
+    // stripSeparators
+    // ============================================
+
+    describe('stripSeparators', () => {
+        it('should remove spaces, punctuation and symbols', () => {
+            expect(stripSeparators('s h.i-t_!🌸')).toBe('shit');
+        });
+
+        it('should keep letters and digits in any script', () => {
+            expect(stripSeparators('ai 퀄리티 낮음')).toBe('ai퀄리티낮음');
+            expect(stripSeparators('ai垃圾 2')).toBe('ai垃圾2');
+        });
+    });
+});